@@ -12,6 +12,8 @@ import AdminContent from "@/pages/admin/content.tsx";
 import AdminChat from "@/pages/admin/chat.tsx";
 import AdminWorkspaces from "@/pages/admin/workspaces.tsx";
 import WorkspaceEditor from "@/pages/admin/workspace-editor.tsx";
+import AdminSearchAnalytics from "@/pages/admin/search-analytics.tsx";
+import AdminSettings from "@/pages/admin/settings.tsx";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -26,6 +28,8 @@ function Router() {
       <Route path="/admin/import" component={AdminImport} />
       <Route path="/admin/content" component={AdminContent} />
       <Route path="/admin/chat" component={AdminChat} />
+      <Route path="/admin/search" component={AdminSearchAnalytics} />
+      <Route path="/admin/settings" component={AdminSettings} />
       <Route component={NotFound} />
     </Switch>
   );
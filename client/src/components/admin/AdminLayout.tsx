@@ -13,7 +13,8 @@ import {
   User,
   Menu,
   X,
-  Users
+  Users,
+  BarChart3
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -42,6 +43,11 @@ const navigation = [
     href: "/admin/content",
     icon: FileText
   },
+  {
+    name: "Search Insights",
+    href: "/admin/search",
+    icon: BarChart3
+  },
   {
     name: "AI Assistant",
     href: "/admin/chat",
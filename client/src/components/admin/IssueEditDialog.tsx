@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Edit, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, updateIfUnchanged, StaleUpdateError } from "@/lib/queryClient";
+import { StaleChangesDialog } from "@/components/workspace/StaleChangesDialog";
+
+interface IssueFields {
+  title: string;
+  subtitle: string;
+  version: string;
+  tagline: string;
+  intro: string;
+}
+
+const FIELD_LABELS: Record<keyof IssueFields, string> = {
+  title: 'Title',
+  subtitle: 'Subtitle',
+  version: 'Version',
+  tagline: 'Tagline',
+  intro: 'Intro'
+};
+
+function fieldsOf(issue: any): IssueFields {
+  return {
+    title: issue.title || '',
+    subtitle: issue.subtitle || '',
+    version: issue.version || '',
+    tagline: issue.tagline || '',
+    intro: issue.intro || ''
+  };
+}
+
+interface IssueEditDialogProps {
+  issue: any;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function IssueEditDialog({ issue, open, onOpenChange }: IssueEditDialogProps) {
+  const { toast } = useToast();
+  // The issue as it was when editing started, and the form's current values
+  const [base, setBase] = useState<{ fields: IssueFields; updatedAt: string }>(() => ({
+    fields: fieldsOf(issue),
+    updatedAt: issue.updatedAt
+  }));
+  const [fields, setFields] = useState<IssueFields>(() => fieldsOf(issue));
+  // The server's copy when a save found the issue changed by someone else
+  const [staleIssue, setStaleIssue] = useState<any | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ values, updatedAt }: { values: IssueFields; updatedAt: string }) => {
+      const response = await updateIfUnchanged(`/api/admin/issues/${issue.slug}`, { ...values }, updatedAt, 'issue');
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Issue Updated",
+        description: result.issue.liveContent
+          ? `Saved changes to "${result.issue.title}". Readers keep the published version until the changes are reviewed and published.`
+          : `Saved changes to "${result.issue.title}"`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/issues'] });
+      setStaleIssue(null);
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      if (error instanceof StaleUpdateError) {
+        setStaleIssue(error.current);
+        return;
+      }
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update the issue.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleMerge = (merged: IssueFields) => {
+    setBase({ fields: fieldsOf(staleIssue), updatedAt: staleIssue.updatedAt });
+    setFields(merged);
+    saveMutation.mutate({ values: merged, updatedAt: staleIssue.updatedAt });
+  };
+
+  const handleDiscard = () => {
+    setBase({ fields: fieldsOf(staleIssue), updatedAt: staleIssue.updatedAt });
+    setFields(fieldsOf(staleIssue));
+    setStaleIssue(null);
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/issues'] });
+  };
+
+  const updateField = (field: keyof IssueFields, value: string) => {
+    setFields(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <>
+      <Dialog open={open && !staleIssue} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Edit className="w-4 h-4 mr-2" />
+              Edit Issue
+            </DialogTitle>
+            <DialogDescription>
+              Update the details of "{base.fields.title}".
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="issue-title">{FIELD_LABELS.title}</Label>
+                <Input
+                  id="issue-title"
+                  value={fields.title}
+                  onChange={(e) => updateField('title', e.target.value)}
+                  data-testid="input-issue-title"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issue-version">{FIELD_LABELS.version}</Label>
+                <Input
+                  id="issue-version"
+                  value={fields.version}
+                  onChange={(e) => updateField('version', e.target.value)}
+                  data-testid="input-issue-version"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issue-subtitle">{FIELD_LABELS.subtitle}</Label>
+              <Input
+                id="issue-subtitle"
+                value={fields.subtitle}
+                onChange={(e) => updateField('subtitle', e.target.value)}
+                data-testid="input-issue-subtitle"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issue-tagline">{FIELD_LABELS.tagline}</Label>
+              <Input
+                id="issue-tagline"
+                value={fields.tagline}
+                onChange={(e) => updateField('tagline', e.target.value)}
+                data-testid="input-issue-tagline"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issue-intro">{FIELD_LABELS.intro}</Label>
+              <Textarea
+                id="issue-intro"
+                value={fields.intro}
+                onChange={(e) => updateField('intro', e.target.value)}
+                rows={5}
+                data-testid="input-issue-intro"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate({ values: fields, updatedAt: base.updatedAt })}
+              disabled={!fields.title.trim() || !fields.version.trim() || saveMutation.isPending}
+              data-testid="button-save-issue"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      {staleIssue && (
+        <StaleChangesDialog
+          open={open}
+          onOpenChange={(stillOpen) => !stillOpen && setStaleIssue(null)}
+          base={base.fields}
+          ours={fields}
+          theirs={fieldsOf(staleIssue)}
+          resourceLabel="issue"
+          describePath={(path) => ({
+            section: 'Issue details',
+            field: FIELD_LABELS[path.slice(1) as keyof IssueFields] ?? path.slice(1)
+          })}
+          isSaving={saveMutation.isPending}
+          onMerge={handleMerge}
+          onDiscard={handleDiscard}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { GitCommit, Loader2, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { IssueChangelog, IssueField } from "@shared/issueChangelog";
+import { ISSUE_STATUS_LABELS, isIssueStatus } from "@shared/issueWorkflow";
+import { ChangelogSummary, SectionChangeView } from "./IssueVersionsDialog";
+
+interface IssueRevisionListItem {
+  id: string;
+  number: number;
+  changeType: 'baseline' | 'create' | 'edit' | 'publish' | 'rollback' | 'status';
+  // Username of whoever made the change, when known
+  changedBy: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+  // Workflow status after the change; null for revisions from before the workflow
+  status: string | null;
+  version: string;
+  title: string;
+  changedFields: IssueField[];
+  // Changes from the revision before; null for the first revision
+  changelog: IssueChangelog | null;
+}
+
+function describeRevision(revision: IssueRevisionListItem): string {
+  switch (revision.changeType) {
+    case 'baseline':
+      return 'Content before history was recorded';
+    case 'create':
+      return 'Created';
+    case 'publish':
+      return `Published ${revision.version}`;
+    case 'rollback':
+      return `Rolled back to revision ${revision.restoredFrom}`;
+    case 'status':
+      return `Moved to ${isIssueStatus(revision.status) ? ISSUE_STATUS_LABELS[revision.status] : revision.status}`;
+    default:
+      return 'Edited';
+  }
+}
+
+interface IssueHistoryDialogProps {
+  issue: { slug: string; title: string; updatedAt: string };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Every write to an issue, with the changes it made and rollback to any revision
+export function IssueHistoryDialog({ issue, open, onOpenChange }: IssueHistoryDialogProps) {
+  const { toast } = useToast();
+  const [selectedNumber, setSelectedNumber] = useState<number | null>(null);
+  // Kept current after rollbacks so the next one checks against the right copy
+  const [updatedAt, setUpdatedAt] = useState(issue.updatedAt);
+
+  const { data, isLoading, error } = useQuery<{ revisions: IssueRevisionListItem[] }>({
+    queryKey: ['/api/admin/issues', issue.slug, 'revisions'],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(`/api/admin/issues/${issue.slug}/revisions`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch issue history');
+      return response.json();
+    },
+    enabled: open
+  });
+  const revisions = data?.revisions || [];
+  const latest = revisions[0];
+  const selected = revisions.find(revision => revision.number === selectedNumber) || latest;
+
+  useEffect(() => {
+    setUpdatedAt(issue.updatedAt);
+  }, [issue.updatedAt]);
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (number: number) => {
+      const response = await apiRequest('POST', `/api/admin/issues/${issue.slug}/revisions/${number}/restore`, { updatedAt });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Issue Rolled Back",
+        description: result.message,
+      });
+      setUpdatedAt(result.issue.updatedAt);
+      setSelectedNumber(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/issues'] });
+    },
+    onError: (error: any) => {
+      const stale = error.message?.startsWith('409');
+      toast({
+        title: "Rollback Failed",
+        description: stale
+          ? "Someone else changed this issue. The history has been refreshed; try again."
+          : error.message || "Failed to roll back the issue.",
+        variant: "destructive"
+      });
+      if (stale) queryClient.invalidateQueries({ queryKey: ['/api/admin/issues'] });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <GitCommit className="w-4 h-4 mr-2" />
+            History of "{issue.title}"
+          </DialogTitle>
+          <DialogDescription>
+            Every change to this issue is kept. Rolling back restores an earlier revision's content as a new revision.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Loading history...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive py-4">Failed to load history.</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No changes have been recorded for this issue yet.</p>
+        ) : (
+          <div className="grid grid-cols-[260px_1fr] gap-4">
+            <ScrollArea className="h-[450px] border rounded-md">
+              <div className="p-2 space-y-1">
+                {revisions.map(revision => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => setSelectedNumber(revision.number)}
+                    className={cn(
+                      "w-full text-left rounded-md p-2 text-sm hover:bg-muted",
+                      selected?.number === revision.number && "bg-muted"
+                    )}
+                    data-testid={`issue-revision-${revision.number}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">#{revision.number}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(revision.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="text-xs">{describeRevision(revision)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {revision.changedBy || 'Unknown user'} · {revision.version}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="space-y-3 min-w-0">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">Revision {selected.number}: {describeRevision(selected)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {selected.changedBy || 'Unknown user'} on {new Date(selected.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                  {selected.number !== latest.number && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => rollbackMutation.mutate(selected.number)}
+                      disabled={rollbackMutation.isPending}
+                      data-testid={`button-rollback-revision-${selected.number}`}
+                    >
+                      {rollbackMutation.isPending
+                        ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        : <RotateCcw className="w-4 h-4 mr-2" />}
+                      Roll Back to This
+                    </Button>
+                  )}
+                </div>
+
+                <ScrollArea className="h-[400px] pr-4">
+                  {selected.changelog ? (
+                    <div className="space-y-2">
+                      <ChangelogSummary changelog={selected.changelog} />
+                      {selected.changedFields.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {selected.changedFields.map(field => (
+                            <Badge key={field} variant="outline" className="text-xs">{field} changed</Badge>
+                          ))}
+                        </div>
+                      )}
+                      {selected.changelog.sections.map(section => (
+                        <SectionChangeView key={section.id} section={section} />
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">The first recorded revision of this issue.</p>
+                  )}
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
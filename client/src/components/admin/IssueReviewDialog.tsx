@@ -0,0 +1,245 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Check, ClipboardCheck, Loader2, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AnchoredComments, CommentsPopover, threadsAt, useComments } from "@/components/comments/CommentThreads";
+import { ISSUE_STATUS_LABELS, isIssueStatus, type IssueStatus } from "@shared/issueWorkflow";
+import type { IssueSection } from "@shared/publish";
+
+export interface ReviewableIssue {
+  slug: string;
+  title: string;
+  status: string;
+  reviewerId: string | null;
+  publishedAt: string | null;
+  updatedAt: string;
+  sections: IssueSection[];
+  // The approved version readers see while changes are in review
+  liveContent?: { version: string } | null;
+}
+
+export function currentAdminId(): string | undefined {
+  return JSON.parse(localStorage.getItem('admin-user') || '{}').id;
+}
+
+export function useAdminUsers(enabled = true) {
+  return useQuery<{ users: { id: string; username: string }[] }>({
+    queryKey: ['/api/admin/users'],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch('/api/admin/users', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch users');
+      return response.json();
+    },
+    enabled
+  });
+}
+
+// Moves an issue through the editorial workflow, checked against the copy the
+// caller last saw
+export function useIssueStatusChange(onChanged?: () => void) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ issue, status, reviewerId }: { issue: ReviewableIssue; status: IssueStatus; reviewerId?: string }) => {
+      const response = await apiRequest('POST', `/api/admin/issues/${issue.slug}/status`, {
+        status,
+        reviewerId,
+        updatedAt: issue.updatedAt
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Status Changed",
+        description: `"${result.issue.title}": ${result.message}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/issues'] });
+      onChanged?.();
+    },
+    onError: (error: any) => {
+      const stale = error.message?.startsWith('409');
+      toast({
+        title: "Status Change Failed",
+        description: stale
+          ? "This issue changed since you loaded it. The list has been refreshed; try again."
+          : error.message || "Failed to change the issue's status.",
+        variant: "destructive"
+      });
+      if (stale) queryClient.invalidateQueries({ queryKey: ['/api/admin/issues'] });
+    }
+  });
+}
+
+export function IssueStatusBadge({ issue }: { issue: Pick<ReviewableIssue, 'slug' | 'status' | 'publishedAt' | 'liveContent'> }) {
+  const label = isIssueStatus(issue.status) ? ISSUE_STATUS_LABELS[issue.status] : issue.status;
+
+  const badge = issue.status === 'published' && issue.publishedAt && new Date(issue.publishedAt).getTime() > Date.now()
+    ? <Badge variant="outline" data-testid={`badge-status-${issue.slug}`}>Scheduled</Badge>
+    : (
+      <Badge
+        variant={issue.status === 'published' ? 'default' : issue.status === 'archived' ? 'outline' : 'secondary'}
+        data-testid={`badge-status-${issue.slug}`}
+      >
+        {label}
+      </Badge>
+    );
+
+  if (!issue.liveContent) return badge;
+  return (
+    <span className="inline-flex items-center gap-1">
+      {badge}
+      <Badge
+        variant="outline"
+        title="Readers see this version until the changes are published"
+        data-testid={`badge-live-${issue.slug}`}
+      >
+        {issue.liveContent.version} live
+      </Badge>
+    </span>
+  );
+}
+
+interface IssueReviewDialogProps {
+  issue: ReviewableIssue;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Pattern-by-pattern review of an issue. Anyone can comment on a pattern or
+// one of its fields; the assigned reviewer approves the issue or sends it
+// back to draft for changes.
+export function IssueReviewDialog({ issue, open, onOpenChange }: IssueReviewDialogProps) {
+  const { data: usersData } = useAdminUsers(open);
+  const reviewer = usersData?.users.find(user => user.id === issue.reviewerId);
+  const isReviewer = !!issue.reviewerId && issue.reviewerId === currentAdminId();
+
+  const commentDocument = { issueSlug: issue.slug };
+  const { threads, isLoading } = useComments(commentDocument);
+
+  const statusChange = useIssueStatusChange(() => onOpenChange(false));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ClipboardCheck className="w-4 h-4 mr-2" />
+            Review "{issue.title}"
+          </DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            <IssueStatusBadge issue={issue} />
+            <span>
+              {reviewer ? `Reviewer: ${reviewer.username}` : 'No reviewer assigned'}
+            </span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[450px] pr-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Loading comments...
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <AnchoredComments document={commentDocument} target={{}} threads={threads} />
+              {issue.sections.map(section => (
+                <div key={section.id} className="space-y-3">
+                  <h4 className="font-medium">{section.title}</h4>
+                  {section.entries.map(entry => {
+                    const target = { sectionId: section.id, pattern: entry.pattern };
+                    const openThreads = threadsAt(threads, target).filter(thread => !thread.root.resolvedAt).length;
+                    return (
+                      <div
+                        key={entry.pattern}
+                        className="border rounded-md p-3 space-y-2"
+                        data-testid={`review-pattern-${section.id}-${entry.pattern}`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">{entry.pattern}</span>
+                          {openThreads > 0 && <Badge variant="outline" className="text-xs">{openThreads} open</Badge>}
+                        </div>
+
+                        <div className="flex items-start gap-1">
+                          <p className="text-xs text-muted-foreground flex-1">{entry.description}</p>
+                          <CommentsPopover
+                            document={commentDocument}
+                            target={{ ...target, field: 'description' }}
+                            threads={threads}
+                            sectionTitle={section.title}
+                          />
+                        </div>
+                        <ul className="text-xs text-muted-foreground space-y-0.5">
+                          {entry.signals.map((signal, index) => (
+                            <li key={index} className="flex items-start gap-1">
+                              <span className="flex-1">• {signal}</span>
+                              <CommentsPopover
+                                document={commentDocument}
+                                target={{ ...target, field: `signals[${index}]` }}
+                                threads={threads}
+                                sectionTitle={section.title}
+                              />
+                            </li>
+                          ))}
+                        </ul>
+                        <div className="flex items-start gap-1">
+                          <p className="text-xs text-muted-foreground flex-1">{entry.protocol}</p>
+                          <CommentsPopover
+                            document={commentDocument}
+                            target={{ ...target, field: 'protocol' }}
+                            threads={threads}
+                            sectionTitle={section.title}
+                          />
+                        </div>
+
+                        <AnchoredComments document={commentDocument} target={target} threads={threads} />
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        {issue.status === 'in_review' && isReviewer && (
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => statusChange.mutate({ issue, status: 'draft' })}
+              disabled={statusChange.isPending}
+              data-testid="button-request-changes"
+            >
+              <Undo2 className="w-4 h-4 mr-2" />
+              Request Changes
+            </Button>
+            <Button
+              onClick={() => statusChange.mutate({ issue, status: 'approved' })}
+              disabled={statusChange.isPending}
+              data-testid="button-approve-issue"
+            >
+              <Check className="w-4 h-4 mr-2" />
+              Approve
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Eye, History, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ChangeStatus, IssueChangelog, SectionChange } from "@shared/issueChangelog";
+
+export interface IssueVersionListItem {
+  id: string;
+  version: string;
+  title: string;
+  publishedAt: string | null;
+  // When a newer version replaced it; null for the current version
+  supersededAt: string | null;
+  current: boolean;
+  sourceWorkspaceId: string | null;
+  // Changes from the version before; null for the first version
+  changelog: IssueChangelog | null;
+}
+
+const statusStyles: Record<ChangeStatus, string> = {
+  added: 'border-green-300 bg-green-50',
+  removed: 'border-red-300 bg-red-50',
+  modified: 'border-yellow-300 bg-yellow-50'
+};
+
+const statusSymbols: Record<ChangeStatus, string> = {
+  added: '+',
+  removed: '-',
+  modified: '~'
+};
+
+export function useIssueVersions(slug: string, enabled = true) {
+  return useQuery<{ versions: IssueVersionListItem[] }>({
+    queryKey: ['/api/admin/issues', slug, 'versions'],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(`/api/admin/issues/${slug}/versions`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch issue versions');
+      return response.json();
+    },
+    enabled
+  });
+}
+
+export function ChangelogSummary({ changelog }: { changelog: IssueChangelog }) {
+  const { summary } = changelog;
+  const parts = [
+    summary.sectionsAdded && `+${summary.sectionsAdded} sections`,
+    summary.sectionsRemoved && `-${summary.sectionsRemoved} sections`,
+    summary.patternsAdded && `+${summary.patternsAdded} patterns`,
+    summary.patternsRemoved && `-${summary.patternsRemoved} patterns`,
+    summary.patternsModified && `~${summary.patternsModified} patterns`
+  ].filter(Boolean);
+
+  return (
+    <span className="text-xs text-muted-foreground font-mono">
+      {parts.length > 0 ? parts.join(' ') : 'no content changes'}
+    </span>
+  );
+}
+
+export function SectionChangeView({ section }: { section: SectionChange }) {
+  return (
+    <div className={cn("border rounded-md p-2 space-y-1", statusStyles[section.status])}>
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium truncate">
+          {section.title}
+          {section.renamedFrom && (
+            <span className="text-xs text-muted-foreground font-normal"> (was "{section.renamedFrom}")</span>
+          )}
+        </div>
+        <Badge variant="secondary" className="text-xs">{section.status}</Badge>
+      </div>
+      {section.patterns.length > 0 && (
+        <ul className="text-xs space-y-0.5">
+          {section.patterns.map(pattern => (
+            <li key={`${pattern.status}-${pattern.pattern}`} className="font-mono">
+              {statusSymbols[pattern.status]} <span className="font-sans">{pattern.pattern}</span>
+              {pattern.changedFields.length > 0 && (
+                <span className="text-muted-foreground font-sans"> ({pattern.changedFields.join(', ')})</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface IssueVersionsDialogProps {
+  issue: { slug: string; title: string };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Published versions of an issue with a changelog between each
+export function IssueVersionsDialog({ issue, open, onOpenChange }: IssueVersionsDialogProps) {
+  const { data, isLoading, error } = useIssueVersions(issue.slug, open);
+  const versions = data?.versions || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="w-4 h-4 mr-2" />
+            Versions of "{issue.title}"
+          </DialogTitle>
+          <DialogDescription>
+            Each version lists the sections and patterns that changed since the one before it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[450px] pr-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Loading versions...
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive py-4">Failed to load versions.</p>
+          ) : (
+            <div className="space-y-4">
+              {versions.map(version => (
+                <div key={version.id} className="border rounded-lg p-3 space-y-2" data-testid={`issue-version-${version.version}`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{version.version}</Badge>
+                      {version.current && <Badge>Current</Badge>}
+                      <span className="text-xs text-muted-foreground">
+                        {version.publishedAt ? new Date(version.publishedAt).toLocaleDateString() : 'Unpublished'}
+                      </span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => window.open(
+                        version.current ? `/zine/${issue.slug}` : `/zine/${issue.slug}?version=${encodeURIComponent(version.version)}`,
+                        '_blank'
+                      )}
+                      data-testid={`button-view-version-${version.version}`}
+                    >
+                      <Eye className="w-3 h-3 mr-1" />
+                      View
+                    </Button>
+                  </div>
+
+                  {version.changelog ? (
+                    <>
+                      <ChangelogSummary changelog={version.changelog} />
+                      {version.changelog.sections.length > 0 && (
+                        <div className="space-y-2">
+                          {version.changelog.sections.map(section => (
+                            <SectionChangeView key={section.id} section={section} />
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">First published version</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
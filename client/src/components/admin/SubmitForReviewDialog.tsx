@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Loader2, Send } from "lucide-react";
+import { useAdminUsers, useIssueStatusChange, type ReviewableIssue } from "./IssueReviewDialog";
+
+interface SubmitForReviewDialogProps {
+  issue: ReviewableIssue;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SubmitForReviewDialog({ issue, open, onOpenChange }: SubmitForReviewDialogProps) {
+  const [reviewerId, setReviewerId] = useState(issue.reviewerId || '');
+  const { data, isLoading } = useAdminUsers(open);
+  const users = data?.users || [];
+  const statusChange = useIssueStatusChange(() => onOpenChange(false));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Send className="w-4 h-4 mr-2" />
+            Submit "{issue.title}" for Review
+          </DialogTitle>
+          <DialogDescription>
+            The reviewer comments on its patterns, then approves it or sends it back for changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Reviewer</Label>
+          <Select value={reviewerId} onValueChange={setReviewerId} disabled={isLoading}>
+            <SelectTrigger data-testid="select-issue-reviewer">
+              <SelectValue placeholder={isLoading ? "Loading..." : "Choose a reviewer"} />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => statusChange.mutate({ issue, status: 'in_review', reviewerId })}
+            disabled={!reviewerId || statusChange.isPending}
+            data-testid="button-submit-for-review"
+          >
+            {statusChange.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Submit for Review
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { isSameDay } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { CalendarClock } from "lucide-react";
+
+interface ScheduledIssue {
+  id: string;
+  slug: string;
+  title: string;
+  version: string;
+  status: string;
+  publishedAt: string;
+}
+
+interface UpcomingReleasesProps {
+  issues: { id: string; slug: string; title: string; version: string; status: string; publishedAt: string | null }[];
+}
+
+// Calendar of published issues with a release date still in the future
+export function UpcomingReleases({ issues }: UpcomingReleasesProps) {
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+
+  const now = Date.now();
+  const scheduled = issues
+    .filter((issue): issue is ScheduledIssue =>
+      issue.status === 'published' && !!issue.publishedAt && new Date(issue.publishedAt).getTime() > now
+    )
+    .sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime());
+  const releaseDays = scheduled.map(issue => new Date(issue.publishedAt));
+  const listed = selectedDay
+    ? scheduled.filter(issue => isSameDay(new Date(issue.publishedAt), selectedDay))
+    : scheduled;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarClock className="w-5 h-5 mr-2" />
+          Upcoming Releases
+        </CardTitle>
+        <CardDescription>
+          Scheduled issues stay hidden from readers, search and chat until their publish time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-[auto_1fr]">
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          defaultMonth={releaseDays[0]}
+          modifiers={{ release: releaseDays }}
+          modifiersClassNames={{ release: "font-bold text-primary underline" }}
+          className="rounded-md border"
+          data-testid="calendar-upcoming-releases"
+        />
+        <div className="space-y-3">
+          {selectedDay && (
+            <button
+              type="button"
+              onClick={() => setSelectedDay(undefined)}
+              className="text-xs text-muted-foreground hover:underline"
+              data-testid="button-show-all-releases"
+            >
+              Show all upcoming releases
+            </button>
+          )}
+          {listed.map(issue => (
+            <div
+              key={issue.id}
+              className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+              data-testid={`upcoming-release-${issue.slug}`}
+            >
+              <div>
+                <h4 className="font-medium">{issue.title}</h4>
+                <p className="text-sm text-muted-foreground">
+                  {new Date(issue.publishedAt).toLocaleString()}
+                </p>
+              </div>
+              <Badge variant="outline">{issue.version}</Badge>
+            </div>
+          ))}
+          {listed.length === 0 && (
+            <p className="text-muted-foreground text-center py-4">
+              {selectedDay ? 'Nothing scheduled for this day' : 'No releases scheduled'}
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
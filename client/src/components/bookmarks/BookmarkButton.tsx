@@ -4,6 +4,8 @@ import { Bookmark, BookmarkCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { useCurrentReader } from "@/hooks/use-reader";
+import { addLocalBookmark, getLocalBookmarks, removeLocalBookmark, sameBookmark } from "@/lib/readerState";
 
 interface BookmarkButtonProps {
   issueSlug: string;
@@ -21,11 +23,18 @@ export function BookmarkButton({
   className 
 }: BookmarkButtonProps) {
   const { toast } = useToast();
+  // Visitors' bookmarks stay in this browser until they sign in
+  const { reader, isLoading: isReaderLoading } = useCurrentReader();
+  const item = { issueSlug, sectionId, patternName, bookmarkType };
 
   // Check if item is bookmarked
   const { data: isBookmarked, isLoading } = useQuery({
-    queryKey: ['/api/bookmarks/check', issueSlug, sectionId, patternName, bookmarkType],
+    queryKey: ['/api/bookmarks/check', issueSlug, sectionId, patternName, bookmarkType, !!reader],
     queryFn: async () => {
+      if (!reader) {
+        return getLocalBookmarks().some(bookmark => sameBookmark(bookmark, item));
+      }
+
       const params = new URLSearchParams({
         issueSlug,
         bookmarkType,
@@ -39,11 +48,17 @@ export function BookmarkButton({
       const data = await response.json();
       return data.isBookmarked;
     },
+    enabled: !isReaderLoading,
   });
 
   // Add bookmark mutation
   const addBookmarkMutation = useMutation({
     mutationFn: async () => {
+      if (!reader) {
+        addLocalBookmark(item);
+        return;
+      }
+
       const response = await fetch('/api/bookmarks', {
         method: 'POST',
         headers: {
@@ -87,6 +102,11 @@ export function BookmarkButton({
   // Remove bookmark mutation
   const removeBookmarkMutation = useMutation({
     mutationFn: async () => {
+      if (!reader) {
+        removeLocalBookmark(item);
+        return;
+      }
+
       const params = new URLSearchParams({
         issueSlug,
         bookmarkType,
@@ -140,7 +160,7 @@ export function BookmarkButton({
       variant={isBookmarked ? "default" : "ghost"}
       size="icon"
       onClick={handleBookmarkToggle}
-      disabled={isLoading || isPending}
+      disabled={isReaderLoading || isLoading || isPending}
       className={className}
       aria-label={isBookmarked ? "Remove bookmark" : "Add bookmark"}
       data-testid={`bookmark-${bookmarkType}-${issueSlug}${sectionId ? `-${sectionId}` : ''}${patternName ? `-${patternName.toLowerCase().replace(/\s+/g, '-')}` : ''}`}
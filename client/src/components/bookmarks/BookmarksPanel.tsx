@@ -6,9 +6,11 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Link } from "wouter";
+import { useCurrentReader } from "@/hooks/use-reader";
+import { getLocalBookmarks } from "@/lib/readerState";
 
 interface BookmarkItem {
-  id: string;
+  id?: string;
   issueSlug: string;
   sectionId?: string;
   patternName?: string;
@@ -41,18 +43,29 @@ const bookmarkTypeColors = {
 
 export function BookmarksPanel({ isOpen, onClose }: BookmarksPanelProps) {
   const [activeTab, setActiveTab] = useState("all");
+  const { reader, isLoading: isReaderLoading } = useCurrentReader();
 
-  // Fetch bookmarks
+  // Fetch bookmarks: the account's, or a visitor's from this browser with
+  // their titles looked up
   const { data: bookmarksData, isLoading } = useQuery({
-    queryKey: ['/api/bookmarks'],
+    queryKey: ['/api/bookmarks', !!reader],
     queryFn: async () => {
-      const response = await fetch('/api/bookmarks');
+      const response = reader
+        ? await fetch('/api/bookmarks')
+        : await fetch('/api/bookmarks/describe', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ bookmarks: getLocalBookmarks() }),
+          });
       if (!response.ok) {
         throw new Error('Failed to fetch bookmarks');
       }
       return response.json();
     },
-    enabled: isOpen,
+    enabled: isOpen && !isReaderLoading,
+    staleTime: 0,
   });
 
   const bookmarks: BookmarkItem[] = bookmarksData?.bookmarks || [];
@@ -86,7 +99,7 @@ export function BookmarksPanel({ isOpen, onClose }: BookmarksPanelProps) {
       <Link
         href={getBookmarkUrl(bookmark)}
         onClick={onClose}
-        key={bookmark.id}
+        key={bookmark.id || [bookmark.issueSlug, bookmark.sectionId, bookmark.patternName, bookmark.bookmarkType].join('/')}
         className="block"
       >
         <div className="p-4 hover:bg-accent rounded-lg transition-colors group border border-border/50">
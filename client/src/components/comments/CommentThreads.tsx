@@ -0,0 +1,327 @@
+import { Fragment, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, Loader2, MessageSquare, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeCommentTarget, sameCommentTarget, type CommentTarget } from "@shared/comments";
+
+// The issue or workspace draft comments are on
+export type CommentDocument = { issueSlug: string } | { workspaceId: string };
+
+export interface CommentView {
+  id: string;
+  issueSlug: string | null;
+  workspaceId: string | null;
+  sectionId: string | null;
+  pattern: string | null;
+  field: string | null;
+  parentId: string | null;
+  author: string | null;
+  body: string;
+  // Usernames mentioned in the body
+  mentions: string[];
+  resolvedAt: string | null;
+  resolvedByName: string | null;
+  createdAt: string;
+}
+
+export interface CommentThread {
+  root: CommentView;
+  replies: CommentView[];
+}
+
+function commentsQueryKey(document: CommentDocument) {
+  return 'issueSlug' in document
+    ? ['/api/admin/comments', 'issue', document.issueSlug]
+    : ['/api/admin/comments', 'workspace', document.workspaceId];
+}
+
+export function useComments(document: CommentDocument) {
+  const query = useQuery<{ comments: CommentView[] }>({
+    queryKey: commentsQueryKey(document),
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const params = new URLSearchParams(document as Record<string, string>);
+      const response = await fetch(`/api/admin/comments?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch comments');
+      return response.json();
+    },
+    refetchInterval: 10000
+  });
+
+  const comments = query.data?.comments || [];
+  const threads: CommentThread[] = comments
+    .filter(comment => !comment.parentId)
+    .map(root => ({ root, replies: comments.filter(comment => comment.parentId === root.id) }));
+
+  return { ...query, threads };
+}
+
+// Threads anchored exactly at a target; pass `{}` for the whole document
+export function threadsAt(threads: CommentThread[], target: CommentTarget): CommentThread[] {
+  return threads.filter(thread => sameCommentTarget(thread.root, target));
+}
+
+function useCommentMutations(document: CommentDocument) {
+  const { toast } = useToast();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: commentsQueryKey(document) });
+    if ('workspaceId' in document) {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/workspaces', document.workspaceId, 'activities'] });
+    }
+  };
+  const onError = (error: any) => {
+    toast({
+      title: "Comment Failed",
+      description: error.message || "Failed to save the comment.",
+      variant: "destructive"
+    });
+  };
+
+  const create = useMutation({
+    mutationFn: async ({ target, body }: { target: CommentTarget; body: string }) => {
+      const response = await apiRequest('POST', '/api/admin/comments', { anchor: { ...document, ...target }, body });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError
+  });
+
+  const reply = useMutation({
+    mutationFn: async ({ threadId, body }: { threadId: string; body: string }) => {
+      const response = await apiRequest('POST', `/api/admin/comments/${threadId}/replies`, { body });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError
+  });
+
+  const resolve = useMutation({
+    mutationFn: async ({ threadId, resolved }: { threadId: string; resolved: boolean }) => {
+      const response = await apiRequest('POST', `/api/admin/comments/${threadId}/${resolved ? 'resolve' : 'unresolve'}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError
+  });
+
+  return { create, reply, resolve };
+}
+
+// Highlights @mentions that matched a user
+function CommentBody({ comment }: { comment: CommentView }) {
+  const mentioned = new Set(comment.mentions.map(name => name.toLowerCase()));
+  const parts = comment.body.split(/(@[A-Za-z0-9_.-]+)/g);
+
+  return (
+    <div className="whitespace-pre-wrap text-sm">
+      {parts.map((part, index) =>
+        part.startsWith('@') && mentioned.has(part.slice(1).replace(/[.-]+$/, '').toLowerCase())
+          ? <span key={index} className="font-medium text-primary">{part}</span>
+          : <Fragment key={index}>{part}</Fragment>
+      )}
+    </div>
+  );
+}
+
+function CommentComposer({
+  placeholder,
+  submitLabel,
+  pending,
+  onSubmit,
+  testId
+}: {
+  placeholder: string;
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (body: string, reset: () => void) => void;
+  testId: string;
+}) {
+  const [body, setBody] = useState('');
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        className="text-sm"
+        data-testid={`input-${testId}`}
+      />
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => onSubmit(body, () => setBody(''))}
+          disabled={!body.trim() || pending}
+          data-testid={`button-${testId}`}
+        >
+          {pending && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function CommentThreadView({
+  thread,
+  mutations
+}: {
+  thread: CommentThread;
+  mutations: ReturnType<typeof useCommentMutations>;
+}) {
+  const [replying, setReplying] = useState(false);
+  const { root, replies } = thread;
+  const resolved = !!root.resolvedAt;
+
+  return (
+    <div
+      className={cn("border rounded-md p-2 space-y-2", resolved && "opacity-60")}
+      data-testid={`comment-thread-${root.id}`}
+    >
+      {[root, ...replies].map(comment => (
+        <div key={comment.id} className={cn("space-y-0.5", comment.parentId && "pl-3 border-l")}>
+          <div className="text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">{comment.author || 'Unknown user'}</span>
+            {' · '}{new Date(comment.createdAt).toLocaleString()}
+          </div>
+          <CommentBody comment={comment} />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {resolved && `Resolved by ${root.resolvedByName || 'unknown user'}`}
+        </span>
+        <div className="flex items-center gap-1">
+          {!resolved && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setReplying(!replying)}
+              data-testid={`button-reply-comment-${root.id}`}
+            >
+              Reply
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => mutations.resolve.mutate({ threadId: root.id, resolved: !resolved })}
+            disabled={mutations.resolve.isPending}
+            data-testid={`button-${resolved ? 'unresolve' : 'resolve'}-comment-${root.id}`}
+          >
+            {resolved ? <RotateCcw className="w-3 h-3 mr-1" /> : <Check className="w-3 h-3 mr-1" />}
+            {resolved ? 'Reopen' : 'Resolve'}
+          </Button>
+        </div>
+      </div>
+
+      {replying && (
+        <CommentComposer
+          placeholder="Reply... (@username to mention)"
+          submitLabel="Reply"
+          pending={mutations.reply.isPending}
+          onSubmit={(body, reset) => mutations.reply.mutate({ threadId: root.id, body }, {
+            onSuccess: () => {
+              reset();
+              setReplying(false);
+            }
+          })}
+          testId={`reply-${root.id}`}
+        />
+      )}
+    </div>
+  );
+}
+
+interface AnchoredCommentsProps {
+  document: CommentDocument;
+  target: CommentTarget;
+  threads: CommentThread[];
+}
+
+// The threads at one anchor, with a box to start another
+export function AnchoredComments({ document, target, threads }: AnchoredCommentsProps) {
+  const mutations = useCommentMutations(document);
+  const [showResolved, setShowResolved] = useState(false);
+  const here = threadsAt(threads, target);
+  const resolvedCount = here.filter(thread => thread.root.resolvedAt).length;
+  const visible = showResolved ? here : here.filter(thread => !thread.root.resolvedAt);
+
+  return (
+    <div className="space-y-2">
+      {resolvedCount > 0 && (
+        <div className="flex items-center space-x-2">
+          <Switch
+            id={`show-resolved-${target.sectionId}-${target.pattern}-${target.field}`}
+            checked={showResolved}
+            onCheckedChange={setShowResolved}
+          />
+          <Label htmlFor={`show-resolved-${target.sectionId}-${target.pattern}-${target.field}`} className="text-xs">
+            Show {resolvedCount} resolved
+          </Label>
+        </div>
+      )}
+      {visible.map(thread => (
+        <CommentThreadView key={thread.root.id} thread={thread} mutations={mutations} />
+      ))}
+      <CommentComposer
+        placeholder="Add a comment... (@username to mention)"
+        submitLabel="Comment"
+        pending={mutations.create.isPending}
+        onSubmit={(body, reset) => mutations.create.mutate({ target, body }, { onSuccess: reset })}
+        testId={`new-comment-${[target.sectionId, target.pattern, target.field].filter(Boolean).join('-') || 'document'}`}
+      />
+    </div>
+  );
+}
+
+interface CommentsPopoverProps extends AnchoredCommentsProps {
+  // Shown in the popover header, e.g. the section title
+  sectionTitle?: string;
+  className?: string;
+}
+
+// Icon button showing the open threads at an anchor, opening them in a popover
+export function CommentsPopover({ document, target, threads, sectionTitle, className }: CommentsPopoverProps) {
+  const open = threadsAt(threads, target).filter(thread => !thread.root.resolvedAt).length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn("h-6 px-1.5 text-xs", open === 0 && "text-muted-foreground", className)}
+          onClick={(e) => e.stopPropagation()}
+          data-testid={`button-comments-${[target.sectionId, target.pattern, target.field].filter(Boolean).join('-') || 'document'}`}
+        >
+          <MessageSquare className="w-3 h-3" />
+          {open > 0 && <Badge variant="secondary" className="ml-1 h-4 px-1 text-[10px]">{open}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 max-h-[60vh] overflow-y-auto space-y-2" align="end" onClick={(e) => e.stopPropagation()}>
+        <div className="text-xs font-medium text-muted-foreground">
+          Comments on {describeCommentTarget({ sectionTitle, pattern: target.pattern, field: target.field })}
+        </div>
+        <AnchoredComments document={document} target={target} threads={threads} />
+      </PopoverContent>
+    </Popover>
+  );
+}
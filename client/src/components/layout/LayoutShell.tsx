@@ -6,6 +6,7 @@ import { Breadcrumb, BreadcrumbList, BreadcrumbItem, BreadcrumbLink, BreadcrumbS
 import { ChatPanel } from "@/components/zine/ChatPanel";
 import { SearchModal } from "@/components/search/SearchModal";
 import { BookmarksPanel } from "@/components/bookmarks/BookmarksPanel";
+import { ReaderAccountButton } from "@/components/reader/ReaderAccountButton";
 
 interface BreadcrumbItem {
   label: string;
@@ -93,6 +94,7 @@ export function LayoutShell({ children, breadcrumb = [], progress }: LayoutShell
               >
                 <Bookmark className="w-5 h-5" />
               </Button>
+              <ReaderAccountButton />
             </div>
           </div>
         </div>
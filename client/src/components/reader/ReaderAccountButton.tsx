@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Loader2, LogOut, User, UserCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useReader } from "@/hooks/use-reader";
+import { PASSWORD_REQUIREMENTS } from "@shared/passwordPolicy";
+
+// Header button for reader accounts: sign in or sign up, or the signed-in
+// reader's menu
+export function ReaderAccountButton() {
+  const { reader, signIn, signUp, signOut } = useReader();
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<"signin" | "signup">("signin");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const mutation = mode === "signin" ? signIn : signUp;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username, password }, {
+      onSuccess: () => {
+        setIsOpen(false);
+        setPassword("");
+      }
+    });
+  };
+
+  const switchMode = (value: string) => {
+    setMode(value as "signin" | "signup");
+    signIn.reset();
+    signUp.reset();
+  };
+
+  if (reader) {
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Account" data-testid="account-button">
+            <UserCircle className="w-5 h-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel data-testid="account-username">{reader.username}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => signOut.mutate()} data-testid="button-sign-out">
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  }
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setIsOpen(true)}
+        aria-label="Sign in"
+        data-testid="sign-in-button"
+      >
+        <User className="w-5 h-5" />
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>{mode === "signin" ? "Sign in" : "Create an account"}</DialogTitle>
+            <DialogDescription>
+              Keep your bookmarks, assistant chats and reading progress across devices.
+              Anything you've saved in this browser moves into your account.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs value={mode} onValueChange={switchMode}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="signin" data-testid="tab-sign-in">Sign in</TabsTrigger>
+              <TabsTrigger value="signup" data-testid="tab-sign-up">Sign up</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reader-username">Username</Label>
+              <Input
+                id="reader-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                required
+                data-testid="input-reader-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reader-password">Password</Label>
+              <Input
+                id="reader-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={mode === "signin" ? "current-password" : "new-password"}
+                required
+                data-testid="input-reader-password"
+              />
+              {mode === "signup" && (
+                <ul className="text-xs text-muted-foreground list-disc pl-4">
+                  {PASSWORD_REQUIREMENTS.map(requirement => <li key={requirement}>{requirement}</li>)}
+                </ul>
+              )}
+            </div>
+
+            {mutation.error && (
+              <p className="text-sm text-destructive" data-testid="text-reader-auth-error">
+                {mutation.error.message}
+              </p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={mutation.isPending} data-testid="button-reader-submit">
+              {mutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {mode === "signin" ? "Sign in" : "Create account"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
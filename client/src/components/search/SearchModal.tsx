@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import { X, Search, Filter, BookOpen, Layers, Radio, PlayCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,16 +8,52 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
+import { formatSearchClause, formatSearchQuery, parseSearchQuery, type SearchClause } from "@shared/searchQuery";
 
+interface SearchHit {
+  id: string;
+  contentType: string;
+  content: string;
+  relevanceScore: number;
+  highlights: { text: string; match: boolean }[];
+}
+
+// A pattern with the entries of it that matched
 interface SearchResult {
   id: string;
   issueSlug: string;
   sectionId: string;
   patternName: string;
-  content: string;
-  contentType: string;
   metadata: any;
   relevanceScore: number;
+  hits: SearchHit[];
+  matchedBy: ('keyword' | 'semantic')[];
+}
+
+interface SearchFacet {
+  value: string;
+  label: string;
+  count: number;
+}
+
+interface SearchPage {
+  results: SearchResult[];
+  totalCount: number;
+  nextCursor: string | null;
+  // Set on the first page when the search was logged, for click beacons
+  searchId?: string | null;
+  facets: {
+    issues: SearchFacet[];
+    sections: (SearchFacet & { issueSlug: string })[];
+    contentTypes: SearchFacet[];
+  };
+}
+
+interface Suggestion {
+  text: string;
+  kind: 'pattern' | 'section' | 'issue' | 'signal';
+  // Characters of `text` the query matched
+  match: { start: number; end: number };
 }
 
 interface SearchModalProps {
@@ -47,8 +83,14 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [contentTypeFilter, setContentTypeFilter] = useState<string>("all");
   const [issueFilter, setIssueFilter] = useState<string>("all");
+  const [sectionFilter, setSectionFilter] = useState<string>("all");
+  const [searchMode, setSearchMode] = useState<'keyword' | 'hybrid'>('keyword');
   const [debouncedQuery, setDebouncedQuery] = useState("");
   const searchInputRef = useRef<HTMLInputElement>(null);
+  // Logged searches already settled, and a query to settle once its
+  // results arrive after Enter cut its debounce short
+  const settledSearches = useRef(new Set<string>());
+  const settleOnLoad = useRef<string | null>(null);
 
   // Debounce search query
   useEffect(() => {
@@ -73,20 +115,24 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape' && isOpen) {
-        onClose();
+        handleClose();
       }
     };
 
     document.addEventListener('keydown', handleEscape);
     return () => document.removeEventListener('keydown', handleEscape);
-  }, [isOpen, onClose]);
+  });
 
-  // Search query
-  const { data: searchResults, isLoading: isSearching } = useQuery({
-    queryKey: ['/api/search', debouncedQuery, contentTypeFilter, issueFilter],
-    queryFn: async () => {
-      if (!debouncedQuery.trim()) return { results: [], totalCount: 0 };
-      
+  // Search query, a page at a time
+  const {
+    data: searchPages,
+    isLoading: isSearching,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['/api/search', debouncedQuery, contentTypeFilter, issueFilter, sectionFilter, searchMode],
+    queryFn: async ({ pageParam }): Promise<SearchPage> => {
       const response = await fetch('/api/search', {
         method: 'POST',
         headers: {
@@ -95,8 +141,11 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
         body: JSON.stringify({
           query: debouncedQuery,
           issueSlug: issueFilter === 'all' ? undefined : issueFilter,
+          sectionId: sectionFilter === 'all' ? undefined : sectionFilter,
           contentType: contentTypeFilter === 'all' ? undefined : contentTypeFilter,
-          limit: 50
+          mode: searchMode,
+          limit: 20,
+          cursor: pageParam
         })
       });
       
@@ -106,35 +155,101 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
       
       return response.json();
     },
-    enabled: isOpen && debouncedQuery.length > 0,
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: isOpen && debouncedQuery.trim().length > 0,
   });
 
-  // Get suggestions
-  const { data: suggestions } = useQuery({
+  // Get suggestions, tolerant of typos
+  const { data: suggestions } = useQuery<{ suggestions: Suggestion[] }>({
     queryKey: ['/api/search/suggestions', searchQuery],
     queryFn: async () => {
-      if (!searchQuery.trim() || searchQuery.length < 2) return { suggestions: [] };
-      
       const response = await fetch(`/api/search/suggestions?q=${encodeURIComponent(searchQuery)}`);
       return response.json();
     },
-    enabled: isOpen && searchQuery.length >= 2 && searchQuery.length < debouncedQuery.length,
+    enabled: isOpen && searchQuery.trim().length >= 2,
   });
 
-  const results = searchResults?.results || [];
+  const results = searchPages?.pages.flatMap(page => page.results) || [];
+  const firstPage = searchPages?.pages[0];
+
+  // Search analytics only count searches the reader settled on: the results
+  // they pressed Enter on, closed search with or opened (see
+  // handleResultClick). Those shown for a prefix while typing don't count.
+  const settleSearch = () => {
+    const searchId = firstPage?.searchId;
+    if (!searchId || debouncedQuery !== searchQuery || settledSearches.current.has(searchId)) return;
+    settledSearches.current.add(searchId);
+    navigator.sendBeacon?.('/api/search/settle', new Blob([JSON.stringify({ searchId })], { type: 'application/json' }));
+  };
+
+  useEffect(() => {
+    if (firstPage?.searchId && settleOnLoad.current === debouncedQuery) {
+      settleOnLoad.current = null;
+      settleSearch();
+    }
+  }, [firstPage?.searchId, debouncedQuery]);
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    if (debouncedQuery === searchQuery) {
+      settleSearch();
+    } else {
+      settleOnLoad.current = searchQuery;
+      setDebouncedQuery(searchQuery);
+    }
+  };
+
+  const handleClose = () => {
+    settleSearch();
+    onClose();
+  };
+  const facets = firstPage?.facets;
+  const sectionFacets = facets?.sections.filter(section => section.issueSlug === issueFilter) || [];
+
+  const selectIssue = (value: string) => {
+    setIssueFilter(value);
+    setSectionFilter("all");
+  };
+  const parsedQuery = parseSearchQuery(searchQuery);
 
-  const handleResultClick = (result: SearchResult) => {
+  const removeClause = (groupIndex: number, clauseIndex: number) => {
+    const groups = parsedQuery.groups
+      .map((group, index) => index === groupIndex ? group.filter((_, i) => i !== clauseIndex) : group)
+      .filter(group => group.length > 0);
+    setSearchQuery(formatSearchQuery({ groups }));
+  };
+
+  const clauseLabel = (clause: SearchClause) =>
+    `${clause.field ? `${clause.field}: ` : ''}${formatSearchClause({ text: clause.text, phrase: clause.phrase, negated: false })}`;
+
+  // Tells search analytics which result was opened; a beacon survives the
+  // navigation that follows
+  const handleResultClick = (result: SearchResult, position: number) => {
+    const searchId = firstPage?.searchId;
+    if (searchId && navigator.sendBeacon) {
+      settledSearches.current.add(searchId);
+      const click = {
+        searchId,
+        issueSlug: result.issueSlug,
+        sectionId: result.sectionId,
+        patternName: result.patternName,
+        position,
+      };
+      navigator.sendBeacon('/api/search/clicks', new Blob([JSON.stringify(click)], { type: 'application/json' }));
+    }
     onClose();
   };
 
-  const renderResultContent = (result: SearchResult) => {
-    const Icon = contentTypeIcons[result.contentType as keyof typeof contentTypeIcons] || Radio;
-    const colorClass = contentTypeColors[result.contentType as keyof typeof contentTypeColors] || contentTypeColors.pattern;
+  const renderResultContent = (result: SearchResult, position: number) => {
+    const [bestHit] = result.hits;
+    const Icon = contentTypeIcons[bestHit?.contentType as keyof typeof contentTypeIcons] || Radio;
+    const colorClass = contentTypeColors[bestHit?.contentType as keyof typeof contentTypeColors] || contentTypeColors.pattern;
 
     return (
       <Link
-        href={`/zine/${result.issueSlug}${result.contentType === 'issue' ? '' : `#section-${result.sectionId}`}`}
-        onClick={() => handleResultClick(result)}
+        href={`/zine/${result.issueSlug}${result.sectionId === 'meta' ? '' : `#section-${result.sectionId}`}`}
+        onClick={() => handleResultClick(result, position)}
         className="block"
       >
         <div className="p-4 hover:bg-accent rounded-lg transition-colors group">
@@ -147,13 +262,26 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
                 <h3 className="font-semibold text-sm group-hover:text-primary transition-colors line-clamp-1">
                   {result.patternName}
                 </h3>
-                <Badge variant="secondary" className="text-xs">
-                  {result.contentType}
-                </Badge>
+                {!result.matchedBy?.includes('keyword') && (
+                  <Badge variant="outline" className="text-xs" data-testid={`search-similar-${result.id}`}>
+                    similar
+                  </Badge>
+                )}
+              </div>
+              <div className="space-y-1 mb-2">
+                {result.hits.map(hit => (
+                  <div key={hit.id} className="flex items-start gap-2" data-testid={`search-hit-${hit.id}`}>
+                    <Badge variant="secondary" className="text-xs shrink-0">
+                      {hit.contentType}
+                    </Badge>
+                    <p className="text-sm text-muted-foreground line-clamp-2" data-testid={`search-snippet-${hit.id}`}>
+                      {hit.highlights.map((highlight, index) => highlight.match
+                        ? <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{highlight.text}</mark>
+                        : <span key={index}>{highlight.text}</span>)}
+                    </p>
+                  </div>
+                ))}
               </div>
-              <p className="text-sm text-muted-foreground line-clamp-2 mb-2">
-                {result.content}
-              </p>
               <div className="flex items-center text-xs text-muted-foreground space-x-2">
                 <span>{result.metadata?.title || result.issueSlug}</span>
                 {result.metadata?.sectionTitle && (
@@ -165,7 +293,7 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
               </div>
             </div>
             <div className="text-xs text-muted-foreground">
-              Score: {Math.round(result.relevanceScore)}
+              Score: {result.relevanceScore.toFixed(2)}
             </div>
           </div>
         </div>
@@ -180,7 +308,7 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
       {/* Overlay */}
       <div 
         className="fixed inset-0 bg-black/50 z-50" 
-        onClick={onClose}
+        onClick={handleClose}
         data-testid="search-overlay"
       />
       
@@ -198,6 +326,7 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
                   placeholder="Search patterns, protocols, and concepts..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={handleSearchKeyDown}
                   className="pl-10 pr-4"
                   data-testid="search-input"
                 />
@@ -205,13 +334,43 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
               <Button 
                 variant="ghost" 
                 size="icon" 
-                onClick={onClose}
+                onClick={handleClose}
                 data-testid="search-close"
               >
                 <X className="w-4 h-4" />
               </Button>
             </div>
 
+            {/* Query terms */}
+            {parsedQuery.groups.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5 mb-3" data-testid="search-query-chips">
+                {parsedQuery.groups.map((group, groupIndex) => (
+                  <div key={groupIndex} className="flex items-center gap-1">
+                    {group.map((clause, clauseIndex) => (
+                      <span key={clauseIndex} className="flex items-center gap-1">
+                        {clauseIndex > 0 && <span className="text-xs text-muted-foreground">or</span>}
+                        <Badge
+                          variant={clause.negated ? "destructive" : clause.field ? "default" : "secondary"}
+                          className="text-xs pr-1"
+                        >
+                          {clause.negated && "not "}{clauseLabel(clause)}
+                          <button
+                            type="button"
+                            onClick={() => removeClause(groupIndex, clauseIndex)}
+                            className="ml-1 rounded-sm opacity-70 hover:opacity-100"
+                            aria-label={`Remove ${formatSearchClause(clause)}`}
+                            data-testid={`search-chip-remove-${groupIndex}-${clauseIndex}`}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </Badge>
+                      </span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Filters */}
             <div className="flex items-center space-x-3">
               <div className="flex items-center space-x-2">
@@ -219,29 +378,53 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
                 <span className="text-sm text-muted-foreground">Filters:</span>
               </div>
               <Select value={contentTypeFilter} onValueChange={setContentTypeFilter}>
-                <SelectTrigger className="w-32">
+                <SelectTrigger className="w-32" data-testid="search-filter-type">
                   <SelectValue placeholder="Type" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="issue">Issues</SelectItem>
-                  <SelectItem value="section">Sections</SelectItem>
-                  <SelectItem value="pattern">Patterns</SelectItem>
-                  <SelectItem value="protocol">Protocols</SelectItem>
-                  <SelectItem value="signal">Signals</SelectItem>
+                  {facets?.contentTypes.map(facet => (
+                    <SelectItem key={facet.value} value={facet.value}>
+                      {facet.label} ({facet.count})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
-              <Select value={issueFilter} onValueChange={setIssueFilter}>
-                <SelectTrigger className="w-40">
+              <Select value={issueFilter} onValueChange={selectIssue}>
+                <SelectTrigger className="w-40" data-testid="search-filter-issue">
                   <SelectValue placeholder="Issue" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Issues</SelectItem>
-                  <SelectItem value="issue-01">Foundation Patterns</SelectItem>
-                  <SelectItem value="issue-02">Network Dynamics</SelectItem>
-                  <SelectItem value="issue-03">Data Orchestration</SelectItem>
-                  <SelectItem value="issue-04">Security Protocols</SelectItem>
-                  <SelectItem value="issue-05">Scale & Growth</SelectItem>
+                  {facets?.issues.map(facet => (
+                    <SelectItem key={facet.value} value={facet.value}>
+                      {facet.label} ({facet.count})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {issueFilter !== 'all' && sectionFacets.length > 0 && (
+                <Select value={sectionFilter} onValueChange={setSectionFilter}>
+                  <SelectTrigger className="w-40" data-testid="search-filter-section">
+                    <SelectValue placeholder="Section" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Sections</SelectItem>
+                    {sectionFacets.map(facet => (
+                      <SelectItem key={facet.value} value={facet.value}>
+                        {facet.label} ({facet.count})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={searchMode} onValueChange={(value) => setSearchMode(value as 'keyword' | 'hybrid')}>
+                <SelectTrigger className="w-36" data-testid="search-mode">
+                  <SelectValue placeholder="Mode" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="keyword">Keywords</SelectItem>
+                  <SelectItem value="hybrid">Keywords + Meaning</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -265,6 +448,9 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
                 <div className="text-center py-8">
                   <Search className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
                   <p className="text-muted-foreground">Start typing to search across all issues and patterns</p>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Use "quoted phrases", -exclusions, OR, and signal:, protocol:, section: or issue: to narrow results
+                  </p>
                 </div>
               )}
 
@@ -277,19 +463,23 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
               )}
 
               {/* Suggestions */}
-              {!isSearching && searchQuery.length >= 2 && suggestions?.suggestions?.length > 0 && results.length === 0 && (
+              {!isSearching && searchQuery.length >= 2 && !!suggestions?.suggestions.length && results.length === 0 && (
                 <div className="mb-4">
                   <h3 className="text-sm font-semibold mb-2">Suggestions:</h3>
                   <div className="flex flex-wrap gap-2">
-                    {suggestions.suggestions.map((suggestion: string, index: number) => (
+                    {suggestions.suggestions.map((suggestion, index) => (
                       <Button
                         key={index}
                         variant="outline"
                         size="sm"
-                        onClick={() => setSearchQuery(suggestion)}
-                        className="text-xs"
+                        onClick={() => setSearchQuery(formatSearchClause({ text: suggestion.text, phrase: false, negated: false }))}
+                        className="text-xs font-normal"
+                        data-testid={`search-suggestion-${index}`}
                       >
-                        {suggestion}
+                        {suggestion.text.slice(0, suggestion.match.start)}
+                        <strong className="font-semibold">{suggestion.text.slice(suggestion.match.start, suggestion.match.end)}</strong>
+                        {suggestion.text.slice(suggestion.match.end)}
+                        <span className="ml-1.5 text-muted-foreground">{suggestion.kind}</span>
                       </Button>
                     ))}
                   </div>
@@ -301,14 +491,27 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
                 <div className="space-y-2">
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-sm font-semibold">
-                      {searchResults?.totalCount} results for "{searchQuery}"
+                      {firstPage?.totalCount} {firstPage?.totalCount === 1 ? 'pattern' : 'patterns'} for "{searchQuery}"
                     </h3>
                   </div>
-                  {results.map((result) => (
+                  {results.map((result, position) => (
                     <div key={result.id}>
-                      {renderResultContent(result)}
+                      {renderResultContent(result, position)}
                     </div>
                   ))}
+                  {hasNextPage && (
+                    <div className="flex justify-center pt-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => fetchNextPage()}
+                        disabled={isFetchingNextPage}
+                        data-testid="search-load-more"
+                      >
+                        {isFetchingNextPage ? 'Loading...' : `Show more (${(firstPage?.totalCount ?? 0) - results.length} left)`}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -12,6 +12,12 @@ import {
   Bot,
   Save,
   Check,
+  CheckCheck,
+  RotateCcw,
+  GitBranch,
+  GitMerge,
+  Radio,
+  MessageSquare,
   X
 } from "lucide-react";
 
@@ -49,7 +55,20 @@ export function ActivityTimeline({ workspaceId }: ActivityTimelineProps) {
       case 'suggestion_applied':
         return <Check className="w-3 h-3" />;
       case 'suggestion_rejected':
+      case 'suggestions_batch_rejected':
         return <X className="w-3 h-3" />;
+      case 'suggestions_batch_applied':
+        return <CheckCheck className="w-3 h-3" />;
+      case 'revision_restored':
+        return <RotateCcw className="w-3 h-3" />;
+      case 'branch_created':
+        return <GitBranch className="w-3 h-3" />;
+      case 'branch_merged':
+        return <GitMerge className="w-3 h-3" />;
+      case 'issue_live':
+        return <Radio className="w-3 h-3" />;
+      case 'comment_added':
+        return <MessageSquare className="w-3 h-3" />;
       default:
         return <Activity className="w-3 h-3" />;
     }
@@ -61,12 +80,22 @@ export function ActivityTimeline({ workspaceId }: ActivityTimelineProps) {
         return 'bg-blue-100 text-blue-800';
       case 'draft_updated':
       case 'draft_saved':
+      case 'revision_restored':
         return 'bg-green-100 text-green-800';
+      case 'branch_created':
+      case 'branch_merged':
+        return 'bg-purple-100 text-purple-800';
+      case 'issue_live':
+        return 'bg-cyan-100 text-cyan-800';
+      case 'comment_added':
+        return 'bg-orange-100 text-orange-800';
       case 'suggestion_created':
         return 'bg-yellow-100 text-yellow-800';
       case 'suggestion_applied':
+      case 'suggestions_batch_applied':
         return 'bg-emerald-100 text-emerald-800';
       case 'suggestion_rejected':
+      case 'suggestions_batch_rejected':
         return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
@@ -89,6 +118,25 @@ export function ActivityTimeline({ workspaceId }: ActivityTimelineProps) {
         return `Applied suggestion: ${metadata.title || 'content changes'}`;
       case 'suggestion_rejected':
         return `Rejected suggestion: ${metadata.title || 'content changes'}`;
+      case 'suggestions_batch_applied': {
+        const applied = activity.payload?.appliedSuggestionIds?.length || 0;
+        const rejected = activity.payload?.rejectedSuggestionIds?.length || 0;
+        return `Applied ${applied} suggestion${applied === 1 ? '' : 's'}${rejected ? `, rejected ${rejected}` : ''} in revision ${activity.payload?.revisionNumber}`;
+      }
+      case 'branch_created':
+        return `Created branch ${activity.payload?.branch} from ${activity.payload?.fromBranch} at revision ${activity.payload?.fromRevision}`;
+      case 'branch_merged':
+        return `Merged ${activity.payload?.from} into ${activity.payload?.into}`;
+      case 'revision_restored':
+        return `Restored revision ${activity.payload?.restoredFrom} as revision ${activity.payload?.revisionNumber}`;
+      case 'suggestions_batch_rejected': {
+        const rejected = activity.payload?.rejectedSuggestionIds?.length || 0;
+        return `Rejected ${rejected} suggestion${rejected === 1 ? '' : 's'}`;
+      }
+      case 'issue_live':
+        return `"${activity.payload?.title}" ${activity.payload?.version} went live`;
+      case 'comment_added':
+        return `${activity.payload?.author || 'Someone'} ${activity.payload?.reply ? 'replied' : 'commented'} on ${activity.payload?.issueSlug ? `${activity.payload.issueSlug}: ` : ''}${activity.payload?.target}`;
       default:
         return activity.description || 'Unknown activity';
     }
@@ -16,6 +16,7 @@ import {
   Zap
 } from "lucide-react";
 import type { Workspace, Draft } from "@shared/schema";
+import { CommentsPopover, useComments } from "@/components/comments/CommentThreads";
 
 interface ArtifactPreviewProps {
   workspaceId: string;
@@ -176,6 +177,8 @@ function SectionIcon({ icon, color }: { icon: string; color: string }) {
 
 export function ArtifactPreview({ workspaceId }: ArtifactPreviewProps) {
   const [showPreview, setShowPreview] = useState(true);
+  const commentDocument = { workspaceId };
+  const { threads: commentThreads } = useComments(commentDocument);
 
   // Fetch workspace data - uses default fetcher with shared types
   const { data: workspaceData } = useQuery<WorkspaceResponse>({
@@ -306,12 +309,28 @@ export function ArtifactPreview({ workspaceId }: ArtifactPreviewProps) {
                     </div>
                     
                     <div className="space-y-4">
-                      {section.entries.map((entry, entryIndex) => (
+                      {section.entries.map((entry, entryIndex) => {
+                        const target = { sectionId: section.id, pattern: entry.pattern };
+                        const comments = (field?: string) => (
+                          <CommentsPopover
+                            document={commentDocument}
+                            target={field ? { ...target, field } : target}
+                            threads={commentThreads}
+                            sectionTitle={section.title}
+                          />
+                        );
+                        return (
                         <div key={entryIndex} className="border-l-2 border-muted pl-4 space-y-3">
-                          <h4 className="font-medium">{entry.pattern}</h4>
-                          <p className="text-sm text-muted-foreground leading-relaxed">
-                            {entry.description}
-                          </p>
+                          <div className="flex items-center justify-between">
+                            <h4 className="font-medium">{entry.pattern}</h4>
+                            {comments()}
+                          </div>
+                          <div className="flex items-start gap-1">
+                            <p className="text-sm text-muted-foreground leading-relaxed flex-1">
+                              {entry.description}
+                            </p>
+                            {comments('description')}
+                          </div>
                           
                           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 text-xs">
                             <div className="space-y-2">
@@ -320,18 +339,23 @@ export function ArtifactPreview({ workspaceId }: ArtifactPreviewProps) {
                                 {entry.signals.map((signal, signalIndex) => (
                                   <li key={signalIndex} className="flex items-start space-x-2">
                                     <div className="w-1 h-1 rounded-full bg-muted-foreground mt-2 shrink-0" />
-                                    <span className="text-muted-foreground">{signal}</span>
+                                    <span className="text-muted-foreground flex-1">{signal}</span>
+                                    {comments(`signals[${signalIndex}]`)}
                                   </li>
                                 ))}
                               </ul>
                             </div>
                             <div className="space-y-2">
-                              <span className="font-medium text-muted-foreground uppercase tracking-wide">Protocol</span>
+                              <div className="flex items-center justify-between">
+                                <span className="font-medium text-muted-foreground uppercase tracking-wide">Protocol</span>
+                                {comments('protocol')}
+                              </div>
                               <p className="text-muted-foreground leading-relaxed">{entry.protocol}</p>
                             </div>
                           </div>
                         </div>
-                      ))}
+                        );
+                      })}
                     </div>
                   </div>
                 ))}
@@ -0,0 +1,354 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { GitBranch, GitMerge, Plus, Loader2, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { ConflictResolutions } from "@shared/merge";
+import type { SectionDiff } from "@shared/outlineDiff";
+import type { SuggestionConflict } from "@/hooks/use-suggestion-actions";
+import { ConflictResolutionDialog } from "./ConflictResolutionDialog";
+import { SectionDiffView } from "./RevisionTimeline";
+
+export interface Branch {
+  id: string;
+  name: string;
+  parentBranch: string | null;
+  baseRevision: number | null;
+  headRevision: number;
+  updatedAt: string;
+}
+
+export function useBranches(workspaceId: string) {
+  return useQuery({
+    queryKey: ['/api/admin/workspaces', workspaceId, 'branches'],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(`/api/admin/workspaces/${workspaceId}/branches`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch branches');
+      return response.json() as Promise<{ branches: Branch[] }>;
+    }
+  });
+}
+
+const invalidateBranchQueries = (workspaceId: string) => {
+  queryClient.invalidateQueries({ queryKey: ['/api/admin/workspaces', workspaceId, 'branches'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/admin/workspaces', workspaceId, 'draft'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/admin/workspaces', workspaceId, 'activities'] });
+};
+
+interface BranchSwitcherProps {
+  workspaceId: string;
+  branch: string;
+  onBranchChange: (branch: string) => void;
+  onFork: () => void;
+  onMerge: () => void;
+}
+
+export function BranchSwitcher({ workspaceId, branch, onBranchChange, onFork, onMerge }: BranchSwitcherProps) {
+  const { data: branchesData } = useBranches(workspaceId);
+  const branches = branchesData?.branches || [];
+  const current = branches.find(candidate => candidate.name === branch);
+
+  return (
+    <div className="flex items-center space-x-1">
+      <Select value={branch} onValueChange={onBranchChange}>
+        <SelectTrigger className="h-8 w-36 text-xs" data-testid="select-branch">
+          <GitBranch className="w-3 h-3 mr-1 flex-shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {branches.map(candidate => (
+            <SelectItem key={candidate.id} value={candidate.name} data-testid={`option-branch-${candidate.name}`}>
+              {candidate.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={onFork}
+        title="New branch"
+        data-testid="button-new-branch"
+      >
+        <Plus className="w-3 h-3" />
+      </Button>
+      {current?.parentBranch && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={onMerge}
+          title={`Merge with ${current.parentBranch}`}
+          data-testid="button-merge-branch"
+        >
+          <GitMerge className="w-3 h-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface ForkBranchDialogProps {
+  workspaceId: string;
+  fromBranch: string;
+  // Revision to fork from; the branch's current state when omitted
+  fromRevision?: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (branch: string) => void;
+}
+
+export function ForkBranchDialog({
+  workspaceId,
+  fromBranch,
+  fromRevision,
+  open,
+  onOpenChange,
+  onCreated
+}: ForkBranchDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (open) setName('');
+  }, [open]);
+
+  const forkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/workspaces/${workspaceId}/branches`, {
+        name: name.trim(),
+        fromBranch,
+        fromRevision
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Branch Created",
+        description: result.message,
+      });
+      invalidateBranchQueries(workspaceId);
+      onOpenChange(false);
+      onCreated(result.draft.branchName);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Branch Failed",
+        description: error.message || "Failed to create branch.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <GitBranch className="w-4 h-4 mr-2" />
+            New Branch
+          </DialogTitle>
+          <DialogDescription>
+            {fromRevision !== undefined
+              ? `Fork "${fromBranch}" at revision ${fromRevision} to try a different direction.`
+              : `Fork the current state of "${fromBranch}" to try a different direction.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="branch-name">Branch name</Label>
+          <Input
+            id="branch-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. alternate-structure"
+            data-testid="input-branch-name"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => forkMutation.mutate()}
+            disabled={!name.trim() || forkMutation.isPending}
+            data-testid="button-create-branch"
+          >
+            {forkMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create Branch
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface MergeBranchDialogProps {
+  workspaceId: string;
+  branch: string;
+  parentBranch: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type MergeDirection = 'into-parent' | 'from-parent';
+
+export function MergeBranchDialog({ workspaceId, branch, parentBranch, open, onOpenChange }: MergeBranchDialogProps) {
+  const { toast } = useToast();
+  const [direction, setDirection] = useState<MergeDirection>('into-parent');
+  const [resolveOpen, setResolveOpen] = useState(false);
+  const [from, into] = direction === 'into-parent' ? [branch, parentBranch] : [parentBranch, branch];
+
+  const { data: preview, isLoading, error } = useQuery({
+    queryKey: ['/api/admin/workspaces', workspaceId, 'branches', from, 'merge', into],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(
+        `/api/admin/workspaces/${workspaceId}/branches/${encodeURIComponent(from)}/merge?into=${encodeURIComponent(into)}`,
+        { headers: { 'Authorization': `Bearer ${token}` } }
+      );
+      if (!response.ok) throw new Error('Failed to preview merge');
+      return response.json();
+    },
+    enabled: open
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (resolutions: ConflictResolutions) => {
+      const response = await apiRequest('POST', `/api/admin/workspaces/${workspaceId}/branches/${encodeURIComponent(from)}/merge`, {
+        into,
+        resolutions
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Branches Merged",
+        description: result.message,
+      });
+      invalidateBranchQueries(workspaceId);
+      setResolveOpen(false);
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Merge Failed",
+        description: error.message || "Failed to merge branches.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const sections: SectionDiff[] = (preview?.sections || [])
+    .filter((section: SectionDiff) => section.status !== 'unchanged' || section.moved);
+  const conflicts: SuggestionConflict[] = preview?.conflicts || [];
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <GitMerge className="w-4 h-4 mr-2" />
+              Merge Branches
+            </DialogTitle>
+            <DialogDescription>
+              Review how "{into}" will change before merging "{from}" into it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs value={direction} onValueChange={(value) => setDirection(value as MergeDirection)}>
+            <TabsList>
+              <TabsTrigger value="into-parent" data-testid="tab-merge-into-parent">
+                Merge into {parentBranch}
+              </TabsTrigger>
+              <TabsTrigger value="from-parent" data-testid="tab-merge-from-parent">
+                Update from {parentBranch}
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {conflicts.length > 0 && (
+            <Alert>
+              <AlertTriangle className="w-4 h-4" />
+              <AlertDescription>
+                {conflicts.length} section{conflicts.length === 1 ? '' : 's'} changed on both branches and must be resolved before merging.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <ScrollArea className="h-[50vh]">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-4 h-4 animate-spin" />
+              </div>
+            ) : error ? (
+              <p className="text-destructive text-center py-8 text-sm">Failed to preview merge</p>
+            ) : sections.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8 text-sm">
+                "{into}" already has every change from "{from}"
+              </p>
+            ) : (
+              <div className="space-y-2 pr-2" data-testid="merge-preview">
+                {sections.map(section => (
+                  <SectionDiffView key={section.id} section={section} />
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => conflicts.length > 0 ? setResolveOpen(true) : mergeMutation.mutate({})}
+              disabled={isLoading || !!error || sections.length === 0 || mergeMutation.isPending}
+              data-testid="button-confirm-merge"
+            >
+              {mergeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {conflicts.length > 0 ? 'Resolve Conflicts' : `Merge into ${into}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConflictResolutionDialog
+        open={resolveOpen}
+        onOpenChange={setResolveOpen}
+        conflicts={conflicts}
+        isApplying={mergeMutation.isPending}
+        onResolve={(resolutions) => mergeMutation.mutate(resolutions)}
+        labels={{ ours: `On ${into}`, theirs: `On ${from}` }}
+        description={`Both branches changed these sections since they last shared history. Choose what "${into}" should keep.`}
+        submitLabel="Merge"
+      />
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import { useChat } from '@ai-sdk/react';
+import { DefaultChatTransport, type UIMessage } from 'ai';
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -25,18 +26,25 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useRef, useState, type FormEvent } from "react";
 import { queryClient } from "@/lib/queryClient";
+import { SuggestionCard } from "./SuggestionCard";
+import type { Suggestion } from "@shared/schema";
 
 interface ChatPanelProps {
   workspaceId: string;
 }
 
+// Assistant turns carry suggestion cards as `data-suggestion` parts
+type WorkspaceChatMessage = UIMessage<unknown, { suggestion: Suggestion }>;
+
 export function ChatPanel({ workspaceId }: ChatPanelProps) {
   const { toast } = useToast();
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const hasHydratedRef = useRef(false);
   const [selectedScope, setSelectedScope] = useState("whole");
+  const [input, setInput] = useState("");
+  const scopeRef = useRef(selectedScope);
+  scopeRef.current = selectedScope;
 
   // Fetch draft for context-aware prompts
   const { data: draftData } = useQuery({
@@ -64,31 +72,60 @@ export function ChatPanel({ workspaceId }: ChatPanelProps) {
     }
   });
 
+  // Suggestions are shared with SuggestionsPanel so card statuses stay current
+  const { data: suggestionsData } = useQuery({
+    queryKey: ['/api/admin/workspaces', workspaceId, 'suggestions'],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(`/api/admin/workspaces/${workspaceId}/suggestions`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (!response.ok) throw new Error('Failed to fetch suggestions');
+      return response.json();
+    }
+  });
+
+  const suggestionsById = new Map<string, Suggestion>(
+    (suggestionsData?.suggestions || []).map((s: Suggestion) => [s.id, s])
+  );
+
   // Convert persisted messages to AI SDK format
-  const persistedMessages = messagesData?.messages?.map((msg: any) => ({
+  const persistedMessages: WorkspaceChatMessage[] = messagesData?.messages?.map((msg: any) => ({
     id: msg.id,
     role: msg.role,
-    content: msg.content
+    parts: [
+      { type: 'text', text: msg.content },
+      ...(msg.metadata?.suggestionIds || [])
+        .filter((id: string) => suggestionsById.has(id))
+        .map((id: string) => ({ type: 'data-suggestion', id, data: suggestionsById.get(id)! }))
+    ]
   })) || [];
 
   // Modern AI SDK chat hook with persisted history
   const {
     messages,
-    input,
-    handleInputChange,
-    handleSubmit,
-    isLoading,
+    sendMessage,
+    status,
     stop,
     error,
-    reload,
+    regenerate,
     setMessages
-  } = useChat({
-    api: `/api/workspace/${workspaceId}/chat`,
-    body: {
-      sectionPath: selectedScope !== 'whole' ? selectedScope : undefined
-    },
-    headers: {
-      'Authorization': `Bearer ${localStorage.getItem('admin-token')}`
+  } = useChat<WorkspaceChatMessage>({
+    transport: new DefaultChatTransport({
+      api: `/api/workspace/${workspaceId}/chat`,
+      body: () => ({
+        sectionPath: scopeRef.current !== 'whole' ? scopeRef.current : undefined
+      }),
+      headers: () => ({
+        'Authorization': `Bearer ${localStorage.getItem('admin-token')}`
+      })
+    }),
+    onData: (part) => {
+      if (part.type === 'data-suggestion') {
+        queryClient.invalidateQueries({ 
+          queryKey: ['/api/admin/workspaces', workspaceId, 'suggestions'] 
+        });
+      }
     },
     onError: (error) => {
       toast({
@@ -102,16 +139,28 @@ export function ChatPanel({ workspaceId }: ChatPanelProps) {
       queryClient.invalidateQueries({ 
         queryKey: ['/api/admin/workspaces', workspaceId, 'messages'] 
       });
+      queryClient.invalidateQueries({ 
+        queryKey: ['/api/admin/workspaces', workspaceId, 'activities'] 
+      });
     }
   });
 
-  // Rehydrate persisted messages when data loads (one-time only)
+  const isLoading = status === 'submitted' || status === 'streaming';
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || isLoading) return;
+    sendMessage({ text: input });
+    setInput("");
+  };
+
+  // Rehydrate persisted messages when data loads, and pick up messages
+  // collaborators send while this chat is idle
   useEffect(() => {
-    if (messagesData?.messages && persistedMessages.length > 0 && messages.length === 0 && !hasHydratedRef.current) {
+    if (status === 'ready' && messagesData?.messages && suggestionsData && persistedMessages.length > messages.length) {
       setMessages(persistedMessages);
-      hasHydratedRef.current = true;
     }
-  }, [messagesData, setMessages, persistedMessages.length, messages.length]);
+  }, [messagesData, suggestionsData, setMessages, persistedMessages.length, messages.length, status]);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -166,7 +215,7 @@ export function ChatPanel({ workspaceId }: ChatPanelProps) {
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={reload}
+                onClick={() => regenerate()}
                 disabled={isLoading}
                 data-testid="button-reload"
               >
@@ -219,8 +268,23 @@ export function ChatPanel({ workspaceId }: ChatPanelProps) {
                   )}
                 >
                   <div className="whitespace-pre-wrap break-words">
-                    {message.content}
+                    {message.parts
+                      .map(part => part.type === 'text' ? part.text : '')
+                      .join('')}
                   </div>
+                  {message.parts.some(part => part.type === 'data-suggestion') && (
+                    <div className="mt-2 space-y-2" data-testid={`message-suggestions-${message.id}`}>
+                      {message.parts.map(part => 
+                        part.type === 'data-suggestion' ? (
+                          <SuggestionCard
+                            key={part.data.id}
+                            workspaceId={workspaceId}
+                            suggestion={suggestionsById.get(part.data.id) || part.data}
+                          />
+                        ) : null
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 {message.role === 'user' && (
@@ -263,7 +327,7 @@ export function ChatPanel({ workspaceId }: ChatPanelProps) {
         <form onSubmit={handleSubmit} className="flex gap-2">
           <Input
             value={input}
-            onChange={handleInputChange}
+            onChange={(e) => setInput(e.target.value)}
             placeholder={
               selectedScope === "whole" 
                 ? "Ask about your draft, get ideas, or request changes..." 
@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { GitMerge, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ConflictResolution, ConflictResolutions } from "@shared/merge";
+import type { SuggestionConflict } from "@/hooks/use-suggestion-actions";
+
+interface ConflictResolutionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflicts: SuggestionConflict[];
+  isApplying: boolean;
+  onResolve: (resolutions: ConflictResolutions) => void;
+  // Column labels for the two sides being merged
+  labels?: { ours: string; theirs: string };
+  description?: string;
+  submitLabel?: string;
+  // Extra footer action, e.g. discarding your side entirely
+  secondaryAction?: { label: string; onClick: () => void };
+}
+
+function formatConflictValue(value: unknown): string {
+  if (value === undefined) return '(removed)';
+  if (typeof value === 'string') return value;
+
+  const section = value as any;
+  if (section && typeof section.title === 'string') {
+    return `${section.title}\n\n${section.content || ''}`;
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+const defaultLabels = { ours: 'Your edits', theirs: 'Suggestion' };
+
+export function ConflictResolutionDialog({
+  open,
+  onOpenChange,
+  conflicts,
+  isApplying,
+  onResolve,
+  labels = defaultLabels,
+  description = "The draft changed after this suggestion was generated. Choose which version to keep for each conflict.",
+  submitLabel = "Apply Suggestion",
+  secondaryAction
+}: ConflictResolutionDialogProps) {
+  const [resolutions, setResolutions] = useState<ConflictResolutions>({});
+  const columns = [
+    { key: 'base', label: 'Original', choice: null },
+    { key: 'ours', label: labels.ours, choice: 'ours' },
+    { key: 'theirs', label: labels.theirs, choice: 'theirs' }
+  ] as const;
+
+  // Start fresh for every new set of conflicts
+  useEffect(() => {
+    setResolutions({});
+  }, [conflicts]);
+
+  const setResolution = (path: string, resolution: ConflictResolution) => {
+    setResolutions(prev => ({ ...prev, [path]: resolution }));
+  };
+
+  const unresolvedCount = conflicts.filter(conflict => !resolutions[conflict.path]).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <GitMerge className="w-4 h-4 mr-2" />
+            Resolve Conflicts
+          </DialogTitle>
+          <DialogDescription>
+            {description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 min-h-0 max-h-[60vh]">
+          <div className="space-y-4 pr-3">
+            {conflicts.map(conflict => {
+              const resolution = resolutions[conflict.path];
+              const canEdit = typeof conflict.ours === 'string' || typeof conflict.theirs === 'string';
+
+              return (
+                <div
+                  key={conflict.path}
+                  className="border rounded-md"
+                  data-testid={`conflict-${conflict.path}`}
+                >
+                  <div className="flex items-center justify-between p-3 bg-muted/50 border-b">
+                    <div className="text-sm font-medium">
+                      {conflict.section}
+                      {conflict.field && (
+                        <span className="ml-2 text-xs text-muted-foreground">{conflict.field}</span>
+                      )}
+                    </div>
+                    {resolution && (
+                      <Badge variant="secondary" className="text-xs">
+                        {resolution.choice === 'ours' ? `Keeping ${labels.ours.toLowerCase()}` :
+                         resolution.choice === 'theirs' ? `Using ${labels.theirs.toLowerCase()}` : 'Custom'}
+                      </Badge>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-3 divide-x">
+                    {columns.map(column => {
+                      const choice = column.choice;
+                      const selected = choice !== null && resolution?.choice === choice;
+                      return (
+                        <div
+                          key={column.key}
+                          className={cn("p-3 space-y-2 min-w-0", selected && "bg-primary/5")}
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="text-xs font-medium text-muted-foreground">{column.label}</span>
+                            {choice !== null && (
+                              <Button
+                                variant={selected ? "default" : "outline"}
+                                size="sm"
+                                className="h-6 text-xs"
+                                onClick={() => setResolution(conflict.path, { choice })}
+                                data-testid={`button-choose-${choice}-${conflict.path}`}
+                              >
+                                {choice === 'ours' ? 'Keep mine' : 'Use this'}
+                              </Button>
+                            )}
+                          </div>
+                          <div className="text-xs whitespace-pre-wrap font-mono break-words">
+                            {formatConflictValue(conflict[column.key])}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {canEdit && (
+                    <div className="border-t p-3 space-y-2">
+                      {resolution?.choice === 'custom' ? (
+                        <Textarea
+                          value={String(resolution.value ?? '')}
+                          onChange={(e) => setResolution(conflict.path, { choice: 'custom', value: e.target.value })}
+                          className="text-xs font-mono min-h-[100px]"
+                          data-testid={`textarea-custom-${conflict.path}`}
+                        />
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 text-xs"
+                          onClick={() => setResolution(conflict.path, {
+                            choice: 'custom',
+                            value: typeof conflict.ours === 'string' ? conflict.ours : conflict.theirs
+                          })}
+                          data-testid={`button-edit-${conflict.path}`}
+                        >
+                          Edit manually
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="items-center">
+          <span className="text-xs text-muted-foreground mr-auto">
+            {unresolvedCount === 0 ? 'All conflicts resolved' : `${unresolvedCount} unresolved`}
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {secondaryAction && (
+            <Button
+              variant="outline"
+              onClick={secondaryAction.onClick}
+              disabled={isApplying}
+              data-testid="button-conflict-secondary"
+            >
+              {secondaryAction.label}
+            </Button>
+          )}
+          <Button
+            onClick={() => onResolve(resolutions)}
+            disabled={unresolvedCount > 0 || isApplying}
+            data-testid="button-apply-resolutions"
+          >
+            {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useLayoutEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -34,10 +34,19 @@ import {
   Check,
   Loader2,
   ChevronDown,
-  ChevronRight
+  ChevronRight,
+  Radio
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, updateIfUnchanged, StaleUpdateError } from "@/lib/queryClient";
+import { RevisionTimeline } from "./RevisionTimeline";
+import { BranchSwitcher, ForkBranchDialog, MergeBranchDialog, useBranches } from "./BranchControls";
+import { StaleChangesDialog } from "./StaleChangesDialog";
+import { CommentsPopover, useComments } from "@/components/comments/CommentThreads";
+import { useCollaborativeDraft } from "@/hooks/use-workspace-socket";
+import { applyDraftOperation, diffText, transformTextPosition, type DraftOperation, type SectionField } from "@shared/ot";
+import { parseJsonPointer } from "@shared/jsonPatch";
+import type { CollaboratorPresence } from "@shared/collaboration";
 import type { Draft } from "@shared/schema";
 
 interface DraftPanelProps {
@@ -62,6 +71,74 @@ interface DraftState {
   hasUnsavedChanges: boolean;
 }
 
+const findSectionInTree = (sections: Section[], sectionId: string): Section | null => {
+  for (const section of sections) {
+    if (section.id === sectionId) return section;
+    if (section.children) {
+      const found = findSectionInTree(section.children, sectionId);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+const collectSectionIds = (sections: Section[], ids = new Set<string>()): Set<string> => {
+  sections.forEach(section => {
+    ids.add(section.id);
+    if (section.children) collectSectionIds(section.children, ids);
+  });
+  return ids;
+};
+
+function CollaboratorDots({ collaborators }: { collaborators: CollaboratorPresence[] }) {
+  if (collaborators.length === 0) return null;
+
+  return (
+    <div className="flex -space-x-1">
+      {collaborators.map(collaborator => (
+        <span
+          key={collaborator.clientId}
+          className="w-4 h-4 rounded-full border border-background text-[9px] leading-[14px] text-center text-white font-medium"
+          style={{ backgroundColor: collaborator.color }}
+          title={collaborator.username}
+          data-testid={`presence-${collaborator.clientId}`}
+        >
+          {collaborator.username.charAt(0).toUpperCase()}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Names the section a merge conflict path like /sections/<id>/children/<id>/content points at
+function describeOutlinePath(path: string, ...outlines: DraftState['outline'][]) {
+  const tokens = parseJsonPointer(path);
+  let sectionId: string | null = null;
+  let field: string | null = null;
+  tokens.forEach((token, index) => {
+    if (tokens[index - 1] === 'sections' || tokens[index - 1] === 'children') {
+      sectionId = token;
+      field = null;
+    } else if (token !== 'sections' && token !== 'children') {
+      field = token;
+    }
+  });
+
+  const section = sectionId
+    ? outlines.map(outline => findSectionInTree(outline.sections, sectionId!)).find(Boolean)
+    : null;
+  return { section: section?.title || (sectionId ? 'Removed section' : 'Outline'), field };
+}
+
+function describePresence(collaborator: CollaboratorPresence, section: Section): string {
+  if (!collaborator.field) return `${collaborator.username} is viewing`;
+  if (collaborator.field === 'title' || collaborator.cursor === null) {
+    return `${collaborator.username} is editing the ${collaborator.field}`;
+  }
+  const line = section.content.slice(0, collaborator.cursor).split('\n').length;
+  return `${collaborator.username} is editing line ${line}`;
+}
+
 export function DraftPanel({ workspaceId }: DraftPanelProps) {
   const { toast } = useToast();
   const [draftState, setDraftState] = useState<DraftState>({
@@ -72,14 +149,34 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
   });
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
   const [revisionDialogOpen, setRevisionDialogOpen] = useState(false);
+  const [branch, setBranch] = useState('main');
+  // Revision to fork from: undefined while closed, null for the current state
+  const [forkFromRevision, setForkFromRevision] = useState<number | null | undefined>(undefined);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  // Server copy returned when a save found the draft changed by someone else
+  const [staleDraft, setStaleDraft] = useState<Draft | null>(null);
+  // The server copy the editor's changes are based on
+  const syncedDraftRef = useRef<Draft | null>(null);
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Latest outline, updated before React re-renders so consecutive local and
+  // remote edits each build on the one before
+  const outlineRef = useRef(draftState.outline);
+  const draftStateRef = useRef(draftState);
+  draftStateRef.current = draftState;
+  const titleInputRef = useRef<HTMLInputElement>(null);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  const focusedFieldRef = useRef<{ sectionId: string; field: SectionField } | null>(null);
+  // Caret to restore after a collaborator's edit re-renders the focused field
+  const pendingSelectionRef = useRef<{ element: HTMLInputElement | HTMLTextAreaElement; start: number; end: number } | null>(null);
+  const { data: branchesData } = useBranches(workspaceId);
+  const parentBranch = branchesData?.branches.find(candidate => candidate.name === branch)?.parentBranch;
 
   // Fetch draft data
   const { data: draftData, isLoading, error } = useQuery({
-    queryKey: ['/api/admin/workspaces', workspaceId, 'draft'],
+    queryKey: ['/api/admin/workspaces', workspaceId, 'draft', { branch }],
     queryFn: async () => {
       const token = localStorage.getItem('admin-token');
-      const response = await fetch(`/api/admin/workspaces/${workspaceId}/draft`, {
+      const response = await fetch(`/api/admin/workspaces/${workspaceId}/draft?branch=${encodeURIComponent(branch)}`, {
         headers: {
           'Authorization': `Bearer ${token}`
         }
@@ -95,41 +192,34 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
     }
   });
 
-  // Fetch draft revisions
-  const { data: revisionsData } = useQuery({
-    queryKey: ['/api/admin/workspaces', workspaceId, 'draft', 'revisions'],
-    queryFn: async () => {
-      const token = localStorage.getItem('admin-token');
-      const response = await fetch(`/api/admin/workspaces/${workspaceId}/draft/revisions`, {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
-      if (!response.ok) return { revisions: [] };
-      return response.json();
-    }
-  });
-
   // Save draft mutation
   const saveDraftMutation = useMutation({
-    mutationFn: async (data: Partial<Draft>) => {
-      const response = await apiRequest('PUT', `/api/admin/workspaces/${workspaceId}/draft`, data);
+    // The branch is passed with each save so a pending auto-save can't land
+    // on a branch the editor has since switched to
+    // `updatedAt` guards against overwriting someone else's save
+    mutationFn: async ({ branchName, updatedAt, ...data }: Partial<Draft> & { branchName: string }) => {
+      const url = `/api/admin/workspaces/${workspaceId}/draft?branch=${encodeURIComponent(branchName)}`;
+      const response = updatedAt
+        ? await updateIfUnchanged(url, data, updatedAt, 'draft')
+        : await apiRequest('PUT', url, data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       toast({
         title: "Draft Saved",
         description: "Your changes have been saved successfully.",
       });
+      syncedDraftRef.current = result.draft;
       setDraftState(prev => ({ ...prev, hasUnsavedChanges: false }));
       queryClient.invalidateQueries({ 
         queryKey: ['/api/admin/workspaces', workspaceId, 'draft'] 
       });
-      queryClient.invalidateQueries({ 
-        queryKey: ['/api/admin/workspaces', workspaceId, 'draft', 'revisions'] 
-      });
     },
     onError: (error: any) => {
+      if (error instanceof StaleUpdateError) {
+        setStaleDraft(error.current);
+        return;
+      }
       toast({
         title: "Save Failed",
         description: error.message || "Failed to save draft changes.",
@@ -138,37 +228,97 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
     }
   });
 
-  // Initialize draft state from API data
+  const commitOutline = (outline: DraftState['outline'], changes: Partial<DraftState> = {}) => {
+    outlineRef.current = outline;
+    setDraftState(prev => ({ ...prev, ...changes, outline }));
+  };
+
+  const collaboration = useCollaborativeDraft({
+    workspaceId,
+    branch,
+    getOutline: () => outlineRef.current,
+    onSnapshot: (outline, lostEdits) => {
+      if (draftStateRef.current.hasUnsavedChanges) {
+        // Save edits made while offline first; the save replaces the live
+        // draft, which sends everyone a fresh snapshot
+        if (autoSaveTimeoutRef.current) {
+          clearTimeout(autoSaveTimeoutRef.current);
+        }
+        saveDraftMutation.mutate({
+          outline: outlineRef.current,
+          branchName: branch,
+          updatedAt: syncedDraftRef.current?.updatedAt
+        });
+        return;
+      }
+
+      const nextOutline = outline?.sections ? outline : { sections: [] };
+      const knownIds = collectSectionIds(outlineRef.current.sections);
+      const newIds = Array.from(collectSectionIds(nextOutline.sections)).filter(id => !knownIds.has(id));
+      commitOutline(nextOutline);
+      setExpandedSections(prev => new Set([...Array.from(prev), ...newIds]));
+
+      if (lostEdits) {
+        toast({
+          title: "Draft Replaced",
+          description: "The draft was changed outside the editor and your latest edits could not be kept.",
+          variant: "destructive"
+        });
+      }
+    },
+    onRemoteOperation: (operation) => {
+      const focused = focusedFieldRef.current;
+      if (operation.type === 'text' && focused?.sectionId === operation.sectionId && focused.field === operation.field) {
+        const element = operation.field === 'title' ? titleInputRef.current : contentRef.current;
+        if (element && element.selectionStart !== null) {
+          pendingSelectionRef.current = {
+            element,
+            start: transformTextPosition(element.selectionStart, operation.op),
+            end: transformTextPosition(element.selectionEnd ?? element.selectionStart, operation.op)
+          };
+        }
+      }
+
+      commitOutline(applyDraftOperation(outlineRef.current, operation));
+      if (operation.type === 'insert-section' && operation.parentId) {
+        setExpandedSections(prev => new Set([...Array.from(prev), operation.parentId!]));
+      }
+    }
+  });
+  const isLive = collaboration.status === 'live';
+
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    if (!selection) return;
+    pendingSelectionRef.current = null;
+    if (document.activeElement === selection.element) {
+      selection.element.setSelectionRange(selection.start, selection.end);
+    }
+  }, [draftState.outline]);
+
+  // Initialize draft state from API data. While live, the collaboration
+  // snapshot is the source of truth and refetches are ignored.
   useEffect(() => {
     const draft = draftData?.draft;
-    if (draft) {
+    if (draft && !isLive) {
+      const outline = draft.outline || { sections: [] };
+      outlineRef.current = outline;
+      syncedDraftRef.current = draft;
       setDraftState({
         title: draft.title || '',
-        outline: draft.outline || { sections: [] },
+        outline,
         currentSection: null,
         hasUnsavedChanges: false
       });
       
       // Expand all sections initially
-      const allSectionIds = new Set<string>();
-      const collectSectionIds = (sections: Section[]) => {
-        sections.forEach(section => {
-          allSectionIds.add(section.id);
-          if (section.children) {
-            collectSectionIds(section.children);
-          }
-        });
-      };
-      if (draft.outline?.sections) {
-        collectSectionIds(draft.outline.sections);
-      }
-      setExpandedSections(allSectionIds);
+      setExpandedSections(collectSectionIds(outline.sections || []));
     }
   }, [draftData]);
 
-  // Auto-save functionality
+  // Auto-save functionality, paused while a stale save awaits merging
   useEffect(() => {
-    if (draftState.hasUnsavedChanges) {
+    if (draftState.hasUnsavedChanges && !staleDraft) {
       if (autoSaveTimeoutRef.current) {
         clearTimeout(autoSaveTimeoutRef.current);
       }
@@ -176,7 +326,9 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
       autoSaveTimeoutRef.current = setTimeout(() => {
         if (!saveDraftMutation.isPending) {
           saveDraftMutation.mutate({
-            outline: draftState.outline
+            outline: draftState.outline,
+            branchName: branch,
+            updatedAt: syncedDraftRef.current?.updatedAt
           });
         }
       }, 2000); // Auto-save after 2 seconds of inactivity
@@ -187,17 +339,24 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
         clearTimeout(autoSaveTimeoutRef.current);
       }
     };
-  }, [draftState.hasUnsavedChanges, draftState.title, draftState.outline]);
-
-  const updateSection = (sectionId: string, field: 'title' | 'content', value: string) => {
-    setDraftState(prev => {
-      const updatedSections = updateSectionInTree(prev.outline.sections, sectionId, field, value);
-      return {
-        ...prev,
-        outline: { ...prev.outline, sections: updatedSections },
-        hasUnsavedChanges: true
-      };
-    });
+  }, [draftState.hasUnsavedChanges, draftState.title, draftState.outline, staleDraft]);
+
+  const updateSection = (sectionId: string, field: SectionField, value: string) => {
+    const outline = outlineRef.current;
+
+    if (isLive) {
+      const section = findSectionInTree(outline.sections, sectionId);
+      if (!section) return;
+      const operation: DraftOperation = { type: 'text', sectionId, field, op: diffText(section[field] || '', value) };
+      commitOutline(applyDraftOperation(outline, operation));
+      collaboration.submit(operation);
+      return;
+    }
+
+    commitOutline(
+      { ...outline, sections: updateSectionInTree(outline.sections, sectionId, field, value) },
+      { hasUnsavedChanges: true }
+    );
   };
 
   const updateSectionInTree = (sections: Section[], sectionId: string, field: 'title' | 'content', value: string): Section[] => {
@@ -225,22 +384,29 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
       children: []
     };
 
-    setDraftState(prev => {
-      let updatedSections: Section[];
-      
-      if (parentId) {
-        updatedSections = addSectionToTree(prev.outline.sections, parentId, newSection);
-      } else {
-        updatedSections = [...prev.outline.sections, newSection];
-      }
+    const outline = outlineRef.current;
 
-      return {
-        ...prev,
-        outline: { ...prev.outline, sections: updatedSections },
-        currentSection: newSection.id,
-        hasUnsavedChanges: true
+    if (isLive) {
+      const siblings = parentId
+        ? findSectionInTree(outline.sections, parentId)?.children || []
+        : outline.sections;
+      const operation: DraftOperation = {
+        type: 'insert-section',
+        parentId: parentId ?? null,
+        afterId: siblings.length > 0 ? siblings[siblings.length - 1].id : null,
+        section: { ...newSection }
       };
-    });
+      commitOutline(applyDraftOperation(outline, operation), { currentSection: newSection.id });
+      collaboration.submit(operation);
+    } else {
+      const updatedSections = parentId
+        ? addSectionToTree(outline.sections, parentId, newSection)
+        : [...outline.sections, newSection];
+      commitOutline(
+        { ...outline, sections: updatedSections },
+        { currentSection: newSection.id, hasUnsavedChanges: true }
+      );
+    }
 
     // Expand the parent section
     if (parentId) {
@@ -278,6 +444,28 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
     });
   };
 
+  const selectSection = (sectionId: string) => {
+    setDraftState(prev => ({ ...prev, currentSection: sectionId }));
+    collaboration.setPresence({ sectionId, field: null, cursor: null });
+  };
+
+  const reportCaret = (field: SectionField, element: HTMLInputElement | HTMLTextAreaElement) => {
+    if (!draftState.currentSection) return;
+    focusedFieldRef.current = { sectionId: draftState.currentSection, field };
+    collaboration.setPresence({ sectionId: draftState.currentSection, field, cursor: element.selectionStart });
+  };
+
+  const clearCaret = () => {
+    focusedFieldRef.current = null;
+    collaboration.setPresence({ sectionId: draftState.currentSection, field: null, cursor: null });
+  };
+
+  const collaboratorsIn = (sectionId: string) =>
+    collaboration.collaborators.filter(collaborator => collaborator.sectionId === sectionId);
+
+  const commentDocument = { workspaceId };
+  const { threads: commentThreads } = useComments(commentDocument);
+
   const renderSection = (section: Section, depth = 0) => {
     const isExpanded = expandedSections.has(section.id);
     const isSelected = draftState.currentSection === section.id;
@@ -289,10 +477,7 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
             isSelected ? 'bg-accent' : ''
           }`}
           style={{ paddingLeft: `${(depth * 12) + 8}px` }}
-          onClick={() => setDraftState(prev => ({ 
-            ...prev, 
-            currentSection: section.id 
-          }))}
+          onClick={() => selectSection(section.id)}
           data-testid={`section-${section.id}`}
         >
           {section.children && section.children.length > 0 && (
@@ -315,6 +500,13 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
           <span className="text-sm flex-1 truncate">
             {section.title}
           </span>
+          <CollaboratorDots collaborators={collaboratorsIn(section.id)} />
+          <CommentsPopover
+            document={commentDocument}
+            target={{ sectionId: section.id }}
+            threads={commentThreads}
+            sectionTitle={section.title}
+          />
           <Button
             variant="ghost"
             size="icon"
@@ -340,29 +532,50 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
 
   const getCurrentSection = (): Section | null => {
     if (!draftState.currentSection) return null;
-    
-    const findSection = (sections: Section[]): Section | null => {
-      for (const section of sections) {
-        if (section.id === draftState.currentSection) {
-          return section;
-        }
-        if (section.children) {
-          const found = findSection(section.children);
-          if (found) return found;
-        }
-      }
-      return null;
-    };
-    
-    return findSection(draftState.outline.sections);
+    return findSectionInTree(draftState.outline.sections, draftState.currentSection);
   };
 
   const handleManualSave = () => {
     saveDraftMutation.mutate({
-      outline: draftState.outline
+      outline: draftState.outline,
+      branchName: branch,
+      updatedAt: syncedDraftRef.current?.updatedAt
     });
   };
 
+  const handleStaleMerge = (merged: DraftState['outline']) => {
+    const current = staleDraft!;
+    syncedDraftRef.current = current;
+    setStaleDraft(null);
+    commitOutline(merged, { hasUnsavedChanges: true });
+    saveDraftMutation.mutate({ outline: merged, branchName: current.branchName, updatedAt: current.updatedAt });
+  };
+
+  const handleStaleDiscard = () => {
+    const current = staleDraft!;
+    syncedDraftRef.current = current;
+    setStaleDraft(null);
+    commitOutline((current.outline as DraftState['outline']) || { sections: [] }, { hasUnsavedChanges: false });
+  };
+
+  const handleBranchChange = (nextBranch: string) => {
+    if (nextBranch === branch) return;
+
+    // Save pending edits to the branch they were made on before switching
+    if (autoSaveTimeoutRef.current) {
+      clearTimeout(autoSaveTimeoutRef.current);
+    }
+    // Live edits are already based on the latest copy, so they skip the check
+    if (draftState.hasUnsavedChanges || collaboration.pending) {
+      saveDraftMutation.mutate({
+        outline: outlineRef.current,
+        branchName: branch,
+        updatedAt: isLive ? undefined : syncedDraftRef.current?.updatedAt
+      });
+    }
+    setBranch(nextBranch);
+  };
+
   if (error) {
     return (
       <Card className="h-full">
@@ -384,7 +597,6 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
   }
 
   const currentSection = getCurrentSection();
-  const revisions = revisionsData?.revisions || [];
 
   return (
     <Card className="h-full flex flex-col">
@@ -395,12 +607,27 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
             Draft Editor
           </CardTitle>
           <div className="flex items-center space-x-2">
-            {draftState.hasUnsavedChanges && (
+            {isLive ? (
+              <>
+                <CollaboratorDots collaborators={collaboration.collaborators} />
+                <Badge variant="outline" className="text-xs" data-testid="badge-live-status">
+                  <Radio className="w-3 h-3 mr-1" />
+                  {collaboration.pending ? 'Syncing' : 'Live'}
+                </Badge>
+              </>
+            ) : draftState.hasUnsavedChanges && (
               <Badge variant="outline" className="text-xs">
                 <AlertCircle className="w-3 h-3 mr-1" />
                 Unsaved
               </Badge>
             )}
+            <BranchSwitcher
+              workspaceId={workspaceId}
+              branch={branch}
+              onBranchChange={handleBranchChange}
+              onFork={() => setForkFromRevision(null)}
+              onMerge={() => setMergeDialogOpen(true)}
+            />
             <Dialog open={revisionDialogOpen} onOpenChange={setRevisionDialogOpen}>
               <DialogTrigger asChild>
                 <Button variant="outline" size="sm" data-testid="button-revision-history">
@@ -408,56 +635,79 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
                   History
                 </Button>
               </DialogTrigger>
-              <DialogContent>
+              <DialogContent className="max-w-5xl">
                 <DialogHeader>
                   <DialogTitle>Revision History</DialogTitle>
                   <DialogDescription>
-                    View and restore previous versions of this draft.
+                    Compare revisions section by section. Restoring adds a new revision.
                   </DialogDescription>
                 </DialogHeader>
-                <ScrollArea className="max-h-96">
-                  <div className="space-y-2">
-                    {revisions.map((revision: any) => (
-                      <div key={revision.id} className="p-3 border rounded-md">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium">
-                            {new Date(revision.createdAt).toLocaleString()}
-                          </span>
-                          <Button variant="outline" size="sm">
-                            Restore
-                          </Button>
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          {revision.summary || 'No summary available'}
-                        </p>
-                      </div>
-                    ))}
-                    {revisions.length === 0 && (
-                      <p className="text-muted-foreground text-center py-4">
-                        No revision history available
-                      </p>
-                    )}
-                  </div>
-                </ScrollArea>
+                <RevisionTimeline 
+                  workspaceId={workspaceId} 
+                  branch={branch}
+                  onFork={(revisionNumber) => {
+                    setRevisionDialogOpen(false);
+                    setForkFromRevision(revisionNumber);
+                  }}
+                />
               </DialogContent>
             </Dialog>
-            <Button 
-              onClick={handleManualSave}
-              disabled={saveDraftMutation.isPending || !draftState.hasUnsavedChanges}
-              size="sm"
-              data-testid="button-save-draft"
-            >
-              {saveDraftMutation.isPending ? (
-                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
-              ) : (
-                <Save className="w-3 h-3 mr-1" />
-              )}
-              Save
-            </Button>
+            {/* Live edits are saved as they sync */}
+            {!isLive && (
+              <Button 
+                onClick={handleManualSave}
+                disabled={saveDraftMutation.isPending || !draftState.hasUnsavedChanges}
+                size="sm"
+                data-testid="button-save-draft"
+              >
+                {saveDraftMutation.isPending ? (
+                  <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                ) : (
+                  <Save className="w-3 h-3 mr-1" />
+                )}
+                Save
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
 
+      <ForkBranchDialog
+        workspaceId={workspaceId}
+        fromBranch={branch}
+        fromRevision={forkFromRevision ?? undefined}
+        open={forkFromRevision !== undefined}
+        onOpenChange={(open) => !open && setForkFromRevision(undefined)}
+        onCreated={handleBranchChange}
+      />
+      {staleDraft && (
+        <StaleChangesDialog
+          open
+          onOpenChange={(open) => !open && setStaleDraft(null)}
+          base={(syncedDraftRef.current?.outline as DraftState['outline']) || { sections: [] }}
+          ours={draftState.outline}
+          theirs={(staleDraft.outline as DraftState['outline']) || { sections: [] }}
+          resourceLabel="draft"
+          describePath={(path) => describeOutlinePath(
+            path,
+            draftState.outline,
+            (staleDraft.outline as DraftState['outline']) || { sections: [] }
+          )}
+          isSaving={saveDraftMutation.isPending}
+          onMerge={handleStaleMerge}
+          onDiscard={handleStaleDiscard}
+        />
+      )}
+      {parentBranch && (
+        <MergeBranchDialog
+          workspaceId={workspaceId}
+          branch={branch}
+          parentBranch={parentBranch}
+          open={mergeDialogOpen}
+          onOpenChange={setMergeDialogOpen}
+        />
+      )}
+
       <CardContent className="flex-1 flex space-x-4 min-h-0">
         {/* Left: Outline Navigation */}
         <div className="w-1/3 flex flex-col space-y-4">
@@ -524,17 +774,52 @@ export function DraftPanel({ workspaceId }: DraftPanelProps) {
                 <h4 className="text-sm font-medium mb-2 flex items-center">
                   <Edit className="w-4 h-4 mr-1" />
                   Section Editor
+                  <span className="flex-1" />
+                  <span className="text-xs text-muted-foreground font-normal">Comments:</span>
+                  {(['title', 'content'] as const).map(field => (
+                    <div key={field} className="flex items-center text-xs font-normal text-muted-foreground">
+                      <span className="ml-2">{field}</span>
+                      <CommentsPopover
+                        document={commentDocument}
+                        target={{ sectionId: currentSection.id, field }}
+                        threads={commentThreads}
+                        sectionTitle={currentSection.title}
+                      />
+                    </div>
+                  ))}
                 </h4>
+                {collaboratorsIn(currentSection.id).length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-2" data-testid="section-presence">
+                    {collaboratorsIn(currentSection.id).map(collaborator => (
+                      <Badge
+                        key={collaborator.clientId}
+                        variant="outline"
+                        className="text-xs"
+                        style={{ borderColor: collaborator.color, color: collaborator.color }}
+                      >
+                        {describePresence(collaborator, currentSection)}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
                 <Input
+                  ref={titleInputRef}
                   value={currentSection.title}
                   onChange={(e) => updateSection(currentSection.id, 'title', e.target.value)}
+                  onFocus={(e) => reportCaret('title', e.currentTarget)}
+                  onSelect={(e) => reportCaret('title', e.currentTarget)}
+                  onBlur={clearCaret}
                   placeholder="Section Title"
                   className="mb-2"
                   data-testid="input-section-title"
                 />
                 <Textarea
+                  ref={contentRef}
                   value={currentSection.content}
                   onChange={(e) => updateSection(currentSection.id, 'content', e.target.value)}
+                  onFocus={(e) => reportCaret('content', e.currentTarget)}
+                  onSelect={(e) => reportCaret('content', e.currentTarget)}
+                  onBlur={clearCaret}
                   placeholder="Section content..."
                   className="flex-1 min-h-[300px] resize-none"
                   data-testid="textarea-section-content"
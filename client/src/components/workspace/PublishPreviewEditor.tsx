@@ -0,0 +1,125 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+import { issueEntrySchema, type IssueEntry, type IssueSection } from "@shared/publish";
+
+interface PublishPreviewEditorProps {
+  sections: IssueSection[];
+  onChange: (sections: IssueSection[]) => void;
+  // Sections whose entries were guessed by the keyword heuristic
+  fallbackSectionIds: string[];
+}
+
+// Entries are incomplete until every field is filled in
+export function isEntryComplete(entry: IssueEntry): boolean {
+  return issueEntrySchema.safeParse(entry).success;
+}
+
+// Per-entry editor for the issue sections generated at publish time
+export function PublishPreviewEditor({ sections, onChange, fallbackSectionIds }: PublishPreviewEditorProps) {
+  const updateEntries = (sectionId: string, update: (entries: IssueEntry[]) => IssueEntry[]) => {
+    onChange(sections.map(section =>
+      section.id === sectionId ? { ...section, entries: update(section.entries) } : section
+    ));
+  };
+
+  const updateEntry = (sectionId: string, entryIndex: number, changes: Partial<IssueEntry>) => {
+    updateEntries(sectionId, entries => entries.map((entry, index) =>
+      index === entryIndex ? { ...entry, ...changes } : entry
+    ));
+  };
+
+  return (
+    <div className="space-y-4">
+      {sections.map(section => (
+        <div key={section.id} className="border rounded-lg p-4 space-y-3" data-testid={`publish-section-${section.id}`}>
+          <div className="flex items-center space-x-2">
+            <div className={`w-3 h-3 rounded-sm bg-${section.color}-200`} />
+            <h4 className="font-medium">{section.title}</h4>
+            <span className="text-xs text-muted-foreground">({section.icon})</span>
+            {fallbackSectionIds.includes(section.id) && (
+              <Badge variant="secondary" className="text-xs">Heuristic</Badge>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            {section.entries.map((entry, entryIndex) => (
+              <div
+                key={entryIndex}
+                className={`border-l-2 pl-3 space-y-2 ${isEntryComplete(entry) ? 'border-muted' : 'border-destructive'}`}
+                data-testid={`publish-entry-${section.id}-${entryIndex}`}
+              >
+                <div className="flex items-center space-x-2">
+                  <Input
+                    value={entry.pattern}
+                    onChange={(e) => updateEntry(section.id, entryIndex, { pattern: e.target.value })}
+                    placeholder="Pattern name"
+                    className="h-8 font-medium"
+                    data-testid={`input-entry-pattern-${section.id}-${entryIndex}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => updateEntries(section.id, entries => entries.filter((_, index) => index !== entryIndex))}
+                    data-testid={`button-remove-entry-${section.id}-${entryIndex}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Textarea
+                  value={entry.description}
+                  onChange={(e) => updateEntry(section.id, entryIndex, { description: e.target.value })}
+                  placeholder="Description"
+                  rows={3}
+                  className="text-sm"
+                  data-testid={`input-entry-description-${section.id}-${entryIndex}`}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Signals (one per line)</Label>
+                    <Textarea
+                      value={entry.signals.join('\n')}
+                      onChange={(e) => updateEntry(section.id, entryIndex, { signals: e.target.value.split('\n') })}
+                      onBlur={() => updateEntry(section.id, entryIndex, {
+                        signals: entry.signals.map(signal => signal.trim()).filter(Boolean)
+                      })}
+                      rows={3}
+                      className="text-xs"
+                      data-testid={`input-entry-signals-${section.id}-${entryIndex}`}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Protocol</Label>
+                    <Textarea
+                      value={entry.protocol}
+                      onChange={(e) => updateEntry(section.id, entryIndex, { protocol: e.target.value })}
+                      rows={3}
+                      className="text-xs"
+                      data-testid={`input-entry-protocol-${section.id}-${entryIndex}`}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateEntries(section.id, entries => [
+                ...entries,
+                { pattern: '', description: '', signals: [], protocol: '' }
+              ])}
+              data-testid={`button-add-entry-${section.id}`}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add Entry
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
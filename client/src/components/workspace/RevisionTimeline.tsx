@@ -0,0 +1,333 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  GitCommit,
+  GitBranch,
+  RotateCcw,
+  Loader2,
+  Plus,
+  Minus,
+  ArrowRightLeft
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { OutlineDiffSummary, SectionDiff } from "@shared/outlineDiff";
+
+interface RevisionTimelineProps {
+  workspaceId: string;
+  branch: string;
+  onRestored?: () => void;
+  onFork?: (revisionNumber: number) => void;
+}
+
+interface RevisionListItem {
+  id: string;
+  number: number;
+  branch: string | null;
+  createdAt: string;
+  summary: string;
+  changes: OutlineDiffSummary;
+}
+
+type CompareMode = 'previous' | 'current';
+
+const statusStyles: Record<SectionDiff['status'], string> = {
+  added: 'border-green-300 bg-green-50',
+  removed: 'border-red-300 bg-red-50',
+  modified: 'border-yellow-300 bg-yellow-50',
+  unchanged: ''
+};
+
+function ChangeCounts({ changes }: { changes: OutlineDiffSummary }) {
+  const parts = [
+    changes.added && `+${changes.added}`,
+    changes.removed && `-${changes.removed}`,
+    changes.modified && `~${changes.modified}`,
+    changes.moved && `↕${changes.moved}`
+  ].filter(Boolean);
+
+  return (
+    <span className="text-xs text-muted-foreground font-mono">
+      {parts.length > 0 ? parts.join(' ') : 'no section changes'}
+    </span>
+  );
+}
+
+export function SectionDiffView({ section }: { section: SectionDiff }) {
+  const current = section.after || section.before!;
+  const location = current.parents.length > 0 ? current.parents.join(' › ') : null;
+
+  return (
+    <div
+      className={cn("border rounded-md", statusStyles[section.status])}
+      data-testid={`revision-diff-section-${section.id}`}
+    >
+      <div className="flex items-center justify-between p-2 border-b bg-background/60">
+        <div className="min-w-0">
+          <div className="text-sm font-medium truncate">{current.title || 'Untitled section'}</div>
+          {location && <div className="text-xs text-muted-foreground truncate">{location}</div>}
+        </div>
+        <div className="flex items-center space-x-1 flex-shrink-0">
+          {section.moved && (
+            <Badge variant="outline" className="text-xs">
+              <ArrowRightLeft className="w-3 h-3 mr-1" />
+              moved
+            </Badge>
+          )}
+          <Badge variant="secondary" className="text-xs">{section.status}</Badge>
+        </div>
+      </div>
+
+      {section.status === 'added' && (
+        <div className="p-2 text-xs whitespace-pre-wrap font-mono text-green-700">
+          <Plus className="w-3 h-3 inline mr-1" />
+          {section.after!.content || '(empty)'}
+        </div>
+      )}
+
+      {section.status === 'removed' && (
+        <div className="p-2 text-xs whitespace-pre-wrap font-mono text-red-700">
+          <Minus className="w-3 h-3 inline mr-1" />
+          {section.before!.content || '(empty)'}
+        </div>
+      )}
+
+      {section.status === 'modified' && (
+        <div className="grid grid-cols-2 divide-x text-xs">
+          <div className="p-2 space-y-1 text-red-700">
+            {section.changedFields.includes('title') && (
+              <div className="font-medium">{section.before!.title}</div>
+            )}
+            {section.changedFields.includes('content') && (
+              <div className="whitespace-pre-wrap font-mono">{section.before!.content || '(empty)'}</div>
+            )}
+          </div>
+          <div className="p-2 space-y-1 text-green-700">
+            {section.changedFields.includes('title') && (
+              <div className="font-medium">{section.after!.title}</div>
+            )}
+            {section.changedFields.includes('content') && (
+              <div className="whitespace-pre-wrap font-mono">{section.after!.content || '(empty)'}</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RevisionTimeline({ workspaceId, branch, onRestored, onFork }: RevisionTimelineProps) {
+  const { toast } = useToast();
+  const [selectedNumber, setSelectedNumber] = useState<number | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const { data: revisionsData, isLoading } = useQuery({
+    queryKey: ['/api/admin/workspaces', workspaceId, 'draft', 'revisions', { branch }],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(`/api/admin/workspaces/${workspaceId}/draft/revisions?branch=${encodeURIComponent(branch)}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch revisions');
+      return response.json();
+    }
+  });
+
+  const revisions: RevisionListItem[] = revisionsData?.revisions || [];
+  const selected = revisions.find(revision => revision.number === selectedNumber);
+  const previous = revisions.find(revision => selected && revision.number < selected.number);
+  // The first revision has nothing before it to compare against
+  const effectiveMode: CompareMode = compareMode === 'previous' && !previous ? 'current' : compareMode;
+
+  useEffect(() => {
+    if (selectedNumber === null && revisions.length > 0) {
+      setSelectedNumber(revisions[0].number);
+    }
+  }, [revisions, selectedNumber]);
+
+  const diffParams = selected
+    ? effectiveMode === 'previous'
+      ? `from=${previous!.number}&to=${selected.number}`
+      : `from=${selected.number}&branch=${encodeURIComponent(branch)}`
+    : null;
+
+  const { data: diffData, isLoading: isDiffLoading } = useQuery({
+    queryKey: ['/api/admin/workspaces', workspaceId, 'draft', 'revisions', 'diff', diffParams],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(`/api/admin/workspaces/${workspaceId}/draft/revisions/diff?${diffParams}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to compare revisions');
+      return response.json();
+    },
+    enabled: diffParams !== null
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (number: number) => {
+      const response = await apiRequest('POST', `/api/admin/workspaces/${workspaceId}/draft/revisions/${number}/restore?branch=${encodeURIComponent(branch)}`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Revision Restored",
+        description: result.message,
+      });
+      setSelectedNumber(result.revision.number);
+      queryClient.invalidateQueries({
+        queryKey: ['/api/admin/workspaces', workspaceId, 'draft']
+      });
+      queryClient.invalidateQueries({
+        queryKey: ['/api/admin/workspaces', workspaceId, 'activities']
+      });
+      onRestored?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Restore Failed",
+        description: error.message || "Failed to restore revision.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const diffSections: SectionDiff[] = diffData?.sections || [];
+  const visibleSections = showUnchanged
+    ? diffSections
+    : diffSections.filter(section => section.status !== 'unchanged' || section.moved);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-4 h-4 animate-spin" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-muted-foreground text-center py-8 text-sm">
+        No revision history available
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-[16rem_1fr] gap-4 h-[60vh]" data-testid="revision-timeline">
+      {/* Timeline */}
+      <ScrollArea className="h-full pr-2">
+        <ol className="relative border-l ml-2 space-y-3">
+          {revisions.map(revision => (
+            <li key={revision.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-2 w-3 h-3 rounded-full border bg-background" />
+              <button
+                type="button"
+                onClick={() => setSelectedNumber(revision.number)}
+                className={cn(
+                  "w-full text-left p-2 rounded-md border hover:bg-accent",
+                  revision.number === selectedNumber && "border-primary bg-accent"
+                )}
+                data-testid={`button-revision-${revision.number}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium flex items-center">
+                    <GitCommit className="w-3 h-3 mr-1" />
+                    Revision {revision.number}
+                  </span>
+                  <ChangeCounts changes={revision.changes} />
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(revision.createdAt).toLocaleString()}
+                  {revision.branch && revision.branch !== branch && ` · on ${revision.branch}`}
+                </div>
+                <p className="text-xs mt-1 line-clamp-2">{revision.summary}</p>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </ScrollArea>
+
+      {/* Diff */}
+      <div className="flex flex-col min-h-0 space-y-3">
+        {selected && (
+          <div className="flex items-center justify-between">
+            <Tabs value={effectiveMode} onValueChange={(value) => setCompareMode(value as CompareMode)}>
+              <TabsList>
+                <TabsTrigger value="previous" disabled={!previous} data-testid="tab-compare-previous">
+                  Changes in revision {selected.number}
+                </TabsTrigger>
+                <TabsTrigger value="current" data-testid="tab-compare-current">
+                  Compare with current draft
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowUnchanged(prev => !prev)}
+                data-testid="button-toggle-unchanged"
+              >
+                {showUnchanged ? 'Hide unchanged' : 'Show unchanged'}
+              </Button>
+              {onFork && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onFork(selected.number)}
+                  data-testid={`button-fork-revision-${selected.number}`}
+                >
+                  <GitBranch className="w-3 h-3 mr-1" />
+                  Branch from here
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => restoreMutation.mutate(selected.number)}
+                disabled={restoreMutation.isPending || selected.number === revisions[0].number}
+                data-testid={`button-restore-revision-${selected.number}`}
+              >
+                {restoreMutation.isPending ? (
+                  <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                )}
+                Restore
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <ScrollArea className="flex-1 min-h-0">
+          {isDiffLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-4 h-4 animate-spin" />
+            </div>
+          ) : visibleSections.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8 text-sm">
+              No section changes
+            </p>
+          ) : (
+            <div className="space-y-2 pr-2">
+              {visibleSections.map(section => (
+                <SectionDiffView key={section.id} section={section} />
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useMemo } from "react";
+import { threeWayMerge } from "@shared/merge";
+import type { SuggestionConflict } from "@/hooks/use-suggestion-actions";
+import { ConflictResolutionDialog } from "./ConflictResolutionDialog";
+
+interface StaleChangesDialogProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // What the editor started from, what it has now, and the server's copy
+  base: T;
+  ours: T;
+  theirs: T;
+  resourceLabel: string;
+  // Names what a conflicting JSON Pointer refers to, for the conflict list
+  describePath: (path: string) => { section: string; field: string | null };
+  isSaving: boolean;
+  onMerge: (merged: T) => void;
+  onDiscard: () => void;
+}
+
+// Shown when a save is rejected because someone else saved first. Their
+// changes are merged with the editor's; overlapping edits are resolved by hand.
+export function StaleChangesDialog<T>({
+  open,
+  onOpenChange,
+  base,
+  ours,
+  theirs,
+  resourceLabel,
+  describePath,
+  isSaving,
+  onMerge,
+  onDiscard
+}: StaleChangesDialogProps<T>) {
+  const conflicts: SuggestionConflict[] = useMemo(
+    () => threeWayMerge(base, ours, theirs).conflicts.map(conflict => ({
+      ...conflict,
+      ...describePath(conflict.path)
+    })),
+    [base, ours, theirs]
+  );
+
+  return (
+    <ConflictResolutionDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      conflicts={conflicts}
+      isApplying={isSaving}
+      onResolve={(resolutions) => onMerge(threeWayMerge(base, ours, theirs, resolutions).merged)}
+      labels={{ ours: 'Your edits', theirs: 'Their changes' }}
+      description={conflicts.length > 0
+        ? `Someone else changed this ${resourceLabel} while you were editing. Choose what to keep where you both made changes.`
+        : `Someone else changed this ${resourceLabel} while you were editing. Your changes don't overlap theirs and can be merged.`}
+      submitLabel="Merge and Save"
+      secondaryAction={{ label: 'Discard mine', onClick: onDiscard }}
+    />
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Lightbulb,
+  Check,
+  X,
+  Loader2,
+  ChevronDown,
+  ChevronRight
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useSuggestionActions } from "@/hooks/use-suggestion-actions";
+import { DiffView } from "./SuggestionsPanel";
+import type { Suggestion, SuggestionDiff } from "@shared/schema";
+
+interface SuggestionCardProps {
+  workspaceId: string;
+  suggestion: Suggestion;
+}
+
+const operationLabels: Record<string, string> = {
+  replace: 'Edit',
+  add: 'New pattern',
+  remove: 'Remove',
+  move: 'Move',
+  copy: 'Copy'
+};
+
+export function SuggestionCard({ workspaceId, suggestion }: SuggestionCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { applySuggestion, rejectSuggestion } = useSuggestionActions(workspaceId);
+  const diff = suggestion.diff as SuggestionDiff | null;
+  const operation = diff?.patch?.find(change => change.op !== 'test')?.op;
+  const isProposed = suggestion.status === 'proposed';
+
+  return (
+    <div
+      className="border rounded-md bg-background text-foreground text-xs"
+      data-testid={`chat-suggestion-${suggestion.id}`}
+    >
+      <button
+        type="button"
+        className="w-full flex items-start gap-2 p-2 text-left hover:bg-accent rounded-t-md"
+        onClick={() => setExpanded(prev => !prev)}
+        data-testid={`button-toggle-suggestion-${suggestion.id}`}
+      >
+        {expanded ? (
+          <ChevronDown className="w-3 h-3 mt-0.5 flex-shrink-0" />
+        ) : (
+          <ChevronRight className="w-3 h-3 mt-0.5 flex-shrink-0" />
+        )}
+        <Lightbulb className="w-3 h-3 mt-0.5 flex-shrink-0 text-yellow-500" />
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="font-medium truncate">
+              {diff?.section || 'Draft'}
+            </span>
+            <Badge variant="outline" className="text-[10px] px-1 py-0">
+              {(operation && operationLabels[operation]) || 'Change'}
+            </Badge>
+          </div>
+          <p className={cn("text-muted-foreground", !expanded && "line-clamp-2")}>
+            {suggestion.rationale}
+          </p>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="border-t p-2">
+          <DiffView suggestion={suggestion} />
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2 border-t p-2">
+        {isProposed ? (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => rejectSuggestion.mutate(suggestion.id)}
+              disabled={rejectSuggestion.isPending || applySuggestion.isPending}
+              data-testid={`button-chat-reject-${suggestion.id}`}
+            >
+              {rejectSuggestion.isPending ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <X className="w-3 h-3 mr-1" />
+              )}
+              Reject
+            </Button>
+            <Button
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => applySuggestion.mutate({ suggestionId: suggestion.id })}
+              disabled={applySuggestion.isPending || rejectSuggestion.isPending}
+              data-testid={`button-chat-apply-${suggestion.id}`}
+            >
+              {applySuggestion.isPending ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <Check className="w-3 h-3 mr-1" />
+              )}
+              Apply
+            </Button>
+          </>
+        ) : (
+          <Badge variant="secondary" className="text-[10px]">
+            {suggestion.status}
+          </Badge>
+        )}
+      </div>
+    </div>
+  );
+}
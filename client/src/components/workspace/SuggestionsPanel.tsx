@@ -22,11 +22,21 @@ import {
   MessageSquare,
   Loader2,
   Plus,
-  Minus
+  Minus,
+  Sparkles,
+  AlertTriangle,
+  ChevronUp,
+  ChevronDown,
+  ListChecks
 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import { useSuggestionActions, type SuggestionConflictError } from "@/hooks/use-suggestion-actions";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Suggestion } from "@shared/schema";
+import { applyJsonPatch } from "@shared/jsonPatch";
+import type { ConflictResolutions } from "@shared/merge";
+import type { Suggestion, SuggestionBatch, SuggestionDiff } from "@shared/schema";
+import { ConflictResolutionDialog } from "./ConflictResolutionDialog";
 
 interface SuggestionsPanelProps {
   workspaceId: string;
@@ -36,8 +46,9 @@ interface DiffViewProps {
   suggestion: Suggestion;
 }
 
-function DiffView({ suggestion }: DiffViewProps) {
-  const changes = Array.isArray(suggestion.diff) ? suggestion.diff : [];
+export function DiffView({ suggestion }: DiffViewProps) {
+  const diff = suggestion.diff as any;
+  const changes = Array.isArray(diff) ? diff : diff ? [diff] : [];
   
   return (
     <div className="space-y-4">
@@ -83,10 +94,29 @@ function DiffView({ suggestion }: DiffViewProps) {
   );
 }
 
+// Dry-runs a suggestion's patch against the current outline so stale
+// suggestions can be flagged before the server rejects them
+export function getSuggestionConflict(suggestion: Suggestion, outline: unknown): string | null {
+  const diff = suggestion.diff as SuggestionDiff | null;
+  if (!outline || !Array.isArray(diff?.patch)) return null;
+
+  try {
+    applyJsonPatch(outline, diff.patch);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
 export function SuggestionsPanel({ workspaceId }: SuggestionsPanelProps) {
   const { toast } = useToast();
   const [selectedSuggestion, setSelectedSuggestion] = useState<Suggestion | null>(null);
   const [diffDialogOpen, setDiffDialogOpen] = useState(false);
+  const [pendingConflict, setPendingConflict] = useState<SuggestionConflictError | null>(null);
+  // Selected suggestion ids, in the order they will be applied
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Batch awaiting conflict resolution, if the open conflict came from one
+  const [pendingBatch, setPendingBatch] = useState<SuggestionBatch | null>(null);
 
   // Fetch suggestions
   const { data: suggestionsData, isLoading, error } = useQuery({
@@ -104,46 +134,37 @@ export function SuggestionsPanel({ workspaceId }: SuggestionsPanelProps) {
     refetchInterval: 10000 // Refresh every 10 seconds
   });
 
-  // Apply suggestion mutation
-  const applySuggestionMutation = useMutation({
-    mutationFn: async (suggestionId: string) => {
-      const response = await apiRequest('POST', `/api/admin/workspaces/${workspaceId}/suggestions/${suggestionId}/apply`);
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Suggestion Applied",
-        description: "The suggestion has been successfully applied to your draft.",
-      });
-      queryClient.invalidateQueries({ 
-        queryKey: ['/api/admin/workspaces', workspaceId, 'suggestions'] 
-      });
-      queryClient.invalidateQueries({ 
-        queryKey: ['/api/admin/workspaces', workspaceId, 'draft'] 
-      });
-      queryClient.invalidateQueries({ 
-        queryKey: ['/api/admin/workspaces', workspaceId, 'activities'] 
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Apply Failed",
-        description: error.message || "Failed to apply suggestion.",
-        variant: "destructive"
+  // Shares the draft query with DraftPanel so edits there re-check suggestions
+  const { data: draftData } = useQuery({
+    queryKey: ['/api/admin/workspaces', workspaceId, 'draft'],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(`/api/admin/workspaces/${workspaceId}/draft`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
       });
+      if (!response.ok) {
+        if (response.status === 404) {
+          return { draft: null };
+        }
+        throw new Error('Failed to fetch draft');
+      }
+      return response.json();
     }
   });
 
-  // Reject suggestion mutation
-  const rejectSuggestionMutation = useMutation({
-    mutationFn: async (suggestionId: string) => {
-      const response = await apiRequest('POST', `/api/admin/workspaces/${workspaceId}/suggestions/${suggestionId}/reject`);
+  // Generate suggestions mutation
+  const generateSuggestionsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/workspaces/${workspaceId}/suggestions/generate`, {});
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      const skippedCount = result.skipped?.length || 0;
       toast({
-        title: "Suggestion Rejected",
-        description: "The suggestion has been rejected and removed.",
+        title: "Suggestions Generated",
+        description: `${result.suggestions.length} new suggestion${result.suggestions.length === 1 ? '' : 's'} ready for review${skippedCount > 0 ? ` (${skippedCount} invalid skipped)` : ''}.`,
       });
       queryClient.invalidateQueries({ 
         queryKey: ['/api/admin/workspaces', workspaceId, 'suggestions'] 
@@ -154,15 +175,75 @@ export function SuggestionsPanel({ workspaceId }: SuggestionsPanelProps) {
     },
     onError: (error: any) => {
       toast({
-        title: "Reject Failed",
-        description: error.message || "Failed to reject suggestion.",
+        title: "Generation Failed",
+        description: error.message || "Failed to generate suggestions.",
         variant: "destructive"
       });
     }
   });
 
+  const { 
+    applySuggestion: applySuggestionMutation, 
+    rejectSuggestion: rejectSuggestionMutation,
+    reviewBatch: reviewBatchMutation
+  } = useSuggestionActions(workspaceId, { onConflict: setPendingConflict });
+
   const handleApplySuggestion = (suggestion: Suggestion) => {
-    applySuggestionMutation.mutate(suggestion.id);
+    setPendingBatch(null);
+    applySuggestionMutation.mutate({ suggestionId: suggestion.id });
+  };
+
+  const submitBatch = (batch: SuggestionBatch) => {
+    setPendingBatch(batch);
+    reviewBatchMutation.mutate(batch, {
+      onSuccess: () => {
+        setPendingBatch(null);
+        setPendingConflict(null);
+        setSelectedIds([]);
+      }
+    });
+  };
+
+  const handleBatchApply = () => {
+    submitBatch({ apply: selectedSuggestions.map(s => s.id), reject: [], resolutions: {} });
+  };
+
+  const handleBatchReject = () => {
+    submitBatch({ apply: [], reject: selectedSuggestions.map(s => s.id), resolutions: {} });
+  };
+
+  const handleResolveConflicts = (resolutions: ConflictResolutions) => {
+    if (!pendingConflict) return;
+
+    if (pendingBatch) {
+      submitBatch({
+        ...pendingBatch,
+        resolutions: { ...pendingBatch.resolutions, [pendingConflict.suggestionId]: resolutions }
+      });
+      return;
+    }
+
+    applySuggestionMutation.mutate(
+      { suggestionId: pendingConflict.suggestionId, resolutions },
+      { onSuccess: () => setPendingConflict(null) }
+    );
+  };
+
+  const toggleSelected = (suggestionId: string) => {
+    setSelectedIds(prev => prev.includes(suggestionId)
+      ? prev.filter(id => id !== suggestionId)
+      : [...prev, suggestionId]
+    );
+  };
+
+  const moveSelected = (index: number, offset: -1 | 1) => {
+    setSelectedIds(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
   };
 
   const handleRejectSuggestion = (suggestion: Suggestion) => {
@@ -208,6 +289,14 @@ export function SuggestionsPanel({ workspaceId }: SuggestionsPanelProps) {
   }
 
   const suggestions: Suggestion[] = suggestionsData?.suggestions || [];
+  const pendingSuggestions = suggestions.filter(s => s.status === 'proposed');
+  // Drop selections that were reviewed elsewhere since they were picked
+  const selectedSuggestions = selectedIds
+    .map(id => pendingSuggestions.find(suggestion => suggestion.id === id))
+    .filter((suggestion): suggestion is Suggestion => !!suggestion);
+  const isReviewing = applySuggestionMutation.isPending || 
+    rejectSuggestionMutation.isPending || 
+    reviewBatchMutation.isPending;
 
   return (
     <>
@@ -218,9 +307,25 @@ export function SuggestionsPanel({ workspaceId }: SuggestionsPanelProps) {
               <Lightbulb className="w-4 h-4 mr-2" />
               Suggestions
             </CardTitle>
-            <Badge variant="outline" className="text-xs">
-              {suggestions.filter(s => s.status === 'pending').length} pending
-            </Badge>
+            <div className="flex items-center space-x-2">
+              <Badge variant="outline" className="text-xs">
+                {pendingSuggestions.length} pending
+              </Badge>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => generateSuggestionsMutation.mutate()}
+                disabled={generateSuggestionsMutation.isPending}
+                data-testid="button-generate-suggestions"
+              >
+                {generateSuggestionsMutation.isPending ? (
+                  <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                ) : (
+                  <Sparkles className="w-3 h-3 mr-1" />
+                )}
+                Generate
+              </Button>
+            </div>
           </div>
         </CardHeader>
 
@@ -239,17 +344,87 @@ export function SuggestionsPanel({ workspaceId }: SuggestionsPanelProps) {
                   </div>
                 ))}
               </div>
-            ) : suggestions.length === 0 ? (
+            ) : pendingSuggestions.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 <Lightbulb className="w-8 h-8 mx-auto mb-2 opacity-50" />
                 <p className="text-sm">No suggestions available</p>
-                <p className="text-xs">AI suggestions will appear here as you work</p>
+                <p className="text-xs">Click "Generate" to have AI propose changes to your draft</p>
               </div>
             ) : (
               <div className="space-y-3" data-testid="suggestions-list">
-                {suggestions
-                  .filter(s => s.status === 'pending')
-                  .map((suggestion) => (
+                {selectedSuggestions.length > 0 && (
+                  <div className="p-3 border rounded-md bg-muted/50 space-y-2" data-testid="suggestions-batch">
+                    <div className="flex items-center text-xs font-medium">
+                      <ListChecks className="w-3 h-3 mr-1" />
+                      {selectedSuggestions.length} selected · applied top to bottom
+                    </div>
+                    <ol className="space-y-1">
+                      {selectedSuggestions.map((suggestion, index) => (
+                        <li 
+                          key={suggestion.id} 
+                          className="flex items-center space-x-1 text-xs"
+                          data-testid={`batch-item-${suggestion.id}`}
+                        >
+                          <span className="text-muted-foreground w-4">{index + 1}.</span>
+                          <span className="flex-1 truncate">{suggestion.rationale}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-5 w-5 p-0"
+                            onClick={() => moveSelected(selectedIds.indexOf(suggestion.id), -1)}
+                            disabled={index === 0}
+                            data-testid={`button-batch-up-${suggestion.id}`}
+                          >
+                            <ChevronUp className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-5 w-5 p-0"
+                            onClick={() => moveSelected(selectedIds.indexOf(suggestion.id), 1)}
+                            disabled={index === selectedSuggestions.length - 1}
+                            data-testid={`button-batch-down-${suggestion.id}`}
+                          >
+                            <ChevronDown className="w-3 h-3" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ol>
+                    <div className="flex justify-end space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleBatchReject}
+                        disabled={isReviewing}
+                        data-testid="button-batch-reject"
+                      >
+                        <X className="w-3 h-3 mr-1" />
+                        Reject {selectedSuggestions.length}
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={handleBatchApply}
+                        disabled={isReviewing}
+                        data-testid="button-batch-apply"
+                      >
+                        {reviewBatchMutation.isPending ? (
+                          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                        ) : (
+                          <Check className="w-3 h-3 mr-1" />
+                        )}
+                        Apply {selectedSuggestions.length}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {pendingSuggestions
+                  .map((suggestion) => {
+                    const conflict = getSuggestionConflict(suggestion, draftData?.draft?.outline);
+                    // Suggestions with a base revision are merged on apply, so a
+                    // changed draft only blocks legacy ones
+                    const canMerge = suggestion.baseRevision !== null;
+                    return (
                     <div 
                       key={suggestion.id} 
                       className="p-3 border rounded-md space-y-3"
@@ -257,15 +432,36 @@ export function SuggestionsPanel({ workspaceId }: SuggestionsPanelProps) {
                     >
                       <div className="space-y-2">
                         <div className="flex items-start justify-between">
-                          <Badge 
-                            variant="secondary" 
-                            className={`${getTypeColor('content')} text-xs`}
-                          >
-                            Content
-                          </Badge>
-                          <span className="text-xs text-muted-foreground">
-                            {new Date(suggestion.createdAt).toLocaleTimeString()}
-                          </span>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              checked={selectedIds.includes(suggestion.id)}
+                              onCheckedChange={() => toggleSelected(suggestion.id)}
+                              aria-label="Select suggestion"
+                              data-testid={`checkbox-suggestion-${suggestion.id}`}
+                            />
+                            <Badge 
+                              variant="secondary" 
+                              className={`${getTypeColor('content')} text-xs`}
+                            >
+                              Content
+                            </Badge>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            {conflict && (
+                              <Badge 
+                                variant={canMerge ? "outline" : "destructive"} 
+                                className="text-xs"
+                                title={conflict}
+                                data-testid={`badge-outdated-${suggestion.id}`}
+                              >
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                {canMerge ? 'Draft changed' : 'Outdated'}
+                              </Badge>
+                            )}
+                            <span className="text-xs text-muted-foreground">
+                              {new Date(suggestion.createdAt).toLocaleTimeString()}
+                            </span>
+                          </div>
                         </div>
                         
                         <h5 className="text-sm font-medium line-clamp-2">
@@ -320,7 +516,12 @@ export function SuggestionsPanel({ workspaceId }: SuggestionsPanelProps) {
                           <Button
                             size="sm"
                             onClick={() => handleApplySuggestion(suggestion)}
-                            disabled={applySuggestionMutation.isPending}
+                            disabled={applySuggestionMutation.isPending || (!!conflict && !canMerge)}
+                            title={conflict 
+                              ? canMerge 
+                                ? 'The draft has changed; applying will merge with your edits' 
+                                : 'The draft has changed since this suggestion was made' 
+                              : undefined}
                             data-testid={`button-apply-${suggestion.id}`}
                           >
                             {applySuggestionMutation.isPending ? (
@@ -333,7 +534,8 @@ export function SuggestionsPanel({ workspaceId }: SuggestionsPanelProps) {
                         </div>
                       </div>
                     </div>
-                  ))}
+                    );
+                  })}
               </div>
             )}
           </ScrollArea>
@@ -354,6 +556,19 @@ export function SuggestionsPanel({ workspaceId }: SuggestionsPanelProps) {
           </ScrollArea>
         </DialogContent>
       </Dialog>
+
+      <ConflictResolutionDialog
+        open={pendingConflict !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingConflict(null);
+            setPendingBatch(null);
+          }
+        }}
+        conflicts={pendingConflict?.conflicts || []}
+        isApplying={applySuggestionMutation.isPending || reviewBatchMutation.isPending}
+        onResolve={handleResolveConflicts}
+      />
     </>
   );
 }
\ No newline at end of file
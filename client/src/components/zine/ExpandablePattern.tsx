@@ -1,4 +1,6 @@
-import { ChevronDown, Radio, PlayCircle } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ChevronDown, Radio, PlayCircle, Sparkles } from "lucide-react";
 import { BookmarkButton } from "@/components/bookmarks/BookmarkButton";
 
 interface PatternEntry {
@@ -8,6 +10,16 @@ interface PatternEntry {
   protocol: string;
 }
 
+interface RelatedPattern {
+  issueSlug: string;
+  issueTitle: string;
+  sectionId: string;
+  sectionTitle: string | null;
+  patternName: string;
+  description: string;
+  similarity: number;
+}
+
 interface ExpandablePatternProps {
   entry: PatternEntry;
   color: string;
@@ -27,6 +39,24 @@ export function ExpandablePattern({ entry, color, isExpanded, onToggle, issueSlu
 
   const signalColorClass = colorClasses[color as keyof typeof colorClasses] || colorClasses.cyan;
 
+  // Patterns elsewhere about the same concern, fetched once expanded
+  const { data: relatedData } = useQuery<{ related: RelatedPattern[] }>({
+    queryKey: ['/api/search/related', issueSlug, sectionId, entry.pattern],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        issueSlug: issueSlug!,
+        sectionId: sectionId!,
+        pattern: entry.pattern
+      });
+      const response = await fetch(`/api/search/related?${params}`);
+      if (!response.ok) return { related: [] };
+      return response.json();
+    },
+    enabled: isExpanded && !!issueSlug && !!sectionId,
+    staleTime: 5 * 60 * 1000,
+  });
+  const related = relatedData?.related || [];
+
   // Split protocol string into steps
   const protocolSteps = entry.protocol.split(/\d+\./).filter(step => step.trim()).map(step => step.trim());
 
@@ -100,6 +130,32 @@ export function ExpandablePattern({ entry, color, isExpanded, onToggle, issueSlu
                 ))}
               </div>
             </div>
+
+            {/* Related patterns */}
+            {related.length > 0 && (
+              <div data-testid="pattern-related">
+                <h4 className="font-semibold mb-2 flex items-center">
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  Related patterns across issues
+                </h4>
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {related.map(pattern => (
+                    <Link
+                      key={`${pattern.issueSlug}-${pattern.sectionId}-${pattern.patternName}`}
+                      href={`/zine/${pattern.issueSlug}#section-${pattern.sectionId}`}
+                      className="shrink-0 w-56 border border-border rounded p-2 hover:bg-accent transition-colors"
+                      data-testid={`related-${pattern.patternName.toLowerCase().replace(/\s+/g, '-')}`}
+                    >
+                      <div className="text-sm font-medium line-clamp-1">{pattern.patternName}</div>
+                      <div className="text-xs text-muted-foreground line-clamp-1">
+                        {pattern.issueTitle}{pattern.sectionTitle && ` · ${pattern.sectionTitle}`}
+                      </div>
+                      <p className="text-xs text-muted-foreground line-clamp-2 mt-1">{pattern.description}</p>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       )}
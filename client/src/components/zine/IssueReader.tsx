@@ -3,6 +3,7 @@ import { Link } from "wouter";
 import { ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { FieldGuideSection } from "./FieldGuideSection";
+import { useReadingProgress } from "@/hooks/use-reading-progress";
 
 interface Issue {
   slug: string;
@@ -33,6 +34,7 @@ interface IssueReaderProps {
 
 export function IssueReader({ issue }: IssueReaderProps) {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
+  const { readSections, markRead } = useReadingProgress(issue.slug);
 
   const toggleSection = (sectionId: string) => {
     const newExpanded = new Set(expandedSections);
@@ -40,12 +42,14 @@ export function IssueReader({ issue }: IssueReaderProps) {
       newExpanded.delete(sectionId);
     } else {
       newExpanded.add(sectionId);
+      markRead(sectionId);
     }
     setExpandedSections(newExpanded);
   };
 
   const totalPatterns = issue.sections.reduce((sum, section) => sum + section.entries.length, 0);
-  const readPatterns = Array.from(expandedSections).reduce((sum, sectionId) => {
+  // Opening a section counts as reading it, and stays read on later visits
+  const readPatterns = readSections.reduce((sum, sectionId) => {
     const section = issue.sections.find(s => s.id === sectionId);
     return sum + (section?.entries.length || 0);
   }, 0);
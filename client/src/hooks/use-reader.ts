@@ -0,0 +1,114 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { clearLocalState, collectLocalState, hasLocalState } from "@/lib/readerState";
+
+export interface Reader {
+  id: string;
+  username: string;
+}
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+async function postJson(url: string, body?: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.details?.[0]?.message || result.error || 'Request failed');
+  }
+  return result;
+}
+
+// Everything shown differently to a signed-in reader
+function refreshReaderQueries() {
+  queryClient.invalidateQueries({ queryKey: ['/api/bookmarks'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/bookmarks/check'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/reader'] });
+}
+
+// Moves what was saved in this browser before signing in into the account
+async function importLocalState() {
+  const state = collectLocalState();
+  if (!hasLocalState(state)) return;
+  await postJson('/api/reader/import', state);
+  clearLocalState();
+}
+
+// The signed-in reader, or null for a visitor
+export function useCurrentReader() {
+  const { data, isLoading } = useQuery<{ user: Reader | null }>({
+    queryKey: ['/api/auth/me'],
+    queryFn: async () => {
+      const response = await fetch('/api/auth/me');
+      if (!response.ok) throw new Error('Failed to fetch account');
+      return response.json();
+    },
+  });
+
+  return { reader: data?.user ?? null, isLoading };
+}
+
+// The signed-in reader with sign-in, sign-up and sign-out
+export function useReader() {
+  const { toast } = useToast();
+  const { reader, isLoading } = useCurrentReader();
+
+  const onSignedIn = async (result: { user: Reader }) => {
+    try {
+      await importLocalState();
+    } catch (error: any) {
+      toast({
+        title: "Couldn't move your saved items",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+    queryClient.setQueryData(['/api/auth/me'], { user: result.user });
+    refreshReaderQueries();
+    toast({
+      title: `Signed in as ${result.user.username}`,
+      description: "Your bookmarks, chats and reading progress are saved to your account.",
+    });
+  };
+
+  const signIn = useMutation({
+    mutationFn: (credentials: Credentials) => postJson('/api/auth/login', credentials),
+    onSuccess: onSignedIn,
+  });
+
+  const signUp = useMutation({
+    mutationFn: (credentials: Credentials) => postJson('/api/auth/signup', credentials),
+    onSuccess: onSignedIn,
+  });
+
+  const signOut = useMutation({
+    mutationFn: () => postJson('/api/auth/logout'),
+    onSuccess: () => {
+      queryClient.setQueryData(['/api/auth/me'], { user: null });
+      refreshReaderQueries();
+      toast({ title: "Signed out" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Sign out failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    reader,
+    isLoading,
+    signIn,
+    signUp,
+    signOut,
+  };
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useCurrentReader } from "@/hooks/use-reader";
+import { getLocalProgress, setLocalProgress } from "@/lib/readerState";
+
+interface ReadingProgressData {
+  progress: { issueSlug: string; sectionIds: string[]; updatedAt: string }[];
+}
+
+// Sections of an issue the reader has opened, kept in their account or, for
+// visitors, in this browser
+export function useReadingProgress(issueSlug: string) {
+  const { reader, isLoading: isReaderLoading } = useCurrentReader();
+  const [localSections, setLocalSections] = useState<string[]>([]);
+
+  const { data } = useQuery<ReadingProgressData>({
+    queryKey: ['/api/reader', 'progress'],
+    queryFn: async () => {
+      const response = await fetch('/api/reader/progress');
+      if (!response.ok) throw new Error('Failed to fetch reading progress');
+      return response.json();
+    },
+    enabled: !!reader,
+  });
+
+  useEffect(() => {
+    if (!isReaderLoading && !reader) {
+      setLocalSections(getLocalProgress(issueSlug));
+    }
+  }, [issueSlug, reader, isReaderLoading]);
+
+  const readSections = reader
+    ? data?.progress.find(progress => progress.issueSlug === issueSlug)?.sectionIds || []
+    : localSections;
+
+  const markRead = (sectionId: string) => {
+    if (readSections.includes(sectionId)) return;
+    const sectionIds = [...readSections, sectionId];
+
+    if (!reader) {
+      setLocalProgress(issueSlug, sectionIds);
+      setLocalSections(sectionIds);
+      return;
+    }
+
+    queryClient.setQueryData<ReadingProgressData>(['/api/reader', 'progress'], (previous) => ({
+      progress: [
+        ...(previous?.progress || []).filter(progress => progress.issueSlug !== issueSlug),
+        { issueSlug, sectionIds, updatedAt: new Date().toISOString() }
+      ]
+    }));
+    fetch(`/api/reader/progress/${encodeURIComponent(issueSlug)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sectionIds }),
+    }).catch(error => console.error('Failed to save reading progress:', error));
+  };
+
+  return { readSections, markRead };
+}
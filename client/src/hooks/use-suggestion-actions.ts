@@ -0,0 +1,173 @@
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { ConflictResolutions, MergeConflict } from "@shared/merge";
+import type { SuggestionBatch } from "@shared/schema";
+
+export interface SuggestionConflict extends MergeConflict {
+  section: string;
+  field: string | null;
+}
+
+// Thrown when a suggestion's edits overlap changes made to the draft since
+// it was generated; resolve the conflicts and apply again with resolutions
+export class SuggestionConflictError extends Error {
+  constructor(
+    message: string,
+    public readonly suggestionId: string,
+    public readonly conflicts: SuggestionConflict[]
+  ) {
+    super(message);
+    this.name = 'SuggestionConflictError';
+  }
+}
+
+interface ApplySuggestionInput {
+  suggestionId: string;
+  resolutions?: ConflictResolutions;
+}
+
+interface SuggestionActionsOptions {
+  onConflict?: (error: SuggestionConflictError) => void;
+}
+
+export function useSuggestionActions(workspaceId: string, options: SuggestionActionsOptions = {}) {
+  const { toast } = useToast();
+
+  const invalidateWorkspace = (includeDraft: boolean) => {
+    queryClient.invalidateQueries({
+      queryKey: ['/api/admin/workspaces', workspaceId, 'suggestions']
+    });
+    queryClient.invalidateQueries({
+      queryKey: ['/api/admin/workspaces', workspaceId, 'activities']
+    });
+    if (includeDraft) {
+      queryClient.invalidateQueries({
+        queryKey: ['/api/admin/workspaces', workspaceId, 'draft']
+      });
+    }
+  };
+
+  const handleConflict = (error: SuggestionConflictError) => {
+    // The draft may have moved on; refresh it alongside the conflicts
+    invalidateWorkspace(true);
+    if (options.onConflict) {
+      options.onConflict(error);
+      return;
+    }
+    toast({
+      title: "Suggestion Conflicts",
+      description: "This suggestion overlaps recent edits. Resolve it from the Suggestions panel.",
+      variant: "destructive"
+    });
+  };
+
+  const applySuggestion = useMutation({
+    mutationFn: async ({ suggestionId, resolutions }: ApplySuggestionInput) => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(`/api/admin/suggestions/${suggestionId}/apply`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ resolutions })
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (response.status === 409 && Array.isArray(result.conflicts)) {
+        throw new SuggestionConflictError(result.error, suggestionId, result.conflicts);
+      }
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to apply suggestion.');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Suggestion Applied",
+        description: "The suggestion has been successfully applied to your draft.",
+      });
+      invalidateWorkspace(true);
+    },
+    onError: (error: any) => {
+      if (error instanceof SuggestionConflictError) {
+        handleConflict(error);
+        return;
+      }
+      toast({
+        title: "Apply Failed",
+        description: error.message || "Failed to apply suggestion.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const rejectSuggestion = useMutation({
+    mutationFn: async (suggestionId: string) => {
+      const response = await apiRequest('POST', `/api/admin/suggestions/${suggestionId}/reject`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Suggestion Rejected",
+        description: "The suggestion has been rejected and removed.",
+      });
+      invalidateWorkspace(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Reject Failed",
+        description: error.message || "Failed to reject suggestion.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const reviewBatch = useMutation({
+    mutationFn: async (batch: SuggestionBatch) => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(`/api/admin/workspaces/${workspaceId}/suggestions/batch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(batch)
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (response.status === 409 && Array.isArray(result.conflicts)) {
+        throw new SuggestionConflictError(result.error, result.suggestionId, result.conflicts);
+      }
+      if (!response.ok) {
+        throw new Error(result.details && typeof result.details === 'string' 
+          ? result.details 
+          : result.error || 'Failed to review suggestions.');
+      }
+      return result;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Suggestions Reviewed",
+        description: result.revision 
+          ? `${result.message} in revision ${result.revision.number}.` 
+          : `${result.message}.`,
+      });
+      invalidateWorkspace(result.applied.length > 0);
+    },
+    onError: (error: any) => {
+      if (error instanceof SuggestionConflictError) {
+        handleConflict(error);
+        return;
+      }
+      toast({
+        title: "Batch Review Failed",
+        description: error.message || "Failed to review suggestions.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return { applySuggestion, rejectSuggestion, reviewBatch };
+}
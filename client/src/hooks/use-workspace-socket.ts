@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { getWorkspaceSocket } from "@/lib/workspaceSocket";
+import {
+  composeTextOperations,
+  outlineChecksum,
+  transformDraftOperations,
+  type DraftOperation
+} from "@shared/ot";
+import type {
+  CollaborationServerMessage,
+  CollaboratorPresence,
+  WorkspaceLiveEvent
+} from "@shared/collaboration";
+
+// Keeps the workspace's messages, suggestions and activities current as
+// collaborators (and the AI) add them
+export function useWorkspaceLiveEvents(workspaceId: string | undefined) {
+  useEffect(() => {
+    if (!workspaceId) return;
+    return getWorkspaceSocket(workspaceId).subscribe({
+      onMessage: (message) => {
+        if (message.type === 'event') applyLiveEvent(workspaceId, message.event);
+      }
+    });
+  }, [workspaceId]);
+}
+
+function applyLiveEvent(workspaceId: string, event: WorkspaceLiveEvent) {
+  switch (event.kind) {
+    case 'message':
+      // Messages are listed oldest first
+      return queryClient.setQueryData(['/api/admin/workspaces', workspaceId, 'messages'], (data: any) =>
+        data && !data.messages.some((message: any) => message.id === event.data.id)
+          ? { ...data, messages: [...data.messages, event.data] }
+          : data
+      );
+    case 'suggestion':
+      return queryClient.setQueryData(['/api/admin/workspaces', workspaceId, 'suggestions'], (data: any) => {
+        if (!data) return data;
+        const exists = data.suggestions.some((suggestion: any) => suggestion.id === event.data.id);
+        return {
+          ...data,
+          suggestions: exists
+            ? data.suggestions.map((suggestion: any) => suggestion.id === event.data.id ? event.data : suggestion)
+            : [event.data, ...data.suggestions]
+        };
+      });
+    case 'activity':
+      queryClient.setQueryData(['/api/admin/workspaces', workspaceId, 'activities'], (data: any) =>
+        data && !data.activities.some((activity: any) => activity.id === event.data.id)
+          ? { ...data, activities: [event.data, ...data.activities] }
+          : data
+      );
+      // Activities mark draft changes made outside live editing: applied
+      // suggestions, restores, new branches and merges
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/workspaces', workspaceId, 'draft'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/workspaces', workspaceId, 'branches'] });
+      return;
+  }
+}
+
+export type CollaborationStatus = 'offline' | 'connecting' | 'live';
+
+interface PendingOperation {
+  id: string;
+  operation: DraftOperation;
+}
+
+interface UseCollaborativeDraftOptions {
+  workspaceId: string;
+  branch: string;
+  // The outline as currently shown, including unacknowledged local edits
+  getOutline: () => unknown;
+  // Replaces the outline; `lostEdits` is true when local edits were discarded
+  onSnapshot: (outline: any, lostEdits: boolean) => void;
+  // A collaborator's edit, already transformed against local edits
+  onRemoteOperation: (operation: DraftOperation, collaborator: CollaboratorPresence | undefined) => void;
+}
+
+// Client half of the operational transformation protocol. At most one
+// local operation is in flight; later edits wait in a buffer. Operations
+// from the server are transformed past both before they are applied.
+export function useCollaborativeDraft({
+  workspaceId,
+  branch,
+  getOutline,
+  onSnapshot,
+  onRemoteOperation
+}: UseCollaborativeDraftOptions) {
+  const [status, setStatus] = useState<CollaborationStatus>('connecting');
+  const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
+  const [pending, setPending] = useState(false);
+
+  const state = useRef({
+    session: null as string | null,
+    version: 0,
+    inflight: null as PendingOperation | null,
+    buffer: [] as PendingOperation[],
+    collaborators: [] as CollaboratorPresence[]
+  });
+  const callbacks = useRef({ getOutline, onSnapshot, onRemoteOperation });
+  callbacks.current = { getOutline, onSnapshot, onRemoteOperation };
+
+  const socketRef = useRef<ReturnType<typeof getWorkspaceSocket> | null>(null);
+
+  const updatePending = () => {
+    setPending(state.current.inflight !== null || state.current.buffer.length > 0);
+  };
+
+  const sendOperation = (pendingOperation: PendingOperation) => {
+    socketRef.current?.send({
+      type: 'operation',
+      id: pendingOperation.id,
+      session: state.current.session!,
+      version: state.current.version,
+      operation: pendingOperation.operation
+    });
+  };
+
+  const flushBuffer = () => {
+    const current = state.current;
+    if (current.inflight || current.buffer.length === 0) return;
+    current.inflight = current.buffer.shift()!;
+    sendOperation(current.inflight);
+  };
+
+  // After the server confirms a version we have nothing pending against,
+  // both sides must hold the same outline; if not, start over
+  const verify = (checksum: string | undefined) => {
+    const current = state.current;
+    if (!checksum || current.inflight || current.buffer.length > 0) return;
+    if (outlineChecksum(callbacks.current.getOutline()) !== checksum) {
+      socketRef.current?.send({ type: 'join', branch });
+    }
+  };
+
+  const acknowledge = (version: number, checksum: string | undefined) => {
+    const current = state.current;
+    current.version = version;
+    current.inflight = null;
+    flushBuffer();
+    updatePending();
+    verify(checksum);
+  };
+
+  useEffect(() => {
+    const socket = getWorkspaceSocket(workspaceId);
+    socketRef.current = socket;
+    const current = state.current;
+
+    const join = () => {
+      socket.send({
+        type: 'join',
+        branch,
+        session: current.session ?? undefined,
+        version: current.session ? current.version : undefined
+      });
+      // Resent in case the connection dropped before it was acknowledged;
+      // the server ignores it if it was already applied
+      if (current.inflight) sendOperation(current.inflight);
+    };
+
+    const handleMessage = (message: CollaborationServerMessage) => {
+      switch (message.type) {
+        case 'snapshot': {
+          if (message.branch !== branch) return;
+          const lostEdits = current.inflight !== null || current.buffer.length > 0;
+          current.session = message.session;
+          current.version = message.version;
+          current.inflight = null;
+          current.buffer = [];
+          updatePending();
+          setStatus('live');
+          callbacks.current.onSnapshot(message.outline, lostEdits);
+          return;
+        }
+        case 'ack':
+          if (current.inflight?.id === message.id) acknowledge(message.version, message.checksum);
+          return;
+        case 'operation': {
+          // Our own operation, replayed while catching up after a reconnect
+          if (current.inflight?.id === message.id) {
+            return acknowledge(message.version, message.checksum);
+          }
+
+          // The server ordered this operation before everything still pending here
+          let operation = message.operation;
+          if (current.inflight) {
+            const [remote, inflight] = transformDraftOperations(operation, current.inflight.operation);
+            operation = remote;
+            current.inflight = { ...current.inflight, operation: inflight };
+          }
+          current.buffer = current.buffer.map(buffered => {
+            const [remote, local] = transformDraftOperations(operation, buffered.operation);
+            operation = remote;
+            return { ...buffered, operation: local };
+          });
+          current.version = message.version;
+
+          const collaborator = current.collaborators.find(candidate => candidate.clientId === message.clientId);
+          callbacks.current.onRemoteOperation(operation, collaborator);
+          verify(message.checksum);
+          return;
+        }
+        case 'presence':
+          current.collaborators = message.collaborators;
+          setCollaborators(message.collaborators);
+          return;
+        case 'error':
+          console.error('Collaboration error:', message.error);
+          return;
+      }
+    };
+
+    const unsubscribe = socket.subscribe({
+      onMessage: handleMessage,
+      onStatusChange: (socketStatus) => {
+        if (socketStatus === 'open') {
+          setStatus('connecting');
+          join();
+        } else {
+          setStatus(socketStatus === 'connecting' ? 'connecting' : 'offline');
+          setCollaborators([]);
+        }
+      }
+    });
+    if (socket.status === 'open') join();
+
+    return () => {
+      socket.send({ type: 'leave' });
+      unsubscribe();
+      // The next branch starts from its own snapshot
+      current.session = null;
+      current.version = 0;
+      current.inflight = null;
+      current.buffer = [];
+      current.collaborators = [];
+      setCollaborators([]);
+      setPending(false);
+      setStatus('connecting');
+    };
+  }, [workspaceId, branch]);
+
+  // Sends a local edit that has already been applied to the outline
+  const submit = useCallback((operation: DraftOperation) => {
+    const current = state.current;
+    if (!current.session) return;
+
+    // Consecutive keystrokes in one field travel as a single operation
+    const last = current.buffer[current.buffer.length - 1];
+    if (
+      last && last.operation.type === 'text' && operation.type === 'text' &&
+      last.operation.sectionId === operation.sectionId && last.operation.field === operation.field
+    ) {
+      last.operation = { ...last.operation, op: composeTextOperations(last.operation.op, operation.op) };
+    } else {
+      current.buffer.push({ id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`, operation });
+    }
+    flushBuffer();
+    updatePending();
+  }, []);
+
+  const setPresence = useCallback((presence: Pick<CollaboratorPresence, 'sectionId' | 'field' | 'cursor'>) => {
+    socketRef.current?.send({ type: 'presence', ...presence });
+  }, []);
+
+  return {
+    status,
+    // Other people editing this branch
+    collaborators: collaborators.filter(collaborator => collaborator.clientId !== socketRef.current?.clientId),
+    pending,
+    submit,
+    setPresence
+  };
+}
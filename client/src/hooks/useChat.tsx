@@ -1,5 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { packIssueContext } from '@/lib/packIssueContext';
+import { chatStorageKey } from '@/lib/readerState';
+import { useCurrentReader } from '@/hooks/use-reader';
 
 interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
@@ -16,11 +18,46 @@ export function useChat({ issueSlug }: UseChatOptions) {
   const [isLoading, setIsLoading] = useState(false);
   const [referencedPatterns, setReferencedPatterns] = useState<string[]>([]);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Signed-in readers' chats are kept in their account, visitors' in this browser
+  const { reader, isLoading: isReaderLoading } = useCurrentReader();
+  // Which reader and issue the messages were loaded for, so they're never
+  // saved under another
+  const loadedForRef = useRef<string | null>(null);
+  const chatOwner = `${reader?.id ?? 'visitor'}:${issueSlug}`;
 
-  // Load persisted messages on mount or slug change
+  // Load persisted messages on mount, slug change or sign-in
   useEffect(() => {
-    const storageKey = `chat:issue:${issueSlug}`;
-    const stored = localStorage.getItem(storageKey);
+    if (isReaderLoading) return;
+    loadedForRef.current = null;
+    setMessages([]);
+
+    if (reader) {
+      let cancelled = false;
+      fetch(`/api/reader/chats/${encodeURIComponent(issueSlug)}`)
+        .then(response => response.ok ? response.json() : { messages: [] })
+        .then(data => {
+          if (cancelled) return;
+          loadedForRef.current = chatOwner;
+          if (data.messages?.length > 0) {
+            setMessages(data.messages);
+          } else {
+            initializeChat();
+          }
+        })
+        .catch(error => {
+          console.error('Failed to load chat history:', error);
+          if (!cancelled) {
+            loadedForRef.current = chatOwner;
+            initializeChat();
+          }
+        });
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    loadedForRef.current = chatOwner;
+    const stored = localStorage.getItem(chatStorageKey(issueSlug));
     
     if (stored) {
       try {
@@ -34,15 +71,25 @@ export function useChat({ issueSlug }: UseChatOptions) {
     } else {
       initializeChat();
     }
-  }, [issueSlug]);
+  }, [chatOwner, isReaderLoading]);
 
-  // Persist messages when they change
+  // Persist messages when they change; to the account once a reply is done
   useEffect(() => {
-    if (messages.length > 0) {
-      const storageKey = `chat:issue:${issueSlug}`;
-      localStorage.setItem(storageKey, JSON.stringify(messages));
+    if (messages.length === 0 || loadedForRef.current !== chatOwner) return;
+
+    if (reader) {
+      if (isLoading) return;
+      fetch(`/api/reader/chats/${encodeURIComponent(issueSlug)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messages }),
+      }).catch(error => console.error('Failed to save chat history:', error));
+    } else {
+      localStorage.setItem(chatStorageKey(issueSlug), JSON.stringify(messages));
     }
-  }, [messages, issueSlug]);
+  }, [messages, isLoading, chatOwner]);
 
   const initializeChat = async () => {
     try {
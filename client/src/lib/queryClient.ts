@@ -34,6 +34,46 @@ export async function apiRequest(
   return res;
 }
 
+// Thrown by updateIfUnchanged when someone else saved the record first;
+// `current` is the server's copy
+export class StaleUpdateError<T = any> extends Error {
+  constructor(message: string, public readonly current: T) {
+    super(message);
+    this.name = 'StaleUpdateError';
+  }
+}
+
+// PUT guarded by the record's `updatedAt`, which the server checks before
+// writing. `resource` names the key the server returns its copy under.
+export async function updateIfUnchanged(
+  url: string,
+  data: Record<string, unknown>,
+  updatedAt: string | Date,
+  resource: 'draft' | 'issue' | 'workspace',
+): Promise<Response> {
+  const token = localStorage.getItem('admin-token');
+  const res = await fetch(url, {
+    method: 'PUT',
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { "Authorization": `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ ...data, updatedAt }),
+    credentials: "include",
+  });
+
+  if (res.status === 409) {
+    const result = await res.json().catch(() => ({}));
+    if (result[resource]) {
+      throw new StaleUpdateError(result.error, result[resource]);
+    }
+    throw new Error(`409: ${result.error || res.statusText}`);
+  }
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,99 @@
+import { MAX_VISITOR_BOOKMARKS } from "@shared/schema";
+
+// What a visitor saves before signing in: bookmarks, read sections and
+// assistant chats, kept in localStorage. On sign-in it moves into their
+// account (see useReader) and is cleared from the browser.
+
+export interface LocalBookmark {
+  issueSlug: string;
+  sectionId?: string;
+  patternName?: string;
+  bookmarkType: 'issue' | 'section' | 'pattern';
+  createdAt: string;
+}
+
+export interface LocalReaderState {
+  bookmarks: LocalBookmark[];
+  chats: Record<string, unknown[]>;
+  progress: Record<string, string[]>;
+}
+
+const BOOKMARKS_KEY = 'reader:bookmarks';
+const CHAT_PREFIX = 'chat:issue:';
+const PROGRESS_PREFIX = 'progress:issue:';
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function sameBookmark(a: Omit<LocalBookmark, 'createdAt'>, b: Omit<LocalBookmark, 'createdAt'>): boolean {
+  return a.issueSlug === b.issueSlug
+    && a.bookmarkType === b.bookmarkType
+    && (a.sectionId || null) === (b.sectionId || null)
+    && (a.patternName || null) === (b.patternName || null);
+}
+
+// The newest ones, as many as the server accepts
+export function getLocalBookmarks(): LocalBookmark[] {
+  return readJson<LocalBookmark[]>(BOOKMARKS_KEY, []).slice(-MAX_VISITOR_BOOKMARKS);
+}
+
+export function addLocalBookmark(bookmark: Omit<LocalBookmark, 'createdAt'>) {
+  const bookmarks = getLocalBookmarks().filter(existing => !sameBookmark(existing, bookmark));
+  bookmarks.push({ ...bookmark, createdAt: new Date().toISOString() });
+  localStorage.setItem(BOOKMARKS_KEY, JSON.stringify(bookmarks.slice(-MAX_VISITOR_BOOKMARKS)));
+}
+
+export function removeLocalBookmark(bookmark: Omit<LocalBookmark, 'createdAt'>) {
+  const bookmarks = getLocalBookmarks().filter(existing => !sameBookmark(existing, bookmark));
+  localStorage.setItem(BOOKMARKS_KEY, JSON.stringify(bookmarks));
+}
+
+export function chatStorageKey(issueSlug: string): string {
+  return `${CHAT_PREFIX}${issueSlug}`;
+}
+
+export function getLocalProgress(issueSlug: string): string[] {
+  return readJson<string[]>(`${PROGRESS_PREFIX}${issueSlug}`, []);
+}
+
+export function setLocalProgress(issueSlug: string, sectionIds: string[]) {
+  localStorage.setItem(`${PROGRESS_PREFIX}${issueSlug}`, JSON.stringify(sectionIds));
+}
+
+function keysWithPrefix(prefix: string): string[] {
+  return Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index))
+    .filter((key): key is string => !!key && key.startsWith(prefix));
+}
+
+export function collectLocalState(): LocalReaderState {
+  const chats: LocalReaderState['chats'] = {};
+  keysWithPrefix(CHAT_PREFIX).forEach(key => {
+    // Only conversations the visitor took part in, not the greeting alone
+    const messages = readJson<{ role: string }[]>(key, []);
+    if (messages.some(message => message.role === 'user')) {
+      chats[key.slice(CHAT_PREFIX.length)] = messages;
+    }
+  });
+
+  const progress: LocalReaderState['progress'] = {};
+  keysWithPrefix(PROGRESS_PREFIX).forEach(key => {
+    progress[key.slice(PROGRESS_PREFIX.length)] = readJson<string[]>(key, []);
+  });
+
+  return { bookmarks: getLocalBookmarks(), chats, progress };
+}
+
+export function hasLocalState(state: LocalReaderState): boolean {
+  return state.bookmarks.length > 0 || Object.keys(state.chats).length > 0 || Object.keys(state.progress).length > 0;
+}
+
+export function clearLocalState() {
+  [BOOKMARKS_KEY, ...keysWithPrefix(CHAT_PREFIX), ...keysWithPrefix(PROGRESS_PREFIX)]
+    .forEach(key => localStorage.removeItem(key));
+}
@@ -0,0 +1,115 @@
+import type {
+  CollaborationClientMessage,
+  CollaborationServerMessage
+} from "@shared/collaboration";
+
+export type WorkspaceSocketStatus = 'connecting' | 'open' | 'closed';
+
+export interface WorkspaceSocketListener {
+  onMessage?: (message: CollaborationServerMessage) => void;
+  // Called with 'open' after every (re)connect
+  onStatusChange?: (status: WorkspaceSocketStatus) => void;
+}
+
+const MAX_RETRY_DELAY = 30000;
+
+// One WebSocket per workspace, shared by every component that listens to it.
+// It reconnects with backoff until the last listener unsubscribes.
+class WorkspaceSocket {
+  status: WorkspaceSocketStatus = 'closed';
+  // Assigned by the server on each connect; identifies this tab in presence lists
+  clientId: string | null = null;
+  private socket: WebSocket | null = null;
+  private listeners = new Set<WorkspaceSocketListener>();
+  private retries = 0;
+  private retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly workspaceId: string) {}
+
+  subscribe(listener: WorkspaceSocketListener): () => void {
+    this.listeners.add(listener);
+    if (!this.socket && !this.retryTimeout) this.connect();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.close();
+    };
+  }
+
+  send(message: CollaborationClientMessage): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  private connect() {
+    const token = localStorage.getItem('admin-token');
+    if (!token) return this.setStatus('closed');
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(
+      `${protocol}//${window.location.host}/ws/workspaces/${encodeURIComponent(this.workspaceId)}?token=${encodeURIComponent(token)}`
+    );
+    this.socket = socket;
+    this.setStatus('connecting');
+
+    socket.onopen = () => {
+      this.retries = 0;
+      this.setStatus('open');
+    };
+
+    socket.onmessage = (event) => {
+      let message: CollaborationServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type === 'welcome') this.clientId = message.clientId;
+      this.listeners.forEach(listener => listener.onMessage?.(message));
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setStatus('closed');
+      if (this.listeners.size === 0) return;
+
+      const delay = Math.min(1000 * 2 ** this.retries, MAX_RETRY_DELAY);
+      this.retries++;
+      this.retryTimeout = setTimeout(() => {
+        this.retryTimeout = null;
+        this.connect();
+      }, delay);
+    };
+  }
+
+  private close() {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.retries = 0;
+    this.status = 'closed';
+    sockets.delete(this.workspaceId);
+  }
+
+  private setStatus(status: WorkspaceSocketStatus) {
+    this.status = status;
+    this.listeners.forEach(listener => listener.onStatusChange?.(status));
+  }
+}
+
+const sockets = new Map<string, WorkspaceSocket>();
+
+export function getWorkspaceSocket(workspaceId: string): WorkspaceSocket {
+  let socket = sockets.get(workspaceId);
+  if (!socket) {
+    socket = new WorkspaceSocket(workspaceId);
+    sockets.set(workspaceId, socket);
+  }
+  return socket;
+}
@@ -1,6 +1,16 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { IssueEditDialog } from "@/components/admin/IssueEditDialog";
+import { IssueVersionsDialog } from "@/components/admin/IssueVersionsDialog";
+import { IssueHistoryDialog } from "@/components/admin/IssueHistoryDialog";
+import {
+  IssueReviewDialog,
+  IssueStatusBadge,
+  currentAdminId,
+  useIssueStatusChange
+} from "@/components/admin/IssueReviewDialog";
+import { SubmitForReviewDialog } from "@/components/admin/SubmitForReviewDialog";
 import { LayoutShell } from "@/components/layout/LayoutShell";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,6 +21,7 @@ import {
   DropdownMenu, 
   DropdownMenuContent, 
   DropdownMenuItem, 
+  DropdownMenuSeparator,
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -23,15 +34,49 @@ import {
   Trash2, 
   Eye, 
   Calendar,
-  Filter
+  Filter,
+  History,
+  GitCommit,
+  ClipboardCheck,
+  Send,
+  Check,
+  Undo2,
+  Upload,
+  Archive
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  ISSUE_STATUSES,
+  ISSUE_STATUS_LABELS,
+  ISSUE_TRANSITIONS,
+  isIssueStatus,
+  type IssueStatus
+} from "@shared/issueWorkflow";
+
+// Menu entries for the statuses an issue can move to directly. Submitting for
+// review goes through the reviewer picker instead.
+const STATUS_ACTIONS: Record<Exclude<IssueStatus, 'in_review'>, { label: string; icon: typeof Check }> = {
+  draft: { label: 'Request Changes', icon: Undo2 },
+  approved: { label: 'Approve', icon: Check },
+  published: { label: 'Publish', icon: Upload },
+  archived: { label: 'Archive', icon: Archive }
+};
+
+function nextStatuses(issue: { status: string }): IssueStatus[] {
+  return isIssueStatus(issue.status) ? ISSUE_TRANSITIONS[issue.status] : [];
+}
 
 export default function AdminContent() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
   const [filter, setFilter] = useState("all");
+  const [editingIssue, setEditingIssue] = useState<any | null>(null);
+  const [versionsIssue, setVersionsIssue] = useState<any | null>(null);
+  const [historySlug, setHistorySlug] = useState<string | null>(null);
+  const [reviewSlug, setReviewSlug] = useState<string | null>(null);
+  const [submittingIssue, setSubmittingIssue] = useState<any | null>(null);
+  const statusChange = useIssueStatusChange();
   
   const { data: issuesData, isLoading, error } = useQuery({
     queryKey: ['/api/admin/issues'],
@@ -124,9 +169,7 @@ export default function AdminContent() {
       issue.subtitle?.toLowerCase().includes(searchQuery.toLowerCase()) ||
       issue.tagline?.toLowerCase().includes(searchQuery.toLowerCase());
     
-    const matchesFilter = filter === "all" || 
-      (filter === "published" && issue.publishedAt) ||
-      (filter === "draft" && !issue.publishedAt);
+    const matchesFilter = filter === "all" || issue.status === filter;
     
     return matchesSearch && matchesFilter;
   });
@@ -171,20 +214,18 @@ export default function AdminContent() {
                   <DropdownMenuTrigger asChild>
                     <Button variant="outline" data-testid="dropdown-filter">
                       <Filter className="w-4 h-4 mr-2" />
-                      {filter === "all" ? "All Issues" : 
-                       filter === "published" ? "Published" : "Drafts"}
+                      {isIssueStatus(filter) ? ISSUE_STATUS_LABELS[filter] : "All Issues"}
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
                     <DropdownMenuItem onClick={() => setFilter("all")}>
                       All Issues
                     </DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => setFilter("published")}>
-                      Published
-                    </DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => setFilter("draft")}>
-                      Drafts
-                    </DropdownMenuItem>
+                    {ISSUE_STATUSES.map(status => (
+                      <DropdownMenuItem key={status} onClick={() => setFilter(status)}>
+                        {ISSUE_STATUS_LABELS[status]}
+                      </DropdownMenuItem>
+                    ))}
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
@@ -257,9 +298,7 @@ export default function AdminContent() {
                             <Badge variant="outline">{issue.version}</Badge>
                           </TableCell>
                           <TableCell>
-                            <Badge variant={issue.publishedAt ? "default" : "secondary"}>
-                              {issue.publishedAt ? "Published" : "Draft"}
-                            </Badge>
+                            <IssueStatusBadge issue={issue} />
                           </TableCell>
                           <TableCell>
                             {issue.publishedAt ? (
@@ -288,10 +327,66 @@ export default function AdminContent() {
                                   <Eye className="w-4 h-4 mr-2" />
                                   View
                                 </DropdownMenuItem>
-                                <DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => setEditingIssue(issue)}
+                                  data-testid={`button-edit-issue-${issue.slug}`}
+                                >
                                   <Edit className="w-4 h-4 mr-2" />
                                   Edit
                                 </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => setVersionsIssue(issue)}
+                                  data-testid={`button-issue-versions-${issue.slug}`}
+                                >
+                                  <History className="w-4 h-4 mr-2" />
+                                  Versions
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => setHistorySlug(issue.slug)}
+                                  data-testid={`button-issue-history-${issue.slug}`}
+                                >
+                                  <GitCommit className="w-4 h-4 mr-2" />
+                                  History
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => setReviewSlug(issue.slug)}
+                                  data-testid={`button-review-issue-${issue.slug}`}
+                                >
+                                  <ClipboardCheck className="w-4 h-4 mr-2" />
+                                  Review
+                                </DropdownMenuItem>
+                                {nextStatuses(issue).length > 0 && <DropdownMenuSeparator />}
+                                {nextStatuses(issue).map(status => {
+                                  if (status === 'in_review') {
+                                    return (
+                                      <DropdownMenuItem
+                                        key={status}
+                                        onClick={() => setSubmittingIssue(issue)}
+                                        data-testid={`button-submit-review-${issue.slug}`}
+                                      >
+                                        <Send className="w-4 h-4 mr-2" />
+                                        Submit for Review
+                                      </DropdownMenuItem>
+                                    );
+                                  }
+                                  // Only the assigned reviewer approves
+                                  if (status === 'approved' && issue.reviewerId !== currentAdminId()) {
+                                    return null;
+                                  }
+                                  const { label, icon: Icon } = STATUS_ACTIONS[status];
+                                  return (
+                                    <DropdownMenuItem
+                                      key={status}
+                                      onClick={() => statusChange.mutate({ issue, status })}
+                                      disabled={statusChange.isPending}
+                                      data-testid={`button-issue-status-${status}-${issue.slug}`}
+                                    >
+                                      <Icon className="w-4 h-4 mr-2" />
+                                      {status === 'published' && issue.status === 'archived' ? 'Unarchive' : label}
+                                    </DropdownMenuItem>
+                                  );
+                                })}
+                                <DropdownMenuSeparator />
                                 <DropdownMenuItem
                                   onClick={() => handleDeleteIssue(issue.slug, issue.title)}
                                   className="text-destructive focus:text-destructive"
@@ -311,6 +406,41 @@ export default function AdminContent() {
             </CardContent>
           </Card>
         </div>
+        {editingIssue && (
+          <IssueEditDialog
+            issue={editingIssue}
+            open
+            onOpenChange={(open) => !open && setEditingIssue(null)}
+          />
+        )}
+        {versionsIssue && (
+          <IssueVersionsDialog
+            issue={versionsIssue}
+            open
+            onOpenChange={(open) => !open && setVersionsIssue(null)}
+          />
+        )}
+        {historySlug && issues.some((issue: any) => issue.slug === historySlug) && (
+          <IssueHistoryDialog
+            issue={issues.find((issue: any) => issue.slug === historySlug)}
+            open
+            onOpenChange={(open) => !open && setHistorySlug(null)}
+          />
+        )}
+        {reviewSlug && issues.some((issue: any) => issue.slug === reviewSlug) && (
+          <IssueReviewDialog
+            issue={issues.find((issue: any) => issue.slug === reviewSlug)}
+            open
+            onOpenChange={(open) => !open && setReviewSlug(null)}
+          />
+        )}
+        {submittingIssue && (
+          <SubmitForReviewDialog
+            issue={submittingIssue}
+            open
+            onOpenChange={(open) => !open && setSubmittingIssue(null)}
+          />
+        )}
       </AdminLayout>
     </LayoutShell>
   );
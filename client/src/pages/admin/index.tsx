@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { LayoutShell } from "@/components/layout/LayoutShell";
 import { AdminLayout } from "@/components/admin/AdminLayout";
+import { UpcomingReleases } from "@/components/admin/UpcomingReleases";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { FileText, Upload, MessageCircle, Settings, Plus, BarChart3 } from "lucide-react";
@@ -213,6 +214,8 @@ export default function AdminDashboard() {
             </Card>
           </div>
 
+          <UpcomingReleases issues={issues} />
+
           {/* Recent Activity */}
           <div className="grid gap-4 md:grid-cols-2">
             <Card>
@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { LayoutShell } from "@/components/layout/LayoutShell";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart3, Loader2, MousePointerClick, Search, SearchX, EyeOff } from "lucide-react";
+
+interface QueryStats {
+  query: string;
+  searches: number;
+  averageResults: number;
+  clicks: number;
+  clickThroughRate: number;
+  lastSearchedAt: string;
+}
+
+interface NeverFoundPattern {
+  issueSlug: string;
+  issueTitle: string;
+  sectionId: string;
+  sectionTitle: string;
+  patternName: string;
+}
+
+interface SearchAnalyticsReport {
+  days: number;
+  totalSearches: number;
+  zeroResultSearches: number;
+  totalClicks: number;
+  topQueries: QueryStats[];
+  zeroResultQueries: QueryStats[];
+  neverFound: NeverFoundPattern[];
+}
+
+const PERIODS = [7, 30, 90];
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function QueryTable({ rows, showResults, testId }: { rows: QueryStats[]; showResults: boolean; testId: string }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Query</TableHead>
+          <TableHead className="text-right">Searches</TableHead>
+          {showResults && <TableHead className="text-right">Avg. Results</TableHead>}
+          {showResults && <TableHead className="text-right">Click-through</TableHead>}
+          <TableHead>Last Searched</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow key={row.query} data-testid={`${testId}-${row.query}`}>
+            <TableCell className="font-medium">{row.query}</TableCell>
+            <TableCell className="text-right">{row.searches}</TableCell>
+            {showResults && <TableCell className="text-right">{row.averageResults.toFixed(1)}</TableCell>}
+            {showResults && <TableCell className="text-right">{percent(row.clickThroughRate)}</TableCell>}
+            <TableCell className="text-muted-foreground">
+              {new Date(row.lastSearchedAt).toLocaleDateString()}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// What readers search for and can't find, for planning the next issue
+export default function AdminSearchAnalytics() {
+  const [days, setDays] = useState(30);
+
+  const { data: report, isLoading } = useQuery<SearchAnalyticsReport>({
+    queryKey: ['/api/admin/search/analytics', days],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch(`/api/admin/search/analytics?days=${days}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch search analytics');
+      return response.json();
+    }
+  });
+
+  // Patterns readers never reached, grouped by issue
+  const neverFoundByIssue = (report?.neverFound || []).reduce<Record<string, NeverFoundPattern[]>>((groups, pattern) => {
+    (groups[pattern.issueSlug] ||= []).push(pattern);
+    return groups;
+  }, {});
+
+  return (
+    <LayoutShell
+      breadcrumb={[
+        { label: "Admin", href: "/admin" },
+        { label: "Search Insights", href: "/admin/search" }
+      ]}
+    >
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Search Insights</h1>
+              <p className="text-muted-foreground">
+                What readers look for, and what they can't find. Counts the searches
+                readers settled on, not each prefix typed on the way.
+              </p>
+            </div>
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-40" data-testid="select-analytics-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(period => (
+                  <SelectItem key={period} value={String(period)}>Last {period} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading || !report ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Loading search analytics...
+            </div>
+          ) : (
+            <>
+              {/* Totals */}
+              <div className="grid gap-4 md:grid-cols-3">
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Searches</CardTitle>
+                    <Search className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold" data-testid="stat-total-searches">{report.totalSearches}</div>
+                    <p className="text-xs text-muted-foreground">
+                      In the last {report.days} days
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">No Results</CardTitle>
+                    <SearchX className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold" data-testid="stat-zero-result-searches">{report.zeroResultSearches}</div>
+                    <p className="text-xs text-muted-foreground">
+                      {report.totalSearches > 0 ? percent(report.zeroResultSearches / report.totalSearches) : '0%'} of searches
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Results Opened</CardTitle>
+                    <MousePointerClick className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold" data-testid="stat-total-clicks">{report.totalClicks}</div>
+                    <p className="text-xs text-muted-foreground">
+                      Clicks from search results
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Top queries */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <BarChart3 className="w-5 h-5 mr-2" />
+                    Top Queries
+                  </CardTitle>
+                  <CardDescription>
+                    The most frequent searches, and how often readers opened a result
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.topQueries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">No searches yet.</p>
+                  ) : (
+                    <QueryTable rows={report.topQueries} showResults testId="row-top-query" />
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Zero-result queries */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <SearchX className="w-5 h-5 mr-2" />
+                    Zero-Result Queries
+                  </CardTitle>
+                  <CardDescription>
+                    Searches that found nothing: topics the guide doesn't cover yet
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.zeroResultQueries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">Every search found something.</p>
+                  ) : (
+                    <QueryTable rows={report.zeroResultQueries} showResults={false} testId="row-zero-result-query" />
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Never-found patterns */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <EyeOff className="w-5 h-5 mr-2" />
+                    Never Found
+                    <Badge variant="secondary" className="ml-2">{report.neverFound.length}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    Published patterns that no search returned on its first page
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.neverFound.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">Every pattern turned up in a search.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {Object.entries(neverFoundByIssue).map(([issueSlug, patterns]) => (
+                        <div key={issueSlug} className="space-y-2" data-testid={`never-found-${issueSlug}`}>
+                          <Link href={`/zine/${issueSlug}`} className="font-medium hover:text-primary">
+                            {patterns[0].issueTitle}
+                          </Link>
+                          <div className="flex flex-wrap gap-2">
+                            {patterns.map(pattern => (
+                              <Badge
+                                key={`${pattern.sectionId}/${pattern.patternName}`}
+                                variant="outline"
+                                title={pattern.sectionTitle}
+                              >
+                                {pattern.patternName}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </AdminLayout>
+    </LayoutShell>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { LayoutShell } from "@/components/layout/LayoutShell";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Check, KeyRound, Loader2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { PASSWORD_REQUIREMENTS, passwordProblems } from "@shared/passwordPolicy";
+
+class PasswordChangeError extends Error {
+  constructor(message: string, public readonly problems: string[]) {
+    super(message);
+    this.name = 'PasswordChangeError';
+  }
+}
+
+export default function AdminSettings() {
+  const { toast } = useToast();
+  const user = JSON.parse(localStorage.getItem('admin-user') || '{}');
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const problems = newPassword ? passwordProblems(newPassword, user.username) : [];
+  const mismatch = !!confirmPassword && confirmPassword !== newPassword;
+
+  const changePassword = useMutation({
+    mutationFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch('/api/admin/account/password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ currentPassword, newPassword })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        const details = Array.isArray(result.details) && result.details.every((detail: unknown) => typeof detail === 'string')
+          ? result.details
+          : [];
+        throw new PasswordChangeError(result.error || 'Failed to change password', details);
+      }
+      return result;
+    },
+    onSuccess: (result) => {
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      toast({
+        title: "Password Changed",
+        description: result.signedOutSessions > 0
+          ? `Signed out ${result.signedOutSessions} other session${result.signedOutSessions === 1 ? '' : 's'}.`
+          : "Use your new password next time you sign in.",
+      });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    changePassword.mutate();
+  };
+
+  const error = changePassword.error as PasswordChangeError | null;
+
+  return (
+    <LayoutShell
+      breadcrumb={[
+        { label: "Admin", href: "/admin" },
+        { label: "Settings", href: "/admin/settings" }
+      ]}
+    >
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+            <p className="text-muted-foreground">
+              Manage your admin account.
+            </p>
+          </div>
+
+          <Card className="max-w-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <KeyRound className="w-5 h-5 mr-2" />
+                Change Password
+              </CardTitle>
+              <CardDescription>
+                Changing your password signs you out on your other devices.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive" data-testid="alert-password-error">
+                    <AlertDescription>
+                      {error.message}
+                      {error.problems?.length > 0 && (
+                        <ul className="list-disc pl-4 mt-1">
+                          {error.problems.map(problem => <li key={problem}>{problem}</li>)}
+                        </ul>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="current-password">Current password</Label>
+                  <Input
+                    id="current-password"
+                    type="password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    autoComplete="current-password"
+                    required
+                    data-testid="input-current-password"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    autoComplete="new-password"
+                    required
+                    data-testid="input-new-password"
+                  />
+                  <ul className="text-xs space-y-1" data-testid="password-requirements">
+                    {PASSWORD_REQUIREMENTS.map(requirement => (
+                      <li key={requirement} className="flex items-center text-muted-foreground">
+                        {requirement}
+                      </li>
+                    ))}
+                  </ul>
+                  {problems.length > 0 && (
+                    <ul className="text-xs space-y-1">
+                      {problems.map(problem => (
+                        <li key={problem} className="flex items-center text-destructive">
+                          <X className="w-3 h-3 mr-1" />
+                          {problem}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {newPassword && problems.length === 0 && (
+                    <p className="flex items-center text-xs text-green-600">
+                      <Check className="w-3 h-3 mr-1" />
+                      Meets the password policy
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm new password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    autoComplete="new-password"
+                    required
+                    className={cn(mismatch && "border-destructive")}
+                    data-testid="input-confirm-password"
+                  />
+                  {mismatch && (
+                    <p className="text-xs text-destructive">Passwords don't match</p>
+                  )}
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={!currentPassword || problems.length > 0 || !newPassword || confirmPassword !== newPassword || changePassword.isPending}
+                  data-testid="button-change-password"
+                >
+                  {changePassword.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Change Password
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </AdminLayout>
+    </LayoutShell>
+  );
+}
@@ -18,7 +18,9 @@ import {
   Users,
   Clock,
   Upload,
-  Loader2
+  Loader2,
+  Sparkles,
+  RefreshCw
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { 
@@ -42,134 +44,63 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { z } from "zod";
 import { ChatPanel } from "@/components/workspace/ChatPanel";
 import { DraftPanel } from "@/components/workspace/DraftPanel";
 import { SuggestionsPanel } from "@/components/workspace/SuggestionsPanel";
 import { ActivityTimeline } from "@/components/workspace/ActivityTimeline";
 import { MobileWorkspaceLayout } from "@/components/workspace/MobileWorkspaceLayout";
+import { PublishPreviewEditor, isEntryComplete } from "@/components/workspace/PublishPreviewEditor";
 import { useMediaQuery } from "@/hooks/use-media-query";
+import { useWorkspaceLiveEvents } from "@/hooks/use-workspace-socket";
 import type { Workspace } from "@shared/schema";
+import type { IssueSection, PublishPreviewSource } from "@shared/publish";
 
 // Publish form schema
 const publishFormSchema = z.object({
   slug: z.string().min(1, "Slug is required").max(50, "Slug must be 50 characters or less"),
   version: z.string().min(1, "Version is required").max(20, "Version must be 20 characters or less"),
-  publishedAt: z.string().optional()
+  publishedAt: z.string().optional(),
+  // Publish onto the existing issue at `slug` as a new version
+  republish: z.boolean()
 });
 
 type PublishFormValues = z.infer<typeof publishFormSchema>;
 
-// Content conversion utilities for frontend preview
-interface DraftSection {
-  id: string;
-  title: string;
-  content: string;
-  level: number;
-  children?: DraftSection[];
+interface PublishPreview {
+  sections: IssueSection[];
+  source: PublishPreviewSource;
+  fallbackSectionIds?: string[];
+  // Why the heuristic was used instead of the model
+  warning?: string;
 }
 
-interface IssueSection {
-  id: string;
-  title: string;
-  icon: string;
-  color: string;
-  entries: {
-    pattern: string;
-    description: string;
-    signals: string[];
-    protocol: string;
-  }[];
-}
-
-function convertDraftToIssuePreview(draftSections: DraftSection[]): IssueSection[] {
-  const iconOptions = ['circle', 'square', 'triangle', 'shield', 'zap', 'battery', 'trending-up'];
-  const colorOptions = ['cyan', 'purple', 'green', 'yellow'];
-  const issuesSections: IssueSection[] = [];
-  
-  let parentIndex = 0;
-  const processSections = (sections: DraftSection[]) => {
-    sections.forEach((section) => {
-      if (section.level === 1) {
-        const issueSection: IssueSection = {
-          id: section.id,
-          title: section.title,
-          icon: iconOptions[parentIndex % iconOptions.length],
-          color: colorOptions[parentIndex % colorOptions.length],
-          entries: []
-        };
-        
-        if (section.content.trim()) {
-          const entry = {
-            pattern: section.title,
-            description: section.content,
-            signals: extractSignalsFromContent(section.content),
-            protocol: extractProtocolFromContent(section.content)
-          };
-          issueSection.entries.push(entry);
-        }
-        
-        if (section.children) {
-          section.children.forEach(child => {
-            const childEntry = {
-              pattern: child.title,
-              description: child.content || 'No description provided',
-              signals: extractSignalsFromContent(child.content),
-              protocol: extractProtocolFromContent(child.content)
-            };
-            issueSection.entries.push(childEntry);
-          });
-        }
-        
-        issuesSections.push(issueSection);
-        parentIndex++;
-      }
-    });
-  };
-  
-  processSections(draftSections);
-  return issuesSections;
-}
-
-function extractSignalsFromContent(content: string): string[] {
-  const signalKeywords = ['when', 'if', 'warning', 'alert', 'issue', 'problem', 'symptom'];
-  const sentences = content.split('.').map(s => s.trim()).filter(s => s.length > 0);
-  
-  const signals = sentences.filter(sentence => 
-    signalKeywords.some(keyword => 
-      sentence.toLowerCase().includes(keyword)
-    )
-  ).slice(0, 3);
-  
-  return signals.length > 0 ? signals : ['Implementation needed', 'System complexity', 'Performance considerations'];
-}
-
-function extractProtocolFromContent(content: string): string {
-  const protocolKeywords = ['step', 'first', 'then', 'finally', 'process', 'method', 'approach'];
-  const sentences = content.split('.').map(s => s.trim()).filter(s => s.length > 0);
-  
-  const protocolSentences = sentences.filter(sentence =>
-    protocolKeywords.some(keyword =>
-      sentence.toLowerCase().includes(keyword)
-    )
-  );
-  
-  if (protocolSentences.length > 0) {
-    return protocolSentences.join(' → ');
-  }
-  
-  return '1. Analyze requirements 2. Design solution 3. Implement changes 4. Test and validate';
+// Suggests the version after an issue's current one: v2.0 -> v2.1
+function nextVersion(version: string): string {
+  const match = version.match(/^(.*?)(\d+)(\D*)$/);
+  if (!match) return `${version}.1`;
+  return `${match[1]}${Number(match[2]) + 1}${match[3]}`;
 }
 
 // Publish dialog component
 function PublishDialog({ workspace, workspaceId }: { workspace: Workspace, workspaceId: string }) {
   const [dialogOpen, setDialogOpen] = useState(false);
+  // Generated entries, kept across closing the dialog so edits aren't lost
+  const [preview, setPreview] = useState<PublishPreview | null>(null);
   const { toast } = useToast();
   
   // Fetch draft data for preview
@@ -193,35 +124,95 @@ function PublishDialog({ workspace, workspaceId }: { workspace: Workspace, works
     defaultValues: {
       slug: workspace.title.toLowerCase().replace(/[^a-z0-9\s-]/g, '').replace(/\s+/g, '-').replace(/-+/g, '-').trim(),
       version: "v1.0",
-      publishedAt: ""
+      publishedAt: "",
+      republish: workspace.status === 'completed'
     }
   });
+  const republish = form.watch('republish');
+
+  // Issues a new version can be published onto
+  const { data: issuesData } = useQuery({
+    queryKey: ['/api/admin/issues'],
+    queryFn: async () => {
+      const token = localStorage.getItem('admin-token');
+      const response = await fetch('/api/admin/issues', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch issues');
+      return response.json();
+    },
+    enabled: dialogOpen && republish
+  });
+  const existingIssues: any[] = issuesData?.issues || [];
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/workspaces/${workspaceId}/publish/preview`, {});
+      return response.json() as Promise<PublishPreview>;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      if (result.warning) {
+        toast({
+          title: "Using Offline Conversion",
+          description: `${result.warning}. Entries were guessed from keywords; review them before publishing.`,
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message || "Failed to convert the draft for publishing.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  useEffect(() => {
+    if (dialogOpen && !preview && !previewMutation.isPending) {
+      previewMutation.mutate();
+    }
+  }, [dialogOpen]);
+
+  const entriesComplete = !!preview &&
+    preview.sections.every(section => section.entries.every(isEntryComplete));
 
   const publishMutation = useMutation({
     mutationFn: async (data: PublishFormValues) => {
       const payload = {
         slug: data.slug,
         version: data.version,
-        ...(data.publishedAt && { publishedAt: data.publishedAt })
+        ...(data.publishedAt && { publishedAt: data.publishedAt }),
+        sections: preview!.sections,
+        republish: data.republish
       };
       
       const response = await apiRequest('POST', `/api/admin/workspaces/${workspaceId}/publish`, payload);
       return response.json();
     },
-    onSuccess: (result) => {
+    onSuccess: (result, variables) => {
       toast({
         title: "Successfully Published!",
-        description: `Your workspace has been published as "${result.issue.title}"`,
+        description: variables.republish
+          ? `"${result.issue.title}" is now at ${result.issue.version}`
+          : `Your workspace has been published as "${result.issue.title}". It goes live once it is reviewed, approved and published from Content Management.`,
         duration: 5000
       });
       
       setDialogOpen(false);
+      setPreview(null);
       form.reset();
       
       // Invalidate workspace queries to refresh the status
       queryClient.invalidateQueries({ queryKey: ['/api/admin/workspaces'] });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/workspaces', workspaceId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/issues'] });
       
+      // Issues still in the editorial workflow aren't public yet
+      if (result.issue.status !== 'published') return;
+
       // Show success with link to view published issue
       setTimeout(() => {
         toast({
@@ -263,11 +254,10 @@ function PublishDialog({ workspace, workspaceId }: { workspace: Workspace, works
         <Button 
           variant="default" 
           className="ml-4"
-          disabled={workspace.status === 'completed'}
           data-testid="button-publish-issue"
         >
           <Upload className="w-4 h-4 mr-2" />
-          {workspace.status === 'completed' ? 'Published' : 'Publish Issue'}
+          {workspace.status === 'completed' ? 'Publish New Version' : 'Publish Issue'}
         </Button>
       </DialogTrigger>
       <DialogContent className="sm:max-w-[700px] max-h-[80vh]">
@@ -290,20 +280,68 @@ function PublishDialog({ workspace, workspaceId }: { workspace: Workspace, works
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                 <FormField
                   control={form.control}
-                  name="slug"
+                  name="republish"
                   render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Issue Slug</FormLabel>
+                    <FormItem className="flex items-center justify-between rounded-md border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>New version of an existing issue</FormLabel>
+                        <p className="text-xs text-muted-foreground">
+                          Replaces the issue's content; earlier versions stay readable.
+                        </p>
+                      </div>
                       <FormControl>
-                        <Input 
-                          {...field} 
-                          placeholder="issue-slug"
-                          data-testid="input-publish-slug"
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          data-testid="switch-publish-republish"
                         />
                       </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="slug"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{republish ? 'Issue' : 'Issue Slug'}</FormLabel>
+                      {republish ? (
+                        <Select
+                          value={field.value}
+                          onValueChange={(slug) => {
+                            field.onChange(slug);
+                            const issue = existingIssues.find(candidate => candidate.slug === slug);
+                            if (issue) form.setValue('version', nextVersion(issue.version));
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-publish-issue">
+                              <SelectValue placeholder="Choose an issue" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {existingIssues.map(issue => (
+                              <SelectItem key={issue.slug} value={issue.slug}>
+                                {issue.title} ({issue.version})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <FormControl>
+                          <Input 
+                            {...field} 
+                            placeholder="issue-slug"
+                            data-testid="input-publish-slug"
+                          />
+                        </FormControl>
+                      )}
                       <FormMessage />
                       <p className="text-xs text-muted-foreground">
-                        URL-friendly identifier for your issue. Will be used in the issue URL.
+                        {republish
+                          ? 'The issue to publish this workspace onto as a new version.'
+                          : 'URL-friendly identifier for your issue. Will be used in the issue URL.'}
                       </p>
                     </FormItem>
                   )}
@@ -351,6 +389,12 @@ function PublishDialog({ workspace, workspaceId }: { workspace: Workspace, works
                   )}
                 />
                 
+                {preview && !entriesComplete && (
+                  <p className="text-xs text-destructive">
+                    Some entries in the preview are missing a pattern, description, signals or protocol.
+                  </p>
+                )}
+
                 <div className="flex justify-end space-x-2 pt-4">
                   <Button 
                     type="button" 
@@ -362,7 +406,7 @@ function PublishDialog({ workspace, workspaceId }: { workspace: Workspace, works
                   </Button>
                   <Button 
                     type="submit" 
-                    disabled={publishMutation.isPending}
+                    disabled={publishMutation.isPending || !entriesComplete}
                     data-testid="button-confirm-publish"
                   >
                     {publishMutation.isPending ? (
@@ -405,41 +449,41 @@ function PublishDialog({ workspace, workspaceId }: { workspace: Workspace, works
                       This content was collaboratively created in workspace "{workspace.title}" and represents the collective insights and patterns discovered during the ideation process.
                     </p>
                     
-                    <div className="space-y-4">
-                      {convertDraftToIssuePreview(draftData.draft.outline.sections).map((section, index) => (
-                        <div key={section.id} className="border rounded-lg p-4 space-y-3">
-                          <div className="flex items-center space-x-2">
-                            <div className={`w-3 h-3 rounded-sm bg-${section.color}-200`} />
-                            <h4 className="font-medium">{section.title}</h4>
-                            <span className="text-xs text-muted-foreground">({section.icon})</span>
-                          </div>
-                          
-                          <div className="space-y-3">
-                            {section.entries.map((entry, entryIndex) => (
-                              <div key={entryIndex} className="border-l-2 border-muted pl-3 space-y-2">
-                                <h5 className="font-medium text-sm">{entry.pattern}</h5>
-                                <p className="text-sm text-muted-foreground">{entry.description}</p>
-                                
-                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
-                                  <div>
-                                    <span className="font-medium">Signals:</span>
-                                    <ul className="list-disc list-inside mt-1 space-y-1">
-                                      {entry.signals.map((signal, signalIndex) => (
-                                        <li key={signalIndex} className="text-muted-foreground">{signal}</li>
-                                      ))}
-                                    </ul>
-                                  </div>
-                                  <div>
-                                    <span className="font-medium">Protocol:</span>
-                                    <p className="text-muted-foreground mt-1">{entry.protocol}</p>
-                                  </div>
-                                </div>
-                              </div>
-                            ))}
-                          </div>
-                        </div>
-                      ))}
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center text-xs text-muted-foreground">
+                        <Sparkles className="w-3 h-3 mr-1" />
+                        {!preview
+                          ? 'Preparing entries...'
+                          : preview.source === 'heuristic'
+                            ? 'Converted offline from keywords. Edit each entry before publishing.'
+                            : 'Converted by AI. Edit each entry before publishing.'}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => previewMutation.mutate()}
+                        disabled={previewMutation.isPending}
+                        data-testid="button-regenerate-preview"
+                      >
+                        <RefreshCw className={`w-3 h-3 mr-1 ${previewMutation.isPending ? 'animate-spin' : ''}`} />
+                        Regenerate
+                      </Button>
                     </div>
+
+                    {preview ? (
+                      <PublishPreviewEditor
+                        sections={preview.sections}
+                        onChange={(sections) => setPreview({ ...preview, sections })}
+                        fallbackSectionIds={preview.source === 'heuristic'
+                          ? preview.sections.map(section => section.id)
+                          : preview.fallbackSectionIds || []}
+                      />
+                    ) : (
+                      <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Converting draft into field guide entries...
+                      </div>
+                    )}
                   </div>
                 </div>
               ) : (
@@ -476,6 +520,7 @@ export default function WorkspaceEditor() {
   const params = useParams();
   const workspaceId = params.id;
   const isMobile = useMediaQuery('(max-width: 768px)');
+  useWorkspaceLiveEvents(workspaceId);
 
   const { data: workspaceData, isLoading, error } = useQuery({
     queryKey: ['/api/admin/workspaces', workspaceId],
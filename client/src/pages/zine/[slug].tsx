@@ -1,7 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
-import { useRoute } from "wouter";
+import { Link, useRoute, useSearch } from "wouter";
+import { History } from "lucide-react";
 import { LayoutShell } from "@/components/layout/LayoutShell";
 import { IssueReader } from "@/components/zine/IssueReader";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 
 interface Issue {
   slug: string;
@@ -26,16 +28,32 @@ interface Issue {
   }>;
 }
 
-interface IssuesData {
-  issues: Issue[];
+interface IssueVersionSummary {
+  version: string;
+  publishedAt: string | null;
+  current: boolean;
+}
+
+interface IssueData {
+  issue: Issue;
+  versions: IssueVersionSummary[];
 }
 
 export default function IssuePage() {
   const [match, params] = useRoute("/zine/:slug");
   const slug = params?.slug;
+  // Earlier versions are readable at /zine/:slug?version=v1.0
+  const version = new URLSearchParams(useSearch()).get('version');
 
-  const { data: issuesData, isLoading, error } = useQuery<IssuesData>({
-    queryKey: ["/api/issues"],
+  const { data: issueData, isLoading, error } = useQuery<IssueData | null>({
+    queryKey: ['/api/issues', slug, version],
+    queryFn: async () => {
+      const query = version ? `?version=${encodeURIComponent(version)}` : '';
+      const response = await fetch(`/api/issues/${encodeURIComponent(slug!)}${query}`);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error('Failed to fetch issue');
+      return response.json();
+    },
     enabled: !!slug,
   });
 
@@ -72,7 +90,9 @@ export default function IssuePage() {
     );
   }
 
-  const issue = issuesData?.issues.find((i) => i.slug === slug);
+  const issue = issueData?.issue;
+  const latest = issueData?.versions.find((candidate) => candidate.current);
+  const isEarlierVersion = !!version && !!latest && latest.version !== version;
 
   if (!issue || !issue.meta) {
     return (
@@ -96,6 +116,19 @@ export default function IssuePage() {
         { label: issue.meta.title, href: `/zine/${issue.slug}` }
       ]}
     >
+      {isEarlierVersion && (
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 pt-6">
+          <Alert data-testid="alert-earlier-version">
+            <History className="h-4 w-4" />
+            <AlertDescription>
+              You're reading {issue.meta.version}, an earlier version of this issue.{" "}
+              <Link href={`/zine/${issue.slug}`} className="underline" data-testid="link-latest-version">
+                Read the latest ({latest.version})
+              </Link>
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
       <IssueReader issue={issue} />
     </LayoutShell>
   );
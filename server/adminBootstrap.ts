@@ -0,0 +1,100 @@
+import { randomBytes, timingSafeEqual, createHash } from "crypto";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+import { hashPassword } from "./passwords";
+import { passwordProblems } from "@shared/passwordPolicy";
+
+// Creating the first admin. On a server with no admins, startup prints a
+// one-time setup token to the log; POST /api/admin/create-admin takes it
+// with the new admin's username and password. Once any admin exists the
+// route turns itself off. The `admin:create` script (server/createAdmin.ts)
+// creates or promotes admins directly and works at any time.
+
+export class AdminBootstrapError extends Error {
+  constructor(message: string, public readonly details: string[] = []) {
+    super(message);
+    this.name = 'AdminBootstrapError';
+  }
+}
+
+// How long to wait before checking for admins again when the check fails
+const RETRY_DELAY = 30 * 1000;
+
+let setupToken: string | null = null;
+
+export async function hasAdmins(): Promise<boolean> {
+  return (await storage.getAdminUsers()).length > 0;
+}
+
+// Issues the setup token when the server starts without an admin, retrying
+// until the check succeeds, e.g. while the database is still starting
+export async function startAdminBootstrap() {
+  try {
+    if (await hasAdmins()) return;
+
+    setupToken = randomBytes(24).toString('base64url');
+    console.log([
+      '',
+      'No admin account exists yet. Create one with the one-time setup token:',
+      `  Setup token: ${setupToken}`,
+      '  POST /api/admin/create-admin { "username", "password", "token" }',
+      'or run `npm run admin:create -- <username>` on the server.',
+      '',
+    ].join('\n'));
+  } catch (error) {
+    console.error(`Admin bootstrap check failed; retrying in ${RETRY_DELAY / 1000}s:`, error);
+    setTimeout(() => void startAdminBootstrap(), RETRY_DELAY).unref();
+  }
+}
+
+// Uses up the setup token if it matches, so concurrent requests can't both
+// create an admin. Pass the result to restoreSetupToken if creation fails.
+export function takeSetupToken(token: string): boolean {
+  if (!setupToken) return false;
+  // Compared as digests so the comparison doesn't leak the length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (!timingSafeEqual(digest(token), digest(setupToken))) return false;
+  setupToken = null;
+  return true;
+}
+
+export function restoreSetupToken(token: string) {
+  setupToken = token;
+}
+
+// Creates an admin, or makes an existing user one. A password is required
+// for new users and replaces the password of existing ones when given.
+export async function createOrPromoteAdmin(
+  username: string,
+  password?: string
+): Promise<{ user: User; created: boolean }> {
+  if (password !== undefined) {
+    const problems = passwordProblems(password, username);
+    if (problems.length > 0) {
+      throw new AdminBootstrapError('Password does not meet the policy', problems);
+    }
+  }
+
+  const existing = await storage.getUserByUsername(username);
+  if (existing) {
+    if (password !== undefined) {
+      await storage.updateUserCredentials(existing.id, {
+        password: await hashPassword(password),
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+    }
+    const user = existing.isAdmin ? existing : await storage.updateUserAdminStatus(existing.id, true);
+    return { user: user ?? existing, created: false };
+  }
+
+  if (password === undefined) {
+    throw new AdminBootstrapError(`User "${username}" does not exist; a password is needed to create it`);
+  }
+  const user = await storage.createUser({
+    username,
+    password: await hashPassword(password),
+    isAdmin: true,
+  });
+  return { user, created: true };
+}
@@ -0,0 +1,423 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { storage, storageEvents } from "./storage";
+import type { User } from "@shared/schema";
+import {
+  applyDraftOperation,
+  outlineChecksum,
+  transformDraftOperations,
+  OperationError,
+  type DraftOperation
+} from "@shared/ot";
+import {
+  collaborationClientMessageSchema,
+  type CollaborationClientMessage,
+  type CollaborationServerMessage,
+  type CollaboratorPresence,
+  type WorkspaceLiveEvent
+} from "@shared/collaboration";
+
+const SOCKET_PATH = /^\/ws\/workspaces\/([^/]+)\/?$/;
+// Operations kept per draft so a reconnecting editor can catch up
+const HISTORY_LIMIT = 500;
+const HEARTBEAT_INTERVAL = 30000;
+const PRESENCE_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+interface HistoryEntry {
+  id: string;
+  clientId: string;
+  operation: DraftOperation;
+}
+
+// The live copy of one branch's draft, shared by everyone editing it
+interface DraftRoom {
+  key: string;
+  workspaceId: string;
+  branch: string;
+  // Changes whenever the draft is replaced from outside the room, which
+  // invalidates every version number handed out before
+  session: string;
+  outline: any;
+  version: number;
+  // history[i] produced version historyStart + i + 1
+  history: HistoryEntry[];
+  historyStart: number;
+  clients: Set<CollaborationClient>;
+  // Outlines this room is writing to storage, so their change events are ignored
+  ownWrites: Set<string>;
+  dirty: boolean;
+  saving: Promise<void>;
+}
+
+interface CollaborationClient {
+  id: string;
+  socket: WebSocket;
+  workspaceId: string;
+  user: User;
+  color: string;
+  room: DraftRoom | null;
+  presence: Pick<CollaboratorPresence, 'sectionId' | 'field' | 'cursor'>;
+  alive: boolean;
+  // Messages are handled one at a time so a join completes before the
+  // operations sent right after it
+  queue: Promise<void>;
+}
+
+const rooms = new Map<string, DraftRoom>();
+const loadingRooms = new Map<string, Promise<DraftRoom | null>>();
+const workspaceClients = new Map<string, Set<CollaborationClient>>();
+
+export function attachCollaborationServer(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const match = url.pathname.match(SOCKET_PATH);
+    // Other upgrades, such as Vite's HMR socket, are handled elsewhere
+    if (!match) return;
+
+    authorizeUpgrade(url.searchParams.get('token'), decodeURIComponent(match[1]))
+      .then(result => {
+        if ('status' in result) {
+          return rejectUpgrade(socket, result.status, result.reason);
+        }
+        wss.handleUpgrade(request, socket, head, ws => connectClient(ws, result.workspaceId, result.user));
+      })
+      .catch(error => {
+        console.error('Collaboration upgrade error:', error);
+        rejectUpgrade(socket, 500, 'Internal Server Error');
+      });
+  });
+
+  const heartbeat = setInterval(() => {
+    Array.from(workspaceClients.values()).forEach(clients => {
+      clients.forEach(client => {
+        if (!client.alive) return client.socket.terminate();
+        client.alive = false;
+        client.socket.ping();
+      });
+    });
+  }, HEARTBEAT_INTERVAL);
+  httpServer.on('close', () => clearInterval(heartbeat));
+
+  storageEvents.on('message', message => publishEvent(message.workspaceId, { kind: 'message', data: message }));
+  storageEvents.on('suggestion', suggestion => publishEvent(suggestion.workspaceId, { kind: 'suggestion', data: suggestion }));
+  storageEvents.on('activity', activity => {
+    if (activity.workspaceId) publishEvent(activity.workspaceId, { kind: 'activity', data: activity });
+  });
+
+  // Suggestions, restores and merges replace the outline through the REST
+  // routes; everyone editing that branch starts over from the new outline
+  storageEvents.on('draft', (draft, updates) => {
+    if (updates.outline === undefined) return;
+    const room = rooms.get(roomKey(draft.workspaceId, draft.branchName));
+    if (!room) return;
+
+    const checksum = outlineChecksum(draft.outline);
+    if (room.ownWrites.has(checksum) || checksum === outlineChecksum(room.outline)) return;
+
+    room.session = randomUUID();
+    room.outline = draft.outline || { sections: [] };
+    room.version = 0;
+    room.history = [];
+    room.historyStart = 0;
+    room.dirty = false;
+    room.clients.forEach(client => sendSnapshot(client, room));
+  });
+}
+
+type UpgradeResult =
+  | { workspaceId: string; user: User }
+  | { status: number; reason: string };
+
+// Browsers can't set headers on WebSocket requests, so the admin token
+// comes in the query string
+async function authorizeUpgrade(token: string | null, workspaceId: string): Promise<UpgradeResult> {
+  if (!token) return { status: 401, reason: 'Unauthorized' };
+
+  const session = await storage.getAdminSession(token);
+  if (!session) return { status: 401, reason: 'Unauthorized' };
+
+  const user = await storage.getUser(session.userId);
+  if (!user || !user.isAdmin) return { status: 403, reason: 'Forbidden' };
+
+  const workspace = await storage.getWorkspace(workspaceId);
+  if (!workspace) return { status: 404, reason: 'Not Found' };
+  if (workspace.userId !== user.id) return { status: 403, reason: 'Forbidden' };
+
+  return { workspaceId: workspace.id, user };
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function connectClient(socket: WebSocket, workspaceId: string, user: User) {
+  const clients = workspaceClients.get(workspaceId) || new Set<CollaborationClient>();
+  workspaceClients.set(workspaceId, clients);
+
+  const client: CollaborationClient = {
+    id: randomUUID(),
+    socket,
+    workspaceId,
+    user,
+    color: PRESENCE_COLORS[clients.size % PRESENCE_COLORS.length],
+    room: null,
+    presence: { sectionId: null, field: null, cursor: null },
+    alive: true,
+    queue: Promise.resolve()
+  };
+  clients.add(client);
+
+  socket.on('pong', () => {
+    client.alive = true;
+  });
+
+  socket.on('message', (data: RawData) => {
+    client.queue = client.queue
+      .then(() => handleMessage(client, data))
+      .catch(error => {
+        console.error('Collaboration message error:', error);
+        send(client, { type: 'error', error: 'Failed to process message' });
+      });
+  });
+
+  socket.on('close', () => {
+    clients.delete(client);
+    if (clients.size === 0) workspaceClients.delete(workspaceId);
+    client.queue = client.queue.then(() => leaveRoom(client));
+  });
+
+  send(client, { type: 'welcome', clientId: client.id });
+}
+
+async function handleMessage(client: CollaborationClient, data: RawData) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data.toString());
+  } catch {
+    return send(client, { type: 'error', error: 'Messages must be JSON' });
+  }
+
+  const result = collaborationClientMessageSchema.safeParse(parsed);
+  if (!result.success) {
+    return send(client, { type: 'error', error: 'Invalid message' });
+  }
+
+  const message = result.data;
+  switch (message.type) {
+    case 'join':
+      return joinRoom(client, message);
+    case 'leave':
+      return leaveRoom(client);
+    case 'operation':
+      return applyClientOperation(client, message);
+    case 'presence':
+      if (!client.room) return;
+      client.presence = { sectionId: message.sectionId, field: message.field, cursor: message.cursor };
+      return broadcastPresence(client.room);
+  }
+}
+
+async function joinRoom(client: CollaborationClient, message: Extract<CollaborationClientMessage, { type: 'join' }>) {
+  await leaveRoom(client);
+
+  const room = await getRoom(client.workspaceId, message.branch);
+  if (!room) {
+    return send(client, { type: 'error', error: 'Draft not found' });
+  }
+
+  client.room = room;
+  client.presence = { sectionId: null, field: null, cursor: null };
+  room.clients.add(client);
+
+  // A reconnecting editor only needs the operations it missed
+  const canCatchUp = message.session === room.session &&
+    message.version !== undefined &&
+    message.version >= room.historyStart &&
+    message.version <= room.version;
+
+  if (canCatchUp) {
+    const checksum = outlineChecksum(room.outline);
+    room.history.slice(message.version! - room.historyStart).forEach((entry, index) => {
+      send(client, {
+        type: 'operation',
+        id: entry.id,
+        version: message.version! + index + 1,
+        operation: entry.operation,
+        clientId: entry.clientId,
+        checksum: message.version! + index + 1 === room.version ? checksum : undefined
+      });
+    });
+  } else {
+    sendSnapshot(client, room);
+  }
+
+  broadcastPresence(room);
+}
+
+async function leaveRoom(client: CollaborationClient) {
+  const room = client.room;
+  if (!room) return;
+
+  client.room = null;
+  room.clients.delete(client);
+  broadcastPresence(room);
+
+  if (room.clients.size === 0) {
+    await room.saving;
+    // Someone may have joined while the last save finished
+    if (room.clients.size === 0 && rooms.get(room.key) === room) {
+      rooms.delete(room.key);
+    }
+  }
+}
+
+function applyClientOperation(client: CollaborationClient, message: Extract<CollaborationClientMessage, { type: 'operation' }>) {
+  const room = client.room;
+  // Operations from before the draft was replaced are dropped; the client
+  // has been sent the new snapshot
+  if (!room || message.session !== room.session || message.version < room.historyStart) return;
+
+  if (message.version > room.version) {
+    return send(client, { type: 'error', error: `Unknown draft version ${message.version}` });
+  }
+
+  const previous = room.history.slice(message.version - room.historyStart);
+  const duplicate = previous.findIndex(entry => entry.id === message.id);
+  if (duplicate !== -1) {
+    // Resent after a reconnect; it was applied the first time
+    return send(client, { type: 'ack', id: message.id, version: message.version + duplicate + 1 });
+  }
+
+  let operation = message.operation;
+  let outline: any;
+  try {
+    previous.forEach(entry => {
+      [, operation] = transformDraftOperations(entry.operation, operation);
+    });
+    outline = applyDraftOperation(room.outline, operation);
+  } catch (error) {
+    if (!(error instanceof OperationError)) throw error;
+    // The client's copy has drifted from ours; start it over
+    return sendSnapshot(client, room);
+  }
+
+  room.outline = outline;
+  room.version++;
+  room.history.push({ id: message.id, clientId: client.id, operation });
+  if (room.history.length > HISTORY_LIMIT) {
+    room.history.shift();
+    room.historyStart++;
+  }
+
+  const checksum = outlineChecksum(outline);
+  send(client, { type: 'ack', id: message.id, version: room.version, checksum });
+  room.clients.forEach(other => {
+    if (other === client) return;
+    send(other, {
+      type: 'operation',
+      id: message.id,
+      version: room.version,
+      operation,
+      clientId: client.id,
+      checksum
+    });
+  });
+
+  saveRoom(room);
+}
+
+function roomKey(workspaceId: string, branch: string) {
+  return `${workspaceId}:${branch}`;
+}
+
+async function getRoom(workspaceId: string, branch: string): Promise<DraftRoom | null> {
+  const key = roomKey(workspaceId, branch);
+  const existing = rooms.get(key);
+  if (existing) return existing;
+
+  // Editors joining at the same moment share one load
+  let loading = loadingRooms.get(key);
+  if (!loading) {
+    loading = storage.getDraft(workspaceId, branch)
+      .then(draft => {
+        if (!draft) return null;
+        const room: DraftRoom = {
+          key,
+          workspaceId,
+          branch,
+          session: randomUUID(),
+          outline: draft.outline || { sections: [] },
+          version: 0,
+          history: [],
+          historyStart: 0,
+          clients: new Set(),
+          ownWrites: new Set(),
+          dirty: false,
+          saving: Promise.resolve()
+        };
+        rooms.set(key, room);
+        return room;
+      })
+      .finally(() => loadingRooms.delete(key));
+    loadingRooms.set(key, loading);
+  }
+  return loading;
+}
+
+// Writes the latest outline after the previous save finishes; operations
+// that arrive meanwhile are folded into the next write
+function saveRoom(room: DraftRoom) {
+  room.dirty = true;
+  room.saving = room.saving.then(async () => {
+    if (!room.dirty) return;
+    room.dirty = false;
+
+    const outline = room.outline;
+    const checksum = outlineChecksum(outline);
+    room.ownWrites.add(checksum);
+    try {
+      await storage.updateDraft(room.workspaceId, { outline }, room.branch);
+    } catch (error) {
+      console.error('Collaboration save error:', error);
+    } finally {
+      room.ownWrites.delete(checksum);
+    }
+  });
+}
+
+function sendSnapshot(client: CollaborationClient, room: DraftRoom) {
+  send(client, {
+    type: 'snapshot',
+    branch: room.branch,
+    session: room.session,
+    version: room.version,
+    outline: room.outline,
+    checksum: outlineChecksum(room.outline)
+  });
+}
+
+function broadcastPresence(room: DraftRoom) {
+  const collaborators: CollaboratorPresence[] = Array.from(room.clients).map(client => ({
+    clientId: client.id,
+    userId: client.user.id,
+    username: client.user.username,
+    color: client.color,
+    ...client.presence
+  }));
+  room.clients.forEach(client => send(client, { type: 'presence', collaborators }));
+}
+
+function publishEvent(workspaceId: string, event: WorkspaceLiveEvent) {
+  workspaceClients.get(workspaceId)?.forEach(client => send(client, { type: 'event', event }));
+}
+
+function send(client: CollaborationClient, message: CollaborationServerMessage) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
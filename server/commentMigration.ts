@@ -0,0 +1,26 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+import { comments, issueReviewComments, issues } from "@shared/schema";
+
+// Moves pattern comments left in issue_review_comments into `comments`,
+// keeping their ids, authors and dates. Rows are deleted once copied, so
+// this is a no-op after the first run and the old table can be dropped.
+export async function migrateReviewComments(): Promise<void> {
+  try {
+    const moved = await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        INSERT INTO ${comments} (id, issue_slug, section_id, pattern, author_id, body, mentions, created_at)
+        SELECT legacy.id, ${issues.slug}, legacy.section_id, legacy.pattern, legacy.author_id, legacy.body, '[]'::jsonb, legacy.created_at
+        FROM ${issueReviewComments} legacy
+        JOIN ${issues} ON ${issues.id} = legacy.issue_id
+        ON CONFLICT (id) DO NOTHING
+      `);
+      return tx.delete(issueReviewComments).returning({ id: issueReviewComments.id });
+    });
+    if (moved.length > 0) {
+      console.log(`Moved ${moved.length} review comments into comments`);
+    }
+  } catch (error) {
+    console.error('Failed to migrate review comments:', error);
+  }
+}
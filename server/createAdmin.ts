@@ -0,0 +1,79 @@
+import { createInterface } from "readline/promises";
+import { Writable } from "stream";
+import { storage } from "./storage";
+import { createOrPromoteAdmin, AdminBootstrapError } from "./adminBootstrap";
+import { PASSWORD_REQUIREMENTS } from "@shared/passwordPolicy";
+import { adminUsernameSchema } from "@shared/schema";
+
+// Creates an admin, or makes an existing user one:
+//
+//   npm run admin:create -- <username>
+//
+// New users are asked for a password, unless ADMIN_PASSWORD is set. Setting
+// ADMIN_PASSWORD for an existing user also replaces their password and
+// clears any lockout.
+
+async function promptHidden(question: string): Promise<string> {
+  // Keystrokes go to a stream that drops them, so the password isn't echoed
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = createInterface({ input: process.stdin, output: muted, terminal: process.stdin.isTTY });
+  try {
+    process.stdout.write(question);
+    return await rl.question('');
+  } finally {
+    process.stdout.write('\n');
+    rl.close();
+  }
+}
+
+async function main() {
+  const username = process.argv[2]?.trim();
+  if (!username) {
+    console.error('Usage: npm run admin:create -- <username>');
+    return 1;
+  }
+
+  const existing = await storage.getUserByUsername(username);
+  if (!existing) {
+    // New admins follow the same username rules as the setup token route
+    const parsed = adminUsernameSchema.safeParse(username);
+    if (!parsed.success) {
+      console.error(`Invalid username "${username}"`);
+      parsed.error.errors.forEach(issue => console.error(`  - ${issue.message}`));
+      return 1;
+    }
+  }
+
+  let password = process.env.ADMIN_PASSWORD;
+  if (password === undefined && !existing) {
+    console.log(`Creating admin "${username}". The password needs:`);
+    PASSWORD_REQUIREMENTS.forEach(requirement => console.log(`  - ${requirement}`));
+    password = await promptHidden('Password: ');
+    if (await promptHidden('Confirm password: ') !== password) {
+      console.error("Passwords don't match");
+      return 1;
+    }
+  }
+
+  try {
+    const { user, created } = await createOrPromoteAdmin(username, password);
+    console.log(created
+      ? `Created admin "${user.username}"`
+      : `"${user.username}" is an admin${password !== undefined ? ' with a new password' : ''}`);
+    return 0;
+  } catch (error) {
+    if (error instanceof AdminBootstrapError) {
+      console.error(error.message);
+      error.details.forEach(detail => console.error(`  - ${detail}`));
+      return 1;
+    }
+    throw error;
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Failed to create admin:', error);
+    process.exit(1);
+  });
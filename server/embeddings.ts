@@ -0,0 +1,63 @@
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import { EMBEDDING_DIMENSIONS } from "@shared/schema";
+
+// Sentence embeddings computed locally on the CPU with a small ONNX model,
+// so semantic search needs no external API. The model is downloaded on first
+// use and cached by transformers.js. If it can't be loaded, embedding
+// returns null and search falls back to keywords alone.
+const EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+// Texts embedded per model call, to bound memory while indexing
+const BATCH_SIZE = 32;
+
+// How long to wait before trying to load a model that failed
+const RETRY_AFTER = 10 * 60 * 1000;
+
+let extractor: Promise<FeatureExtractionPipeline> | null = null;
+let failedAt: number | null = null;
+
+async function loadExtractor(): Promise<FeatureExtractionPipeline | null> {
+  if (failedAt && Date.now() - failedAt < RETRY_AFTER) return null;
+
+  if (!extractor) {
+    // Loaded on demand so the server starts without the ONNX runtime. The
+    // cast skips resolving pipeline()'s per-task overloads, which is too
+    // much for the type checker.
+    extractor = import("@huggingface/transformers").then(({ pipeline }) => {
+      const createPipeline = pipeline as unknown as (task: 'feature-extraction', model: string, options: { dtype: 'q8' }) => Promise<FeatureExtractionPipeline>;
+      return createPipeline('feature-extraction', EMBEDDING_MODEL, { dtype: 'q8' });
+    });
+  }
+  try {
+    const loaded = await extractor;
+    failedAt = null;
+    return loaded;
+  } catch (error) {
+    console.error('Failed to load embedding model:', error);
+    extractor = null;
+    failedAt = Date.now();
+    return null;
+  }
+}
+
+// Unit-length vectors, one per text, or null when no model is available
+export async function embedTexts(texts: string[]): Promise<number[][] | null> {
+  if (texts.length === 0) return [];
+  const model = await loadExtractor();
+  if (!model) return null;
+
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+    const output = await model(texts.slice(start, start + BATCH_SIZE), { pooling: 'mean', normalize: true });
+    vectors.push(...(output.tolist() as number[][]));
+  }
+  if (vectors.some(vector => vector.length !== EMBEDDING_DIMENSIONS)) {
+    throw new Error(`${EMBEDDING_MODEL} returned vectors without ${EMBEDDING_DIMENSIONS} dimensions`);
+  }
+  return vectors;
+}
+
+export async function embedText(text: string): Promise<number[] | null> {
+  const vectors = await embedTexts([text]);
+  return vectors ? vectors[0] : null;
+}
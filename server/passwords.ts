@@ -0,0 +1,113 @@
+import { scrypt, randomBytes, timingSafeEqual, createHash, type ScryptOptions } from "crypto";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Password hashing and sign-in checks shared by admin and reader logins.
+// Hashes are stored as `scrypt$N$r$p$salt$hash`, so the cost can be raised
+// later: sign-in rehashes any password stored with other parameters, and
+// moves accounts created before hashing off their plaintext passwords.
+
+const HASH_PREFIX = 'scrypt';
+const SCRYPT_OPTIONS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Wrong passwords in a row before an account is locked, and for how long
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_DURATION = 15 * 60 * 1000;
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // maxmem covers N=16384 with r=8 (16 MiB) and leaves room to raise N
+    scrypt(password.normalize('NFKC'), salt, KEY_LENGTH, { ...options, maxmem: 256 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, SCRYPT_OPTIONS);
+  const { N, r, p } = SCRYPT_OPTIONS;
+  return [HASH_PREFIX, N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+// Whether the password matches, and whether the stored value should be
+// replaced with a hash using the current parameters
+export async function verifyPassword(password: string, stored: string): Promise<{ valid: boolean; needsRehash: boolean }> {
+  const parts = stored.split('$');
+  if (parts[0] !== HASH_PREFIX || parts.length !== 6) {
+    // Plaintext from before hashing; compared as digests so the comparison
+    // doesn't leak the length
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    const valid = timingSafeEqual(digest(password), digest(stored));
+    return { valid, needsRehash: valid };
+  }
+
+  const [, N, r, p, salt, hash] = parts;
+  const options = { N: Number(N), r: Number(r), p: Number(p) };
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), options);
+  const valid = key.length === expected.length && timingSafeEqual(key, expected);
+  const outdated = options.N !== SCRYPT_OPTIONS.N || options.r !== SCRYPT_OPTIONS.r || options.p !== SCRYPT_OPTIONS.p;
+  return { valid, needsRehash: valid && outdated };
+}
+
+export type SignInResult =
+  | { status: 'ok'; user: User }
+  | { status: 'invalid' }
+  | { status: 'locked'; lockedUntil: Date };
+
+// Hashed once and checked against for unknown usernames, so they take as
+// long as wrong passwords
+let unknownUserHash: Promise<string> | null = null;
+
+// Checks a username and password, counting failures towards a lockout.
+// A locked account rejects even the right password until the lock expires.
+// Attempts are counted in the database before the password is checked, so
+// a burst of parallel guesses gets no more than MAX_FAILED_LOGINS checks.
+export async function signIn(username: string, password: string): Promise<SignInResult> {
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    unknownUserHash ??= hashPassword(randomBytes(SALT_LENGTH).toString('hex'));
+    await verifyPassword(password, await unknownUserHash);
+    return { status: 'invalid' };
+  }
+
+  const counted = await storage.countLoginAttempt(user.id);
+  if (!counted) {
+    const current = await storage.getUser(user.id);
+    return { status: 'locked', lockedUntil: current?.lockedUntil ?? new Date() };
+  }
+  // Over the limit while earlier guesses are still being checked
+  if (counted.failedLoginAttempts > MAX_FAILED_LOGINS) {
+    return lockAccount(counted);
+  }
+
+  const { valid, needsRehash } = await verifyPassword(password, counted.password);
+  if (!valid) {
+    return counted.failedLoginAttempts >= MAX_FAILED_LOGINS
+      ? lockAccount(counted)
+      : { status: 'invalid' };
+  }
+
+  const updated = await storage.updateUserCredentials(user.id, {
+    ...(needsRehash && { password: await hashPassword(password) }),
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+  });
+  return { status: 'ok', user: updated ?? counted };
+}
+
+async function lockAccount(user: User): Promise<SignInResult> {
+  const lockedUntil = new Date(Date.now() + LOCKOUT_DURATION);
+  await storage.updateUserCredentials(user.id, { failedLoginAttempts: 0, lockedUntil });
+  console.warn(`Locked account "${user.username}" after ${user.failedLoginAttempts} failed sign-ins`);
+  return { status: 'locked', lockedUntil };
+}
+
+export function lockoutMessage(lockedUntil: Date): string {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  return `Too many failed sign-ins. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
@@ -0,0 +1,69 @@
+import type { Issue } from "@shared/schema";
+import { storage, storageEvents } from "./storage";
+
+// Longest wait between checks. Keeps the timer well under setTimeout's
+// ~24 day limit and picks up publish dates changed outside this process.
+const MAX_WAIT = 5 * 60 * 1000;
+
+// Watches for scheduled issues reaching their publish date. When one goes
+// live the workspace it was published from gets an activity and an
+// `issueLive` event goes out; search already has its entries and starts
+// listing it once it's live. Issues that went live while the server was down
+// are already visible on restart, but aren't announced.
+export function startPublishScheduler() {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastCheck = new Date();
+
+  const arm = async () => {
+    let delay = MAX_WAIT;
+    try {
+      const [next] = await storage.getScheduledIssues();
+      if (next) delay = Math.min(Math.max(next.publishedAt!.getTime() - Date.now(), 0), MAX_WAIT);
+    } catch (error) {
+      console.error('Publish scheduler error:', error);
+    }
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(check, delay);
+  };
+
+  const check = async () => {
+    const now = new Date();
+    const since = lastCheck;
+    lastCheck = now;
+
+    try {
+      const wentLive = (await storage.getPublishedIssues(now))
+        .filter(issue => issue.publishedAt && issue.publishedAt > since);
+      for (const issue of wentLive) {
+        await announce(issue);
+      }
+    } catch (error) {
+      console.error('Publish scheduler error:', error);
+    }
+    await arm();
+  };
+
+  // Issues published now go live straight away; new and rescheduled issues
+  // may be due before the current timer fires
+  storageEvents.on('issue', () => void check());
+  void arm();
+}
+
+async function announce(issue: Issue) {
+  console.log(`Issue "${issue.slug}" went live`);
+  storageEvents.emit('issueLive', issue);
+
+  const workspaceId = (issue.metadata as any)?.sourceWorkspaceId;
+  if (!workspaceId || !(await storage.getWorkspace(workspaceId))) return;
+
+  await storage.createActivity({
+    workspaceId,
+    type: 'issue_live',
+    payload: {
+      issueSlug: issue.slug,
+      title: issue.title,
+      version: issue.version,
+      publishedAt: issue.publishedAt
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes } from "crypto";
+import type { User as StoredUser } from "@shared/schema";
+import { storage } from "./storage";
+import { signIn, lockoutMessage } from "./passwords";
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+// Reader accounts: username and password sign-in with a cookie session,
+// stored in the reader_sessions table. Admin routes keep their bearer
+// tokens; an admin can also sign in here as a reader.
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+export function setupReaderAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    // Fine for development; readers are signed out whenever the server restarts
+    console.warn('SESSION_SECRET is not set; using a random secret for reader sessions');
+    secret = randomBytes(32).toString('hex');
+  }
+
+  const PgStore = connectPgSimple(session);
+  app.set('trust proxy', 1);
+  app.use(session({
+    store: new PgStore({
+      conString: process.env.DATABASE_URL,
+      tableName: 'reader_sessions',
+    }),
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: app.get('env') === 'production',
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const result = await signIn(username, password);
+      if (result.status === 'locked') {
+        return done(null, false, { message: lockoutMessage(result.lockedUntil) });
+      }
+      if (result.status === 'invalid') {
+        return done(null, false);
+      }
+      done(null, result.user);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted account ends its sessions
+      done(null, (await storage.getUser(id)) || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(passport.initialize());
+  app.use(passport.session());
+}
+
+export function requireReader(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  next();
+}
+
+// The fields of an account readers get to see
+export function publicReader(user: StoredUser) {
+  return {
+    id: user.id,
+    username: user.username,
+  };
+}
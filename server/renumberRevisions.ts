@@ -0,0 +1,43 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+import { revisions } from "@shared/schema";
+
+// Gives duplicate workspace revision numbers new ones, so the unique
+// revisions_workspace_number_idx can be created. Run it once before
+// `db:push` on databases from before revision numbers were unique:
+//
+//   npm run db:renumber-revisions
+//
+// The earliest revision with a number keeps it; later ones are numbered
+// after the workspace's latest revision, in the order they were made.
+
+async function main() {
+  const renumbered = await db.execute(sql`
+    WITH copies AS (
+      SELECT id, workspace_id, created_at,
+        row_number() OVER (PARTITION BY workspace_id, number ORDER BY created_at, id) AS copy
+      FROM ${revisions}
+    ),
+    moved AS (
+      SELECT copies.id,
+        latest.number + row_number() OVER (PARTITION BY copies.workspace_id ORDER BY copies.created_at, copies.id) AS number
+      FROM copies
+      JOIN (SELECT workspace_id, max(number) AS number FROM ${revisions} GROUP BY workspace_id) latest
+        ON latest.workspace_id = copies.workspace_id
+      WHERE copies.copy > 1
+    )
+    UPDATE ${revisions} SET number = moved.number
+    FROM moved
+    WHERE ${revisions.id} = moved.id
+    RETURNING ${revisions.id}
+  `);
+  console.log(`Renumbered ${renumbered.rows.length} revision${renumbered.rows.length === 1 ? '' : 's'}`);
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Failed to renumber revisions:', error);
+    process.exit(1);
+  });
@@ -1,10 +1,45 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { searchService } from "./searchService";
+import { storage, StaleUpdateError, ClosedSuggestionError, issueRevisionContent, isIssuePublic, readerIssue } from "./storage";
+import { searchService, startSearchIndexSync, InvalidSearchCursorError } from "./searchService";
+import { suggestionService } from "./suggestionService";
+import { logSearch, logClick, settleSearch, getSearchAnalytics } from "./searchAnalytics";
+import { setupReaderAuth, requireReader, publicReader } from "./readerAuth";
+import { hashPassword, signIn, lockoutMessage } from "./passwords";
+import { hasAdmins, startAdminBootstrap, takeSetupToken, restoreSetupToken, createOrPromoteAdmin } from "./adminBootstrap";
+import { passwordProblems } from "@shared/passwordPolicy";
+import { attachCollaborationServer } from "./collaboration";
+import { startPublishScheduler } from "./publishScheduler";
+import { migrateReviewComments } from "./commentMigration";
 import { db } from "./db";
-import { bookmarks, searchIndex, insertWorkspaceResourceSchema } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { bookmarks, searchIndex, insertWorkspaceResourceSchema, suggestionBatchSchema, forkBranchSchema, mergeBranchSchema, issueStatusChangeSchema, searchRequestSchema, searchClickSchema, searchSettleSchema, relatedPatternsRequestSchema, newCommentSchema, commentReplySchema, readerSignupSchema, readerLoginSchema, changePasswordSchema, adminBootstrapSchema, readerBookmarkSchema, readerChatSchema, readingProgressSchema, readerImportSchema, bookmarkDescribeSchema, type ReaderBookmark, type Bookmark, type SuggestionDiff, type Suggestion, type Draft, type Revision, type Issue, type IssueVersion, type InsertIssue, type Comment, type Workspace } from "@shared/schema";
+import { 
+  applyJsonPatch, 
+  deepEqual, 
+  formatJsonPointer, 
+  getValueAtPointer, 
+  hasPointer, 
+  jsonPatchSchema, 
+  JsonPatchError, 
+  parseJsonPointer, 
+  type JsonPatch 
+} from "@shared/jsonPatch";
+import { threeWayMerge, conflictResolutionsSchema, type ConflictResolutions, type MergeConflict } from "@shared/merge";
+import { diffOutlines, summarizeOutlineDiff } from "@shared/outlineDiff";
+import { 
+  convertDraftToIssueFormat, 
+  issueEntrySchema, 
+  issueSectionSchema, 
+  type DraftSection, 
+  type IssueSection 
+} from "@shared/publish";
+import { diffIssueFields, diffIssueSections } from "@shared/issueChangelog";
+import { describeCommentTarget, extractMentions } from "@shared/comments";
+import { canTransitionIssue, ISSUE_STATUS_LABELS, ISSUE_TRANSITIONS, isIssueStatus } from "@shared/issueWorkflow";
+import { z } from "zod";
+import { eq, and, isNull, inArray } from "drizzle-orm";
+import passport from "passport";
+import { createUIMessageStream, pipeUIMessageStreamToResponse } from 'ai';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
@@ -73,6 +108,8 @@ const upload = multer({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupReaderAuth(app);
+
   // Chat endpoint for AI assistant
   app.post('/api/chat', async (req, res) => {
     try {
@@ -82,6 +119,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Messages array is required' });
       }
 
+      // Scheduled issues can't be discussed before they go live
+      const contextIssue = issueContext?.slug ? await storage.getIssue(issueContext.slug) : undefined;
+      if (contextIssue && !isIssuePublic(contextIssue)) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
       // Build system prompt from issue context
       const systemPrompt = issueContext ? buildSystemPrompt(issueContext) : 
         "You are a helpful Field Guide assistant specializing in system design patterns and protocols.";
@@ -163,21 +206,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Search API endpoints
   app.post('/api/search', async (req, res) => {
     try {
-      const { query, issueSlug, contentType, limit } = req.body;
-      
-      if (!query || typeof query !== 'string' || query.trim().length === 0) {
-        return res.status(400).json({ error: 'Query is required' });
+      const parsed = searchRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid search',
+          details: parsed.error.errors 
+        });
       }
 
-      const results = await searchService.search({
-        query: query.trim(),
-        issueSlug,
-        contentType,
-        limit: limit || 20
-      });
+      const page = await searchService.search(parsed.data);
 
-      res.json({ results, totalCount: results.length });
+      // Later pages of a search are the same search
+      if (parsed.data.cursor) {
+        return res.json(page);
+      }
+      const searchId = await logSearch(parsed.data, page.totalCount, page.results);
+      res.json({ ...page, searchId });
     } catch (error: any) {
+      if (error instanceof InvalidSearchCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error('Search API error:', error);
       res.status(500).json({ 
         error: 'Search failed',
@@ -186,6 +234,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Beacon from the search modal when the reader settles on a search by
+  // pressing Enter or closing search; only settled searches are reported
+  app.post('/api/search/settle', async (req, res) => {
+    try {
+      const parsed = searchSettleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid search', 
+          details: parsed.error.errors 
+        });
+      }
+
+      const settled = await settleSearch(parsed.data.searchId);
+      if (!settled) {
+        return res.status(404).json({ error: 'Search not found' });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      console.error('Search settle error:', error);
+      res.status(500).json({ 
+        error: 'Failed to settle search',
+        details: error.message 
+      });
+    }
+  });
+
+  // Click-through beacon from the search modal, sent as the reader opens a result
+  app.post('/api/search/clicks', async (req, res) => {
+    try {
+      const parsed = searchClickSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid search click',
+          details: parsed.error.errors 
+        });
+      }
+
+      const logged = await logClick(parsed.data);
+      if (!logged) {
+        return res.status(404).json({ error: 'Search not found' });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      console.error('Search click error:', error);
+      res.status(500).json({ 
+        error: 'Failed to log search click',
+        details: error.message 
+      });
+    }
+  });
+
   app.get('/api/search/suggestions', async (req, res) => {
     try {
       const { q } = req.query;
@@ -194,7 +293,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({ suggestions: [] });
       }
 
-      const suggestions = await searchService.getSuggestions(q);
+      const suggestions = await suggestionService.getSuggestions(q);
       res.json({ suggestions });
     } catch (error: any) {
       console.error('Search suggestions API error:', error);
@@ -205,81 +304,237 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/search/initialize', async (req, res) => {
+  // Patterns in other issues about the same thing as the given one
+  app.get('/api/search/related', async (req, res) => {
     try {
-      await searchService.initializeSearchIndex();
-      res.json({ message: 'Search index initialized successfully' });
+      const parsed = relatedPatternsRequestSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid related patterns request', 
+          details: parsed.error.errors 
+        });
+      }
+      const { issueSlug, sectionId, pattern, limit } = parsed.data;
+
+      const issue = await storage.getIssue(issueSlug);
+      if (!issue || !isIssuePublic(issue)) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      const related = await searchService.getRelatedPatterns(issueSlug, sectionId, pattern, limit);
+      res.json({ related });
     } catch (error: any) {
-      console.error('Search initialization error:', error);
+      console.error('Related patterns API error:', error);
       res.status(500).json({ 
-        error: 'Failed to initialize search index',
+        error: 'Failed to find related patterns',
         details: error.message 
       });
     }
   });
 
-  // Bookmark API endpoints
-  app.get('/api/bookmarks', async (req, res) => {
+  // Reader accounts. Sessions are cookies set up by setupReaderAuth.
+  app.post('/api/auth/signup', async (req, res, next) => {
+    try {
+      const parsed = readerSignupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid sign-up',
+          details: parsed.error.errors 
+        });
+      }
+
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: 'Username already taken' });
+      }
+
+      const user = await storage.createUser({ username, password: await hashPassword(password), isAdmin: false });
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json({ user: publicReader(user) });
+      });
+    } catch (error: any) {
+      console.error('Reader sign-up error:', error);
+      res.status(500).json({ 
+        error: 'Failed to create account',
+        details: error.message 
+      });
+    }
+  });
+
+  app.post('/api/auth/login', (req, res, next) => {
+    const parsed = readerLoginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        error: 'Invalid sign-in',
+        details: parsed.error.errors 
+      });
+    }
+
+    passport.authenticate('local', (error: any, user: Express.User | false, info?: { message?: string }) => {
+      if (error) {
+        console.error('Reader sign-in error:', error);
+        return res.status(500).json({ error: 'Sign-in failed' });
+      }
+      if (!user) {
+        return info?.message
+          ? res.status(429).json({ error: info.message })
+          : res.status(401).json({ error: 'Invalid username or password' });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json({ user: publicReader(user) });
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/auth/logout', (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.json({ message: 'Signed out' });
+    });
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    res.json({ user: req.user ? publicReader(req.user) : null });
+  });
+
+  // Reading progress and assistant chats of the signed-in reader
+  app.get('/api/reader/progress', requireReader, async (req, res) => {
+    try {
+      const progress = await storage.getReadingProgress(req.user!.id);
+      res.json({
+        progress: progress.map(({ issueSlug, sectionIds, updatedAt }) => ({ issueSlug, sectionIds, updatedAt }))
+      });
+    } catch (error: any) {
+      console.error('Reading progress fetch error:', error);
+      res.status(500).json({ 
+        error: 'Failed to fetch reading progress',
+        details: error.message 
+      });
+    }
+  });
+
+  app.put('/api/reader/progress/:slug', requireReader, async (req, res) => {
+    try {
+      const parsed = readingProgressSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid reading progress',
+          details: parsed.error.errors 
+        });
+      }
+
+      const progress = await storage.saveReadingProgress(req.user!.id, req.params.slug, parsed.data.sectionIds);
+      res.json({ progress });
+    } catch (error: any) {
+      console.error('Reading progress save error:', error);
+      res.status(500).json({ 
+        error: 'Failed to save reading progress',
+        details: error.message 
+      });
+    }
+  });
+
+  app.get('/api/reader/chats/:slug', requireReader, async (req, res) => {
+    try {
+      const chat = await storage.getReaderChat(req.user!.id, req.params.slug);
+      res.json({ messages: chat?.messages || [] });
+    } catch (error: any) {
+      console.error('Reader chat fetch error:', error);
+      res.status(500).json({ 
+        error: 'Failed to fetch chat history',
+        details: error.message 
+      });
+    }
+  });
+
+  app.put('/api/reader/chats/:slug', requireReader, async (req, res) => {
+    try {
+      const parsed = readerChatSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid chat history',
+          details: parsed.error.errors 
+        });
+      }
+
+      await storage.saveReaderChat(req.user!.id, req.params.slug, parsed.data.messages);
+      res.json({ message: 'Chat history saved' });
+    } catch (error: any) {
+      console.error('Reader chat save error:', error);
+      res.status(500).json({ 
+        error: 'Failed to save chat history',
+        details: error.message 
+      });
+    }
+  });
+
+  // Moves what a visitor saved before signing in into their account.
+  // Bookmarks and read sections are merged; a chat is only taken when the
+  // account has none for that issue.
+  app.post('/api/reader/import', requireReader, async (req, res) => {
+    try {
+      const parsed = readerImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid reader data',
+          details: parsed.error.errors 
+        });
+      }
+
+      const userId = req.user!.id;
+      const imported = { bookmarks: 0, progress: 0, chats: 0 };
+
+      const saved = new Set((await db.select().from(bookmarks).where(eq(bookmarks.userId, userId))).map(bookmarkKey));
+      const publicSlugs = new Set(await publicIssueSlugs(parsed.data.bookmarks.map(bookmark => bookmark.issueSlug)));
+      const newBookmarks = parsed.data.bookmarks.filter(bookmark => {
+        const key = bookmarkKey(bookmark);
+        if (saved.has(key) || !publicSlugs.has(bookmark.issueSlug)) return false;
+        saved.add(key);
+        return true;
+      });
+      if (newBookmarks.length > 0) {
+        await db.insert(bookmarks).values(newBookmarks.map(bookmark => newBookmarkRow(userId, bookmark)));
+        imported.bookmarks = newBookmarks.length;
+      }
+
+      const savedProgress = await storage.getReadingProgress(userId);
+      for (const [issueSlug, sectionIds] of Object.entries(parsed.data.progress)) {
+        const saved = savedProgress.find(progress => progress.issueSlug === issueSlug);
+        const merged = Array.from(new Set([...((saved?.sectionIds as string[]) || []), ...sectionIds]));
+        await storage.saveReadingProgress(userId, issueSlug, merged);
+        imported.progress++;
+      }
+
+      for (const [issueSlug, chatMessages] of Object.entries(parsed.data.chats)) {
+        const saved = await storage.getReaderChat(userId, issueSlug);
+        if (chatMessages.length === 0 || (saved && (saved.messages as unknown[]).length > 0)) continue;
+        await storage.saveReaderChat(userId, issueSlug, chatMessages);
+        imported.chats++;
+      }
+
+      res.json({ imported });
+    } catch (error: any) {
+      console.error('Reader import error:', error);
+      res.status(500).json({ 
+        error: 'Failed to import reader data',
+        details: error.message 
+      });
+    }
+  });
+
+  // Bookmark API endpoints. Signed-in readers' bookmarks live here; visitors
+  // keep theirs in the browser until they sign in.
+  app.get('/api/bookmarks', requireReader, async (req, res) => {
     try {
-      // For now, use a default user (in real app, get from session)
-      const userId = 'demo-user';
-      
       const userBookmarks = await db
         .select()
         .from(bookmarks)
-        .where(eq(bookmarks.userId, userId))
+        .where(eq(bookmarks.userId, req.user!.id))
         .orderBy(bookmarks.createdAt);
 
-      // Enrich bookmarks with metadata from search index
-      const enrichedBookmarks = await Promise.all(
-        userBookmarks.map(async (bookmark) => {
-          const metadata: any = {};
-          
-          // Get issue/section metadata from search index
-          const indexResults = await db
-            .select()
-            .from(searchIndex)
-            .where(
-              and(
-                eq(searchIndex.issueSlug, bookmark.issueSlug),
-                eq(searchIndex.contentType, 'issue')
-              )
-            )
-            .limit(1);
-            
-          if (indexResults.length > 0) {
-            const meta = indexResults[0].metadata as any;
-            metadata.issueTitle = meta?.title || indexResults[0].patternName;
-          }
-          
-          if (bookmark.sectionId) {
-            const sectionResults = await db
-              .select()
-              .from(searchIndex)
-              .where(
-                and(
-                  eq(searchIndex.issueSlug, bookmark.issueSlug),
-                  eq(searchIndex.sectionId, bookmark.sectionId),
-                  eq(searchIndex.contentType, 'section')
-                )
-              )
-              .limit(1);
-              
-            if (sectionResults.length > 0) {
-              metadata.sectionTitle = sectionResults[0].patternName;
-              const sectionMeta = sectionResults[0].metadata as any;
-              metadata.sectionColor = sectionMeta?.color;
-            }
-          }
-          
-          return {
-            ...bookmark,
-            metadata
-          };
-        })
-      );
-
-      res.json({ bookmarks: enrichedBookmarks });
+      res.json({ bookmarks: await describeBookmarks(userBookmarks) });
     } catch (error: any) {
       console.error('Bookmarks fetch error:', error);
       res.status(500).json({ 
@@ -289,30 +544,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/bookmarks', async (req, res) => {
+  // Titles for bookmarks kept in the browser, which only hold slugs and ids
+  app.post('/api/bookmarks/describe', async (req, res) => {
     try {
-      const { issueSlug, sectionId, patternName, bookmarkType, notes } = req.body;
-      
-      if (!issueSlug || !bookmarkType) {
-        return res.status(400).json({ error: 'Issue slug and bookmark type are required' });
+      const parsed = bookmarkDescribeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid bookmarks',
+          details: parsed.error.errors 
+        });
       }
 
-      // For now, use a default user (in real app, get from session)
-      const userId = 'demo-user';
-      
-      // Check if bookmark already exists
+      res.json({ bookmarks: await describeBookmarks(parsed.data.bookmarks) });
+    } catch (error: any) {
+      console.error('Bookmarks describe error:', error);
+      res.status(500).json({ 
+        error: 'Failed to describe bookmarks',
+        details: error.message 
+      });
+    }
+  });
+
+  app.post('/api/bookmarks', requireReader, async (req, res) => {
+    try {
+      const parsed = readerBookmarkSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid bookmark',
+          details: parsed.error.errors 
+        });
+      }
+
+      const issue = await storage.getIssue(parsed.data.issueSlug);
+      if (!issue || !isIssuePublic(issue)) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      const userId = req.user!.id;
       const existing = await db
         .select()
         .from(bookmarks)
-        .where(
-          and(
-            eq(bookmarks.userId, userId),
-            eq(bookmarks.issueSlug, issueSlug),
-            eq(bookmarks.bookmarkType, bookmarkType),
-            sectionId ? eq(bookmarks.sectionId, sectionId) : eq(bookmarks.sectionId, ''),
-            patternName ? eq(bookmarks.patternName, patternName) : eq(bookmarks.patternName, '')
-          )
-        );
+        .where(bookmarkMatch(userId, parsed.data));
 
       if (existing.length > 0) {
         return res.status(409).json({ error: 'Bookmark already exists' });
@@ -320,14 +592,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const [newBookmark] = await db
         .insert(bookmarks)
-        .values({
-          userId,
-          issueSlug,
-          sectionId: sectionId || null,
-          patternName: patternName || null,
-          bookmarkType,
-          notes: notes || null,
-        })
+        .values(newBookmarkRow(userId, parsed.data))
         .returning();
 
       res.json({ bookmark: newBookmark });
@@ -340,28 +605,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/bookmarks', async (req, res) => {
+  app.delete('/api/bookmarks', requireReader, async (req, res) => {
     try {
-      const { issueSlug, sectionId, patternName, bookmarkType } = req.query;
-      
-      if (!issueSlug || !bookmarkType) {
+      const parsed = readerBookmarkSchema.safeParse(req.query);
+      if (!parsed.success) {
         return res.status(400).json({ error: 'Issue slug and bookmark type are required' });
       }
 
-      // For now, use a default user (in real app, get from session)
-      const userId = 'demo-user';
-      
-      const result = await db
+      await db
         .delete(bookmarks)
-        .where(
-          and(
-            eq(bookmarks.userId, userId),
-            eq(bookmarks.issueSlug, issueSlug as string),
-            eq(bookmarks.bookmarkType, bookmarkType as string),
-            sectionId ? eq(bookmarks.sectionId, sectionId as string) : eq(bookmarks.sectionId, ''),
-            patternName ? eq(bookmarks.patternName, patternName as string) : eq(bookmarks.patternName, '')
-          )
-        );
+        .where(bookmarkMatch(req.user!.id, parsed.data));
 
       res.json({ message: 'Bookmark removed successfully' });
     } catch (error: any) {
@@ -375,27 +628,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/bookmarks/check', async (req, res) => {
     try {
-      const { issueSlug, sectionId, patternName, bookmarkType } = req.query;
-      
-      if (!issueSlug || !bookmarkType) {
+      const parsed = readerBookmarkSchema.safeParse(req.query);
+      if (!parsed.success || !req.user) {
         return res.json({ isBookmarked: false });
       }
 
-      // For now, use a default user (in real app, get from session)
-      const userId = 'demo-user';
-      
       const existing = await db
         .select()
         .from(bookmarks)
-        .where(
-          and(
-            eq(bookmarks.userId, userId),
-            eq(bookmarks.issueSlug, issueSlug as string),
-            eq(bookmarks.bookmarkType, bookmarkType as string),
-            sectionId ? eq(bookmarks.sectionId, sectionId as string) : eq(bookmarks.sectionId, ''),
-            patternName ? eq(bookmarks.patternName, patternName as string) : eq(bookmarks.patternName, '')
-          )
-        );
+        .where(bookmarkMatch(req.user.id, parsed.data));
 
       res.json({ isBookmarked: existing.length > 0 });
     } catch (error: any) {
@@ -432,7 +673,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       req.user = user;
-      req.session = session;
+      req.adminSession = session;
       next();
     } catch (error: any) {
       console.error('Admin auth error:', error);
@@ -449,10 +690,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Username and password required' });
       }
 
-      const user = await storage.getUserByUsername(username);
-      if (!user || user.password !== password || !user.isAdmin) {
+      const result = await signIn(username, password);
+      if (result.status === 'locked') {
+        res.set('Retry-After', String(Math.ceil((result.lockedUntil.getTime() - Date.now()) / 1000)));
+        return res.status(429).json({ error: lockoutMessage(result.lockedUntil) });
+      }
+      if (result.status === 'invalid' || !result.user.isAdmin) {
         return res.status(401).json({ error: 'Invalid credentials or insufficient permissions' });
       }
+      const { user } = result;
 
       // Create session token (24 hours expiry)
       const token = Buffer.from(`${user.id}-${Date.now()}-${Math.random().toString(36)}`).toString('base64');
@@ -480,25 +726,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin user creation endpoint (for initial setup)
+  // Creates the first admin with the one-time setup token printed at
+  // startup. Gone once any admin exists; use `npm run admin:create` after that.
   app.post('/api/admin/create-admin', async (req, res) => {
     try {
-      const { username, password, secret } = req.body;
-      
-      // Simple secret for creating first admin (in production use env var)
-      if (secret !== 'field-guide-admin-setup-2024') {
-        return res.status(401).json({ error: 'Invalid setup secret' });
+      if (await hasAdmins()) {
+        return res.status(404).json({ error: 'Admin setup is complete' });
+      }
+
+      const parsed = adminBootstrapSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid admin setup', 
+          details: parsed.error.errors 
+        });
+      }
+
+      const { username, password, token } = parsed.data;
+      const problems = passwordProblems(password, username);
+      if (problems.length > 0) {
+        return res.status(400).json({ error: 'Password does not meet the policy', details: problems });
       }
 
-      const existingUser = await storage.getUserByUsername(username);
-      if (existingUser) {
+      if (await storage.getUserByUsername(username)) {
         return res.status(400).json({ error: 'Username already exists' });
       }
 
-      const user = await storage.createUser({
-        username,
-        password,
-        isAdmin: true
-      });
+      if (!takeSetupToken(token)) {
+        return res.status(401).json({ error: 'Invalid setup token' });
+      }
+
+      let user;
+      try {
+        ({ user } = await createOrPromoteAdmin(username, password));
+      } catch (error) {
+        restoreSetupToken(token);
+        throw error;
+      }
+      console.log(`Created admin "${user.username}" with the setup token`);
 
       res.json({
         message: 'Admin user created successfully',
@@ -514,6 +779,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Changes the signed-in admin's password and signs out their other sessions
+  app.post('/api/admin/account/password', requireAdminAuth, async (req: any, res) => {
+    try {
+      const parsed = changePasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid password change',
+          details: parsed.error.errors 
+        });
+      }
+
+      const { currentPassword, newPassword } = parsed.data;
+      // Wrong current passwords count towards the lockout like sign-ins do
+      const result = await signIn(req.user.username, currentPassword);
+      if (result.status === 'locked') {
+        return res.status(429).json({ error: lockoutMessage(result.lockedUntil) });
+      }
+      if (result.status === 'invalid') {
+        return res.status(401).json({ error: 'Current password is incorrect' });
+      }
+
+      const problems = passwordProblems(newPassword, req.user.username);
+      if (newPassword === currentPassword) {
+        problems.push('Choose a password different from the current one');
+      }
+      if (problems.length > 0) {
+        return res.status(400).json({ error: 'Password does not meet the policy', details: problems });
+      }
+
+      await storage.updateUserCredentials(req.user.id, { password: await hashPassword(newPassword) });
+      const signedOut = await storage.deleteUserAdminSessions(req.user.id, req.adminSession.token);
+
+      res.json({ message: 'Password changed', signedOutSessions: signedOut });
+    } catch (error: any) {
+      console.error('Change password error:', error);
+      res.status(500).json({ error: 'Failed to change password' });
+    }
+  });
+
   // Content transformation endpoint
   app.post('/api/admin/transform-content', requireAdminAuth, async (req: any, res) => {
     try {
@@ -602,20 +906,10 @@ Transform the following content:`;
   // Public issues endpoint (for frontend)
   app.get('/api/issues', async (req, res) => {
     try {
-      const dbIssues = await storage.getIssues();
+      const dbIssues = await storage.getPublishedIssues();
       
       // Transform database structure to frontend expected structure
-      const issues = dbIssues.map(issue => ({
-        slug: issue.slug,
-        meta: {
-          title: issue.title,
-          subtitle: issue.subtitle,
-          version: issue.version,
-          tagline: issue.tagline
-        },
-        intro: issue.intro,
-        sections: issue.sections
-      }));
+      const issues = dbIssues.map(issue => toPublicIssue(issue.slug, issue));
       
       res.json({ issues });
     } catch (error: any) {
@@ -624,6 +918,97 @@ Transform the following content:`;
     }
   });
 
+  // A single issue, at its current version or an earlier one with ?version=
+  app.get('/api/issues/:slug', async (req, res) => {
+    try {
+      const { slug } = req.params;
+      const requestedVersion = typeof req.query.version === 'string' ? req.query.version : undefined;
+
+      const stored = await storage.getIssue(slug);
+      // Unpublished and scheduled issues don't exist for readers yet
+      if (!stored || !isIssuePublic(stored)) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      // Changes still in review stay hidden behind the approved content
+      const issue = readerIssue(stored);
+      const archived = (await storage.getIssueVersions(issue.id))
+        .filter(version => version.version !== issue.version);
+      const versions = [
+        { version: issue.version, publishedAt: issue.publishedAt, current: true },
+        ...archived.map(version => ({ version: version.version, publishedAt: version.publishedAt, current: false }))
+      ];
+
+      if (!requestedVersion || requestedVersion === issue.version) {
+        return res.json({ issue: toPublicIssue(slug, issue), versions });
+      }
+
+      const version = archived.find(candidate => candidate.version === requestedVersion);
+      if (!version) {
+        return res.status(404).json({ error: `Version "${requestedVersion}" of this issue not found` });
+      }
+
+      res.json({ issue: toPublicIssue(slug, version), versions });
+    } catch (error: any) {
+      console.error('Get public issue error:', error);
+      res.status(500).json({ error: 'Failed to fetch issue' });
+    }
+  });
+
+  // Admins who can be assigned to review an issue
+  app.get('/api/admin/users', requireAdminAuth, async (req: any, res) => {
+    try {
+      const admins = await storage.getAdminUsers();
+      res.json({ users: admins.map(user => ({ id: user.id, username: user.username })) });
+    } catch (error: any) {
+      console.error('Get admin users error:', error);
+      res.status(500).json({ error: 'Failed to fetch users' });
+    }
+  });
+
+  // Rebuilds the whole index, re-embedding every issue, so admins only
+  app.post('/api/search/initialize', requireAdminAuth, async (req: any, res) => {
+    try {
+      await searchService.initializeSearchIndex();
+      res.json({ message: 'Search index initialized successfully' });
+    } catch (error: any) {
+      console.error('Search initialization error:', error);
+      res.status(500).json({ 
+        error: 'Failed to initialize search index',
+        details: error.message 
+      });
+    }
+  });
+
+  // Index entry counts per issue, and which issues are stale or orphaned
+  app.get('/api/admin/search/health', requireAdminAuth, async (req: any, res) => {
+    try {
+      const health = await searchService.getIndexHealth();
+      res.json(health);
+    } catch (error: any) {
+      console.error('Search index health error:', error);
+      res.status(500).json({ 
+        error: 'Failed to check search index',
+        details: error.message 
+      });
+    }
+  });
+
+  // Top queries, zero-result queries and never-found patterns over recent days
+  app.get('/api/admin/search/analytics', requireAdminAuth, async (req: any, res) => {
+    try {
+      const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 365);
+      const report = await getSearchAnalytics(days);
+      res.json(report);
+    } catch (error: any) {
+      console.error('Search analytics error:', error);
+      res.status(500).json({ 
+        error: 'Failed to load search analytics',
+        details: error.message 
+      });
+    }
+  });
+
   // Issues management endpoints
   app.get('/api/admin/issues', requireAdminAuth, async (req: any, res) => {
     try {
@@ -656,9 +1041,11 @@ Transform the following content:`;
         tagline: tagline || '',
         intro: intro || '',
         sections,
-        publishedAt: publishedAt ? new Date(publishedAt) : new Date(),
+        // Goes live once approved and published, at this time if it's later
+        status: 'draft',
+        publishedAt: publishedAt ? new Date(publishedAt) : null,
         metadata: {}
-      });
+      }, { type: 'create', userId: req.user.id });
 
       res.json({ issue, message: 'Issue created successfully' });
     } catch (error: any) {
@@ -670,20 +1057,264 @@ Transform the following content:`;
   app.put('/api/admin/issues/:slug', requireAdminAuth, async (req: any, res) => {
     try {
       const { slug } = req.params;
-      const updates = req.body;
+      const { updatedAt, ...updates } = req.body;
 
-      const updatedIssue = await storage.updateIssue(slug, updates);
-      if (!updatedIssue) {
-        return res.status(404).json({ error: 'Issue not found' });
-      }
+      if ('status' in updates || 'reviewerId' in updates || 'liveContent' in updates) {
+        return res.status(400).json({ 
+          error: 'Status, reviewer and live content change through the workflow',
+          details: `Use POST /api/admin/issues/${slug}/status`
+        });
+      }
+
+      const expectedUpdatedAt = requestedUpdatedAt(req);
+      if (expectedUpdatedAt === null) {
+        return res.status(400).json({ error: 'Invalid precondition', details: 'If-Match or updatedAt must identify a version' });
+      }
+
+      const updatedIssue = await storage.updateIssue(slug, updates, expectedUpdatedAt, { type: 'edit', userId: req.user.id });
+      if (!updatedIssue) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
 
-      res.json({ issue: updatedIssue, message: 'Issue updated successfully' });
+      res.set('ETag', entityTag(updatedIssue));
+      res.json({ 
+        issue: updatedIssue, 
+        message: updatedIssue.liveContent
+          ? 'Issue updated; readers keep the published version until the changes are reviewed and published'
+          : 'Issue updated successfully' 
+      });
     } catch (error: any) {
+      if (error instanceof StaleUpdateError) {
+        return sendStaleUpdate(res, 'issue', error.current);
+      }
       console.error('Update issue error:', error);
       res.status(500).json({ error: 'Failed to update issue' });
     }
   });
 
+  // Moves an issue through the editorial workflow (see shared/issueWorkflow.ts)
+  app.post('/api/admin/issues/:slug/status', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { slug } = req.params;
+
+      const parsed = issueStatusChangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid status change',
+          details: parsed.error.errors 
+        });
+      }
+      const { status, reviewerId, publishedAt } = parsed.data;
+
+      const expectedUpdatedAt = requestedUpdatedAt(req);
+      if (expectedUpdatedAt === null) {
+        return res.status(400).json({ error: 'Invalid precondition', details: 'If-Match or updatedAt must identify a version' });
+      }
+
+      const issue = await storage.getIssue(slug);
+      if (!issue) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      if (!canTransitionIssue(issue.status, status)) {
+        const allowed = isIssueStatus(issue.status) ? ISSUE_TRANSITIONS[issue.status] : [];
+        return res.status(409).json({ 
+          error: `Cannot move an issue from ${issue.status} to ${status}`,
+          details: allowed.length > 0 ? `Allowed: ${allowed.join(', ')}` : undefined
+        });
+      }
+
+      const updates: Partial<InsertIssue> = { status };
+      if (status === 'in_review') {
+        if (!reviewerId) {
+          return res.status(400).json({ error: 'A reviewer is required to submit an issue for review' });
+        }
+        const reviewer = await storage.getUser(reviewerId);
+        if (!reviewer?.isAdmin) {
+          return res.status(400).json({ error: 'Reviewer must be an admin user' });
+        }
+        updates.reviewerId = reviewer.id;
+      }
+
+      if (status === 'approved' && issue.reviewerId !== req.user.id) {
+        return res.status(403).json({ error: 'Only the assigned reviewer can approve this issue' });
+      }
+
+      // A release date already in the future is kept; otherwise the issue goes
+      // live now. Republishing an archived issue keeps its original date.
+      if (status === 'published') {
+        if (publishedAt) {
+          updates.publishedAt = publishedAt;
+        } else if (issue.status === 'approved' && !(issue.publishedAt && issue.publishedAt > new Date())) {
+          updates.publishedAt = new Date();
+        }
+      }
+
+      // Checked against the status validated above when the client sent none
+      const updatedIssue = await storage.updateIssue(slug, updates, expectedUpdatedAt ?? issue.updatedAt, {
+        type: 'status',
+        userId: req.user.id
+      });
+      if (!updatedIssue) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      res.set('ETag', entityTag(updatedIssue));
+      res.json({ issue: updatedIssue, message: `Moved to ${ISSUE_STATUS_LABELS[status]}` });
+    } catch (error: any) {
+      if (error instanceof StaleUpdateError) {
+        return sendStaleUpdate(res, 'issue', error.current);
+      }
+      console.error('Change issue status error:', error);
+      res.status(500).json({ error: 'Failed to change issue status' });
+    }
+  });
+
+  // Published versions, newest first, each with what changed from the one before
+  app.get('/api/admin/issues/:slug/versions', requireAdminAuth, async (req: any, res) => {
+    try {
+      const issue = await storage.getIssue(req.params.slug);
+      if (!issue) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      const archived = await storage.getIssueVersions(issue.id);
+      const history = [
+        { ...issue, supersededAt: null as Date | null, current: true },
+        ...archived.map(version => ({ ...version, supersededAt: version.createdAt, current: false }))
+      ];
+
+      const versions = history.map((entry, index) => {
+        const previous = history[index + 1];
+        return {
+          id: entry.id,
+          version: entry.version,
+          title: entry.title,
+          publishedAt: entry.publishedAt,
+          supersededAt: entry.supersededAt,
+          current: entry.current,
+          sourceWorkspaceId: (entry.metadata as any)?.sourceWorkspaceId ?? null,
+          changelog: previous
+            ? diffIssueSections(previous.sections as IssueSection[], entry.sections as IssueSection[])
+            : null
+        };
+      });
+
+      res.json({ versions });
+    } catch (error: any) {
+      console.error('Get issue versions error:', error);
+      res.status(500).json({ error: 'Failed to fetch issue versions' });
+    }
+  });
+
+  // Every write to the issue, newest first, each with what it changed
+  app.get('/api/admin/issues/:slug/revisions', requireAdminAuth, async (req: any, res) => {
+    try {
+      const issue = await storage.getIssue(req.params.slug);
+      if (!issue) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      const revisionList = await storage.getIssueRevisions(issue.id);
+      const usernames = new Map<string, string | null>();
+      for (const userId of Array.from(new Set(revisionList.map(revision => revision.changedBy).filter(Boolean) as string[]))) {
+        usernames.set(userId, (await storage.getUser(userId))?.username ?? null);
+      }
+
+      const revisions = revisionList.map((revision, index) => {
+        const content = revision.content as any;
+        const previous = revisionList[index + 1]?.content as any;
+        return {
+          id: revision.id,
+          number: revision.number,
+          changeType: revision.changeType,
+          changedBy: revision.changedBy ? usernames.get(revision.changedBy) ?? null : null,
+          restoredFrom: revision.restoredFrom,
+          createdAt: revision.createdAt,
+          // Revisions from before the workflow don't record a status
+          status: content.status ?? null,
+          version: content.version,
+          title: content.title,
+          changedFields: previous ? diffIssueFields(previous, content) : [],
+          changelog: previous ? diffIssueSections(previous.sections || [], content.sections || []) : null
+        };
+      });
+
+      res.json({ revisions });
+    } catch (error: any) {
+      console.error('Get issue revisions error:', error);
+      res.status(500).json({ error: 'Failed to fetch issue revisions' });
+    }
+  });
+
+  // Activity about the issue, newest first, such as comments on issues that
+  // have no workspace timeline
+  app.get('/api/admin/issues/:slug/activities', requireAdminAuth, async (req: any, res) => {
+    try {
+      const issue = await storage.getIssue(req.params.slug);
+      if (!issue) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      const activities = await storage.getIssueActivities(issue.slug);
+      res.json({ activities });
+    } catch (error: any) {
+      console.error('Get issue activities error:', error);
+      res.status(500).json({ error: 'Failed to fetch issue activities' });
+    }
+  });
+
+  // Rolls the issue's content back to a revision, recorded as a new revision.
+  // The version label is kept; published versions are managed by republishing.
+  app.post('/api/admin/issues/:slug/revisions/:number/restore', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { slug } = req.params;
+      const number = parseInt(req.params.number, 10);
+      if (isNaN(number)) {
+        return res.status(400).json({ error: 'Invalid revision number' });
+      }
+
+      const expectedUpdatedAt = requestedUpdatedAt(req);
+      if (expectedUpdatedAt === null) {
+        return res.status(400).json({ error: 'Invalid precondition', details: 'If-Match or updatedAt must identify a version' });
+      }
+
+      const issue = await storage.getIssue(slug);
+      if (!issue) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      const revision = await storage.getIssueRevision(issue.id, number);
+      if (!revision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+
+      const { version, status, ...content } = revision.content as ReturnType<typeof issueRevisionContent>;
+      const restoredIssue = await storage.updateIssue(slug, { ...content, sections: content.sections as IssueSection[] }, expectedUpdatedAt, {
+        type: 'rollback',
+        userId: req.user.id,
+        restoredFrom: number
+      });
+      if (!restoredIssue) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      res.set('ETag', entityTag(restoredIssue));
+      res.json({ 
+        issue: restoredIssue, 
+        message: restoredIssue.liveContent
+          ? `Restored revision ${number}; readers keep the published version until it is reviewed and published`
+          : `Restored revision ${number}` 
+      });
+    } catch (error: any) {
+      if (error instanceof StaleUpdateError) {
+        return sendStaleUpdate(res, 'issue', error.current);
+      }
+      console.error('Restore issue revision error:', error);
+      res.status(500).json({ error: 'Failed to restore revision' });
+    }
+  });
+
   app.delete('/api/admin/issues/:slug', requireAdminAuth, async (req: any, res) => {
     try {
       const { slug } = req.params;
@@ -797,6 +1428,7 @@ Transform the following content:`;
         return res.status(403).json({ error: 'Access denied' });
       }
 
+      res.set('ETag', entityTag(workspace));
       res.json({ workspace });
     } catch (error: any) {
       console.error('Get workspace error:', error);
@@ -809,6 +1441,11 @@ Transform the following content:`;
       const { id } = req.params;
       const { title, goal, status } = req.body;
 
+      const expectedUpdatedAt = requestedUpdatedAt(req);
+      if (expectedUpdatedAt === null) {
+        return res.status(400).json({ error: 'Invalid precondition', details: 'If-Match or updatedAt must identify a version' });
+      }
+
       const workspace = await storage.getWorkspace(id);
       if (!workspace) {
         return res.status(404).json({ error: 'Workspace not found' });
@@ -822,7 +1459,10 @@ Transform the following content:`;
         title,
         goal,
         status
-      });
+      }, expectedUpdatedAt);
+      if (!updatedWorkspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
 
       // Log activity
       await storage.createActivity({
@@ -831,8 +1471,12 @@ Transform the following content:`;
         payload: { title, goal, status }
       });
 
+      res.set('ETag', entityTag(updatedWorkspace));
       res.json({ workspace: updatedWorkspace, message: 'Workspace updated successfully' });
     } catch (error: any) {
+      if (error instanceof StaleUpdateError) {
+        return sendStaleUpdate(res, 'workspace', error.current);
+      }
       console.error('Update workspace error:', error);
       res.status(500).json({ error: 'Failed to update workspace' });
     }
@@ -877,11 +1521,12 @@ Transform the following content:`;
         return res.status(403).json({ error: 'Access denied' });
       }
 
-      const draft = await storage.getDraft(id);
+      const draft = await storage.getDraft(id, requestedBranch(req));
       if (!draft) {
         return res.status(404).json({ error: 'Draft not found' });
       }
 
+      res.set('ETag', entityTag(draft));
       res.json({ draft });
     } catch (error: any) {
       console.error('Get draft error:', error);
@@ -892,7 +1537,14 @@ Transform the following content:`;
   app.put('/api/admin/workspaces/:id/draft', requireAdminAuth, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { content, outline } = req.body;
+      // baseRevision is the head revision the edits were made on
+      const { content, outline, baseRevision } = req.body;
+      const branch = requestedBranch(req);
+
+      const expectedUpdatedAt = requestedUpdatedAt(req);
+      if (expectedUpdatedAt === null) {
+        return res.status(400).json({ error: 'Invalid precondition', details: 'If-Match or updatedAt must identify a version' });
+      }
 
       const workspace = await storage.getWorkspace(id);
       if (!workspace) {
@@ -903,10 +1555,20 @@ Transform the following content:`;
         return res.status(403).json({ error: 'Access denied' });
       }
 
+      if (baseRevision !== undefined) {
+        const current = await storage.getDraft(id, branch);
+        if (!current) {
+          return res.status(404).json({ error: 'Draft not found' });
+        }
+        if (current.currentRevision !== Number(baseRevision)) {
+          return sendStaleUpdate(res, 'draft', current);
+        }
+      }
+
       const updatedDraft = await storage.updateDraft(id, {
         content,
         outline
-      });
+      }, branch, expectedUpdatedAt);
 
       if (!updatedDraft) {
         return res.status(404).json({ error: 'Draft not found' });
@@ -916,11 +1578,15 @@ Transform the following content:`;
       await storage.createActivity({
         workspaceId: id,
         type: 'draft_updated',
-        payload: { hasContent: !!content, hasOutline: !!outline }
+        payload: { hasContent: !!content, hasOutline: !!outline, branch: updatedDraft.branchName }
       });
 
+      res.set('ETag', entityTag(updatedDraft));
       res.json({ draft: updatedDraft, message: 'Draft updated successfully' });
     } catch (error: any) {
+      if (error instanceof StaleUpdateError) {
+        return sendStaleUpdate(res, 'draft', error.current);
+      }
       console.error('Update draft error:', error);
       res.status(500).json({ error: 'Failed to update draft' });
     }
@@ -940,48 +1606,512 @@ Transform the following content:`;
         return res.status(403).json({ error: 'Access denied' });
       }
 
-      const draft = await storage.getDraft(id);
+      const draft = await storage.getDraft(id, requestedBranch(req));
       if (!draft) {
         return res.status(404).json({ error: 'Draft not found' });
       }
 
-      // Get current revision count
-      const existingRevisions = await storage.getRevisions(id);
-      const nextRevisionNumber = existingRevisions.length + 1;
-
       // Create revision snapshot
       const revision = await storage.createRevision({
         workspaceId: id,
         draftId: draft.id,
-        number: nextRevisionNumber,
-        content: draft.content as any,
+        content: { ...(draft.content as any), outline: draft.outline },
         metadata: { ...metadata, snapshot: true }
       });
 
       // Update draft revision number
       await storage.updateDraft(id, {
-        currentRevision: nextRevisionNumber
+        currentRevision: revision.number
+      }, draft.branchName);
+
+      // Log activity
+      await storage.createActivity({
+        workspaceId: id,
+        type: 'revision_created',
+        payload: { revisionNumber: revision.number, branch: draft.branchName }
       });
 
-      // Log activity
-      await storage.createActivity({
-        workspaceId: id,
-        type: 'revision_created',
-        payload: { revisionNumber: nextRevisionNumber }
+      res.json({ revision, message: 'Revision created successfully' });
+    } catch (error: any) {
+      console.error('Create revision error:', error);
+      res.status(500).json({ error: 'Failed to create revision' });
+    }
+  });
+
+  app.get('/api/admin/workspaces/:id/draft/revisions', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const branch = requestedBranch(req);
+      const branchDrafts = await storage.getDrafts(id);
+      if (!branchDrafts.some(draft => draft.branchName === branch)) {
+        return res.status(404).json({ error: 'Branch not found' });
+      }
+
+      // Newest first; each entry is summarized against the revision before it
+      const existingRevisions = await storage.getRevisions(id);
+      const lineage = branchLineage(branch, branchDrafts, existingRevisions);
+      const revisionList = lineage.map((revision, index) => {
+        const previous = lineage[index + 1];
+        const { content, ...rest } = revision;
+        return {
+          ...rest,
+          branch: branchDrafts.find(draft => draft.id === revision.draftId)?.branchName || null,
+          summary: describeRevision(revision),
+          changes: summarizeOutlineDiff(diffOutlines(
+            previous ? revisionOutline(previous) : { sections: [] },
+            revisionOutline(revision)
+          ))
+        };
+      });
+
+      res.json({ revisions: revisionList });
+    } catch (error: any) {
+      console.error('Get revisions error:', error);
+      res.status(500).json({ error: 'Failed to fetch revisions' });
+    }
+  });
+
+  // Compares two revisions, or a revision with the current draft when `to` is omitted
+  app.get('/api/admin/workspaces/:id/draft/revisions/diff', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const from = parseInt(req.query.from as string);
+      const to = req.query.to !== undefined ? parseInt(req.query.to as string) : null;
+
+      if (isNaN(from) || (to !== null && isNaN(to))) {
+        return res.status(400).json({ error: '"from" and "to" must be revision numbers' });
+      }
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const existingRevisions = await storage.getRevisions(id);
+      const fromRevision = existingRevisions.find(revision => revision.number === from);
+      const toRevision = to !== null ? existingRevisions.find(revision => revision.number === to) : null;
+      if (!fromRevision || (to !== null && !toRevision)) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+
+      let toOutline: any;
+      if (toRevision) {
+        toOutline = revisionOutline(toRevision);
+      } else {
+        const draft = await storage.getDraft(id, requestedBranch(req));
+        if (!draft) {
+          return res.status(404).json({ error: 'Draft not found' });
+        }
+        toOutline = draft.outline;
+      }
+
+      const sections = diffOutlines(revisionOutline(fromRevision), toOutline);
+      res.json({ 
+        from, 
+        to: to ?? 'current', 
+        sections, 
+        summary: summarizeOutlineDiff(sections) 
+      });
+    } catch (error: any) {
+      console.error('Diff revisions error:', error);
+      res.status(500).json({ error: 'Failed to diff revisions' });
+    }
+  });
+
+  app.get('/api/admin/workspaces/:id/draft/revisions/:number', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const number = parseInt(req.params.number);
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const existingRevisions = await storage.getRevisions(id);
+      const revision = existingRevisions.find(candidate => candidate.number === number);
+      if (!revision) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+
+      res.json({ revision: { ...revision, summary: describeRevision(revision) } });
+    } catch (error: any) {
+      console.error('Get revision error:', error);
+      res.status(500).json({ error: 'Failed to fetch revision' });
+    }
+  });
+
+  // Restoring never rewrites history: the old content becomes a new revision
+  app.post('/api/admin/workspaces/:id/draft/revisions/:number/restore', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const number = parseInt(req.params.number);
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const draft = await storage.getDraft(id, requestedBranch(req));
+      if (!draft) {
+        return res.status(404).json({ error: 'Draft not found' });
+      }
+
+      const existingRevisions = await storage.getRevisions(id);
+      const source = existingRevisions.find(revision => revision.number === number);
+      if (!source) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+
+      const restoredOutline = revisionOutline(source);
+      const { outline: _outline, ...restoredContent } = source.content as any;
+      const revision = await storage.createRevision({
+        workspaceId: id,
+        draftId: draft.id,
+        content: { ...(source.content as any), outline: restoredOutline },
+        metadata: { restoredFrom: number }
+      });
+
+      const updatedDraft = await storage.updateDraft(id, {
+        content: restoredContent,
+        outline: restoredOutline,
+        currentRevision: revision.number
+      }, draft.branchName);
+
+      await storage.createActivity({
+        workspaceId: id,
+        type: 'revision_restored',
+        payload: { restoredFrom: number, revisionNumber: revision.number, branch: draft.branchName }
+      });
+
+      res.json({ 
+        revision, 
+        draft: updatedDraft, 
+        message: `Restored revision ${number} as revision ${revision.number}` 
+      });
+    } catch (error: any) {
+      console.error('Restore revision error:', error);
+      res.status(500).json({ error: 'Failed to restore revision' });
+    }
+  });
+
+  // Draft Branch API Routes
+  app.get('/api/admin/workspaces/:id/branches', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const branchDrafts = await storage.getDrafts(id);
+      const branches = branchDrafts.map(draft => ({
+        id: draft.id,
+        name: draft.branchName,
+        parentBranch: draft.parentBranch,
+        baseRevision: draft.baseRevision,
+        headRevision: draft.currentRevision,
+        updatedAt: draft.updatedAt
+      }));
+
+      res.json({ branches });
+    } catch (error: any) {
+      console.error('Get branches error:', error);
+      res.status(500).json({ error: 'Failed to fetch branches' });
+    }
+  });
+
+  app.post('/api/admin/workspaces/:id/branches', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const parsed = forkBranchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid branch',
+          details: parsed.error.errors 
+        });
+      }
+      const { name, fromBranch, fromRevision } = parsed.data;
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      if (await storage.getDraft(id, name)) {
+        return res.status(409).json({ error: `Branch "${name}" already exists` });
+      }
+
+      const source = await storage.getDraft(id, fromBranch);
+      if (!source) {
+        return res.status(404).json({ error: `Branch "${fromBranch}" not found` });
+      }
+
+      // Fork from a specific revision in the source's history, or from its current state
+      let baseRevision: number;
+      let outline: any;
+      let content: any;
+      if (fromRevision !== undefined) {
+        const lineage = branchLineage(fromBranch, await storage.getDrafts(id), await storage.getRevisions(id));
+        const revision = lineage.find(candidate => candidate.number === fromRevision);
+        if (!revision) {
+          return res.status(404).json({ error: `Revision ${fromRevision} is not in the history of "${fromBranch}"` });
+        }
+        baseRevision = revision.number;
+        outline = revisionOutline(revision);
+        const { outline: _outline, ...revisionContent } = revision.content as any;
+        content = revisionContent;
+      } else {
+        baseRevision = await ensureDraftRevision(source, 'fork');
+        outline = source.outline;
+        content = source.content;
+      }
+
+      const created = await storage.createDraft({
+        workspaceId: id,
+        branchName: name,
+        parentBranch: fromBranch,
+        baseRevision,
+        content,
+        outline,
+        currentRevision: baseRevision
+      });
+
+      const revision = await storage.createRevision({
+        workspaceId: id,
+        draftId: created.id,
+        content: { ...content, outline },
+        metadata: { forkedFrom: fromBranch, forkedFromRevision: baseRevision }
+      });
+      const draft = await storage.updateDraft(id, { currentRevision: revision.number }, name) ?? created;
+
+      await storage.createActivity({
+        workspaceId: id,
+        type: 'branch_created',
+        payload: { branch: name, fromBranch, fromRevision: baseRevision }
+      });
+
+      res.json({ draft, revision, message: `Created branch "${name}" from ${fromBranch} at revision ${baseRevision}` });
+    } catch (error: any) {
+      console.error('Create branch error:', error);
+      res.status(500).json({ error: 'Failed to create branch' });
+    }
+  });
+
+  // Previews merging a branch into its parent (or the parent into it) as a
+  // section diff of the target, along with any conflicts to resolve
+  app.get('/api/admin/workspaces/:id/branches/:branch/merge', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id, branch } = req.params;
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const plan = await planBranchMerge(id, branch, req.query.into as string | undefined, {});
+      if ('status' in plan) {
+        return res.status(plan.status).json(plan.body);
+      }
+
+      const sections = diffOutlines(plan.target.outline, plan.merged);
+      res.json({
+        from: plan.source.branchName,
+        into: plan.target.branchName,
+        baseRevision: plan.baseRevision,
+        sections,
+        summary: summarizeOutlineDiff(sections),
+        conflicts: plan.conflicts
+      });
+    } catch (error: any) {
+      console.error('Preview merge error:', error);
+      res.status(500).json({ error: 'Failed to preview merge' });
+    }
+  });
+
+  app.post('/api/admin/workspaces/:id/branches/:branch/merge', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id, branch } = req.params;
+
+      const parsed = mergeBranchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid merge request',
+          details: parsed.error.errors 
+        });
+      }
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const plan = await planBranchMerge(id, branch, parsed.data.into, parsed.data.resolutions);
+      if ('status' in plan) {
+        return res.status(plan.status).json(plan.body);
+      }
+
+      if (plan.conflicts.length > 0) {
+        return res.status(409).json({ 
+          error: 'Branches have conflicting changes',
+          conflicts: plan.conflicts
+        });
+      }
+
+      const { source, target, merged } = plan;
+
+      // The source's state at merge time becomes the base for the next merge
+      // between these two branches
+      const sourceRevision = await ensureDraftRevision(source, 'merge');
+      const revision = await storage.createRevision({
+        workspaceId: id,
+        draftId: target.id,
+        content: { ...(target.content as any), outline: merged },
+        metadata: { 
+          mergedFrom: source.branchName, 
+          mergedRevision: sourceRevision,
+          resolvedConflicts: Object.keys(parsed.data.resolutions).length
+        }
+      });
+
+      const updatedDraft = await storage.updateDraft(id, {
+        outline: merged,
+        currentRevision: revision.number
+      }, target.branchName);
+
+      const child = target.parentBranch === source.branchName ? target : source;
+      await storage.updateDraft(id, { baseRevision: sourceRevision }, child.branchName);
+
+      await storage.createActivity({
+        workspaceId: id,
+        type: 'branch_merged',
+        payload: { 
+          from: source.branchName, 
+          into: target.branchName, 
+          revisionNumber: revision.number 
+        }
+      });
+
+      res.json({ 
+        draft: updatedDraft, 
+        revision, 
+        message: `Merged "${source.branchName}" into "${target.branchName}"` 
+      });
+    } catch (error: any) {
+      console.error('Merge branch error:', error);
+      res.status(500).json({ error: 'Failed to merge branch' });
+    }
+  });
+
+  // Workspace Publishing API Routes
+  app.post('/api/admin/workspaces/:id/publish/preview', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { modelId = DEFAULT_MODEL_STR } = req.body;
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied to this workspace' });
+      }
+
+      const draft = await storage.getDraft(id);
+      const draftSections: DraftSection[] = (draft?.outline as any)?.sections || [];
+      if (!draftSections.length) {
+        return res.status(400).json({ 
+          error: 'No draft content found. Please create and save draft content before publishing.' 
+        });
+      }
+
+      const fallback = convertDraftToIssueFormat(draftSections);
+      if (!process.env.ANTHROPIC_API_KEY) {
+        return res.json({ sections: fallback, source: 'heuristic', warning: 'AI conversion is not configured' });
+      }
+
+      let conversion: ReturnType<typeof mergePublishedEntries>;
+      try {
+        const response = await anthropic.messages.create({
+          model: modelId,
+          max_tokens: 4000,
+          temperature: 0.3,
+          system: buildPublishPrompt(workspace, draftSections),
+          messages: [{ role: 'user', content: 'Convert this draft into field guide entries.' }]
+        });
+
+        const responseText = response.content
+          .map(block => block.type === 'text' ? block.text : '')
+          .join('');
+        conversion = mergePublishedEntries(fallback, parsePublishedEntries(responseText));
+      } catch (conversionError: any) {
+        console.error('Publish preview conversion error:', conversionError);
+        return res.json({
+          sections: fallback,
+          source: 'heuristic',
+          warning: `AI conversion failed: ${conversionError.message}`
+        });
+      }
+
+      res.json({ 
+        sections: conversion.sections, 
+        source: 'ai', 
+        fallbackSectionIds: conversion.fallbackSectionIds 
       });
-
-      res.json({ revision, message: 'Revision created successfully' });
     } catch (error: any) {
-      console.error('Create revision error:', error);
-      res.status(500).json({ error: 'Failed to create revision' });
+      console.error('Publish preview error:', error);
+      res.status(500).json({ 
+        error: 'Failed to build publish preview',
+        details: error.message 
+      });
     }
   });
 
-  // Workspace Publishing API Route
   app.post('/api/admin/workspaces/:id/publish', requireAdminAuth, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { slug, version, publishedAt } = req.body;
+      const { slug, version, publishedAt, republish = false } = req.body;
 
       // Validate required fields
       if (!slug || typeof slug !== 'string' || slug.trim().length === 0) {
@@ -1001,6 +2131,19 @@ Transform the following content:`;
         }
       }
 
+      // Entries edited in the publish preview; converted heuristically when omitted
+      let sections: IssueSection[] | undefined;
+      if (req.body.sections !== undefined) {
+        const parsedSections = z.array(issueSectionSchema).min(1).safeParse(req.body.sections);
+        if (!parsedSections.success) {
+          return res.status(400).json({ 
+            error: 'Invalid sections', 
+            details: parsedSections.error.errors 
+          });
+        }
+        sections = parsedSections.data;
+      }
+
       // Check workspace exists and user has access
       const workspace = await storage.getWorkspace(id);
       if (!workspace) {
@@ -1034,17 +2177,27 @@ Transform the following content:`;
       const result = await storage.publishWorkspace(id, {
         slug: sanitizedSlug,
         version: version.trim(),
-        publishedAt: publishDate
+        publishedAt: publishDate,
+        sections,
+        republish: republish === true
       });
 
       res.json({
         success: true,
-        message: 'Workspace published successfully',
+        message: republish
+          ? `Workspace published as ${result.issue.version}`
+          : 'Workspace published as a draft issue for editorial review',
         issue: result.issue,
         workspace: result.workspace
       });
 
     } catch (error: any) {
+      if (error instanceof StaleUpdateError) {
+        return res.status(409).json({ 
+          error: 'The issue changed while publishing. Please try again.' 
+        });
+      }
+
       console.error('Publish workspace error:', error);
       
       // Handle specific error types
@@ -1109,11 +2262,12 @@ Transform the following content:`;
       
       // Extract the latest user message to persist
       const lastMessage = messages[messages.length - 1];
+      const lastMessageText = lastMessage ? getChatMessageText(lastMessage) : '';
       if (lastMessage?.role === 'user') {
         await storage.createMessage({
           workspaceId: id,
           role: 'user',
-          content: lastMessage.content,
+          content: lastMessageText,
           sectionPath: sectionPath || undefined,
           metadata: { fromChat: true }
         });
@@ -1122,84 +2276,64 @@ Transform the following content:`;
       // Build system prompt with workspace and draft context
       const systemPrompt = buildWorkspaceSystemPrompt(workspace, draft, sectionPath);
 
-      // Create Anthropic stream
-      const stream = await anthropic.messages.create({
-        model: DEFAULT_MODEL_STR,
-        max_tokens: 1000,
-        temperature: 0.7,
-        system: systemPrompt,
-        messages: messages.map((msg: any) => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        })),
-        stream: true
-      });
+      // Stream text and suggestion cards using the AI SDK UI message protocol
+      const uiStream = createUIMessageStream({
+        execute: async ({ writer }) => {
+          const textId = `text-${Date.now()}`;
+          writer.write({ type: 'text-start', id: textId });
 
-      // Convert to text stream for AI SDK
-      let fullResponse = '';
-      const encoder = new TextEncoder();
-      
-      const readableStream = new ReadableStream({
-        async start(controller) {
-          try {
-            for await (const chunk of stream) {
-              if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-                const text = chunk.delta.text;
-                fullResponse += text;
-                controller.enqueue(encoder.encode(text));
-              }
+          const { fullResponse, suggestions } = await streamWorkspaceChat({
+            workspaceId: id,
+            draft,
+            systemPrompt,
+            modelId: DEFAULT_MODEL_STR,
+            messages: messages
+              .filter((msg: any) => msg.role === 'user' || msg.role === 'assistant')
+              .map((msg: any) => ({
+                role: msg.role as 'user' | 'assistant',
+                content: getChatMessageText(msg)
+              })),
+            onText: (text) => writer.write({ type: 'text-delta', id: textId, delta: text }),
+            onSuggestion: (suggestion) => writer.write({ 
+              type: 'data-suggestion', 
+              id: suggestion.id, 
+              data: suggestion 
+            })
+          });
+
+          writer.write({ type: 'text-end', id: textId });
+
+          // Store the complete assistant response
+          await storage.createMessage({
+            workspaceId: id,
+            role: 'assistant',
+            content: fullResponse,
+            sectionPath: sectionPath || undefined,
+            metadata: { 
+              fromChat: true, 
+              model: DEFAULT_MODEL_STR,
+              suggestionIds: suggestions.map(s => s.id)
             }
-            
-            // Store the complete assistant response
-            await storage.createMessage({
-              workspaceId: id,
-              role: 'assistant',
-              content: fullResponse,
-              sectionPath: sectionPath || undefined,
-              metadata: { fromChat: true, model: DEFAULT_MODEL_STR }
-            });
-
-            // Log the activity
-            await storage.createActivity({
-              workspaceId: id,
-              type: 'message_sent',
-              payload: { 
-                userMessage: lastMessage?.content?.length > 100 ? lastMessage.content.substring(0, 100) + '...' : lastMessage?.content,
-                responseLength: fullResponse.length
-              }
-            });
-
-            controller.close();
-          } catch (error) {
-            console.error('Chat stream error:', error);
-            controller.error(error);
-          }
+          });
+
+          // Log the activity
+          await storage.createActivity({
+            workspaceId: id,
+            type: 'message_sent',
+            payload: { 
+              userMessage: lastMessageText.length > 100 ? lastMessageText.substring(0, 100) + '...' : lastMessageText,
+              responseLength: fullResponse.length,
+              suggestionCount: suggestions.length
+            }
+          });
+        },
+        onError: (error) => {
+          console.error('Chat stream error:', error);
+          return 'I apologize, but I encountered an error. Please try again.';
         }
       });
 
-      // Set headers for streaming
-      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-
-      // Stream the response using Express methods
-      const reader = readableStream.getReader();
-      
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          res.write(value);
-        }
-        res.end();
-      } catch (error) {
-        console.error('Stream read error:', error);
-        if (!res.headersSent) {
-          res.status(500).json({ error: 'Stream error' });
-        } else {
-          res.end();
-        }
-      }
+      pipeUIMessageStreamToResponse({ response: res, stream: uiStream });
 
     } catch (error: any) {
       console.error('Workspace chat error:', error);
@@ -1258,23 +2392,13 @@ Transform the following content:`;
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
 
-      // Create Anthropic stream
-      const stream = await anthropic.messages.create({
-        model: modelId,
-        max_tokens: 1000,
-        temperature: 0.7,
-        system: systemPrompt,
+      const { fullResponse, suggestions } = await streamWorkspaceChat({
+        workspaceId: id,
+        draft,
+        systemPrompt,
+        modelId,
         messages: [...conversationHistory, { role: 'user', content: message }],
-        stream: true
-      });
-
-      let fullResponse = '';
-      
-      for await (const chunk of stream) {
-        if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-          const text = chunk.delta.text;
-          fullResponse += text;
-          
+        onText: (text) => {
           // Send streaming data in SSE format
           const data = JSON.stringify({ 
             content: text,
@@ -1282,8 +2406,11 @@ Transform the following content:`;
             sectionPath: sectionPath || null
           });
           res.write(`data: ${data}\n\n`);
+        },
+        onSuggestion: (suggestion) => {
+          res.write(`data: ${JSON.stringify({ suggestion, workspaceId: id })}\n\n`);
         }
-      }
+      });
 
       // Store assistant response
       await storage.createMessage({
@@ -1291,7 +2418,11 @@ Transform the following content:`;
         role: 'assistant',
         content: fullResponse,
         sectionPath: sectionPath || null,
-        metadata: { fromChat: true, model: modelId }
+        metadata: { 
+          fromChat: true, 
+          model: modelId,
+          suggestionIds: suggestions.map(s => s.id)
+        }
       });
 
       // Log activity
@@ -1301,7 +2432,8 @@ Transform the following content:`;
         payload: { 
           userMessage: message.length > 100 ? message.substring(0, 100) + '...' : message,
           sectionPath: sectionPath || null,
-          responseLength: fullResponse.length
+          responseLength: fullResponse.length,
+          suggestionCount: suggestions.length
         }
       });
 
@@ -1352,13 +2484,123 @@ Transform the following content:`;
     }
   });
 
+  app.post('/api/admin/workspaces/:id/suggestions/generate', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { sectionPath, branch = 'main', modelId = DEFAULT_MODEL_STR } = req.body;
+
+      if (sectionPath !== undefined && sectionPath !== null && typeof sectionPath !== 'string') {
+        return res.status(400).json({ error: 'sectionPath must be a string' });
+      }
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const draft = await storage.getDraft(id, branch);
+      if (!draft) {
+        return res.status(404).json({ error: 'Draft not found' });
+      }
+
+      const outline = (draft.outline as any) || { sections: [] };
+
+      const response = await anthropic.messages.create({
+        model: modelId,
+        max_tokens: 2000,
+        temperature: 0.4,
+        system: buildSuggestionPrompt(workspace, outline, sectionPath || undefined),
+        messages: [{
+          role: 'user',
+          content: sectionPath
+            ? `Propose improvements for the section "${sectionPath}".`
+            : 'Propose improvements for this draft.'
+        }]
+      });
+
+      const responseText = response.content
+        .map(block => block.type === 'text' ? block.text : '')
+        .join('');
+
+      let proposals: any[];
+      try {
+        proposals = parseSuggestionProposals(responseText);
+      } catch (parseError: any) {
+        return res.status(502).json({ 
+          error: 'Model returned an unreadable suggestion list',
+          details: parseError.message 
+        });
+      }
+
+      const created = [];
+      const skipped: { index: number, error: string }[] = [];
+      let baseRevision: number | undefined;
+
+      for (const [index, proposal] of Array.from(proposals.entries())) {
+        const parsed = jsonPatchSchema.min(1).safeParse(proposal?.patch);
+        if (!parsed.success) {
+          skipped.push({ index, error: 'Malformed JSON Patch' });
+          continue;
+        }
+
+        if (!proposal.rationale || typeof proposal.rationale !== 'string') {
+          skipped.push({ index, error: 'Missing rationale' });
+          continue;
+        }
+
+        const validation = buildSuggestionDiff(outline, parsed.data);
+        if ('error' in validation) {
+          skipped.push({ index, error: validation.error });
+          continue;
+        }
+
+        baseRevision ??= await ensureDraftRevision(draft);
+        const suggestion = await storage.createSuggestion({
+          workspaceId: id,
+          draftId: draft.id,
+          baseRevision,
+          sectionPath: validation.sectionPath || sectionPath || null,
+          diff: validation.diff,
+          rationale: proposal.rationale.trim(),
+          status: 'proposed'
+        });
+        created.push(suggestion);
+
+        await storage.createActivity({
+          workspaceId: id,
+          type: 'suggestion_created',
+          payload: { 
+            suggestionId: suggestion.id,
+            type: validation.diff.patch[validation.diff.patch.length - 1].op,
+            sectionPath: suggestion.sectionPath
+          }
+        });
+      }
+
+      res.json({ 
+        suggestions: created, 
+        skipped,
+        message: `Generated ${created.length} suggestion${created.length === 1 ? '' : 's'}`
+      });
+    } catch (error: any) {
+      console.error('Generate suggestions error:', error);
+      res.status(500).json({ 
+        error: 'Failed to generate suggestions',
+        details: error.message 
+      });
+    }
+  });
+
   app.post('/api/admin/suggestions/:id/apply', requireAdminAuth, async (req: any, res) => {
     try {
       const { id } = req.params;
 
       // Get the suggestion
-      const suggestion = await storage.getSuggestions('');
-      const targetSuggestion = suggestion.find(s => s.id === id);
+      const targetSuggestion = await storage.getSuggestion(id);
       
       if (!targetSuggestion) {
         return res.status(404).json({ error: 'Suggestion not found' });
@@ -1373,39 +2615,55 @@ Transform the following content:`;
         return res.status(403).json({ error: 'Access denied' });
       }
 
-      // Get current draft
-      const draft = await storage.getDraft(targetSuggestion.workspaceId);
+      // Get the branch the suggestion was made on
+      const draft = await storage.getDraftById(targetSuggestion.draftId);
       if (!draft) {
         return res.status(404).json({ error: 'Draft not found' });
       }
 
-      // Apply the suggestion diff to the content
-      const updatedContent = applySuggestionDiff(draft.content as any, targetSuggestion.diff as any);
+      if (targetSuggestion.status !== 'proposed') {
+        return res.status(409).json({ 
+          error: `Suggestion has already been ${targetSuggestion.status}` 
+        });
+      }
 
-      // Update the draft with applied changes
-      await storage.updateDraft(targetSuggestion.workspaceId, {
-        content: updatedContent as any
-      });
+      const parsedResolutions = conflictResolutionsSchema.safeParse(req.body?.resolutions ?? {});
+      if (!parsedResolutions.success) {
+        return res.status(400).json({ 
+          error: 'Invalid conflict resolutions',
+          details: parsedResolutions.error.errors 
+        });
+      }
 
-      // Create a new revision with the applied suggestion
       const existingRevisions = await storage.getRevisions(targetSuggestion.workspaceId);
-      const nextRevisionNumber = existingRevisions.length + 1;
-
-      const revision = await storage.createRevision({
-        workspaceId: targetSuggestion.workspaceId,
-        draftId: draft.id,
-        number: nextRevisionNumber,
-        content: updatedContent as any,
-        metadata: { 
-          appliedSuggestion: id,
-          suggestionRationale: targetSuggestion.rationale
+      const result = applySuggestionToOutline(
+        targetSuggestion, 
+        draft.outline, 
+        existingRevisions, 
+        parsedResolutions.data
+      );
+      if ('status' in result) {
+        return res.status(result.status).json(result.body);
+      }
+      const updatedOutline = result.outline;
+
+      // Records a new revision, saves the draft and closes the suggestion
+      // together, unless the draft or suggestion changed since they were read
+      const revision = (await storage.reviewSuggestions({
+        apply: [id],
+        reject: [],
+        applied: {
+          draft,
+          outline: updatedOutline,
+          content: { ...(draft.content as any), outline: updatedOutline },
+          metadata: { 
+            appliedSuggestion: id,
+            suggestionRationale: targetSuggestion.rationale,
+            baseRevision: targetSuggestion.baseRevision,
+            resolvedConflicts: Object.keys(parsedResolutions.data).length
+          }
         }
-      });
-
-      // Update suggestion status
-      await storage.updateSuggestion(id, {
-        status: 'applied'
-      });
+      }))!;
 
       // Log activity
       await storage.createActivity({
@@ -1413,7 +2671,7 @@ Transform the following content:`;
         type: 'suggestion_applied',
         payload: { 
           suggestionId: id,
-          revisionNumber: nextRevisionNumber,
+          revisionNumber: revision.number,
           sectionPath: targetSuggestion.sectionPath
         }
       });
@@ -1424,19 +2682,142 @@ Transform the following content:`;
         suggestion: { ...targetSuggestion, status: 'applied' }
       });
     } catch (error: any) {
+      if (error instanceof ClosedSuggestionError) {
+        return res.status(409).json({ 
+          error: `Suggestion has already been ${error.suggestions[0].status}` 
+        });
+      }
+      if (error instanceof StaleUpdateError) {
+        return sendStaleUpdate(res, 'draft', error.current);
+      }
       console.error('Apply suggestion error:', error);
       res.status(500).json({ error: 'Failed to apply suggestion' });
     }
   });
 
+  app.post('/api/admin/workspaces/:id/suggestions/batch', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const parsed = suggestionBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid suggestion batch',
+          details: parsed.error.errors 
+        });
+      }
+      const batch = parsed.data;
+
+      const workspace = await storage.getWorkspace(id);
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      if (workspace.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const workspaceSuggestions = new Map(
+        (await storage.getSuggestions(id)).map(suggestion => [suggestion.id, suggestion])
+      );
+      const missing = [...batch.apply, ...batch.reject].filter(suggestionId => !workspaceSuggestions.has(suggestionId));
+      if (missing.length > 0) {
+        return res.status(404).json({ error: 'Suggestions not found', details: missing });
+      }
+
+      const toApply = batch.apply.map(suggestionId => workspaceSuggestions.get(suggestionId)!);
+      const toReject = batch.reject.map(suggestionId => workspaceSuggestions.get(suggestionId)!);
+      const closed = [...toApply, ...toReject].filter(suggestion => suggestion.status !== 'proposed');
+      if (closed.length > 0) {
+        return res.status(409).json({ 
+          error: 'Some suggestions have already been reviewed',
+          details: closed.map(suggestion => ({ id: suggestion.id, status: suggestion.status }))
+        });
+      }
+
+      // All applied suggestions must target the same branch, which gets the revision
+      const draftIds = new Set(toApply.map(suggestion => suggestion.draftId));
+      if (draftIds.size > 1) {
+        return res.status(400).json({ error: 'Suggestions in a batch must target the same branch' });
+      }
+
+      const draft = toApply.length > 0 ? await storage.getDraftById(toApply[0].draftId) : undefined;
+      if (toApply.length > 0 && !draft) {
+        return res.status(404).json({ error: 'Draft not found' });
+      }
+
+      // Apply in the requested order; each suggestion merges into the result
+      // of the previous ones, and nothing is saved unless all of them apply
+      const existingRevisions = await storage.getRevisions(id);
+      let updatedOutline: any = draft?.outline;
+      for (const suggestion of toApply) {
+        const result = applySuggestionToOutline(
+          suggestion, 
+          updatedOutline, 
+          existingRevisions, 
+          batch.resolutions[suggestion.id] || {}
+        );
+        if ('status' in result) {
+          return res.status(result.status).json({ ...result.body, suggestionId: suggestion.id });
+        }
+        updatedOutline = result.outline;
+      }
+
+      const revision = await storage.reviewSuggestions({
+        apply: batch.apply,
+        reject: batch.reject,
+        applied: draft && {
+          draft,
+          outline: updatedOutline,
+          content: { ...(draft.content as any), outline: updatedOutline },
+          metadata: { 
+            appliedSuggestions: toApply.map(suggestion => ({
+              id: suggestion.id,
+              rationale: suggestion.rationale,
+              baseRevision: suggestion.baseRevision
+            }))
+          }
+        }
+      });
+
+      await storage.createActivity({
+        workspaceId: id,
+        type: toApply.length > 0 ? 'suggestions_batch_applied' : 'suggestions_batch_rejected',
+        payload: { 
+          appliedSuggestionIds: batch.apply,
+          rejectedSuggestionIds: batch.reject,
+          revisionNumber: revision?.number ?? null
+        }
+      });
+
+      res.json({ 
+        message: `Applied ${toApply.length} and rejected ${toReject.length} suggestions`,
+        revision,
+        applied: batch.apply,
+        rejected: batch.reject
+      });
+    } catch (error: any) {
+      if (error instanceof ClosedSuggestionError) {
+        return res.status(409).json({ 
+          error: 'Some suggestions have already been reviewed',
+          details: error.suggestions.map(suggestion => ({ id: suggestion.id, status: suggestion.status }))
+        });
+      }
+      if (error instanceof StaleUpdateError) {
+        return sendStaleUpdate(res, 'draft', error.current);
+      }
+      console.error('Batch suggestions error:', error);
+      res.status(500).json({ error: 'Failed to process suggestion batch' });
+    }
+  });
+
   app.post('/api/admin/suggestions/:id/reject', requireAdminAuth, async (req: any, res) => {
     try {
       const { id } = req.params;
       const { reason } = req.body;
 
       // Get the suggestion
-      const suggestion = await storage.getSuggestions('');
-      const targetSuggestion = suggestion.find(s => s.id === id);
+      const targetSuggestion = await storage.getSuggestion(id);
       
       if (!targetSuggestion) {
         return res.status(404).json({ error: 'Suggestion not found' });
@@ -1451,10 +2832,14 @@ Transform the following content:`;
         return res.status(403).json({ error: 'Access denied' });
       }
 
-      // Update suggestion status
-      await storage.updateSuggestion(id, {
-        status: 'rejected'
-      });
+      if (targetSuggestion.status !== 'proposed') {
+        return res.status(409).json({ 
+          error: `Suggestion has already been ${targetSuggestion.status}` 
+        });
+      }
+
+      // Only closes it if it is still proposed
+      await storage.reviewSuggestions({ apply: [], reject: [id] });
 
       // Log activity
       await storage.createActivity({
@@ -1472,6 +2857,11 @@ Transform the following content:`;
         suggestion: { ...targetSuggestion, status: 'rejected' }
       });
     } catch (error: any) {
+      if (error instanceof ClosedSuggestionError) {
+        return res.status(409).json({ 
+          error: `Suggestion has already been ${error.suggestions[0].status}` 
+        });
+      }
       console.error('Reject suggestion error:', error);
       res.status(500).json({ error: 'Failed to reject suggestion' });
     }
@@ -1499,6 +2889,152 @@ Transform the following content:`;
     }
   });
 
+  // Comments on an issue (?issueSlug=) or a workspace draft (?workspaceId=),
+  // oldest first, replies included
+  app.get('/api/admin/comments', requireAdminAuth, async (req: any, res) => {
+    try {
+      const issueSlug = typeof req.query.issueSlug === 'string' ? req.query.issueSlug : undefined;
+      const workspaceId = typeof req.query.workspaceId === 'string' ? req.query.workspaceId : undefined;
+      if (!issueSlug === !workspaceId) {
+        return res.status(400).json({ error: 'Specify either issueSlug or workspaceId' });
+      }
+
+      const document = await loadCommentDocument({ issueSlug, workspaceId }, req.user.id);
+      if ('error' in document) {
+        return res.status(document.status).json({ error: document.error });
+      }
+
+      const commentList = await storage.getComments(issueSlug ? { issueSlug } : { workspaceId: workspaceId! });
+      res.json({ comments: await toCommentViews(commentList) });
+    } catch (error: any) {
+      console.error('Get comments error:', error);
+      res.status(500).json({ error: 'Failed to fetch comments' });
+    }
+  });
+
+  // Starts a thread anchored to a document, section, pattern or field
+  app.post('/api/admin/comments', requireAdminAuth, async (req: any, res) => {
+    try {
+      const parsed = newCommentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid comment',
+          details: parsed.error.errors 
+        });
+      }
+      const { anchor, body } = parsed.data;
+
+      const document = await loadCommentDocument(anchor, req.user.id);
+      if ('error' in document) {
+        return res.status(document.status).json({ error: document.error });
+      }
+
+      // Issues don't change under a reviewer, so their anchors must resolve.
+      // Drafts are edited live and checked only for shape.
+      if (document.issue && anchor.sectionId) {
+        const section = (document.issue.sections as IssueSection[]).find(candidate => candidate.id === anchor.sectionId);
+        if (!section) {
+          return res.status(400).json({ error: 'Section not found in this issue' });
+        }
+        if (anchor.pattern && !section.entries.some(entry => entry.pattern === anchor.pattern)) {
+          return res.status(400).json({ error: `Pattern "${anchor.pattern}" not found in this section` });
+        }
+      }
+
+      const comment = await storage.createComment({
+        issueSlug: anchor.issueSlug ?? null,
+        workspaceId: anchor.workspaceId ?? null,
+        sectionId: anchor.sectionId ?? null,
+        pattern: anchor.pattern ?? null,
+        field: anchor.field ?? null,
+        authorId: req.user.id,
+        body,
+        mentions: await mentionedUserIds(body)
+      });
+      const [view] = await toCommentViews([comment]);
+      await logCommentActivity(document, comment, view);
+
+      res.json({ comment: view });
+    } catch (error: any) {
+      console.error('Create comment error:', error);
+      res.status(500).json({ error: 'Failed to add comment' });
+    }
+  });
+
+  // Replies join the thread of the comment they answer
+  app.post('/api/admin/comments/:id/replies', requireAdminAuth, async (req: any, res) => {
+    try {
+      const parsed = commentReplySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: 'Invalid reply',
+          details: parsed.error.errors 
+        });
+      }
+
+      const parent = await storage.getComment(req.params.id);
+      const thread = parent?.parentId ? await storage.getComment(parent.parentId) : parent;
+      if (!thread) {
+        return res.status(404).json({ error: 'Comment not found' });
+      }
+
+      const document = await loadCommentDocument(thread, req.user.id);
+      if ('error' in document) {
+        return res.status(document.status).json({ error: document.error });
+      }
+
+      const reply = await storage.createComment({
+        issueSlug: thread.issueSlug,
+        workspaceId: thread.workspaceId,
+        sectionId: thread.sectionId,
+        pattern: thread.pattern,
+        field: thread.field,
+        parentId: thread.id,
+        authorId: req.user.id,
+        body: parsed.data.body,
+        mentions: await mentionedUserIds(parsed.data.body)
+      });
+      const [view] = await toCommentViews([reply]);
+      await logCommentActivity(document, reply, view);
+
+      res.json({ comment: view });
+    } catch (error: any) {
+      console.error('Reply to comment error:', error);
+      res.status(500).json({ error: 'Failed to add reply' });
+    }
+  });
+
+  // Resolving applies to a whole thread, through its first comment
+  app.post('/api/admin/comments/:id/:action(resolve|unresolve)', requireAdminAuth, async (req: any, res) => {
+    try {
+      const { id, action } = req.params;
+
+      const comment = await storage.getComment(id);
+      if (!comment) {
+        return res.status(404).json({ error: 'Comment not found' });
+      }
+      if (comment.parentId) {
+        return res.status(400).json({ error: 'Resolve the thread through its first comment' });
+      }
+
+      const document = await loadCommentDocument(comment, req.user.id);
+      if ('error' in document) {
+        return res.status(document.status).json({ error: document.error });
+      }
+
+      const updated = await storage.setCommentResolved(id, action === 'resolve' ? req.user.id : null);
+      if (!updated) {
+        return res.status(404).json({ error: 'Comment not found' });
+      }
+
+      const [view] = await toCommentViews([updated]);
+      res.json({ comment: view });
+    } catch (error: any) {
+      console.error('Resolve comment error:', error);
+      res.status(500).json({ error: 'Failed to update comment' });
+    }
+  });
+
   // Workspace Resources API Routes
   app.get('/api/admin/workspaces/:id/resources', requireAdminAuth, async (req: any, res) => {
     try {
@@ -1756,9 +3292,32 @@ Transform the following content:`;
   });
 
   const httpServer = createServer(app);
+  // Live draft editing and workspace updates at /ws/workspaces/:id
+  attachCollaborationServer(httpServer);
+  // Announces scheduled issues as they go live
+  startPublishScheduler();
+  // Reindexes issues in search as they're written and deleted
+  startSearchIndexSync();
+  migrateReviewComments();
+  startAdminBootstrap();
   return httpServer;
 }
 
+// The shape readers get, for an issue or one of its earlier versions
+function toPublicIssue(slug: string, issue: Issue | IssueVersion) {
+  return {
+    slug,
+    meta: {
+      title: issue.title,
+      subtitle: issue.subtitle,
+      version: issue.version,
+      tagline: issue.tagline
+    },
+    intro: issue.intro,
+    sections: issue.sections
+  };
+}
+
 function buildSystemPrompt(issueContext: any): string {
   if (!issueContext) return "You are a helpful Field Guide assistant.";
   
@@ -1823,10 +3382,13 @@ ${draft ? `
 **Current Draft Content Preview:**
 ${draft?.content ? JSON.stringify(draft.content as any, null, 2).substring(0, 500) + '...' : 'No content yet'}
 
+**Outline Paths (use these with your tools):**
+${describeOutlinePaths(draft?.outline)}
+
 **Your Role:**
 - Help develop content following Evans' zine format patterns
 - Suggest improvements to sections, patterns, signals, and protocols
-- Generate structured content diffs when proposing changes
+- Propose concrete changes with the propose_section_edit, add_pattern and rename_section tools
 - Focus on "shacks not cathedrals" philosophy (practical over complex)
 - Maintain consistency with system design patterns and field guide aesthetics
 
@@ -1840,55 +3402,938 @@ ${draft?.content ? JSON.stringify(draft.content as any, null, 2).substring(0, 50
 When responding:
 1. Reference the current workspace goal and content
 2. Suggest specific improvements or additions
-3. Generate structured suggestions as diff operations when appropriate
+3. Call a tool for every concrete change you propose; each call becomes a reviewable suggestion
 4. Ask clarifying questions about the direction or specific sections
 5. Maintain focus on practical, implementable advice`;
 }
 
-function applySuggestionDiff(content: any, diff: any): any {
-  // Simple implementation - in a real system this would be more sophisticated
-  try {
-    if (diff.operation === 'replace' && diff.path && diff.newValue) {
-      const contentCopy = JSON.parse(JSON.stringify(content));
-      const pathParts = diff.path.split('.');
-      
-      let current = contentCopy;
-      for (let i = 0; i < pathParts.length - 1; i++) {
-        if (!current[pathParts[i]]) {
-          current[pathParts[i]] = {};
+function describeOutlinePaths(outline: any): string {
+  const describeSections = (sections: any[], prefix: string, depth: number): string[] =>
+    sections.flatMap((section: any, index: number) => {
+      const pointer = `${prefix}/${index}`;
+      return [
+        `${'  '.repeat(depth)}- ${pointer}: "${section.title}" (path: ${section.path || section.id})`,
+        ...describeSections(section.children || [], `${pointer}/children`, depth + 1)
+      ];
+    });
+
+  const sectionList = describeSections(outline?.sections || [], '/sections', 0);
+  return sectionList.length > 0 ? sectionList.join('\n') : '(the outline has no sections yet)';
+}
+
+function buildSuggestionPrompt(workspace: any, outline: any, sectionPath?: string): string {
+
+  return `You are an editor for the Field Guide Zine reviewing a workspace draft. Propose concrete, reviewable edits to the draft outline.
+
+**Workspace Goal:** ${workspace.goal}
+**Focus:** ${sectionPath ? `Only the section with path "${sectionPath}" and its children` : 'The whole draft'}
+
+**Outline Paths:**
+${describeOutlinePaths(outline)}
+
+**Outline JSON:**
+${JSON.stringify(outline || { sections: [] }, null, 2).substring(0, 6000)}
+
+**Output Format (JSON only, no prose):**
+{
+  "suggestions": [
+    {
+      "rationale": "Why this change improves the draft",
+      "patch": [
+        { "op": "replace", "path": "/sections/0/content", "value": "Rewritten section content" }
+      ]
+    }
+  ]
+}
+
+**Rules:**
+- Each "patch" is a JSON Patch (RFC 6902) using JSON Pointer paths from the outline paths above
+- "replace" may target a section's "/title" or "/content", or a whole section
+- "add" inserts a section object with "title" and "content" at a position such as "/sections/-" or "/sections/1/children/0"
+- "remove", "move" and "copy" operate on whole sections
+- Propose at most 5 suggestions, each small enough to review on its own
+- Follow the "shacks not cathedrals" philosophy: practical patterns, observable signals, actionable protocols`;
+}
+
+function parseSuggestionProposals(response: string): any[] {
+  // Models sometimes wrap JSON in code fences or add a sentence around it
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in response');
+  }
+
+  const parsed = JSON.parse(response.slice(start, end + 1));
+  if (!Array.isArray(parsed?.suggestions)) {
+    throw new Error('Response is missing a "suggestions" array');
+  }
+
+  return parsed.suggestions;
+}
+
+function buildPublishPrompt(workspace: any, draftSections: DraftSection[]): string {
+  const describeDraftSection = (section: DraftSection): string => [
+    `### ${section.title} (id: ${section.id})`,
+    section.content || '(no content)',
+    ...(section.children || []).map(child => `#### ${child.title}\n${child.content || '(no content)'}`)
+  ].join('\n\n');
+
+  return `You are an editor for the Field Guide Zine preparing a workspace draft for publication. Turn each top-level draft section into field guide entries.
+
+**Workspace Goal:** ${workspace.goal}
+
+**Draft Sections:**
+${draftSections.filter(section => section.level === 1).map(describeDraftSection).join('\n\n').substring(0, 12000)}
+
+**Output Format (JSON only, no prose):**
+{
+  "sections": [
+    {
+      "id": "the section id from the draft",
+      "entries": [
+        {
+          "pattern": "Short, memorable name for the pattern",
+          "description": "What the pattern is and why it matters",
+          "signals": ["Observable sign that the pattern applies"],
+          "protocol": "Concrete steps to take, in order"
+        }
+      ]
+    }
+  ]
+}
+
+**Rules:**
+- Include every section id listed above, each with at least one entry
+- Base entries only on the draft; a section's subsections are usually entries of their own
+- "signals" are 2-4 things a reader can notice in their own system, not generic concerns
+- "protocol" is an actionable sequence drawn from the draft, not a placeholder
+- Follow the "shacks not cathedrals" philosophy: practical patterns, observable signals, actionable protocols`;
+}
+
+function parsePublishedEntries(response: string): any[] {
+  // Models sometimes wrap JSON in code fences or add a sentence around it
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in response');
+  }
+
+  const parsed = JSON.parse(response.slice(start, end + 1));
+  if (!Array.isArray(parsed?.sections)) {
+    throw new Error('Response is missing a "sections" array');
+  }
+
+  return parsed.sections;
+}
+
+// Fills the section shells with the model's entries. Sections it skipped or
+// returned malformed entries for keep their heuristic entries.
+function mergePublishedEntries(fallback: IssueSection[], proposed: any[]) {
+  const fallbackSectionIds: string[] = [];
+  const sections = fallback.map(section => {
+    const match = proposed.find(candidate => candidate?.id === section.id);
+    const entries = z.array(issueEntrySchema).min(1).safeParse(match?.entries);
+    if (!entries.success) {
+      fallbackSectionIds.push(section.id);
+      return section;
+    }
+    return { ...section, entries: entries.data };
+  });
+
+  if (fallbackSectionIds.length === fallback.length) {
+    throw new Error('Model returned no usable entries');
+  }
+
+  return { sections, fallbackSectionIds };
+}
+
+const EDITABLE_SECTION_FIELDS = ['title', 'content'];
+
+// Outline pointers alternate array names and indexes:
+// /sections/0/children/2 is a section, /sections/0/children/2/title is a field
+function isSectionPointer(tokens: string[]): boolean {
+  return tokens.length >= 2 && tokens.length % 2 === 0 &&
+    tokens.every((token, i) => 
+      i === 0 ? token === 'sections' : i % 2 === 0 ? token === 'children' : true
+    );
+}
+
+function isFieldPointer(tokens: string[]): boolean {
+  return isSectionPointer(tokens.slice(0, -1)) && EDITABLE_SECTION_FIELDS.includes(tokens[tokens.length - 1]);
+}
+
+function normalizeSuggestedSection(value: any, level: number): any {
+  if (!value || typeof value.title !== 'string' || typeof value.content !== 'string') {
+    return null;
+  }
+
+  const newId = `section-${Date.now()}-${Math.round(Math.random() * 1E6)}`;
+  return {
+    id: typeof value.id === 'string' ? value.id : newId,
+    path: typeof value.path === 'string' ? value.path : newId,
+    title: value.title,
+    content: value.content,
+    level,
+    children: Array.isArray(value.children) ? value.children : []
+  };
+}
+
+function describeSection(section: any): string {
+  return section ? `${section.title}\n\n${section.content || ''}` : '';
+}
+
+// Validates a proposed patch against the outline, prepends `test` guards for
+// everything it reads or overwrites, and dry-runs it so only applicable
+// suggestions are stored. The guards make a later apply fail if the draft
+// has changed underneath the suggestion.
+function buildSuggestionDiff(
+  outline: any, 
+  proposedPatch: JsonPatch
+): { diff: SuggestionDiff, sectionPath: string | null } | { error: string } {
+  const patch: JsonPatch = [];
+  const guards = new Map<string, JsonPatch[number]>();
+  const guard = (pointer: string) => {
+    if (!guards.has(pointer) && hasPointer(outline, pointer)) {
+      guards.set(pointer, { op: 'test', path: pointer, value: getValueAtPointer(outline, pointer) });
+    }
+  };
+
+  for (const operation of proposedPatch) {
+    let tokens: string[];
+    let fromTokens: string[] = [];
+    try {
+      tokens = parseJsonPointer(operation.path);
+      if ('from' in operation) fromTokens = parseJsonPointer(operation.from);
+    } catch (error: any) {
+      return { error: error.message };
+    }
+
+    if (tokens[0] !== 'sections') {
+      return { error: `Path "${operation.path}" must start with "/sections"` };
+    }
+
+    switch (operation.op) {
+      case 'test':
+        patch.push(operation);
+        break;
+      case 'add':
+      case 'replace': {
+        if (operation.op === 'replace' && isFieldPointer(tokens)) {
+          if (typeof operation.value !== 'string' || operation.value.trim().length === 0) {
+            return { error: `Replacement for "${operation.path}" must be non-empty text` };
+          }
+          guard(operation.path);
+          patch.push(operation);
+          break;
+        }
+        if (!isSectionPointer(tokens)) {
+          return { error: `${operation.op} must target a section${operation.op === 'replace' ? ' or its title/content' : ''}, got "${operation.path}"` };
+        }
+        const section = normalizeSuggestedSection(operation.value, tokens.length / 2);
+        if (!section) {
+          return { error: `Section for "${operation.path}" needs a title and content` };
+        }
+        if (operation.op === 'replace') {
+          guard(operation.path);
+        } else if (tokens.length > 2) {
+          guard(formatJsonPointer([...tokens.slice(0, -2), 'id']));
         }
-        current = current[pathParts[i]];
+        patch.push({ ...operation, value: section });
+        break;
       }
-      
-      current[pathParts[pathParts.length - 1]] = diff.newValue;
-      return contentCopy;
+      case 'remove':
+        if (!isSectionPointer(tokens)) {
+          return { error: `remove must target a section, got "${operation.path}"` };
+        }
+        guard(operation.path);
+        patch.push(operation);
+        break;
+      case 'move':
+      case 'copy':
+        if (!isSectionPointer(tokens) || !isSectionPointer(fromTokens)) {
+          return { error: `${operation.op} must go from one section position to another` };
+        }
+        guard(operation.from);
+        patch.push(operation);
+        break;
     }
-    
-    if (diff.operation === 'add' && diff.path && diff.newValue) {
-      const contentCopy = JSON.parse(JSON.stringify(content));
-      const pathParts = diff.path.split('.');
-      
-      let current = contentCopy;
-      for (let i = 0; i < pathParts.length - 1; i++) {
-        if (!current[pathParts[i]]) {
-          current[pathParts[i]] = Array.isArray(diff.newValue) ? [] : {};
+  }
+
+  const guardedPatch = [...Array.from(guards.values()), ...patch];
+  try {
+    applyJsonPatch(outline, guardedPatch);
+  } catch (error: any) {
+    return { error: error.message };
+  }
+
+  // Summarize the first real change for the review UI
+  const primary = patch.find(operation => operation.op !== 'test');
+  if (!primary) {
+    return { error: 'Patch does not change anything' };
+  }
+
+  const tokens = parseJsonPointer(primary.path);
+  const sourcePointer = 'from' in primary ? primary.from : primary.path;
+  const sectionPointer = isFieldPointer(tokens) ? formatJsonPointer(tokens.slice(0, -1)) : sourcePointer;
+  const existing = hasPointer(outline, sectionPointer) ? getValueAtPointer(outline, sectionPointer) as any : null;
+  const parentPointer = formatJsonPointer(tokens.slice(0, -2));
+  const parent = tokens.length > 2 && hasPointer(outline, parentPointer) ? getValueAtPointer(outline, parentPointer) as any : null;
+
+  let summary: { section: string, removed?: string, added?: string };
+  switch (primary.op) {
+    case 'replace':
+      summary = isFieldPointer(tokens)
+        ? { section: existing?.title, removed: getValueAtPointer(outline, primary.path) as string, added: primary.value as string }
+        : { section: existing?.title, removed: describeSection(existing), added: describeSection(primary.value) };
+      break;
+    case 'add':
+      summary = { section: parent?.title || 'New section', added: describeSection(primary.value) };
+      break;
+    case 'remove':
+      summary = { section: existing?.title, removed: describeSection(existing) };
+      break;
+    default:
+      summary = { section: existing?.title, added: `${primary.op === 'move' ? 'Moved' : 'Copied'} to ${primary.path}` };
+  }
+
+  const topLevel = outline?.sections?.[Number(tokens[1])];
+  const sectionPath = primary.op === 'add' && tokens.length === 2
+    ? (primary.value as any).path
+    : topLevel ? (topLevel.path || topLevel.id) : null;
+
+  return {
+    sectionPath,
+    diff: { patch: guardedPatch, ...summary }
+  };
+}
+
+function requestedBranch(req: any): string {
+  return typeof req.query.branch === 'string' && req.query.branch ? req.query.branch : 'main';
+}
+
+// A branch's history: its own revisions, preceded by its parent's revisions
+// up to the point it was forked from or last merged with. Newest first.
+function branchLineage(branchName: string, branchDrafts: Draft[], revisionList: Revision[]): Revision[] {
+  const draft = branchDrafts.find(candidate => candidate.branchName === branchName);
+  if (!draft) return [];
+
+  const own = revisionList.filter(revision => revision.draftId === draft.id);
+  if (!draft.parentBranch || draft.baseRevision === null) return own;
+
+  const inherited = branchLineage(draft.parentBranch, branchDrafts, revisionList)
+    .filter(revision => revision.number <= draft.baseRevision!);
+  return [...own, ...inherited].sort((a, b) => b.number - a.number);
+}
+
+// Revisions snapshot the draft content with its outline; early snapshots
+// only stored content, whose sections then stand in for the outline
+function revisionOutline(revision: Revision): any {
+  const content = revision.content as any;
+  return content?.outline || { sections: Array.isArray(content?.sections) ? content.sections : [] };
+}
+
+function describeRevision(revision: Revision): string {
+  const metadata = (revision.metadata || {}) as any;
+  if (Array.isArray(metadata.appliedSuggestions)) {
+    return `Applied ${metadata.appliedSuggestions.length} suggestions`;
+  }
+  if (metadata.appliedSuggestion) {
+    return `Applied suggestion: ${metadata.suggestionRationale || metadata.appliedSuggestion}`;
+  }
+  if (metadata.restoredFrom) {
+    return `Restored from revision ${metadata.restoredFrom}`;
+  }
+  if (metadata.reason === 'suggestion_base') {
+    return 'Snapshot before AI suggestions';
+  }
+  if (metadata.reason === 'fork' || metadata.reason === 'merge') {
+    return `Snapshot before ${metadata.reason}`;
+  }
+  if (metadata.forkedFrom) {
+    return `Forked from ${metadata.forkedFrom} at revision ${metadata.forkedFromRevision}`;
+  }
+  if (metadata.mergedFrom) {
+    return `Merged ${metadata.mergedFrom} (revision ${metadata.mergedRevision})`;
+  }
+  return 'Manual snapshot';
+}
+
+// Returns the number of a revision matching the draft's current outline,
+// snapshotting one first if the draft has changed since its latest revision.
+// Suggestions and branches record it as the base for three-way merges.
+async function ensureDraftRevision(
+  draft: Draft, 
+  reason: 'suggestion_base' | 'fork' | 'merge' = 'suggestion_base'
+): Promise<number> {
+  const existingRevisions = await storage.getRevisions(draft.workspaceId);
+  const latest = existingRevisions.find(revision => revision.draftId === draft.id);
+  if (latest && deepEqual((latest.content as any)?.outline, draft.outline)) {
+    return latest.number;
+  }
+
+  const revision = await storage.createRevision({
+    workspaceId: draft.workspaceId,
+    draftId: draft.id,
+    content: { ...(draft.content as any), outline: draft.outline },
+    metadata: { snapshot: true, reason }
+  });
+  await storage.updateDraft(draft.workspaceId, { currentRevision: revision.number }, draft.branchName);
+
+  return revision.number;
+}
+
+type BranchMergePlan =
+  | { source: Draft, target: Draft, baseRevision: number, merged: any, conflicts: ReturnType<typeof describeMergeConflict>[] }
+  | { status: number, body: Record<string, unknown> };
+
+// Three-way merges `branchName` into `into` (its parent by default). Merges
+// only run between a branch and its parent, using the revision the child was
+// forked from or last merged at as the common ancestor.
+async function planBranchMerge(
+  workspaceId: string,
+  branchName: string,
+  into: string | undefined,
+  resolutions: ConflictResolutions
+): Promise<BranchMergePlan> {
+  const source = await storage.getDraft(workspaceId, branchName);
+  if (!source) {
+    return { status: 404, body: { error: `Branch "${branchName}" not found` } };
+  }
+
+  const targetName = into || source.parentBranch;
+  if (!targetName) {
+    return { status: 400, body: { error: `Branch "${branchName}" has no parent to merge into` } };
+  }
+
+  const target = await storage.getDraft(workspaceId, targetName);
+  if (!target) {
+    return { status: 404, body: { error: `Branch "${targetName}" not found` } };
+  }
+
+  const child = target.parentBranch === source.branchName ? target : source.parentBranch === target.branchName ? source : null;
+  if (!child || child.baseRevision === null) {
+    return { status: 400, body: { error: 'Branches can only be merged with their parent' } };
+  }
+
+  const existingRevisions = await storage.getRevisions(workspaceId);
+  const base = existingRevisions.find(revision => revision.number === child.baseRevision);
+  if (!base) {
+    return { status: 404, body: { error: `Base revision ${child.baseRevision} not found` } };
+  }
+
+  const baseOutline = revisionOutline(base);
+  const { merged, conflicts } = threeWayMerge(baseOutline, target.outline, source.outline, resolutions);
+
+  return {
+    source,
+    target,
+    baseRevision: base.number,
+    merged,
+    conflicts: conflicts.map(conflict => describeMergeConflict(conflict, baseOutline, target.outline))
+  };
+}
+
+type SuggestionApplyResult =
+  | { outline: any }
+  | { status: number, body: Record<string, unknown> };
+
+// Applies a suggestion's patch to `outline`. Suggestions with a base revision
+// are replayed on that revision and three-way merged into the outline; older
+// ones can only apply to an unchanged draft, which their test operations check.
+function applySuggestionToOutline(
+  suggestion: Suggestion,
+  outline: any,
+  revisions: Revision[],
+  resolutions: ConflictResolutions
+): SuggestionApplyResult {
+  const diff = suggestion.diff as SuggestionDiff;
+  const baseRevision = revisions.find(revision => revision.number === suggestion.baseRevision);
+
+  if (!baseRevision) {
+    try {
+      return { outline: applyJsonPatch(outline, diff.patch) };
+    } catch (error) {
+      if (!(error instanceof JsonPatchError)) throw error;
+      const stale = error.code === 'TEST_FAILED' || error.code === 'PATH_NOT_FOUND' || error.code === 'INVALID_INDEX';
+      return {
+        status: stale ? 409 : 422,
+        body: {
+          error: stale 
+            ? 'Draft has changed since this suggestion was made' 
+            : 'Suggestion cannot be applied to the draft',
+          details: error.message,
+          code: error.code,
+          operationIndex: error.operationIndex
         }
-        current = current[pathParts[i]];
+      };
+    }
+  }
+
+  const baseOutline = (baseRevision.content as any)?.outline || { sections: [] };
+  let suggestedOutline: any;
+  try {
+    suggestedOutline = applyJsonPatch(baseOutline, diff.patch);
+  } catch (error) {
+    if (!(error instanceof JsonPatchError)) throw error;
+    return {
+      status: 422,
+      body: {
+        error: 'Suggestion cannot be applied to its base revision',
+        details: error.message,
+        code: error.code,
+        operationIndex: error.operationIndex
       }
-      
-      if (Array.isArray(current[pathParts[pathParts.length - 1]])) {
-        current[pathParts[pathParts.length - 1]].push(diff.newValue);
-      } else {
-        current[pathParts[pathParts.length - 1]] = diff.newValue;
+    };
+  }
+
+  const { merged, conflicts } = threeWayMerge(baseOutline, outline, suggestedOutline, resolutions);
+  if (conflicts.length > 0) {
+    return {
+      status: 409,
+      body: {
+        error: 'Suggestion conflicts with changes made since it was generated',
+        baseRevision: baseRevision.number,
+        conflicts: conflicts.map(conflict => describeMergeConflict(conflict, baseOutline, outline))
       }
-      
-      return contentCopy;
+    };
+  }
+
+  return { outline: merged };
+}
+
+// Adds the section title and field to a merge conflict so the UI can label it
+function describeMergeConflict(conflict: MergeConflict, baseOutline: any, currentOutline: any) {
+  const tokens = parseJsonPointer(conflict.path);
+  let section: any = null;
+  let field: string | null = null;
+
+  // Conflict paths name sections by id: /sections/<id>/children/<id>/content
+  for (let i = 1; i < tokens.length; i += 2) {
+    const siblings = i === 1 
+      ? [currentOutline?.sections, baseOutline?.sections] 
+      : [section?.children];
+    const match = siblings
+      .flatMap(list => Array.isArray(list) ? list : [])
+      .find((candidate: any) => candidate?.id === tokens[i]);
+    if (!match) break;
+    section = match;
+    field = tokens[i + 1] === 'children' ? null : tokens[i + 1] || null;
+  }
+
+  return { 
+    ...conflict, 
+    section: section?.title || conflict.path, 
+    field 
+  };
+}
+
+function getChatMessageText(message: any): string {
+  // AI SDK v5 clients send UI messages with parts; older clients send content
+  if (typeof message?.content === 'string') {
+    return message.content;
+  }
+
+  return (message?.parts || [])
+    .filter((part: any) => part.type === 'text')
+    .map((part: any) => part.text)
+    .join('');
+}
+
+const WORKSPACE_CHAT_TOOLS: Anthropic.Tool[] = [
+  {
+    name: 'propose_section_edit',
+    description: 'Propose new content for an existing draft section. The editor reviews the change before it is applied.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'JSON Pointer of the section, e.g. "/sections/0" or "/sections/0/children/1"' },
+        content: { type: 'string', description: 'The full replacement content for the section' },
+        rationale: { type: 'string', description: 'Why this edit improves the draft' }
+      },
+      required: ['path', 'content', 'rationale']
     }
-    
-    // If we can't apply the diff, return original content
-    return content;
-  } catch (error) {
-    console.error('Error applying suggestion diff:', error);
-    return content;
+  },
+  {
+    name: 'add_pattern',
+    description: 'Propose a new pattern as a child of an existing section, or as a new top-level section when parentPath is omitted.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        parentPath: { type: 'string', description: 'JSON Pointer of the parent section, e.g. "/sections/1"' },
+        title: { type: 'string', description: 'Pattern name' },
+        content: { type: 'string', description: 'Pattern description, signals and protocol' },
+        rationale: { type: 'string', description: 'Why the draft needs this pattern' }
+      },
+      required: ['title', 'content', 'rationale']
+    }
+  },
+  {
+    name: 'rename_section',
+    description: 'Propose a clearer title for an existing draft section.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'JSON Pointer of the section, e.g. "/sections/2"' },
+        title: { type: 'string', description: 'The new section title' },
+        rationale: { type: 'string', description: 'Why the new title is better' }
+      },
+      required: ['path', 'title', 'rationale']
+    }
+  }
+];
+
+function suggestionPatchFromToolCall(name: string, input: any): { patch: JsonPatch, rationale: string } | { error: string } {
+  if (!input || typeof input.rationale !== 'string' || input.rationale.trim().length === 0) {
+    return { error: `${name} call is missing a rationale` };
+  }
+
+  switch (name) {
+    case 'propose_section_edit':
+      return {
+        rationale: input.rationale,
+        patch: [{ op: 'replace', path: `${input.path}/content`, value: input.content }]
+      };
+    case 'rename_section':
+      return {
+        rationale: input.rationale,
+        patch: [{ op: 'replace', path: `${input.path}/title`, value: input.title }]
+      };
+    case 'add_pattern':
+      return {
+        rationale: input.rationale,
+        patch: [{ 
+          op: 'add', 
+          path: input.parentPath ? `${input.parentPath}/children/-` : '/sections/-', 
+          value: { title: input.title, content: input.content } 
+        }]
+      };
+    default:
+      return { error: `Unknown tool "${name}"` };
+  }
+}
+
+// Streams a workspace chat turn, turning every tool call into a stored suggestion
+async function streamWorkspaceChat({
+  workspaceId,
+  draft,
+  systemPrompt,
+  modelId,
+  messages,
+  onText,
+  onSuggestion
+}: {
+  workspaceId: string;
+  draft: Draft | undefined;
+  systemPrompt: string;
+  modelId: string;
+  messages: { role: 'user' | 'assistant', content: string }[];
+  onText: (text: string) => void;
+  onSuggestion: (suggestion: Suggestion) => void;
+}): Promise<{ fullResponse: string, suggestions: Suggestion[] }> {
+  const stream = await anthropic.messages.create({
+    model: modelId,
+    max_tokens: 2000,
+    temperature: 0.7,
+    system: systemPrompt,
+    messages,
+    // Without a draft there is nothing for a suggestion to point at
+    ...(draft && { tools: WORKSPACE_CHAT_TOOLS }),
+    stream: true
+  });
+
+  let fullResponse = '';
+  const suggestions: Suggestion[] = [];
+  let baseRevision: number | undefined;
+  const toolCalls = new Map<number, { name: string, inputJson: string }>();
+
+  for await (const chunk of stream) {
+    if (chunk.type === 'content_block_start' && chunk.content_block.type === 'tool_use') {
+      toolCalls.set(chunk.index, { name: chunk.content_block.name, inputJson: '' });
+    } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+      fullResponse += chunk.delta.text;
+      onText(chunk.delta.text);
+    } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'input_json_delta') {
+      const toolCall = toolCalls.get(chunk.index);
+      if (toolCall) {
+        toolCall.inputJson += chunk.delta.partial_json;
+      }
+    } else if (chunk.type === 'content_block_stop' && toolCalls.has(chunk.index) && draft) {
+      const toolCall = toolCalls.get(chunk.index)!;
+
+      let input: any;
+      try {
+        input = JSON.parse(toolCall.inputJson || '{}');
+      } catch {
+        console.error(`Unparseable ${toolCall.name} input:`, toolCall.inputJson);
+        continue;
+      }
+
+      const proposal = suggestionPatchFromToolCall(toolCall.name, input);
+      if ('error' in proposal) {
+        console.error('Skipped chat suggestion:', proposal.error);
+        continue;
+      }
+
+      const validation = buildSuggestionDiff(draft.outline, proposal.patch);
+      if ('error' in validation) {
+        console.error('Skipped chat suggestion:', validation.error);
+        continue;
+      }
+
+      baseRevision ??= await ensureDraftRevision(draft);
+      const suggestion = await storage.createSuggestion({
+        workspaceId,
+        draftId: draft.id,
+        baseRevision,
+        sectionPath: validation.sectionPath,
+        diff: validation.diff,
+        rationale: proposal.rationale.trim(),
+        status: 'proposed'
+      });
+      suggestions.push(suggestion);
+
+      await storage.createActivity({
+        workspaceId,
+        type: 'suggestion_created',
+        payload: { 
+          suggestionId: suggestion.id,
+          type: validation.diff.patch[validation.diff.patch.length - 1].op,
+          sectionPath: suggestion.sectionPath,
+          source: toolCall.name
+        }
+      });
+
+      onSuggestion(suggestion);
+    }
+  }
+
+  if (!fullResponse && suggestions.length > 0) {
+    fullResponse = `I proposed ${suggestions.length} change${suggestions.length === 1 ? '' : 's'} to the draft.`;
+    onText(fullResponse);
+  }
+
+  return { fullResponse, suggestions };
+}
+
+type CommentDocument = { issue?: Issue; workspace?: Workspace };
+
+// What a comment is on, if the user may see it. Workspaces are private to
+// their owner; issues are open to every admin.
+async function loadCommentDocument(
+  anchor: { issueSlug?: string | null; workspaceId?: string | null },
+  userId: string
+): Promise<CommentDocument | { status: number; error: string }> {
+  if (anchor.issueSlug) {
+    const issue = await storage.getIssue(anchor.issueSlug);
+    return issue ? { issue } : { status: 404, error: 'Issue not found' };
+  }
+
+  const workspace = anchor.workspaceId ? await storage.getWorkspace(anchor.workspaceId) : undefined;
+  if (!workspace) {
+    return { status: 404, error: 'Workspace not found' };
+  }
+  if (workspace.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+  return { workspace };
+}
+
+// Users named with @username; unknown names are left as plain text
+async function mentionedUserIds(body: string): Promise<string[]> {
+  const ids: string[] = [];
+  for (const username of extractMentions(body)) {
+    const user = await storage.getUserByUsername(username);
+    if (user) ids.push(user.id);
+  }
+  return ids;
+}
+
+// Comments with the usernames of their author, resolver and mentions
+async function toCommentViews(commentList: Comment[]) {
+  const userIds = new Set<string>();
+  commentList.forEach(comment => {
+    if (comment.authorId) userIds.add(comment.authorId);
+    if (comment.resolvedBy) userIds.add(comment.resolvedBy);
+    (comment.mentions as string[]).forEach(id => userIds.add(id));
+  });
+
+  const usernames = new Map<string, string | null>();
+  for (const userId of Array.from(userIds)) {
+    usernames.set(userId, (await storage.getUser(userId))?.username ?? null);
+  }
+  const username = (id: string | null) => id ? usernames.get(id) ?? null : null;
+
+  return commentList.map(comment => ({
+    ...comment,
+    author: username(comment.authorId),
+    resolvedByName: username(comment.resolvedBy),
+    mentions: (comment.mentions as string[]).map(username).filter(Boolean) as string[]
+  }));
+}
+
+// Comments show up in the activity of the workspace they're on. Issue
+// comments go to the workspace the issue was published from, if any, and
+// to the issue's own activity either way.
+async function logCommentActivity(
+  document: CommentDocument,
+  comment: Comment,
+  view: Awaited<ReturnType<typeof toCommentViews>>[number]
+) {
+  const sourceWorkspaceId = (document.issue?.metadata as any)?.sourceWorkspaceId;
+  const workspaceId: string | null = document.workspace?.id
+    ?? (sourceWorkspaceId && await storage.getWorkspace(sourceWorkspaceId) ? sourceWorkspaceId : null);
+
+  let sectionTitle: string | undefined;
+  if (comment.sectionId && document.issue) {
+    sectionTitle = (document.issue.sections as IssueSection[]).find(section => section.id === comment.sectionId)?.title;
+  } else if (comment.sectionId && workspaceId) {
+    const draft = await storage.getDraft(workspaceId);
+    sectionTitle = findOutlineSection(draft?.outline, comment.sectionId)?.title;
   }
+
+  await storage.createActivity({
+    workspaceId,
+    issueSlug: comment.issueSlug,
+    type: 'comment_added',
+    payload: {
+      commentId: comment.id,
+      threadId: comment.parentId ?? comment.id,
+      reply: !!comment.parentId,
+      author: view.author,
+      issueSlug: comment.issueSlug,
+      target: describeCommentTarget({ sectionTitle, pattern: comment.pattern, field: comment.field }),
+      mentions: view.mentions,
+      excerpt: comment.body.length > 140 ? `${comment.body.slice(0, 140)}…` : comment.body
+    }
+  });
+}
+
+function findOutlineSection(outline: any, sectionId: string): any {
+  const search = (sections: any[] = []): any => {
+    for (const section of sections) {
+      if (section.id === sectionId) return section;
+      const found = search(section.children);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  return search(outline?.sections);
+}
+
+// Optimistic concurrency: clients name the version they edited with an
+// If-Match header carrying the ETag, or an `updatedAt` in the body. Returns
+// undefined when there is no precondition and null when it is malformed.
+function requestedUpdatedAt(req: any): Date | null | undefined {
+  const ifMatch: string | undefined = req.get('If-Match');
+  const raw = ifMatch && ifMatch.trim() !== '*'
+    ? ifMatch.trim().replace(/^W\//, '').replace(/"/g, '')
+    : req.body?.updatedAt;
+  if (raw === undefined || raw === null || raw === '') return undefined;
+
+  const date = /^\d+$/.test(String(raw)) ? new Date(Number(raw)) : new Date(raw);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function entityTag(record: { updatedAt: Date | string }): string {
+  return `"${new Date(record.updatedAt).getTime()}"`;
+}
+
+// 409 with the server's copy, so the client can merge instead of overwriting
+function sendStaleUpdate(res: any, resource: 'draft' | 'issue' | 'workspace', current: { updatedAt: Date }) {
+  res.set('ETag', entityTag(current));
+  return res.status(409).json({
+    error: `This ${resource} was changed by someone else`,
+    details: 'Merge your changes with the current version and save again',
+    [resource]: current
+  });
+}
+
+// The bookmark of this item, if the reader has one. Items without a section
+// or pattern store null there.
+function bookmarkMatch(userId: string, bookmark: ReaderBookmark) {
+  return and(
+    eq(bookmarks.userId, userId),
+    eq(bookmarks.issueSlug, bookmark.issueSlug),
+    eq(bookmarks.bookmarkType, bookmark.bookmarkType),
+    bookmark.sectionId ? eq(bookmarks.sectionId, bookmark.sectionId) : isNull(bookmarks.sectionId),
+    bookmark.patternName ? eq(bookmarks.patternName, bookmark.patternName) : isNull(bookmarks.patternName)
+  );
+}
+
+function newBookmarkRow(userId: string, bookmark: ReaderBookmark) {
+  return {
+    userId,
+    issueSlug: bookmark.issueSlug,
+    sectionId: bookmark.sectionId || null,
+    patternName: bookmark.patternName || null,
+    bookmarkType: bookmark.bookmarkType,
+    notes: bookmark.notes || null,
+    ...(bookmark.createdAt && { createdAt: bookmark.createdAt }),
+  };
+}
+
+// The given slugs that readers can open, without duplicates
+async function publicIssueSlugs(slugs: string[]): Promise<string[]> {
+  const visibility = await storage.getIssueVisibility(Array.from(new Set(slugs)));
+  return visibility.filter(issue => issue.public).map(issue => issue.slug);
+}
+
+// The same bookmark, whether saved in an account or in the browser
+function bookmarkKey(bookmark: Pick<Bookmark, 'issueSlug' | 'bookmarkType'> & { sectionId?: string | null; patternName?: string | null }): string {
+  return [bookmark.issueSlug, bookmark.bookmarkType, bookmark.sectionId || '', bookmark.patternName || ''].join('/');
+}
+
+// Adds issue and section titles from the search index, with one query for
+// issues and one for sections however many bookmarks there are
+async function describeBookmarks<T extends Pick<Bookmark, 'issueSlug'> & { sectionId?: string | null }>(bookmarkList: T[]) {
+  // The search index holds unreleased issues too, so only public ones are
+  // looked up; bookmarks on the rest come back without titles
+  const slugs = await publicIssueSlugs(bookmarkList.map(bookmark => bookmark.issueSlug));
+  const sectionIds = Array.from(new Set(bookmarkList.flatMap(bookmark => bookmark.sectionId ? [bookmark.sectionId] : [])));
+  const entryFields = {
+    issueSlug: searchIndex.issueSlug,
+    sectionId: searchIndex.sectionId,
+    patternName: searchIndex.patternName,
+    metadata: searchIndex.metadata,
+  };
+
+  const [issueEntries, sectionEntries] = await Promise.all([
+    slugs.length > 0
+      ? db.select(entryFields)
+          .from(searchIndex)
+          .where(and(inArray(searchIndex.issueSlug, slugs), eq(searchIndex.contentType, 'issue')))
+      : [],
+    sectionIds.length > 0
+      ? db.select(entryFields)
+          .from(searchIndex)
+          .where(and(
+            inArray(searchIndex.issueSlug, slugs),
+            inArray(searchIndex.sectionId, sectionIds),
+            eq(searchIndex.contentType, 'section')
+          ))
+      : [],
+  ]);
+
+  const issueEntry = new Map(issueEntries.reverse().map(entry => [entry.issueSlug, entry]));
+  const sectionEntry = new Map(sectionEntries.reverse().map(entry => [`${entry.issueSlug}/${entry.sectionId}`, entry]));
+
+  return bookmarkList.map(bookmark => {
+    const metadata: any = {};
+
+    const issue = issueEntry.get(bookmark.issueSlug);
+    if (issue) {
+      metadata.issueTitle = (issue.metadata as any)?.title || issue.patternName;
+    }
+
+    const section = bookmark.sectionId ? sectionEntry.get(`${bookmark.issueSlug}/${bookmark.sectionId}`) : undefined;
+    if (section) {
+      metadata.sectionTitle = section.patternName;
+      metadata.sectionColor = (section.metadata as any)?.color;
+    }
+
+    return {
+      ...bookmark,
+      metadata
+    };
+  });
 }
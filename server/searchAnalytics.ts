@@ -0,0 +1,226 @@
+import { db } from './db';
+import { searchLogs, searchClicks, type SearchClick, type SearchRequest } from '@shared/schema';
+import type { IssueSection } from '@shared/publish';
+import { sql, eq, and, gte, lt, desc, isNull, isNotNull } from 'drizzle-orm';
+import { storage } from './storage';
+
+// What readers search for, and which results they open, so editors can see
+// what's missing. Nothing identifies the reader: no user, session or address
+// is stored, and queries are normalized with contact details taken out.
+//
+// Search runs as the reader types, so every first page is logged but only
+// counts once the reader settles on it (see settleSearch). The prefixes
+// typed on the way are never settled and get pruned.
+
+// Longest query kept, after normalizing
+const MAX_QUERY_LENGTH = 200;
+
+// Rows in each list of the report
+const REPORT_LIMIT = 25;
+
+// How long an unsettled search is kept, and how often they're pruned
+const UNSETTLED_RETENTION = 60 * 60 * 1000;
+let lastPrunedAt = 0;
+
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[^\s@]+/g;
+// Phone, card and account numbers: long runs of digits with separators
+const NUMBER_PATTERN = /\+?\d[\d\s().-]{6,}\d/g;
+
+export type LoggedPattern = {
+  issueSlug: string;
+  sectionId: string;
+  patternName: string;
+};
+
+export interface QueryStats {
+  query: string;
+  searches: number;
+  averageResults: number;
+  clicks: number;
+  // Share of searches with at least one click
+  clickThroughRate: number;
+  lastSearchedAt: string;
+}
+
+export interface NeverFoundPattern extends LoggedPattern {
+  issueTitle: string;
+  sectionTitle: string;
+}
+
+export interface SearchAnalyticsReport {
+  days: number;
+  totalSearches: number;
+  zeroResultSearches: number;
+  totalClicks: number;
+  topQueries: QueryStats[];
+  zeroResultQueries: QueryStats[];
+  // Listed patterns that no logged search returned on its first page
+  neverFound: NeverFoundPattern[];
+}
+
+// Lowercased, single-spaced and truncated, with emails and long numbers
+// replaced so that personal details don't end up in the log
+export function normalizeQuery(query: string): string {
+  return query
+    .replace(EMAIL_PATTERN, '[email]')
+    .replace(NUMBER_PATTERN, '[number]')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_QUERY_LENGTH);
+}
+
+// Records a search and returns its id for click beacons, or null when it
+// couldn't be logged. Logging never fails the search itself.
+export async function logSearch(request: SearchRequest, resultCount: number, results: LoggedPattern[]): Promise<string | null> {
+  try {
+    const query = normalizeQuery(request.query);
+    if (!query) return null;
+
+    const { issueSlug, sectionId, contentType } = request;
+    const filters = Object.fromEntries(
+      Object.entries({ issueSlug, sectionId, contentType }).filter(([, value]) => value)
+    );
+
+    const [log] = await db
+      .insert(searchLogs)
+      .values({
+        query,
+        mode: request.mode,
+        filters: Object.keys(filters).length > 0 ? filters : null,
+        resultCount,
+        results: results.map(({ issueSlug, sectionId, patternName }) => ({ issueSlug, sectionId, patternName })),
+      })
+      .returning({ id: searchLogs.id });
+    void pruneUnsettledSearches().catch(error => console.error('Failed to prune unsettled searches:', error));
+    return log.id;
+  } catch (error) {
+    console.error('Failed to log search:', error);
+    return null;
+  }
+}
+
+// Counts a search in the report: the reader pressed Enter on it or closed
+// search with it. Returns false when the search isn't logged.
+export async function settleSearch(searchId: string): Promise<boolean> {
+  const settled = await db
+    .update(searchLogs)
+    .set({ settledAt: sql`coalesce(${searchLogs.settledAt}, now())` })
+    .where(eq(searchLogs.id, searchId))
+    .returning({ id: searchLogs.id });
+  return settled.length > 0;
+}
+
+// Opening a result settles its search. Returns false when the search isn't
+// logged, e.g. an id from a stale page.
+export async function logClick(click: SearchClick): Promise<boolean> {
+  if (!(await settleSearch(click.searchId))) return false;
+
+  await db.insert(searchClicks).values(click);
+  return true;
+}
+
+async function pruneUnsettledSearches() {
+  if (Date.now() - lastPrunedAt < UNSETTLED_RETENTION) return;
+  lastPrunedAt = Date.now();
+  await db
+    .delete(searchLogs)
+    .where(and(
+      isNull(searchLogs.settledAt),
+      lt(searchLogs.createdAt, new Date(Date.now() - UNSETTLED_RETENTION))
+    ));
+}
+
+export async function getSearchAnalytics(days = 30): Promise<SearchAnalyticsReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const inWindow = and(gte(searchLogs.createdAt, since), isNotNull(searchLogs.settledAt));
+
+  // Clicks per search, so a search counts once however many results it opened
+  const clicked = db
+    .select({
+      searchId: searchClicks.searchId,
+      clicks: sql<number>`count(*)::int`.as('clicks'),
+    })
+    .from(searchClicks)
+    .groupBy(searchClicks.searchId)
+    .as('clicked');
+
+  const queryStats = (zeroResultsOnly: boolean) => db
+    .select({
+      query: searchLogs.query,
+      searches: sql<number>`count(*)::int`,
+      averageResults: sql<number>`avg(${searchLogs.resultCount})::float`,
+      clicks: sql<number>`coalesce(sum(${clicked.clicks}), 0)::int`,
+      clickedSearches: sql<number>`count(${clicked.searchId})::int`,
+      lastSearchedAt: sql<Date>`max(${searchLogs.createdAt})`,
+    })
+    .from(searchLogs)
+    .leftJoin(clicked, eq(clicked.searchId, searchLogs.id))
+    .where(zeroResultsOnly ? and(inWindow, eq(searchLogs.resultCount, 0)) : inWindow)
+    .groupBy(searchLogs.query)
+    .orderBy(desc(sql`count(*)`), desc(sql`max(${searchLogs.createdAt})`))
+    .limit(REPORT_LIMIT);
+
+  const [topRows, zeroRows, [totals], [clickTotals], foundRows, issues] = await Promise.all([
+    queryStats(false),
+    queryStats(true),
+    db
+      .select({
+        searches: sql<number>`count(*)::int`,
+        zeroResults: sql<number>`count(*) filter (where ${searchLogs.resultCount} = 0)::int`,
+      })
+      .from(searchLogs)
+      .where(inWindow),
+    db
+      .select({ clicks: sql<number>`count(*)::int` })
+      .from(searchClicks)
+      .where(gte(searchClicks.createdAt, since)),
+    db.execute<LoggedPattern>(sql`
+      select distinct
+        result->>'issueSlug' as "issueSlug",
+        result->>'sectionId' as "sectionId",
+        result->>'patternName' as "patternName"
+      from ${searchLogs}, jsonb_array_elements(${searchLogs.results}) as result
+      where ${searchLogs.createdAt} >= ${since} and ${searchLogs.settledAt} is not null
+    `),
+    storage.getPublishedIssues(),
+  ]);
+
+  const toStats = (row: typeof topRows[number]): QueryStats => ({
+    query: row.query,
+    searches: row.searches,
+    averageResults: row.averageResults,
+    clicks: row.clicks,
+    clickThroughRate: row.searches > 0 ? row.clickedSearches / row.searches : 0,
+    lastSearchedAt: new Date(row.lastSearchedAt).toISOString(),
+  });
+
+  const found = new Set(foundRows.rows.map(row => patternKey(row)));
+  const neverFound: NeverFoundPattern[] = issues.flatMap(issue =>
+    ((issue.sections as IssueSection[]) || []).flatMap(section =>
+      section.entries
+        .filter(entry => !found.has(patternKey({ issueSlug: issue.slug, sectionId: section.id, patternName: entry.pattern })))
+        .map(entry => ({
+          issueSlug: issue.slug,
+          issueTitle: issue.title,
+          sectionId: section.id,
+          sectionTitle: section.title,
+          patternName: entry.pattern,
+        }))
+    )
+  );
+
+  return {
+    days,
+    totalSearches: totals.searches,
+    zeroResultSearches: totals.zeroResults,
+    totalClicks: clickTotals.clicks,
+    topQueries: topRows.map(toStats),
+    zeroResultQueries: zeroRows.map(toStats),
+    neverFound,
+  };
+}
+
+function patternKey({ issueSlug, sectionId, patternName }: LoggedPattern): string {
+  return `${issueSlug}/${sectionId}/${patternName}`;
+}
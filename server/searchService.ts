@@ -1,267 +1,707 @@
 import { db } from './db';
-import { searchIndex, type InsertSearchIndex } from '@shared/schema';
-import { sql, like, ilike, or, and } from 'drizzle-orm';
-import fs from 'fs/promises';
-import path from 'path';
+import { searchIndex, issues, type InsertSearchIndex, type Issue, type SearchRequest } from '@shared/schema';
+import type { IssueEntry, IssueSection } from '@shared/publish';
+import { parseSearchQuery, hasSearchTerms, type ParsedSearchQuery, type SearchClause } from '@shared/searchQuery';
+import { sql, eq, ne, desc, ilike, and, or, not, inArray, notInArray, isNotNull, cosineDistance, type SQL } from 'drizzle-orm';
+import { storage, storageEvents, readerIssue } from './storage';
+import { embedText, embedTexts } from './embeddings';
 
+// One matching entry: a pattern's name, description, signal or protocol,
+// or a section or issue
+interface SearchHit {
+  id: string;
+  contentType: string;
+  content: string;
+  relevanceScore: number;
+  // Snippet of the content split into runs, with the matched terms marked
+  highlights: SearchHighlight[];
+}
+
+// A pattern (or section, or issue) with every entry of it that matched,
+// best first
 interface SearchResult {
   id: string;
   issueSlug: string;
   sectionId: string;
   patternName: string;
-  content: string;
-  contentType: string;
   metadata: any;
   relevanceScore: number;
+  hits: SearchHit[];
+  // Whether the result matched the query's words, its meaning, or both
+  matchedBy: SearchMatch[];
+}
+
+type SearchMatch = 'keyword' | 'semantic';
+
+interface SearchHighlight {
+  text: string;
+  match: boolean;
+}
+
+interface SearchFacet {
+  value: string;
+  label: string;
+  count: number;
+}
+
+// Matching patterns per issue, section and content type, counted like
+// totalCount. Each facet ignores its own filter so the other choices keep
+// their counts.
+interface SearchFacets {
+  issues: SearchFacet[];
+  sections: (SearchFacet & { issueSlug: string })[];
+  contentTypes: SearchFacet[];
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  // Results across all pages
+  totalCount: number;
+  nextCursor: string | null;
+  facets: SearchFacets;
 }
 
-interface SearchQuery {
-  query: string;
+interface SearchFilters {
   issueSlug?: string;
+  sectionId?: string;
   contentType?: string;
-  limit?: number;
+}
+
+export class InvalidSearchCursorError extends Error {
+  constructor() {
+    super('Invalid search cursor');
+  }
+}
+
+export interface RelatedPattern {
+  issueSlug: string;
+  issueTitle: string;
+  sectionId: string;
+  sectionTitle: string | null;
+  patternName: string;
+  description: string;
+  similarity: number;
+}
+
+// Cosine similarity below which patterns aren't considered related
+const MIN_SIMILARITY = 0.35;
+
+// Rank offset for reciprocal rank fusion; higher values flatten the
+// advantage of the top few results in each list
+const FUSION_K = 60;
+
+// Results taken from each list before fusing in hybrid mode, or more when
+// paging past them
+const HYBRID_CANDIDATES = 100;
+
+// Entries an issue currently has in the index, against what its content
+// would produce. An issue is stale when the two differ or it changed after it
+// was last indexed.
+export interface IssueIndexHealth {
+  slug: string;
+  title: string;
+  status: string;
+  entries: number;
+  expectedEntries: number;
+  indexedAt: Date | null;
+  updatedAt: Date;
+  stale: boolean;
+  // Patterns without an embedding, so missing from semantic search
+  missingEmbeddings: number;
+}
+
+// ts_headline marks matches with control characters that can't occur in
+// indexed text, so snippets are split without parsing HTML
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export interface SearchIndexHealth {
+  totalEntries: number;
+  issues: IssueIndexHealth[];
+  staleIssues: string[];
+  // Slugs with entries but no stored issue
+  orphanedSlugs: string[];
 }
 
 export class SearchService {
-  // Initialize search index from JSON data
+  // Index builds run one at a time so overlapping updates to an issue can't
+  // interleave their delete and insert
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Bring the index in line with the issues table: reindex every stored
+  // issue and drop entries for issues that no longer exist
   async initializeSearchIndex(): Promise<void> {
     try {
-      // Clear existing index
-      await db.delete(searchIndex);
-      
-      // Read issues data
-      const issuesData = await fs.readFile(
-        path.join(process.cwd(), 'data/issues.json'),
-        'utf-8'
-      );
-      const { issues } = JSON.parse(issuesData);
-
-      const indexEntries: InsertSearchIndex[] = [];
-
+      const issues = await storage.getIssues();
       for (const issue of issues) {
-        // Index issue metadata
-        indexEntries.push({
-          issueSlug: issue.slug,
-          sectionId: 'meta',
-          patternName: issue.meta.title,
-          content: `${issue.meta.title} ${issue.meta.subtitle} ${issue.meta.tagline} ${issue.intro}`,
-          contentType: 'issue',
-          metadata: {
-            title: issue.meta.title,
-            subtitle: issue.meta.subtitle,
-            version: issue.meta.version,
-            tagline: issue.meta.tagline,
-          },
-        });
-
-        // Index sections and patterns
-        for (const section of issue.sections) {
-          // Index section
-          indexEntries.push({
-            issueSlug: issue.slug,
-            sectionId: section.id,
-            patternName: section.title,
-            content: section.title,
-            contentType: 'section',
-            metadata: {
-              icon: section.icon,
-              color: section.color,
-              entryCount: section.entries.length,
-            },
-          });
-
-          // Index patterns and their content
-          for (const entry of section.entries) {
-            // Index pattern
-            indexEntries.push({
-              issueSlug: issue.slug,
-              sectionId: section.id,
-              patternName: entry.pattern,
-              content: entry.pattern,
-              contentType: 'pattern',
-              metadata: {
-                sectionTitle: section.title,
-                sectionColor: section.color,
-              },
-            });
-
-            // Index description
-            indexEntries.push({
-              issueSlug: issue.slug,
-              sectionId: section.id,
-              patternName: entry.pattern,
-              content: entry.description,
-              contentType: 'description',
-              metadata: {
-                sectionTitle: section.title,
-                sectionColor: section.color,
-              },
-            });
-
-            // Index signals
-            for (const signal of entry.signals) {
-              indexEntries.push({
-                issueSlug: issue.slug,
-                sectionId: section.id,
-                patternName: entry.pattern,
-                content: signal,
-                contentType: 'signal',
-                metadata: {
-                  sectionTitle: section.title,
-                  sectionColor: section.color,
-                },
-              });
-            }
-
-            // Index protocol
-            indexEntries.push({
-              issueSlug: issue.slug,
-              sectionId: section.id,
-              patternName: entry.pattern,
-              content: entry.protocol,
-              contentType: 'protocol',
-              metadata: {
-                sectionTitle: section.title,
-                sectionColor: section.color,
-              },
-            });
-          }
-        }
+        await this.indexIssue(issue.slug);
       }
 
-      // Batch insert
-      if (indexEntries.length > 0) {
-        await db.insert(searchIndex).values(indexEntries);
-      }
+      const slugs = issues.map(issue => issue.slug);
+      await this.enqueue(() => db
+        .delete(searchIndex)
+        .where(slugs.length > 0 ? notInArray(searchIndex.issueSlug, slugs) : undefined));
 
-      console.log(`Indexed ${indexEntries.length} search entries`);
+      const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(searchIndex);
+      console.log(`Indexed ${count} search entries for ${issues.length} issues`);
     } catch (error) {
       console.error('Failed to initialize search index:', error);
       throw error;
     }
   }
 
-  // Search across indexed content
-  async search({ query, issueSlug, contentType, limit = 20 }: SearchQuery): Promise<SearchResult[]> {
-    try {
-      const searchTerms = query.toLowerCase().split(' ').filter(term => term.length > 2);
-      
-      if (searchTerms.length === 0) {
-        return [];
+  // Replace an issue's entries with ones built from its current content.
+  // Every stored issue is indexed; search hides the ones readers can't list.
+  // The issue is read inside the queue, so when updates overlap the last
+  // one indexed is the latest content, however long embedding takes.
+  async indexIssue(slug: string): Promise<void> {
+    await this.enqueue(async () => {
+      const stored = await storage.getIssue(slug);
+      if (!stored) {
+        await db.delete(searchIndex).where(eq(searchIndex.issueSlug, slug));
+        return;
       }
 
-      // Build search conditions
-      const searchConditions = searchTerms.map(term => 
-        or(
-          ilike(searchIndex.content, `%${term}%`),
-          ilike(searchIndex.patternName, `%${term}%`)
-        )
-      );
+      // Changes still in review aren't searchable until they're published
+      const issue = readerIssue(stored);
+      const entries = buildIssueEntries(issue);
+
+      // Each pattern's description entry carries the embedding of the whole
+      // pattern. Without a model the entries are indexed for keywords only.
+      const descriptions = entries.filter(entry => entry.contentType === 'description');
+      const vectors = await embedTexts(issueSections(issue).flatMap(section => section.entries.map(patternEmbeddingText)));
+      vectors?.forEach((vector, index) => {
+        descriptions[index].embedding = vector;
+      });
+
+      await db.transaction(async (tx) => {
+        await tx.delete(searchIndex).where(eq(searchIndex.issueSlug, issue.slug));
+        if (entries.length > 0) {
+          await tx.insert(searchIndex).values(entries);
+        }
+      });
+    });
+  }
+
+  async removeIssue(slug: string): Promise<void> {
+    await this.enqueue(() => db.delete(searchIndex).where(eq(searchIndex.issueSlug, slug)));
+  }
+
+  async getIndexHealth(): Promise<SearchIndexHealth> {
+    const issues = await storage.getIssues();
+    const indexed = await db
+      .select({
+        issueSlug: searchIndex.issueSlug,
+        entries: sql<number>`count(*)::int`,
+        indexedAt: sql<Date>`max(${searchIndex.createdAt})`,
+        missingEmbeddings: sql<number>`count(*) FILTER (WHERE ${searchIndex.contentType} = 'description' AND ${searchIndex.embedding} IS NULL)::int`,
+      })
+      .from(searchIndex)
+      .groupBy(searchIndex.issueSlug);
+    const bySlug = new Map(indexed.map(row => [row.issueSlug, row]));
+
+    const health = issues.map((issue): IssueIndexHealth => {
+      const row = bySlug.get(issue.slug);
+      const entries = row?.entries ?? 0;
+      const expectedEntries = buildIssueEntries(readerIssue(issue)).length;
+      const indexedAt = row ? new Date(row.indexedAt) : null;
+      return {
+        slug: issue.slug,
+        title: issue.title,
+        status: issue.status,
+        entries,
+        expectedEntries,
+        indexedAt,
+        updatedAt: issue.updatedAt,
+        stale: entries !== expectedEntries || !indexedAt || indexedAt < issue.updatedAt,
+        missingEmbeddings: row?.missingEmbeddings ?? 0,
+      };
+    });
 
-      let whereCondition = or(...searchConditions);
+    const stored = new Set(issues.map(issue => issue.slug));
+    return {
+      totalEntries: indexed.reduce((total, row) => total + row.entries, 0),
+      issues: health,
+      staleIssues: health.filter(issue => issue.stale).map(issue => issue.slug),
+      orphanedSlugs: indexed.filter(row => !stored.has(row.issueSlug)).map(row => row.issueSlug),
+    };
+  }
 
-      // Add filters
-      if (issueSlug) {
-        whereCondition = and(whereCondition, sql`${searchIndex.issueSlug} = ${issueSlug}`);
+  // Search the indexed content with the syntax in shared/searchQuery.ts,
+  // a page at a time. Keyword mode is full-text only; hybrid mode fuses
+  // keyword and embedding matches. Either mode pages through every match.
+  // Facets count keyword matches in either mode.
+  async search({ query, mode, limit, cursor, ...selected }: SearchRequest): Promise<SearchPage> {
+    try {
+      const offset = cursor ? decodeCursor(cursor) : 0;
+      const parsed = parseSearchQuery(query);
+      if (!hasSearchTerms(parsed)) {
+        return { results: [], totalCount: 0, nextCursor: null, facets: { issues: [], sections: [], contentTypes: [] } };
       }
 
-      if (contentType) {
-        whereCondition = and(whereCondition, sql`${searchIndex.contentType} = ${contentType}`);
+      const unlisted = await this.unlistedIssueSlugs();
+      const listing = unlisted.length > 0 ? [notInArray(searchIndex.issueSlug, unlisted)] : [];
+      const conditions = [...parsed.groups.map(group => or(...group.map(clauseCondition))!), ...listing];
+      const filters = filterConditions(selected);
+
+      let results: SearchResult[];
+      let totalCount: number;
+      if (mode === 'keyword') {
+        ({ results, totalCount } = await this.keywordSearch(parsed, [...conditions, ...filters], offset, limit));
+      } else {
+        // Both lists reach at least the end of the page, so every pattern
+        // counted in the total can be paged to
+        const depth = Math.max(HYBRID_CANDIDATES, offset + limit);
+        const keyword = await this.keywordSearch(parsed, [...conditions, ...filters], 0, depth);
+        const semantic = await this.semanticSearch(parsed, [...listing, ...filters], depth);
+        const fused = fuseResults([keyword.results, semantic.results]);
+        results = fused.slice(offset, offset + limit);
+        totalCount = semantic.match
+          ? await this.countPatterns(or(and(...conditions, ...filters), semantic.match)!)
+          : keyword.totalCount;
       }
 
-      const results = await db
-        .select()
+      return {
+        results,
+        totalCount,
+        nextCursor: offset + limit < totalCount ? encodeCursor(offset + limit) : null,
+        facets: await this.facets(conditions, selected),
+      };
+    } catch (error) {
+      if (!(error instanceof InvalidSearchCursorError)) {
+        console.error('Search error:', error);
+      }
+      throw error;
+    }
+  }
+
+  // Full-text search grouped by pattern, ranked in the database by each
+  // pattern's best entry so paging follows relevance
+  private async keywordSearch(parsed: ParsedSearchQuery, conditions: SQL[], offset: number, limit: number): Promise<{ results: SearchResult[]; totalCount: number }> {
+    const tsQuery = rankingQuery(parsed);
+    const matches = db.$with('matches').as(
+      db
+        .select({
+          id: searchIndex.id,
+          issueSlug: searchIndex.issueSlug,
+          sectionId: searchIndex.sectionId,
+          patternName: searchIndex.patternName,
+          content: searchIndex.content,
+          contentType: searchIndex.contentType,
+          metadata: searchIndex.metadata,
+          rank: sql<number>`ts_rank_cd(${searchIndex.searchVector}, ${tsQuery}, 1)`.as('rank'),
+        })
         .from(searchIndex)
-        .where(whereCondition)
-        .limit(limit);
-
-      // Calculate relevance scores and sort
-      const scoredResults: SearchResult[] = results.map(result => {
-        let score = 0;
-        const content = result.content.toLowerCase();
-        const patternName = result.patternName.toLowerCase();
-        
-        // Exact matches get highest score
-        if (patternName.includes(query.toLowerCase())) {
-          score += 100;
-        }
-        
-        // Pattern name matches are highly weighted
-        searchTerms.forEach(term => {
-          if (patternName.includes(term)) {
-            score += 50;
-          }
-          if (content.includes(term)) {
-            score += 10;
-          }
-        });
+        .where(and(...conditions))
+    );
 
-        // Content type weighting
-        switch (result.contentType) {
-          case 'pattern':
-            score += 30;
-            break;
-          case 'issue':
-            score += 20;
-            break;
-          case 'section':
-            score += 15;
-            break;
-          case 'description':
-            score += 10;
-            break;
-          default:
-            score += 5;
-        }
+    const groupRank = sql<number>`max(${matches.rank})`;
+    const groups = await db
+      .with(matches)
+      .select({
+        issueSlug: matches.issueSlug,
+        sectionId: matches.sectionId,
+        patternName: matches.patternName,
+        rank: groupRank,
+        total: sql<number>`(count(*) OVER ())::int`,
+      })
+      .from(matches)
+      .groupBy(matches.issueSlug, matches.sectionId, matches.patternName)
+      .orderBy(desc(groupRank), matches.issueSlug, matches.sectionId, matches.patternName)
+      .offset(offset)
+      .limit(limit);
 
-        return {
-          ...result,
-          relevanceScore: score,
-        };
-      });
+    if (groups.length === 0) {
+      const [{ total }] = offset > 0
+        ? await db.with(matches).select({ total: sql<number>`count(DISTINCT (${matches.issueSlug}, ${matches.sectionId}, ${matches.patternName}))::int` }).from(matches)
+        : [{ total: 0 }];
+      return { results: [], totalCount: total };
+    }
 
-      // Sort by relevance and remove duplicates
-      return scoredResults
-        .sort((a, b) => b.relevanceScore - a.relevanceScore)
-        .filter((result, index, array) => {
-          // Remove duplicate patterns with lower scores
-          return array.findIndex(r => 
-            r.patternName === result.patternName && 
-            r.issueSlug === result.issueSlug
-          ) === index;
-        });
+    // Snippets are only built for the entries of this page's patterns
+    const hits = await db
+      .with(matches)
+      .select({
+        id: matches.id,
+        issueSlug: matches.issueSlug,
+        sectionId: matches.sectionId,
+        patternName: matches.patternName,
+        content: matches.content,
+        contentType: matches.contentType,
+        metadata: matches.metadata,
+        rank: matches.rank,
+        headline: sql<string>`ts_headline('english', ${matches.content}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+      })
+      .from(matches)
+      .where(or(...groups.map(group => and(
+        eq(matches.issueSlug, group.issueSlug),
+        eq(matches.sectionId, group.sectionId),
+        eq(matches.patternName, group.patternName)
+      ))))
+      .orderBy(desc(matches.rank));
 
-    } catch (error) {
-      console.error('Search error:', error);
-      throw error;
+    const results = groups.map((group): SearchResult => {
+      const groupHits = hits.filter(hit => hit.issueSlug === group.issueSlug && hit.sectionId === group.sectionId && hit.patternName === group.patternName);
+      return {
+        id: resultId(group),
+        issueSlug: group.issueSlug,
+        sectionId: group.sectionId,
+        patternName: group.patternName,
+        metadata: groupHits[0]?.metadata,
+        relevanceScore: Number(group.rank),
+        hits: groupHits.map(hit => ({
+          id: hit.id,
+          contentType: hit.contentType,
+          content: hit.content,
+          relevanceScore: Number(hit.rank),
+          highlights: parseHeadline(hit.headline),
+        })),
+        matchedBy: ['keyword'],
+      };
+    });
+    return { results, totalCount: groups[0].total };
+  }
+
+  // Patterns nearest in meaning to the query's free-text words. Exclusions
+  // and section or issue scopes still apply; field-scoped words don't, as
+  // embeddings cover whole patterns.
+  // The closest entries, and the condition matching every entry close enough
+  private async semanticSearch(parsed: ParsedSearchQuery, filters: SQL[], limit: number): Promise<{ results: SearchResult[]; match: SQL | null }> {
+    const text = parsed.groups
+      .flat()
+      .filter(clause => !clause.negated && !clause.field)
+      .map(clause => clause.text)
+      .join(' ');
+    if (!text) {
+      return { results: [], match: null };
+    }
+    const vector = await embedText(text);
+    if (!vector) {
+      return { results: [], match: null };
     }
+
+    const scopes = parsed.groups
+      .filter(group => group.every(clause => clause.negated || clause.field === 'section' || clause.field === 'issue'))
+      .map(group => or(...group.map(clauseCondition))!);
+    const similarity = sql<number>`1 - (${cosineDistance(searchIndex.embedding, vector)})`;
+    const match = and(isNotNull(searchIndex.embedding), sql`${similarity} >= ${MIN_SIMILARITY}`, ...scopes, ...filters)!;
+
+    const results = await db
+      .select({
+        id: searchIndex.id,
+        issueSlug: searchIndex.issueSlug,
+        sectionId: searchIndex.sectionId,
+        patternName: searchIndex.patternName,
+        content: searchIndex.content,
+        contentType: searchIndex.contentType,
+        metadata: searchIndex.metadata,
+        similarity,
+      })
+      .from(searchIndex)
+      .where(match)
+      .orderBy(cosineDistance(searchIndex.embedding, vector))
+      .limit(limit);
+
+    return {
+      results: results.map(({ id, content, contentType, similarity, ...result }) => ({
+        ...result,
+        id: resultId(result),
+        relevanceScore: Number(similarity),
+        hits: [{ id, contentType, content, relevanceScore: Number(similarity), highlights: [{ text: content, match: false }] }],
+        matchedBy: ['semantic'],
+      })),
+      match,
+    };
   }
 
-  // Get search suggestions
-  async getSuggestions(query: string): Promise<string[]> {
-    try {
-      if (query.length < 2) {
-        return [];
-      }
+  private async countPatterns(condition: SQL): Promise<number> {
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(DISTINCT (${searchIndex.issueSlug}, ${searchIndex.sectionId}, ${searchIndex.patternName}))::int` })
+      .from(searchIndex)
+      .where(condition);
+    return total;
+  }
 
-      const results = await db
-        .select({ patternName: searchIndex.patternName })
+  private async facets(conditions: SQL[], selected: SearchFilters): Promise<SearchFacets> {
+    const count = sql<number>`count(DISTINCT (${searchIndex.issueSlug}, ${searchIndex.sectionId}, ${searchIndex.patternName}))::int`;
+    const sectionTitle = sql<string>`max(coalesce(${searchIndex.metadata}->>'sectionTitle', CASE WHEN ${searchIndex.contentType} = 'section' THEN ${searchIndex.patternName} END))`;
+
+    const [issueRows, sectionRows, contentTypeRows, listed] = await Promise.all([
+      db.select({ value: searchIndex.issueSlug, count })
         .from(searchIndex)
-        .where(
-          and(
-            ilike(searchIndex.patternName, `%${query}%`),
-            sql`${searchIndex.contentType} IN ('pattern', 'section')`
-          )
-        )
-        .groupBy(searchIndex.patternName)
-        .limit(10);
-
-      return results.map(r => r.patternName);
-    } catch (error) {
-      console.error('Suggestions error:', error);
+        .where(and(...conditions, ...filterConditions({ ...selected, issueSlug: undefined })))
+        .groupBy(searchIndex.issueSlug)
+        .orderBy(desc(count)),
+      db.select({ issueSlug: searchIndex.issueSlug, value: searchIndex.sectionId, label: sectionTitle, count })
+        .from(searchIndex)
+        .where(and(...conditions, ne(searchIndex.sectionId, 'meta'), ...filterConditions({ ...selected, sectionId: undefined })))
+        .groupBy(searchIndex.issueSlug, searchIndex.sectionId)
+        .orderBy(desc(count)),
+      db.select({ value: searchIndex.contentType, count })
+        .from(searchIndex)
+        .where(and(...conditions, ...filterConditions({ ...selected, contentType: undefined })))
+        .groupBy(searchIndex.contentType)
+        .orderBy(desc(count)),
+      storage.getPublishedIssues(),
+    ]);
+
+    const titles = new Map(listed.map(issue => [issue.slug, issue.title]));
+    return {
+      issues: issueRows.map(row => ({ ...row, label: titles.get(row.value) ?? row.value })),
+      sections: sectionRows.map(row => ({ ...row, label: row.label ?? row.value })),
+      contentTypes: contentTypeRows.map(row => ({ ...row, label: row.value })),
+    };
+  }
+
+  // Listed patterns in other issues closest in meaning to the given one
+  async getRelatedPatterns(issueSlug: string, sectionId: string, patternName: string, limit = 5): Promise<RelatedPattern[]> {
+    const [source] = await db
+      .select({ embedding: searchIndex.embedding })
+      .from(searchIndex)
+      .where(and(
+        eq(searchIndex.issueSlug, issueSlug),
+        eq(searchIndex.sectionId, sectionId),
+        eq(searchIndex.patternName, patternName),
+        isNotNull(searchIndex.embedding)
+      ))
+      .limit(1);
+    if (!source?.embedding) {
       return [];
     }
+
+    const listed = await storage.getPublishedIssues();
+    if (listed.length === 0) {
+      return [];
+    }
+    const similarity = sql<number>`1 - (${cosineDistance(searchIndex.embedding, source.embedding)})`;
+    const results = await db
+      .select({
+        issueSlug: searchIndex.issueSlug,
+        sectionId: searchIndex.sectionId,
+        patternName: searchIndex.patternName,
+        description: searchIndex.content,
+        metadata: searchIndex.metadata,
+        similarity,
+      })
+      .from(searchIndex)
+      .where(and(
+        isNotNull(searchIndex.embedding),
+        ne(searchIndex.issueSlug, issueSlug),
+        inArray(searchIndex.issueSlug, listed.map(issue => issue.slug)),
+        sql`${similarity} >= ${MIN_SIMILARITY}`
+      ))
+      .orderBy(cosineDistance(searchIndex.embedding, source.embedding))
+      .limit(limit);
+
+    const titles = new Map(listed.map(issue => [issue.slug, issue.title]));
+    return results.map(({ metadata, similarity, ...result }) => ({
+      ...result,
+      issueTitle: titles.get(result.issueSlug) ?? result.issueSlug,
+      sectionTitle: (metadata as any)?.sectionTitle ?? null,
+      similarity: Number(similarity),
+    }));
+  }
+
+  // Stored issues readers can't list: unpublished, scheduled and archived
+  private async unlistedIssueSlugs(): Promise<string[]> {
+    return (await storage.getIssueVisibility())
+      .filter(issue => !issue.listed)
+      .map(issue => issue.slug);
+  }
+}
+
+// Words go through plainto_tsquery so any characters are safe; phrases
+// keep their word order
+function clauseQuery(clause: SearchClause): SQL {
+  return clause.phrase
+    ? sql`phraseto_tsquery('english', ${clause.text})`
+    : sql`plainto_tsquery('english', ${clause.text})`;
+}
+
+function textMatch(clause: SearchClause): SQL {
+  const query = clauseQuery(clause);
+  // Stop words parse to an empty query, which shouldn't rule anything out
+  return sql`(numnode(${query}) = 0 OR ${searchIndex.searchVector} @@ ${query})`;
+}
+
+function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+function clauseCondition(clause: SearchClause): SQL {
+  let condition: SQL;
+  switch (clause.field) {
+    case 'signal':
+    case 'protocol':
+      condition = and(eq(searchIndex.contentType, clause.field), textMatch(clause))!;
+      break;
+    case 'section':
+      condition = sql`coalesce(${searchIndex.metadata}->>'sectionTitle', CASE WHEN ${searchIndex.contentType} = 'section' THEN ${searchIndex.patternName} END) ILIKE ${likePattern(clause.text)}`;
+      break;
+    case 'issue': {
+      const pattern = likePattern(clause.text);
+      condition = or(
+        ilike(searchIndex.issueSlug, pattern),
+        inArray(searchIndex.issueSlug, db.select({ slug: issues.slug }).from(issues).where(ilike(issues.title, pattern)))
+      )!;
+      break;
+    }
+    default:
+      condition = textMatch(clause);
   }
+  return clause.negated ? not(condition) : condition;
 }
 
-export const searchService = new SearchService();
\ No newline at end of file
+// The text terms a result is ranked and highlighted by. Section and issue
+// scopes only filter.
+function rankingQuery(query: ParsedSearchQuery): SQL {
+  const groups = query.groups
+    .map(group => group.filter(clause => !clause.negated && (!clause.field || clause.field === 'signal' || clause.field === 'protocol')))
+    .filter(group => group.length > 0)
+    .map(group => sql`(${sql.join(group.map(clauseQuery), sql` || `)})`);
+  return groups.length > 0 ? sql`(${sql.join(groups, sql` && `)})` : sql`''::tsquery`;
+}
+
+// Reciprocal rank fusion: a result scores 1 / (k + rank) in each list it
+// appears in, so agreement between lists beats a high rank in one. Results
+// are matched by pattern, keeping the first list's copy for its snippet.
+function fuseResults(lists: SearchResult[][]): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+  for (const list of lists) {
+    list.forEach((result, index) => {
+      const key = result.id;
+      const score = 1 / (FUSION_K + index + 1);
+      const existing = fused.get(key);
+      if (existing) {
+        existing.relevanceScore += score;
+        existing.matchedBy = [...existing.matchedBy, ...result.matchedBy];
+      } else {
+        fused.set(key, { ...result, relevanceScore: score });
+      }
+    });
+  }
+  return Array.from(fused.values())
+    .sort((a, b) => b.relevanceScore - a.relevanceScore);
+}
+
+function resultId(result: { issueSlug: string; sectionId: string; patternName: string }): string {
+  return `${result.issueSlug}/${result.sectionId}/${result.patternName}`;
+}
+
+function filterConditions({ issueSlug, sectionId, contentType }: SearchFilters): SQL[] {
+  return [
+    issueSlug && eq(searchIndex.issueSlug, issueSlug),
+    sectionId && eq(searchIndex.sectionId, sectionId),
+    contentType && eq(searchIndex.contentType, contentType),
+  ].filter((condition): condition is SQL => !!condition);
+}
+
+// Cursors are opaque to clients; they hold the offset of the next page
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidSearchCursorError();
+}
+
+function parseHeadline(headline: string): SearchHighlight[] {
+  return headline
+    .split(new RegExp(`[${MATCH_START}${MATCH_END}]`))
+    .map((text, index) => ({ text, match: index % 2 === 1 }))
+    .filter(highlight => highlight.text);
+}
+
+function issueSections(issue: Issue): IssueSection[] {
+  return (issue.sections as IssueSection[]) || [];
+}
+
+// What a pattern's embedding is computed from
+function patternEmbeddingText(entry: IssueEntry): string {
+  return `${entry.pattern}. ${entry.description} Signals: ${entry.signals.join('; ')}. Protocol: ${entry.protocol}`;
+}
+
+// Index entries for an issue: its metadata, each section, and each
+// pattern's name, description, signals and protocol
+function buildIssueEntries(issue: Issue): InsertSearchIndex[] {
+  const entries: InsertSearchIndex[] = [];
+
+  entries.push({
+    issueSlug: issue.slug,
+    sectionId: 'meta',
+    patternName: issue.title,
+    content: [issue.title, issue.subtitle, issue.tagline, issue.intro].filter(Boolean).join(' '),
+    contentType: 'issue',
+    metadata: {
+      title: issue.title,
+      subtitle: issue.subtitle,
+      version: issue.version,
+      tagline: issue.tagline,
+    },
+  });
+
+  for (const section of issueSections(issue)) {
+    entries.push({
+      issueSlug: issue.slug,
+      sectionId: section.id,
+      patternName: section.title,
+      content: section.title,
+      contentType: 'section',
+      metadata: {
+        icon: section.icon,
+        color: section.color,
+        entryCount: section.entries.length,
+      },
+    });
+
+    const metadata = {
+      sectionTitle: section.title,
+      sectionColor: section.color,
+    };
+    for (const entry of section.entries) {
+      const entryFields = [
+        { content: entry.pattern, contentType: 'pattern' },
+        { content: entry.description, contentType: 'description' },
+        ...entry.signals.map(signal => ({ content: signal, contentType: 'signal' })),
+        { content: entry.protocol, contentType: 'protocol' },
+      ];
+      for (const field of entryFields) {
+        entries.push({
+          issueSlug: issue.slug,
+          sectionId: section.id,
+          patternName: entry.pattern,
+          ...field,
+          metadata,
+        });
+      }
+    }
+  }
+
+  return entries;
+}
+
+export const searchService = new SearchService();
+
+// Keeps the index following the issues table. Reconciles once at startup
+// for changes made while the server was down, then reindexes each issue as
+// it's written and drops deleted ones.
+export function startSearchIndexSync() {
+  const report = (error: unknown) => console.error('Search index sync error:', error);
+
+  storageEvents.on('issue', issue => void searchService.indexIssue(issue.slug).catch(report));
+  storageEvents.on('issueDeleted', slug => void searchService.removeIssue(slug).catch(report));
+  void searchService.initializeSearchIndex().catch(report);
+}
\ No newline at end of file
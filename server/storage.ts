@@ -5,6 +5,15 @@ import {
   type InsertAdminSession,
   type Issue,
   type InsertIssue,
+  type IssueVersion,
+  type InsertIssueVersion,
+  type IssueRevision,
+  type InsertIssueRevision,
+  type Comment,
+  type InsertComment,
+  type ReadingProgress,
+  type ReaderChat,
+  type ReaderChatMessage,
   type ContentImport,
   type InsertContentImport,
   type Workspace,
@@ -24,6 +33,11 @@ import {
   users,
   adminSessions,
   issues,
+  issueVersions,
+  issueRevisions,
+  comments,
+  readingProgress,
+  readerChats,
   contentImports,
   workspaces,
   drafts,
@@ -33,125 +47,240 @@ import {
   activities,
   workspaceResources
 } from "@shared/schema";
+import { convertDraftToIssueFormat, type IssueSection } from "@shared/publish";
+import { diffIssueFields } from "@shared/issueChangelog";
+import { deepEqual } from "@shared/jsonPatch";
 import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
 import { db } from "./db";
-import { eq, desc, lt } from "drizzle-orm";
-
-// Content conversion utilities
-interface DraftSection {
-  id: string;
-  title: string;
-  content: string;
-  level: number;
-  children?: DraftSection[];
+import { eq, ne, and, or, desc, asc, lt, lte, gt, isNull, isNotNull, inArray, sql, type Column } from "drizzle-orm";
+
+function generateSlugFromTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .trim()
+    .substring(0, 50);
+}
+
+// A slug can only be reused to publish a new version of that issue
+async function assertPublishable(storage: IStorage, existingIssue: Issue | undefined, publishData: PublishData) {
+  if (!existingIssue) return;
+  if (!publishData.republish) {
+    throw new Error(`An issue with slug "${publishData.slug}" already exists`);
+  }
+  if (existingIssue.version === publishData.version || await storage.getIssueVersion(existingIssue.id, publishData.version)) {
+    throw new Error(`Version "${publishData.version}" of "${publishData.slug}" already exists`);
+  }
 }
 
-interface IssueSection {
-  id: string;
-  title: string;
-  icon: string;
-  color: string;
-  entries: {
-    pattern: string;
-    description: string;
-    signals: string[];
-    protocol: string;
-  }[];
+// Emitted after writes that open workspace editors should see live.
+// `draft` carries the updates that were applied alongside the new draft;
+// `issue` lets the publish scheduler notice new and rescheduled issues and
+// keeps the search index current; `issueDeleted` carries the deleted slug;
+// `issueLive` comes from the publish scheduler when an embargo lifts, which
+// changes what readers see without a write.
+type StorageEventMap = {
+  issue: [Issue];
+  issueDeleted: [string];
+  issueLive: [Issue];
+  message: [Message];
+  suggestion: [Suggestion];
+  activity: [Activity];
+  draft: [Draft, Partial<InsertDraft>];
+};
+
+export const storageEvents = new EventEmitter<StorageEventMap>();
+
+// Thrown by conditional updates when the record changed after the caller
+// read it. Carries the current copy so the caller can offer a merge.
+export class StaleUpdateError<T> extends Error {
+  constructor(public readonly current: T) {
+    super('Record was modified since it was read');
+    this.name = 'StaleUpdateError';
+  }
 }
 
-function convertDraftToIssueFormat(draftSections: DraftSection[]): IssueSection[] {
-  const issuesSections: IssueSection[] = [];
-  
-  const iconOptions = ['circle', 'square', 'triangle', 'shield', 'zap', 'battery', 'trending-up'];
-  const colorOptions = ['cyan', 'purple', 'green', 'yellow'];
-  
-  const processSections = (sections: DraftSection[], parentIndex = 0) => {
-    sections.forEach((section, index) => {
-      // Convert each top-level section to an Issue section
-      if (section.level === 1) {
-        const issueSection: IssueSection = {
-          id: section.id,
-          title: section.title,
-          icon: iconOptions[parentIndex % iconOptions.length],
-          color: colorOptions[parentIndex % colorOptions.length],
-          entries: []
-        };
-        
-        // Convert section content and children to entries
-        if (section.content.trim()) {
-          const entry = {
-            pattern: section.title,
-            description: section.content,
-            signals: extractSignals(section.content),
-            protocol: extractProtocol(section.content)
-          };
-          issueSection.entries.push(entry);
-        }
-        
-        // Process children as additional entries
-        if (section.children) {
-          section.children.forEach(child => {
-            const childEntry = {
-              pattern: child.title,
-              description: child.content || 'No description provided',
-              signals: extractSignals(child.content),
-              protocol: extractProtocol(child.content)
-            };
-            issueSection.entries.push(childEntry);
-          });
-        }
-        
-        issuesSections.push(issueSection);
-        parentIndex++;
-      }
-    });
+// Compares at millisecond precision, which is all a JavaScript Date keeps
+function unmodifiedSince(column: Column, expectedUpdatedAt?: Date) {
+  return expectedUpdatedAt
+    ? sql`floor(extract(epoch from ${column}) * 1000) = ${expectedUpdatedAt.getTime()}`
+    : undefined;
+}
+
+// Thrown when suggestions being reviewed were already applied or rejected
+export class ClosedSuggestionError extends Error {
+  constructor(public readonly suggestions: Suggestion[]) {
+    super('Suggestions have already been reviewed');
+    this.name = 'ClosedSuggestionError';
+  }
+}
+
+function assertUnmodified<T extends { updatedAt: Date }>(record: T, expectedUpdatedAt?: Date) {
+  if (expectedUpdatedAt && record.updatedAt.getTime() !== expectedUpdatedAt.getTime()) {
+    throw new StaleUpdateError(record);
+  }
+}
+
+export interface PublishData {
+  slug: string;
+  version: string;
+  publishedAt?: Date;
+  sections?: IssueSection[];
+  // Publish onto an existing issue with this slug as a new version
+  republish?: boolean;
+}
+
+// Suggestions to close in one review. Applying them patches the branch they
+// were made on: `draft` as it was read, with `outline` as the result, and a
+// revision recording `content` and `metadata`.
+export interface SuggestionReview {
+  apply: string[];
+  reject: string[];
+  applied?: {
+    draft: Draft;
+    outline: InsertDraft['outline'];
+    content: InsertRevision['content'];
+    metadata: InsertRevision['metadata'];
   };
-  
-  processSections(draftSections);
-  return issuesSections;
 }
 
-function extractSignals(content: string): string[] {
-  // Simple heuristic to extract signals from content
-  const signalKeywords = ['when', 'if', 'warning', 'alert', 'issue', 'problem', 'symptom'];
-  const sentences = content.split('.').map(s => s.trim()).filter(s => s.length > 0);
-  
-  const signals = sentences.filter(sentence => 
-    signalKeywords.some(keyword => 
-      sentence.toLowerCase().includes(keyword)
-    )
-  ).slice(0, 3); // Limit to 3 signals
-  
-  return signals.length > 0 ? signals : ['Implementation needed', 'System complexity', 'Performance considerations'];
+export function isIssueLive(issue: Pick<Issue, 'publishedAt'>, now: Date = new Date()): boolean {
+  return !issue.publishedAt || issue.publishedAt <= now;
 }
 
-function extractProtocol(content: string): string {
-  // Simple heuristic to extract protocol from content
-  const protocolKeywords = ['step', 'first', 'then', 'finally', 'process', 'method', 'approach'];
-  const sentences = content.split('.').map(s => s.trim()).filter(s => s.length > 0);
-  
-  const protocolSentences = sentences.filter(sentence =>
-    protocolKeywords.some(keyword =>
-      sentence.toLowerCase().includes(keyword)
-    )
-  );
-  
-  if (protocolSentences.length > 0) {
-    return protocolSentences.join(' → ');
-  }
-  
-  // Fallback protocol
-  return '1. Analyze requirements 2. Design solution 3. Implement changes 4. Test and validate';
+// What readers may do with a stored issue: open it by its URL (public), and
+// find it in listings and search (listed). Archived issues stay reachable
+// but aren't listed or searchable.
+export interface IssueVisibility {
+  slug: string;
+  public: boolean;
+  listed: boolean;
 }
 
-function generateSlugFromTitle(title: string): string {
-  return title
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .trim()
-    .substring(0, 50);
+function issueVisibility(shown: Pick<Issue, 'slug' | 'status' | 'publishedAt'>, now: Date): IssueVisibility {
+  const live = isIssueLive(shown, now);
+  return {
+    slug: shown.slug,
+    public: (shown.status === 'published' || shown.status === 'archived') && live,
+    listed: shown.status === 'published' && live,
+  };
+}
+
+export function isIssuePublic(issue: Issue, now: Date = new Date()): boolean {
+  return issueVisibility(readerIssue(issue), now).public;
+}
+
+// Who made a write to an issue and why, for its revision history
+export interface IssueChange {
+  type: 'create' | 'edit' | 'publish' | 'rollback' | 'status';
+  userId?: string | null;
+  restoredFrom?: number;
+}
+
+// The parts of an issue a revision snapshots. A rollback restores all but
+// the status, which only moves through the editorial workflow.
+export function issueRevisionContent(issue: Issue) {
+  return {
+    title: issue.title,
+    subtitle: issue.subtitle,
+    version: issue.version,
+    tagline: issue.tagline,
+    intro: issue.intro,
+    sections: issue.sections,
+    status: issue.status
+  };
+}
+
+// A public issue's approved state, kept in liveContent while changes to it
+// are in review
+type LiveIssueContent = ReturnType<typeof issueRevisionContent> & { publishedAt: string | null };
+
+// What readers see of an issue: the approved content while changes to a
+// published issue are in review, otherwise the issue as stored
+export function readerIssue(issue: Issue): Issue {
+  const live = issue.liveContent as LiveIssueContent | null;
+  if (!live) return issue;
+  return {
+    ...issue,
+    ...live,
+    publishedAt: live.publishedAt ? new Date(live.publishedAt) : null,
+    liveContent: null
+  };
+}
+
+// Whether a write changes anything readers would see
+function changesIssueContent(issue: Issue, updates: Partial<InsertIssue>): boolean {
+  const before = issueRevisionContent(issue);
+  const after = issueRevisionContent({ ...issue, ...updates } as Issue);
+  return diffIssueFields(before, after).length > 0 || !deepEqual(before.sections, after.sections);
+}
+
+// Keeps content changes inside the editorial workflow. Changing an approved
+// or public issue sends it back to draft; a public issue keeps serving its
+// approved content to readers until it is published again.
+function reviewedIssueUpdates(stored: Issue, updates: Partial<InsertIssue>, change: IssueChange): Partial<InsertIssue> {
+  if (change.type === 'status') {
+    return updates.status === 'published' ? { ...updates, liveContent: null } : updates;
+  }
+  if (!['approved', 'published', 'archived'].includes(stored.status) || !changesIssueContent(stored, updates)) {
+    return updates;
+  }
+  if (stored.status === 'approved') {
+    return { ...updates, status: 'draft' };
+  }
+  const liveContent: LiveIssueContent = {
+    ...issueRevisionContent(stored),
+    publishedAt: stored.publishedAt?.toISOString() ?? null
+  };
+  return { ...updates, status: 'draft', liveContent };
+}
+
+// Revisions to record for a write. Issues that predate revision history get
+// a baseline snapshot of their previous content first, so it can be restored.
+function pendingIssueRevisions(
+  latestNumber: number | undefined,
+  before: Issue | null,
+  after: Issue,
+  change: IssueChange
+): Omit<IssueRevision, 'id' | 'createdAt'>[] {
+  const revisions: Omit<IssueRevision, 'id' | 'createdAt'>[] = [];
+  let number = latestNumber ?? 0;
+  if (latestNumber === undefined && before) {
+    revisions.push({
+      issueId: before.id,
+      number: ++number,
+      changeType: 'baseline',
+      changedBy: null,
+      restoredFrom: null,
+      content: issueRevisionContent(before)
+    });
+  }
+  revisions.push({
+    issueId: after.id,
+    number: ++number,
+    changeType: change.type,
+    changedBy: change.userId ?? null,
+    restoredFrom: change.restoredFrom ?? null,
+    content: issueRevisionContent(after)
+  });
+  return revisions;
+}
+
+function issueVersionSnapshot(issue: Issue): Omit<IssueVersion, 'id' | 'createdAt'> {
+  return {
+    issueId: issue.id,
+    version: issue.version,
+    title: issue.title,
+    subtitle: issue.subtitle,
+    tagline: issue.tagline,
+    intro: issue.intro,
+    sections: issue.sections,
+    metadata: issue.metadata,
+    publishedAt: issue.publishedAt
+  };
 }
 
 // modify the interface with any CRUD methods
@@ -163,20 +292,49 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUserAdminStatus(id: string, isAdmin: boolean): Promise<User | undefined>;
+  // Password hash and sign-in lockout state
+  updateUserCredentials(id: string, updates: Partial<Pick<User, 'password' | 'failedLoginAttempts' | 'lockedUntil'>>): Promise<User | undefined>;
+  // Adds a sign-in attempt to the user's count in one atomic update and
+  // returns the user; undefined while the account is locked
+  countLoginAttempt(id: string): Promise<User | undefined>;
+  getAdminUsers(): Promise<User[]>;
 
   // Admin session methods
   createAdminSession(session: InsertAdminSession): Promise<AdminSession>;
   getAdminSession(token: string): Promise<AdminSession | undefined>;
   deleteAdminSession(token: string): Promise<boolean>;
+  // Signs a user out everywhere, except for the session with `exceptToken`
+  deleteUserAdminSessions(userId: string, exceptToken?: string): Promise<number>;
   cleanExpiredSessions(): Promise<number>;
 
   // Issues methods
   getIssues(): Promise<Issue[]>;
+  // Published issues readers can see: those without a publish date and those
+  // whose date has passed. Future-dated issues are embargoed until then.
+  getPublishedIssues(now?: Date): Promise<Issue[]>;
+  // Embargoed issues, soonest first
+  getScheduledIssues(now?: Date): Promise<Issue[]>;
+  // Visibility of the issues with the given slugs, or of every stored issue,
+  // without loading their content
+  getIssueVisibility(slugs?: string[], now?: Date): Promise<IssueVisibility[]>;
   getIssue(slug: string): Promise<Issue | undefined>;
-  createIssue(issue: InsertIssue): Promise<Issue>;
-  updateIssue(slug: string, issue: Partial<InsertIssue>): Promise<Issue | undefined>;
+  createIssue(issue: InsertIssue, change?: IssueChange): Promise<Issue>;
+  // Updates taking `expectedUpdatedAt` throw StaleUpdateError if the record changed since then
+  updateIssue(slug: string, issue: Partial<InsertIssue>, expectedUpdatedAt?: Date, change?: IssueChange): Promise<Issue | undefined>;
   deleteIssue(slug: string): Promise<boolean>;
 
+  // Issue version methods. The issue row holds the current version; earlier
+  // ones are kept in issue_versions, newest first.
+  getIssueVersions(issueId: string): Promise<IssueVersion[]>;
+  getIssueVersion(issueId: string, version: string): Promise<IssueVersion | undefined>;
+  // Archives the issue's current content, then replaces it. Throws
+  // StaleUpdateError if the issue changed since `current` was read.
+  republishIssue(current: Issue, updates: Partial<InsertIssue>, change?: IssueChange): Promise<Issue>;
+
+  // Issue revision methods. Every write to an issue records one, newest first.
+  getIssueRevisions(issueId: string): Promise<IssueRevision[]>;
+  getIssueRevision(issueId: string, number: number): Promise<IssueRevision | undefined>;
+
   // Content import methods
   createContentImport(contentImport: InsertContentImport): Promise<ContentImport>;
   getContentImports(userId?: string): Promise<ContentImport[]>;
@@ -187,7 +345,7 @@ export interface IStorage {
   createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
   getWorkspaces(userId: string): Promise<Workspace[]>;
   getWorkspace(id: string): Promise<Workspace | undefined>;
-  updateWorkspace(id: string, updates: Partial<InsertWorkspace>): Promise<Workspace | undefined>;
+  updateWorkspace(id: string, updates: Partial<InsertWorkspace>, expectedUpdatedAt?: Date): Promise<Workspace | undefined>;
   deleteWorkspace(id: string): Promise<boolean>;
 
   // Workspace resource methods
@@ -196,13 +354,16 @@ export interface IStorage {
   getWorkspaceResource(id: string): Promise<WorkspaceResource | undefined>;
   deleteWorkspaceResource(id: string): Promise<boolean>;
 
-  // Draft methods
+  // Draft methods (one draft per branch; branch defaults to "main")
   createDraft(draft: InsertDraft): Promise<Draft>;
-  getDraft(workspaceId: string): Promise<Draft | undefined>;
-  updateDraft(workspaceId: string, updates: Partial<InsertDraft>): Promise<Draft | undefined>;
+  getDraft(workspaceId: string, branchName?: string): Promise<Draft | undefined>;
+  getDraftById(id: string): Promise<Draft | undefined>;
+  getDrafts(workspaceId: string): Promise<Draft[]>;
+  updateDraft(workspaceId: string, updates: Partial<InsertDraft>, branchName?: string, expectedUpdatedAt?: Date): Promise<Draft | undefined>;
 
   // Revision methods
-  createRevision(revision: InsertRevision): Promise<Revision>;
+  // Numbers the revision after the workspace's latest
+  createRevision(revision: Omit<InsertRevision, 'number'>): Promise<Revision>;
   getRevisions(workspaceId: string): Promise<Revision[]>;
 
   // Message methods
@@ -212,20 +373,49 @@ export interface IStorage {
   // Suggestion methods
   createSuggestion(suggestion: InsertSuggestion): Promise<Suggestion>;
   getSuggestions(workspaceId: string): Promise<Suggestion[]>;
+  getSuggestion(id: string): Promise<Suggestion | undefined>;
   updateSuggestion(id: string, updates: Partial<InsertSuggestion>): Promise<Suggestion | undefined>;
+  // Closes the suggestions and saves the applied ones as a revision of their
+  // branch, all or nothing. Throws ClosedSuggestionError if any suggestion
+  // isn't proposed anymore, and StaleUpdateError if the branch changed since
+  // it was read. Returns the revision, if suggestions were applied.
+  reviewSuggestions(review: SuggestionReview): Promise<Revision | null>;
 
   // Activity methods
   createActivity(activity: InsertActivity): Promise<Activity>;
   getActivities(workspaceId: string): Promise<Activity[]>;
+  // Activities about an issue, whether or not they also belong to a workspace
+  getIssueActivities(issueSlug: string): Promise<Activity[]>;
+
+  // Comment methods. Comments on an issue or a workspace, oldest first;
+  // replies are included and point at their thread with parentId.
+  getComments(document: { issueSlug: string } | { workspaceId: string }): Promise<Comment[]>;
+  getComment(id: string): Promise<Comment | undefined>;
+  createComment(comment: InsertComment): Promise<Comment>;
+  // Marks a thread resolved by the user, or reopens it when resolvedBy is null
+  setCommentResolved(id: string, resolvedBy: string | null): Promise<Comment | undefined>;
+
+  // Reader state methods. Kept per reader and issue; saving replaces the
+  // reader's previous copy for that issue.
+  getReadingProgress(userId: string): Promise<ReadingProgress[]>;
+  saveReadingProgress(userId: string, issueSlug: string, sectionIds: string[]): Promise<ReadingProgress>;
+  getReaderChat(userId: string, issueSlug: string): Promise<ReaderChat | undefined>;
+  saveReaderChat(userId: string, issueSlug: string, messages: ReaderChatMessage[]): Promise<ReaderChat>;
 
   // Publishing methods
-  publishWorkspace(workspaceId: string, publishData: { slug: string, version: string, publishedAt?: Date }): Promise<{ issue: Issue, workspace: Workspace }>;
+  publishWorkspace(workspaceId: string, publishData: PublishData): Promise<{ issue: Issue, workspace: Workspace }>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private adminSessions: Map<string, AdminSession>;
   private issues: Map<string, Issue>;
+  private issueVersions: Map<string, IssueVersion>;
+  private issueRevisions: Map<string, IssueRevision>;
+  private comments: Map<string, Comment>;
+  // Keyed by `${userId}:${issueSlug}`
+  private readingProgress: Map<string, ReadingProgress>;
+  private readerChats: Map<string, ReaderChat>;
   private contentImports: Map<string, ContentImport>;
   private workspaces: Map<string, Workspace>;
   private drafts: Map<string, Draft>;
@@ -239,6 +429,11 @@ export class MemStorage implements IStorage {
     this.users = new Map();
     this.adminSessions = new Map();
     this.issues = new Map();
+    this.issueVersions = new Map();
+    this.issueRevisions = new Map();
+    this.comments = new Map();
+    this.readingProgress = new Map();
+    this.readerChats = new Map();
     this.contentImports = new Map();
     this.workspaces = new Map();
     this.drafts = new Map();
@@ -266,6 +461,8 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id, 
       isAdmin: insertUser.isAdmin || false, 
+      failedLoginAttempts: 0,
+      lockedUntil: null,
       createdAt: new Date() 
     };
     this.users.set(id, user);
@@ -281,6 +478,30 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
+  async updateUserCredentials(id: string, updates: Partial<Pick<User, 'password' | 'failedLoginAttempts' | 'lockedUntil'>>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser: User = { ...user, ...updates };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async countLoginAttempt(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user || (user.lockedUntil && user.lockedUntil > new Date())) return undefined;
+
+    const updatedUser: User = { ...user, failedLoginAttempts: user.failedLoginAttempts + 1 };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async getAdminUsers(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.isAdmin)
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
   // Admin session methods
   async createAdminSession(session: InsertAdminSession): Promise<AdminSession> {
     const id = randomUUID();
@@ -310,6 +531,19 @@ export class MemStorage implements IStorage {
     return this.adminSessions.delete(token);
   }
 
+  async deleteUserAdminSessions(userId: string, exceptToken?: string): Promise<number> {
+    let deletedCount = 0;
+
+    for (const [token, session] of Array.from(this.adminSessions.entries())) {
+      if (session.userId === userId && token !== exceptToken) {
+        this.adminSessions.delete(token);
+        deletedCount++;
+      }
+    }
+
+    return deletedCount;
+  }
+
   async cleanExpiredSessions(): Promise<number> {
     const now = new Date();
     let cleanedCount = 0;
@@ -330,11 +564,31 @@ export class MemStorage implements IStorage {
       .sort((a, b) => (b.publishedAt?.getTime() || 0) - (a.publishedAt?.getTime() || 0));
   }
 
+  async getPublishedIssues(now: Date = new Date()): Promise<Issue[]> {
+    return Array.from(this.issues.values())
+      .map(readerIssue)
+      .filter(issue => issue.status === 'published' && isIssueLive(issue, now))
+      .sort((a, b) => (b.publishedAt?.getTime() || 0) - (a.publishedAt?.getTime() || 0));
+  }
+
+  async getScheduledIssues(now: Date = new Date()): Promise<Issue[]> {
+    return Array.from(this.issues.values())
+      .map(readerIssue)
+      .filter(issue => issue.status === 'published' && !isIssueLive(issue, now))
+      .sort((a, b) => a.publishedAt!.getTime() - b.publishedAt!.getTime());
+  }
+
+  async getIssueVisibility(slugs?: string[], now: Date = new Date()): Promise<IssueVisibility[]> {
+    return Array.from(this.issues.values())
+      .filter(issue => !slugs || slugs.includes(issue.slug))
+      .map(issue => issueVisibility(readerIssue(issue), now));
+  }
+
   async getIssue(slug: string): Promise<Issue | undefined> {
     return this.issues.get(slug);
   }
 
-  async createIssue(issue: InsertIssue): Promise<Issue> {
+  async createIssue(issue: InsertIssue, change: IssueChange = { type: 'create' }): Promise<Issue> {
     const id = randomUUID();
     const newIssue: Issue = { 
       ...issue, 
@@ -343,29 +597,98 @@ export class MemStorage implements IStorage {
       tagline: issue.tagline || null,
       intro: issue.intro || null,
       metadata: issue.metadata || null,
+      status: issue.status || 'published',
+      reviewerId: issue.reviewerId || null,
       publishedAt: issue.publishedAt || null,
+      liveContent: issue.liveContent || null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
     this.issues.set(issue.slug, newIssue);
+    await this.recordIssueRevisions(null, newIssue, change);
+    storageEvents.emit('issue', newIssue);
     return newIssue;
   }
 
-  async updateIssue(slug: string, updates: Partial<InsertIssue>): Promise<Issue | undefined> {
+  async updateIssue(slug: string, updates: Partial<InsertIssue>, expectedUpdatedAt?: Date, change: IssueChange = { type: 'edit' }): Promise<Issue | undefined> {
     const issue = this.issues.get(slug);
     if (!issue) return undefined;
+    assertUnmodified(issue, expectedUpdatedAt);
     
     const updatedIssue: Issue = { 
       ...issue, 
-      ...updates, 
+      ...reviewedIssueUpdates(issue, updates, change), 
       updatedAt: new Date() 
     };
     this.issues.set(slug, updatedIssue);
+    await this.recordIssueRevisions(issue, updatedIssue, change);
+    storageEvents.emit('issue', updatedIssue);
     return updatedIssue;
   }
 
+  private async recordIssueRevisions(before: Issue | null, after: Issue, change: IssueChange) {
+    const latest = (await this.getIssueRevisions(after.id))[0];
+    pendingIssueRevisions(latest?.number, before, after, change).forEach(revision => {
+      const id = randomUUID();
+      this.issueRevisions.set(id, { ...revision, id, createdAt: new Date() });
+    });
+  }
+
   async deleteIssue(slug: string): Promise<boolean> {
-    return this.issues.delete(slug);
+    Array.from(this.comments.values())
+      .filter(comment => comment.issueSlug === slug)
+      .forEach(comment => this.comments.delete(comment.id));
+    Array.from(this.activities.values())
+      .filter(activity => activity.issueSlug === slug && !activity.workspaceId)
+      .forEach(activity => this.activities.delete(activity.id));
+    const deleted = this.issues.delete(slug);
+    if (deleted) storageEvents.emit('issueDeleted', slug);
+    return deleted;
+  }
+
+  // Issue version methods
+  async getIssueVersions(issueId: string): Promise<IssueVersion[]> {
+    return Array.from(this.issueVersions.values())
+      .filter(version => version.issueId === issueId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getIssueVersion(issueId: string, version: string): Promise<IssueVersion | undefined> {
+    return Array.from(this.issueVersions.values()).find(candidate =>
+      candidate.issueId === issueId && candidate.version === version
+    );
+  }
+
+  async republishIssue(current: Issue, updates: Partial<InsertIssue>, change: IssueChange = { type: 'publish' }): Promise<Issue> {
+    const issue = this.issues.get(current.slug);
+    if (!issue) throw new Error(`Issue "${current.slug}" not found`);
+    assertUnmodified(issue, current.updatedAt);
+
+    // Readers' current version is archived once, even if it is republished
+    // again before the replacement is published
+    const shown = readerIssue(issue);
+    if (!(await this.getIssueVersion(issue.id, shown.version))) {
+      const id = randomUUID();
+      this.issueVersions.set(id, {
+        id,
+        ...issueVersionSnapshot(shown),
+        createdAt: new Date()
+      });
+    }
+    return (await this.updateIssue(current.slug, updates, undefined, change))!;
+  }
+
+  // Issue revision methods
+  async getIssueRevisions(issueId: string): Promise<IssueRevision[]> {
+    return Array.from(this.issueRevisions.values())
+      .filter(revision => revision.issueId === issueId)
+      .sort((a, b) => b.number - a.number);
+  }
+
+  async getIssueRevision(issueId: string, number: number): Promise<IssueRevision | undefined> {
+    return Array.from(this.issueRevisions.values()).find(revision =>
+      revision.issueId === issueId && revision.number === number
+    );
   }
 
   // Content import methods
@@ -432,9 +755,10 @@ export class MemStorage implements IStorage {
     return this.workspaces.get(id);
   }
 
-  async updateWorkspace(id: string, updates: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+  async updateWorkspace(id: string, updates: Partial<InsertWorkspace>, expectedUpdatedAt?: Date): Promise<Workspace | undefined> {
     const workspace = this.workspaces.get(id);
     if (!workspace) return undefined;
+    assertUnmodified(workspace, expectedUpdatedAt);
 
     const updatedWorkspace: Workspace = {
       ...workspace,
@@ -481,6 +805,9 @@ export class MemStorage implements IStorage {
     const draft: Draft = {
       ...insertDraft,
       id,
+      branchName: insertDraft.branchName || 'main',
+      parentBranch: insertDraft.parentBranch || null,
+      baseRevision: insertDraft.baseRevision ?? null,
       currentRevision: insertDraft.currentRevision || 1,
       createdAt: new Date(),
       updatedAt: new Date()
@@ -489,13 +816,26 @@ export class MemStorage implements IStorage {
     return draft;
   }
 
-  async getDraft(workspaceId: string): Promise<Draft | undefined> {
-    return Array.from(this.drafts.values()).find(draft => draft.workspaceId === workspaceId);
+  async getDraft(workspaceId: string, branchName: string = 'main'): Promise<Draft | undefined> {
+    return Array.from(this.drafts.values()).find(draft => 
+      draft.workspaceId === workspaceId && draft.branchName === branchName
+    );
+  }
+
+  async getDraftById(id: string): Promise<Draft | undefined> {
+    return this.drafts.get(id);
+  }
+
+  async getDrafts(workspaceId: string): Promise<Draft[]> {
+    return Array.from(this.drafts.values())
+      .filter(draft => draft.workspaceId === workspaceId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
-  async updateDraft(workspaceId: string, updates: Partial<InsertDraft>): Promise<Draft | undefined> {
-    const draft = Array.from(this.drafts.values()).find(d => d.workspaceId === workspaceId);
+  async updateDraft(workspaceId: string, updates: Partial<InsertDraft>, branchName: string = 'main', expectedUpdatedAt?: Date): Promise<Draft | undefined> {
+    const draft = await this.getDraft(workspaceId, branchName);
     if (!draft) return undefined;
+    assertUnmodified(draft, expectedUpdatedAt);
 
     const updatedDraft: Draft = {
       ...draft,
@@ -503,14 +843,19 @@ export class MemStorage implements IStorage {
       updatedAt: new Date()
     };
     this.drafts.set(draft.id, updatedDraft);
+    storageEvents.emit('draft', updatedDraft, updates);
     return updatedDraft;
   }
 
   // Revision methods
-  async createRevision(insertRevision: InsertRevision): Promise<Revision> {
+  async createRevision(insertRevision: Omit<InsertRevision, 'number'>): Promise<Revision> {
     const id = randomUUID();
+    const latest = Math.max(0, ...Array.from(this.revisions.values())
+      .filter(revision => revision.workspaceId === insertRevision.workspaceId)
+      .map(revision => revision.number));
     const revision: Revision = {
       ...insertRevision,
+      number: latest + 1,
       id,
       createdAt: new Date()
     };
@@ -535,6 +880,7 @@ export class MemStorage implements IStorage {
       createdAt: new Date()
     };
     this.messages.set(id, message);
+    storageEvents.emit('message', message);
     return message;
   }
 
@@ -550,11 +896,13 @@ export class MemStorage implements IStorage {
     const suggestion: Suggestion = {
       ...insertSuggestion,
       id,
+      baseRevision: insertSuggestion.baseRevision ?? null,
       sectionPath: insertSuggestion.sectionPath || null,
       status: insertSuggestion.status || 'proposed',
       createdAt: new Date()
     };
     this.suggestions.set(id, suggestion);
+    storageEvents.emit('suggestion', suggestion);
     return suggestion;
   }
 
@@ -564,6 +912,10 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getSuggestion(id: string): Promise<Suggestion | undefined> {
+    return this.suggestions.get(id);
+  }
+
   async updateSuggestion(id: string, updates: Partial<InsertSuggestion>): Promise<Suggestion | undefined> {
     const suggestion = this.suggestions.get(id);
     if (!suggestion) return undefined;
@@ -573,18 +925,42 @@ export class MemStorage implements IStorage {
       ...updates
     };
     this.suggestions.set(id, updatedSuggestion);
+    storageEvents.emit('suggestion', updatedSuggestion);
     return updatedSuggestion;
   }
 
+  async reviewSuggestions(review: SuggestionReview): Promise<Revision | null> {
+    const closed = [...review.apply, ...review.reject]
+      .map(id => this.suggestions.get(id))
+      .filter((suggestion): suggestion is Suggestion => !!suggestion && suggestion.status !== 'proposed');
+    if (closed.length > 0) throw new ClosedSuggestionError(closed);
+
+    let revision: Revision | null = null;
+    if (review.applied) {
+      const { draft, outline, content, metadata } = review.applied;
+      const current = this.drafts.get(draft.id);
+      if (!current) throw new Error('Draft not found');
+      assertUnmodified(current, draft.updatedAt);
+      revision = await this.createRevision({ workspaceId: draft.workspaceId, draftId: draft.id, content, metadata });
+      await this.updateDraft(draft.workspaceId, { outline, currentRevision: revision.number }, draft.branchName);
+    }
+    for (const id of review.apply) await this.updateSuggestion(id, { status: 'applied' });
+    for (const id of review.reject) await this.updateSuggestion(id, { status: 'rejected' });
+    return revision;
+  }
+
   // Activity methods
   async createActivity(insertActivity: InsertActivity): Promise<Activity> {
     const id = randomUUID();
     const activity: Activity = {
       ...insertActivity,
       id,
+      workspaceId: insertActivity.workspaceId ?? null,
+      issueSlug: insertActivity.issueSlug ?? null,
       createdAt: new Date()
     };
     this.activities.set(id, activity);
+    storageEvents.emit('activity', activity);
     return activity;
   }
 
@@ -594,8 +970,96 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getIssueActivities(issueSlug: string): Promise<Activity[]> {
+    return Array.from(this.activities.values())
+      .filter(activity => activity.issueSlug === issueSlug)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Comment methods
+  async getComments(document: { issueSlug: string } | { workspaceId: string }): Promise<Comment[]> {
+    return Array.from(this.comments.values())
+      .filter(comment => 'issueSlug' in document
+        ? comment.issueSlug === document.issueSlug
+        : comment.workspaceId === document.workspaceId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getComment(id: string): Promise<Comment | undefined> {
+    return this.comments.get(id);
+  }
+
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    const id = randomUUID();
+    const comment: Comment = {
+      ...insertComment,
+      id,
+      issueSlug: insertComment.issueSlug || null,
+      workspaceId: insertComment.workspaceId || null,
+      sectionId: insertComment.sectionId || null,
+      pattern: insertComment.pattern || null,
+      field: insertComment.field || null,
+      parentId: insertComment.parentId || null,
+      authorId: insertComment.authorId || null,
+      resolvedAt: null,
+      resolvedBy: null,
+      createdAt: new Date()
+    };
+    this.comments.set(id, comment);
+    return comment;
+  }
+
+  async setCommentResolved(id: string, resolvedBy: string | null): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment) return undefined;
+
+    const updated: Comment = {
+      ...comment,
+      resolvedAt: resolvedBy ? new Date() : null,
+      resolvedBy
+    };
+    this.comments.set(id, updated);
+    return updated;
+  }
+
+  // Reader state methods
+  async getReadingProgress(userId: string): Promise<ReadingProgress[]> {
+    return Array.from(this.readingProgress.values())
+      .filter(progress => progress.userId === userId);
+  }
+
+  async saveReadingProgress(userId: string, issueSlug: string, sectionIds: string[]): Promise<ReadingProgress> {
+    const key = `${userId}:${issueSlug}`;
+    const progress: ReadingProgress = {
+      id: this.readingProgress.get(key)?.id || randomUUID(),
+      userId,
+      issueSlug,
+      sectionIds,
+      updatedAt: new Date()
+    };
+    this.readingProgress.set(key, progress);
+    return progress;
+  }
+
+  async getReaderChat(userId: string, issueSlug: string): Promise<ReaderChat | undefined> {
+    return this.readerChats.get(`${userId}:${issueSlug}`);
+  }
+
+  async saveReaderChat(userId: string, issueSlug: string, messages: ReaderChatMessage[]): Promise<ReaderChat> {
+    const key = `${userId}:${issueSlug}`;
+    const chat: ReaderChat = {
+      id: this.readerChats.get(key)?.id || randomUUID(),
+      userId,
+      issueSlug,
+      messages,
+      updatedAt: new Date()
+    };
+    this.readerChats.set(key, chat);
+    return chat;
+  }
+
   // Publishing methods
-  async publishWorkspace(workspaceId: string, publishData: { slug: string, version: string, publishedAt?: Date }): Promise<{ issue: Issue, workspace: Workspace }> {
+  async publishWorkspace(workspaceId: string, publishData: PublishData): Promise<{ issue: Issue, workspace: Workspace }> {
     // Get workspace
     const workspace = this.workspaces.get(workspaceId);
     if (!workspace) {
@@ -603,19 +1067,16 @@ export class MemStorage implements IStorage {
     }
 
     // Get draft
-    const draft = this.drafts.get(workspaceId);
+    const draft = await this.getDraft(workspaceId);
     if (!draft || !draft.outline?.sections) {
       throw new Error('No draft content found for workspace');
     }
 
-    // Check if slug already exists
     const existingIssue = this.issues.get(publishData.slug);
-    if (existingIssue) {
-      throw new Error(`An issue with slug "${publishData.slug}" already exists`);
-    }
+    await assertPublishable(this, existingIssue, publishData);
 
-    // Convert draft sections to issue format
-    const convertedSections = convertDraftToIssueFormat(draft.outline.sections);
+    // Entries reviewed in the publish preview, or the heuristic conversion
+    const convertedSections = publishData.sections ?? convertDraftToIssueFormat(draft.outline.sections);
     
     // Create the issue
     const issueData: InsertIssue = {
@@ -631,10 +1092,17 @@ export class MemStorage implements IStorage {
         publishedBy: workspace.userId,
         originalGoal: workspace.goal
       },
-      publishedAt: publishData.publishedAt || new Date()
+      // New issues enter the editorial workflow as drafts and go live once
+      // approved and published. Republishing sends a reviewed issue back to
+      // draft, and its release date is set when it is published again.
+      ...(!existingIssue && { status: 'draft' }),
+      publishedAt: publishData.publishedAt || existingIssue?.publishedAt || null
     };
 
-    const issue = await this.createIssue(issueData);
+    const change: IssueChange = { type: 'publish', userId: workspace.userId };
+    const issue = existingIssue
+      ? await this.republishIssue(existingIssue, issueData, change)
+      : await this.createIssue(issueData, change);
 
     // Update workspace status
     const updatedWorkspace = await this.updateWorkspace(workspaceId, { 
@@ -651,9 +1119,13 @@ export class MemStorage implements IStorage {
       type: 'publish',
       payload: {
         userId: workspace.userId,
-        description: `Published draft as Issue "${issue.title}" (${issue.slug})`,
+        description: existingIssue
+          ? `Published draft as ${issue.version} of Issue "${issue.title}" (${issue.slug}), replacing ${existingIssue.version}${issue.liveContent ? ' once reviewed' : ''}`
+          : `Published draft as Issue "${issue.title}" (${issue.slug}) for editorial review`,
         metadata: {
           issueSlug: issue.slug,
+          version: issue.version,
+          previousVersion: existingIssue?.version,
           publishedAt: issue.publishedAt
         }
       }
@@ -663,6 +1135,8 @@ export class MemStorage implements IStorage {
   }
 }
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export class DbStorage implements IStorage {
   // User methods
   async getUser(id: string): Promise<User | undefined> {
@@ -691,6 +1165,33 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async updateUserCredentials(id: string, updates: Partial<Pick<User, 'password' | 'failedLoginAttempts' | 'lockedUntil'>>): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async countLoginAttempt(id: string): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(and(
+        eq(users.id, id),
+        or(isNull(users.lockedUntil), lte(users.lockedUntil, new Date()))
+      ))
+      .returning();
+    return result[0];
+  }
+
+  async getAdminUsers(): Promise<User[]> {
+    const result = await db.select()
+      .from(users)
+      .where(eq(users.isAdmin, true))
+      .orderBy(asc(users.username));
+    return result;
+  }
+
   // Admin session methods
   async createAdminSession(session: InsertAdminSession): Promise<AdminSession> {
     const result = await db.insert(adminSessions).values(session).returning();
@@ -722,6 +1223,16 @@ export class DbStorage implements IStorage {
     return result.length > 0;
   }
 
+  async deleteUserAdminSessions(userId: string, exceptToken?: string): Promise<number> {
+    const result = await db.delete(adminSessions)
+      .where(and(
+        eq(adminSessions.userId, userId),
+        exceptToken ? ne(adminSessions.token, exceptToken) : undefined
+      ))
+      .returning();
+    return result.length;
+  }
+
   async cleanExpiredSessions(): Promise<number> {
     const now = new Date();
     const result = await db.delete(adminSessions)
@@ -738,6 +1249,49 @@ export class DbStorage implements IStorage {
     return result;
   }
 
+  async getPublishedIssues(now: Date = new Date()): Promise<Issue[]> {
+    const result = await db.select()
+      .from(issues)
+      .where(or(eq(issues.status, 'published'), isNotNull(issues.liveContent)));
+    return result
+      .map(readerIssue)
+      .filter(issue => issue.status === 'published' && isIssueLive(issue, now))
+      .sort((a, b) => (b.publishedAt?.getTime() || 0) - (a.publishedAt?.getTime() || 0));
+  }
+
+  async getScheduledIssues(now: Date = new Date()): Promise<Issue[]> {
+    const result = await db.select()
+      .from(issues)
+      .where(or(eq(issues.status, 'published'), isNotNull(issues.liveContent)));
+    return result
+      .map(readerIssue)
+      .filter(issue => issue.status === 'published' && !isIssueLive(issue, now))
+      .sort((a, b) => a.publishedAt!.getTime() - b.publishedAt!.getTime());
+  }
+
+  async getIssueVisibility(slugs?: string[], now: Date = new Date()): Promise<IssueVisibility[]> {
+    if (slugs?.length === 0) return [];
+    // Reads what readerIssue would show from liveContent without loading
+    // either copy of the sections
+    const rows = await db.select({
+        slug: issues.slug,
+        status: issues.status,
+        publishedAt: issues.publishedAt,
+        liveStatus: sql<string | null>`${issues.liveContent}->>'status'`,
+        livePublishedAt: sql<string | null>`${issues.liveContent}->>'publishedAt'`,
+        hasLiveContent: sql<boolean>`${issues.liveContent} is not null`,
+      })
+      .from(issues)
+      .where(slugs ? inArray(issues.slug, slugs) : undefined);
+    return rows.map(row => issueVisibility(row.hasLiveContent
+      ? {
+          slug: row.slug,
+          status: row.liveStatus ?? row.status,
+          publishedAt: row.livePublishedAt ? new Date(row.livePublishedAt) : null,
+        }
+      : row, now));
+  }
+
   async getIssue(slug: string): Promise<Issue | undefined> {
     const result = await db.select()
       .from(issues)
@@ -746,36 +1300,137 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async createIssue(issue: InsertIssue): Promise<Issue> {
-    const result = await db.insert(issues).values({
-      ...issue,
-      subtitle: issue.subtitle || null,
-      tagline: issue.tagline || null,
-      intro: issue.intro || null,
-      metadata: issue.metadata || null,
-      publishedAt: issue.publishedAt || null
-    }).returning();
-    return result[0];
+  async createIssue(issue: InsertIssue, change: IssueChange = { type: 'create' }): Promise<Issue> {
+    const created = await db.transaction(async (tx) => {
+      const result = await tx.insert(issues).values({
+        ...issue,
+        subtitle: issue.subtitle || null,
+        tagline: issue.tagline || null,
+        intro: issue.intro || null,
+        metadata: issue.metadata || null,
+        publishedAt: issue.publishedAt || null
+      }).returning();
+      await this.recordIssueRevisions(tx, null, result[0], change);
+      return result[0];
+    });
+    storageEvents.emit('issue', created);
+    return created;
+  }
+
+  async updateIssue(slug: string, updates: Partial<InsertIssue>, expectedUpdatedAt?: Date, change: IssueChange = { type: 'edit' }): Promise<Issue | undefined> {
+    const result = await db.transaction(async (tx) => {
+      const stored = await tx.select()
+        .from(issues)
+        .where(and(eq(issues.slug, slug), unmodifiedSince(issues.updatedAt, expectedUpdatedAt)))
+        .for('update');
+      if (!stored[0]) return undefined;
+
+      const updated = await tx.update(issues)
+        .set({
+          ...reviewedIssueUpdates(stored[0], updates, change),
+          updatedAt: new Date()
+        })
+        .where(eq(issues.id, stored[0].id))
+        .returning();
+      await this.recordIssueRevisions(tx, stored[0], updated[0], change);
+      return updated[0];
+    });
+    if (!result && expectedUpdatedAt) {
+      const current = await this.getIssue(slug);
+      if (current) throw new StaleUpdateError(current);
+    }
+    if (result) storageEvents.emit('issue', result);
+    return result;
   }
 
-  async updateIssue(slug: string, updates: Partial<InsertIssue>): Promise<Issue | undefined> {
-    const result = await db.update(issues)
-      .set({
-        ...updates,
-        updatedAt: new Date()
-      })
-      .where(eq(issues.slug, slug))
-      .returning();
-    return result[0];
+  private async recordIssueRevisions(tx: Transaction, before: Issue | null, after: Issue, change: IssueChange) {
+    const latest = await tx.select({ number: issueRevisions.number })
+      .from(issueRevisions)
+      .where(eq(issueRevisions.issueId, after.id))
+      .orderBy(desc(issueRevisions.number))
+      .limit(1);
+    await tx.insert(issueRevisions).values(pendingIssueRevisions(latest[0]?.number, before, after, change) as InsertIssueRevision[]);
   }
 
   async deleteIssue(slug: string): Promise<boolean> {
-    const result = await db.delete(issues)
-      .where(eq(issues.slug, slug))
-      .returning();
+    // Comments and issue-only activities anchor to the slug rather than a
+    // foreign key
+    const result = await db.transaction(async (tx) => {
+      await tx.delete(comments).where(eq(comments.issueSlug, slug));
+      await tx.delete(activities).where(and(eq(activities.issueSlug, slug), isNull(activities.workspaceId)));
+      return tx.delete(issues)
+        .where(eq(issues.slug, slug))
+        .returning();
+    });
+    if (result.length > 0) storageEvents.emit('issueDeleted', slug);
     return result.length > 0;
   }
 
+  // Issue version methods
+  async getIssueVersions(issueId: string): Promise<IssueVersion[]> {
+    const result = await db.select()
+      .from(issueVersions)
+      .where(eq(issueVersions.issueId, issueId))
+      .orderBy(desc(issueVersions.createdAt));
+    return result;
+  }
+
+  async getIssueVersion(issueId: string, version: string): Promise<IssueVersion | undefined> {
+    const result = await db.select()
+      .from(issueVersions)
+      .where(and(eq(issueVersions.issueId, issueId), eq(issueVersions.version, version)))
+      .limit(1);
+    return result[0];
+  }
+
+  async republishIssue(current: Issue, updates: Partial<InsertIssue>, change: IssueChange = { type: 'publish' }): Promise<Issue> {
+    const issue = await db.transaction(async (tx) => {
+      // Archive what is stored, not what the caller read
+      const stored = await tx.select()
+        .from(issues)
+        .where(and(eq(issues.id, current.id), unmodifiedSince(issues.updatedAt, current.updatedAt)))
+        .for('update');
+      if (!stored[0]) return undefined;
+
+      // Readers' current version is archived once, even if it is republished
+      // again before the replacement is published
+      await tx.insert(issueVersions)
+        .values(issueVersionSnapshot(readerIssue(stored[0])) as InsertIssueVersion)
+        .onConflictDoNothing();
+      const result = await tx.update(issues)
+        .set({ ...reviewedIssueUpdates(stored[0], updates, change), updatedAt: new Date() })
+        .where(eq(issues.id, current.id))
+        .returning();
+      await this.recordIssueRevisions(tx, stored[0], result[0], change);
+      return result[0];
+    });
+
+    if (!issue) {
+      const latest = await this.getIssue(current.slug);
+      if (latest) throw new StaleUpdateError(latest);
+      throw new Error(`Issue "${current.slug}" not found`);
+    }
+    storageEvents.emit('issue', issue);
+    return issue;
+  }
+
+  // Issue revision methods
+  async getIssueRevisions(issueId: string): Promise<IssueRevision[]> {
+    const result = await db.select()
+      .from(issueRevisions)
+      .where(eq(issueRevisions.issueId, issueId))
+      .orderBy(desc(issueRevisions.number));
+    return result;
+  }
+
+  async getIssueRevision(issueId: string, number: number): Promise<IssueRevision | undefined> {
+    const result = await db.select()
+      .from(issueRevisions)
+      .where(and(eq(issueRevisions.issueId, issueId), eq(issueRevisions.number, number)))
+      .limit(1);
+    return result[0];
+  }
+
   // Content import methods
   async createContentImport(contentImport: InsertContentImport): Promise<ContentImport> {
     const result = await db.insert(contentImports).values({
@@ -844,14 +1499,18 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async updateWorkspace(id: string, updates: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+  async updateWorkspace(id: string, updates: Partial<InsertWorkspace>, expectedUpdatedAt?: Date): Promise<Workspace | undefined> {
     const result = await db.update(workspaces)
       .set({
         ...updates,
         updatedAt: new Date()
       })
-      .where(eq(workspaces.id, id))
+      .where(and(eq(workspaces.id, id), unmodifiedSince(workspaces.updatedAt, expectedUpdatedAt)))
       .returning();
+    if (!result[0] && expectedUpdatedAt) {
+      const current = await this.getWorkspace(id);
+      if (current) throw new StaleUpdateError(current);
+    }
     return result[0];
   }
 
@@ -900,28 +1559,69 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async getDraft(workspaceId: string): Promise<Draft | undefined> {
+  async getDraft(workspaceId: string, branchName: string = 'main'): Promise<Draft | undefined> {
     const result = await db.select()
       .from(drafts)
-      .where(eq(drafts.workspaceId, workspaceId))
+      .where(and(eq(drafts.workspaceId, workspaceId), eq(drafts.branchName, branchName)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getDraftById(id: string): Promise<Draft | undefined> {
+    const result = await db.select()
+      .from(drafts)
+      .where(eq(drafts.id, id))
       .limit(1);
     return result[0];
   }
 
-  async updateDraft(workspaceId: string, updates: Partial<InsertDraft>): Promise<Draft | undefined> {
+  async getDrafts(workspaceId: string): Promise<Draft[]> {
+    const result = await db.select()
+      .from(drafts)
+      .where(eq(drafts.workspaceId, workspaceId))
+      .orderBy(drafts.createdAt);
+    return result;
+  }
+
+  async updateDraft(workspaceId: string, updates: Partial<InsertDraft>, branchName: string = 'main', expectedUpdatedAt?: Date): Promise<Draft | undefined> {
     const result = await db.update(drafts)
       .set({
         ...updates,
         updatedAt: new Date()
       })
-      .where(eq(drafts.workspaceId, workspaceId))
+      .where(and(
+        eq(drafts.workspaceId, workspaceId),
+        eq(drafts.branchName, branchName),
+        unmodifiedSince(drafts.updatedAt, expectedUpdatedAt)
+      ))
       .returning();
+    if (!result[0] && expectedUpdatedAt) {
+      const current = await this.getDraft(workspaceId, branchName);
+      if (current) throw new StaleUpdateError(current);
+    }
+    if (result[0]) storageEvents.emit('draft', result[0], updates);
     return result[0];
   }
 
   // Revision methods
-  async createRevision(insertRevision: InsertRevision): Promise<Revision> {
-    const result = await db.insert(revisions).values(insertRevision).returning();
+  async createRevision(insertRevision: Omit<InsertRevision, 'number'>): Promise<Revision> {
+    return db.transaction(tx => this.insertRevision(tx, insertRevision));
+  }
+
+  private async insertRevision(tx: Transaction, insertRevision: Omit<InsertRevision, 'number'>): Promise<Revision> {
+    // Locking the workspace serializes numbering across its branches
+    await tx.select({ id: workspaces.id })
+      .from(workspaces)
+      .where(eq(workspaces.id, insertRevision.workspaceId))
+      .for('update');
+    const latest = await tx.select({ number: revisions.number })
+      .from(revisions)
+      .where(eq(revisions.workspaceId, insertRevision.workspaceId))
+      .orderBy(desc(revisions.number))
+      .limit(1);
+    const result = await tx.insert(revisions)
+      .values({ ...insertRevision, number: (latest[0]?.number ?? 0) + 1 })
+      .returning();
     return result[0];
   }
 
@@ -940,6 +1640,7 @@ export class DbStorage implements IStorage {
       sectionPath: insertMessage.sectionPath || null,
       metadata: insertMessage.metadata || null
     }).returning();
+    storageEvents.emit('message', result[0]);
     return result[0];
   }
 
@@ -958,6 +1659,7 @@ export class DbStorage implements IStorage {
       sectionPath: insertSuggestion.sectionPath || null,
       status: insertSuggestion.status || 'proposed'
     }).returning();
+    storageEvents.emit('suggestion', result[0]);
     return result[0];
   }
 
@@ -969,17 +1671,81 @@ export class DbStorage implements IStorage {
     return result;
   }
 
+  async getSuggestion(id: string): Promise<Suggestion | undefined> {
+    const result = await db.select()
+      .from(suggestions)
+      .where(eq(suggestions.id, id))
+      .limit(1);
+    return result[0];
+  }
+
   async updateSuggestion(id: string, updates: Partial<InsertSuggestion>): Promise<Suggestion | undefined> {
     const result = await db.update(suggestions)
       .set(updates)
       .where(eq(suggestions.id, id))
       .returning();
+    if (result[0]) storageEvents.emit('suggestion', result[0]);
     return result[0];
   }
 
+  async reviewSuggestions(review: SuggestionReview): Promise<Revision | null> {
+    const { applied } = review;
+    type Outcome =
+      | { closed: Suggestion[] }
+      | { stale: true }
+      | { revision: Revision | null; draft?: Draft; reviewed: Suggestion[] };
+    const outcome = await db.transaction(async (tx): Promise<Outcome> => {
+      // Locked so a concurrent review waits, then sees them closed
+      const locked = await tx.select()
+        .from(suggestions)
+        .where(inArray(suggestions.id, [...review.apply, ...review.reject]))
+        .for('update');
+      const closed = locked.filter(suggestion => suggestion.status !== 'proposed');
+      if (closed.length > 0) return { closed };
+
+      let revision: Revision | null = null;
+      let draft: Draft | undefined;
+      if (applied) {
+        const current = await tx.select({ id: drafts.id })
+          .from(drafts)
+          .where(and(eq(drafts.id, applied.draft.id), unmodifiedSince(drafts.updatedAt, applied.draft.updatedAt)))
+          .for('update');
+        if (!current[0]) return { stale: true };
+
+        revision = await this.insertRevision(tx, {
+          workspaceId: applied.draft.workspaceId,
+          draftId: applied.draft.id,
+          content: applied.content,
+          metadata: applied.metadata
+        });
+        [draft] = await tx.update(drafts)
+          .set({ outline: applied.outline, currentRevision: revision.number, updatedAt: new Date() })
+          .where(eq(drafts.id, applied.draft.id))
+          .returning();
+      }
+
+      const closing = async (ids: string[], status: string) => ids.length > 0
+        ? tx.update(suggestions).set({ status }).where(inArray(suggestions.id, ids)).returning()
+        : [];
+      const reviewed = [...await closing(review.apply, 'applied'), ...await closing(review.reject, 'rejected')];
+      return { revision, draft, reviewed };
+    });
+
+    if ('closed' in outcome) throw new ClosedSuggestionError(outcome.closed);
+    if ('stale' in outcome) {
+      const current = await this.getDraftById(applied!.draft.id);
+      if (current) throw new StaleUpdateError(current);
+      throw new Error('Draft not found');
+    }
+    if (outcome.draft) storageEvents.emit('draft', outcome.draft, { outline: applied!.outline, currentRevision: outcome.revision!.number });
+    outcome.reviewed.forEach(suggestion => storageEvents.emit('suggestion', suggestion));
+    return outcome.revision;
+  }
+
   // Activity methods
   async createActivity(insertActivity: InsertActivity): Promise<Activity> {
     const result = await db.insert(activities).values(insertActivity).returning();
+    storageEvents.emit('activity', result[0]);
     return result[0];
   }
 
@@ -991,8 +1757,83 @@ export class DbStorage implements IStorage {
     return result;
   }
 
+  async getIssueActivities(issueSlug: string): Promise<Activity[]> {
+    const result = await db.select()
+      .from(activities)
+      .where(eq(activities.issueSlug, issueSlug))
+      .orderBy(desc(activities.createdAt));
+    return result;
+  }
+
+  // Comment methods
+  async getComments(document: { issueSlug: string } | { workspaceId: string }): Promise<Comment[]> {
+    const result = await db.select()
+      .from(comments)
+      .where('issueSlug' in document
+        ? eq(comments.issueSlug, document.issueSlug)
+        : eq(comments.workspaceId, document.workspaceId))
+      .orderBy(asc(comments.createdAt));
+    return result;
+  }
+
+  async getComment(id: string): Promise<Comment | undefined> {
+    const result = await db.select().from(comments).where(eq(comments.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    const result = await db.insert(comments).values(insertComment).returning();
+    return result[0];
+  }
+
+  async setCommentResolved(id: string, resolvedBy: string | null): Promise<Comment | undefined> {
+    const result = await db.update(comments)
+      .set({ resolvedAt: resolvedBy ? new Date() : null, resolvedBy })
+      .where(eq(comments.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Reader state methods
+  async getReadingProgress(userId: string): Promise<ReadingProgress[]> {
+    const result = await db.select()
+      .from(readingProgress)
+      .where(eq(readingProgress.userId, userId));
+    return result;
+  }
+
+  async saveReadingProgress(userId: string, issueSlug: string, sectionIds: string[]): Promise<ReadingProgress> {
+    const result = await db.insert(readingProgress)
+      .values({ userId, issueSlug, sectionIds })
+      .onConflictDoUpdate({
+        target: [readingProgress.userId, readingProgress.issueSlug],
+        set: { sectionIds, updatedAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getReaderChat(userId: string, issueSlug: string): Promise<ReaderChat | undefined> {
+    const result = await db.select()
+      .from(readerChats)
+      .where(and(eq(readerChats.userId, userId), eq(readerChats.issueSlug, issueSlug)))
+      .limit(1);
+    return result[0];
+  }
+
+  async saveReaderChat(userId: string, issueSlug: string, messages: ReaderChatMessage[]): Promise<ReaderChat> {
+    const result = await db.insert(readerChats)
+      .values({ userId, issueSlug, messages })
+      .onConflictDoUpdate({
+        target: [readerChats.userId, readerChats.issueSlug],
+        set: { messages, updatedAt: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+
   // Publishing methods
-  async publishWorkspace(workspaceId: string, publishData: { slug: string, version: string, publishedAt?: Date }): Promise<{ issue: Issue, workspace: Workspace }> {
+  async publishWorkspace(workspaceId: string, publishData: PublishData): Promise<{ issue: Issue, workspace: Workspace }> {
     // Get workspace
     const workspace = await this.getWorkspace(workspaceId);
     if (!workspace) {
@@ -1005,14 +1846,11 @@ export class DbStorage implements IStorage {
       throw new Error('No draft content found for workspace');
     }
 
-    // Check if slug already exists
     const existingIssue = await this.getIssue(publishData.slug);
-    if (existingIssue) {
-      throw new Error(`An issue with slug "${publishData.slug}" already exists`);
-    }
+    await assertPublishable(this, existingIssue, publishData);
 
-    // Convert draft sections to issue format
-    const convertedSections = convertDraftToIssueFormat(draft.outline.sections);
+    // Entries reviewed in the publish preview, or the heuristic conversion
+    const convertedSections = publishData.sections ?? convertDraftToIssueFormat(draft.outline.sections);
     
     // Create the issue
     const issueData: InsertIssue = {
@@ -1028,10 +1866,17 @@ export class DbStorage implements IStorage {
         publishedBy: workspace.userId,
         originalGoal: workspace.goal
       },
-      publishedAt: publishData.publishedAt || new Date()
+      // New issues enter the editorial workflow as drafts and go live once
+      // approved and published. Republishing sends a reviewed issue back to
+      // draft, and its release date is set when it is published again.
+      ...(!existingIssue && { status: 'draft' }),
+      publishedAt: publishData.publishedAt || existingIssue?.publishedAt || null
     };
 
-    const issue = await this.createIssue(issueData);
+    const change: IssueChange = { type: 'publish', userId: workspace.userId };
+    const issue = existingIssue
+      ? await this.republishIssue(existingIssue, issueData, change)
+      : await this.createIssue(issueData, change);
 
     // Update workspace status
     const updatedWorkspace = await this.updateWorkspace(workspaceId, { 
@@ -1048,9 +1893,13 @@ export class DbStorage implements IStorage {
       type: 'publish',
       payload: {
         userId: workspace.userId,
-        description: `Published draft as Issue "${issue.title}" (${issue.slug})`,
+        description: existingIssue
+          ? `Published draft as ${issue.version} of Issue "${issue.title}" (${issue.slug}), replacing ${existingIssue.version}${issue.liveContent ? ' once reviewed' : ''}`
+          : `Published draft as Issue "${issue.title}" (${issue.slug}) for editorial review`,
         metadata: {
           issueSlug: issue.slug,
+          version: issue.version,
+          previousVersion: existingIssue?.version,
           publishedAt: issue.publishedAt
         }
       }
@@ -0,0 +1,264 @@
+import { db } from './db';
+import { bookmarks } from '@shared/schema';
+import type { IssueSection } from '@shared/publish';
+import { sql } from 'drizzle-orm';
+import { storage, storageEvents } from './storage';
+
+// Autocomplete over pattern names, section titles, issue titles and signals
+// of listed issues. Their words go into a trie that is searched with a
+// bounded edit distance, so "circut braker" still finds "Circuit Breaker".
+// Query words match the start of a word, so suggestions appear while typing.
+
+type SuggestionKind = 'pattern' | 'section' | 'issue' | 'signal';
+
+export interface Suggestion {
+  text: string;
+  kind: SuggestionKind;
+  // Characters of `text` the query matched, for bolding
+  match: { start: number; end: number };
+}
+
+interface SuggestionEntry {
+  text: string;
+  kind: SuggestionKind;
+  words: { word: string; start: number; end: number }[];
+  // Bookmarks of the thing named, plus how many patterns share a signal
+  popularity: number;
+}
+
+interface WordMatch {
+  distance: number;
+  // Characters of the word that matched
+  length: number;
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  // Set when a word ends here
+  word?: string;
+}
+
+// Signals longer than this read as sentences rather than search terms
+const MAX_SIGNAL_WORDS = 6;
+
+// Rebuilt at least this often so new bookmarks shift the ranking
+const MAX_AGE = 5 * 60 * 1000;
+
+// Runs of letters and digits in any script
+const WORD_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+
+function tokenize(text: string): SuggestionEntry['words'] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    word: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+// Typos allowed in a query word of this length
+function maxDistance(word: string): number {
+  if (word.length <= 2) return 0;
+  if (word.length <= 5) return 1;
+  return 2;
+}
+
+class SuggestionIndex {
+  private root: TrieNode = { children: new Map() };
+  private entriesByWord = new Map<string, SuggestionEntry[]>();
+
+  constructor(entries: SuggestionEntry[]) {
+    for (const entry of entries) {
+      for (const { word } of entry.words) {
+        this.insert(word);
+        const withWord = this.entriesByWord.get(word) ?? [];
+        if (!withWord.includes(entry)) withWord.push(entry);
+        this.entriesByWord.set(word, withWord);
+      }
+    }
+  }
+
+  private insert(word: string) {
+    let node = this.root;
+    for (const char of word) {
+      let child = node.children.get(char);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(char, child);
+      }
+      node = child;
+    }
+    node.word = word;
+  }
+
+  // Indexed words with a prefix within the edit distance of `term`, with
+  // the distance and the length of that closest prefix
+  private fuzzyWords(term: string, max: number): Map<string, WordMatch> {
+    const found = new Map<string, WordMatch>();
+    const chars = Array.from(term);
+    const firstRow = chars.map((_, index) => index + 1);
+
+    const visit = (node: TrieNode, char: string, depth: number, previous: number[], best: WordMatch) => {
+      // Levenshtein row for the path so far against the whole term
+      const row = [previous[0] + 1];
+      for (let i = 1; i <= chars.length; i++) {
+        row.push(Math.min(
+          row[i - 1] + 1,
+          previous[i] + 1,
+          previous[i - 1] + (chars[i - 1] === char ? 0 : 1)
+        ));
+      }
+      const closest = row[chars.length] < best.distance ? { distance: row[chars.length], length: depth } : best;
+
+      if (node.word && closest.distance <= max) {
+        found.set(node.word, closest);
+      }
+      // Keep going while the path can still get close, or already has
+      if (Math.min(...row) <= max || closest.distance <= max) {
+        node.children.forEach((child, next) => visit(child, next, depth + 1, row, closest));
+      }
+    };
+
+    const none = { distance: Infinity, length: 0 };
+    this.root.children.forEach((child, char) => visit(child, char, 1, [0, ...firstRow], none));
+    return found;
+  }
+
+  search(query: string, limit: number): Suggestion[] {
+    const terms = tokenize(query).map(token => token.word);
+    if (terms.length === 0) return [];
+
+    const candidates = terms.map(term => this.fuzzyWords(term, maxDistance(term)));
+
+    // Entries with a match for every term, each term on a different word
+    const scored: { entry: SuggestionEntry; distance: number; match: Suggestion['match'] }[] = [];
+    const firstWords = Array.from(candidates[0].keys());
+    const entries = new Set(firstWords.flatMap(word => this.entriesByWord.get(word) ?? []));
+
+    entries.forEach(entry => {
+      const used = new Map<number, WordMatch>();
+      let distance = 0;
+      for (const matches of candidates) {
+        let bestIndex = -1;
+        for (let index = 0; index < entry.words.length; index++) {
+          const match = matches.get(entry.words[index].word);
+          if (match && !used.has(index) && (bestIndex < 0 || match.distance < matches.get(entry.words[bestIndex].word)!.distance)) {
+            bestIndex = index;
+          }
+        }
+        if (bestIndex < 0) return;
+        const match = matches.get(entry.words[bestIndex].word)!;
+        used.set(bestIndex, match);
+        distance += match.distance;
+      }
+
+      // From the first matched word to the end of the matched part of the last
+      const spans = Array.from(used, ([index, match]) => ({
+        start: entry.words[index].start,
+        end: entry.words[index].start + match.length,
+      }));
+      scored.push({
+        entry,
+        distance,
+        match: {
+          start: Math.min(...spans.map(span => span.start)),
+          end: Math.max(...spans.map(span => span.end)),
+        },
+      });
+    });
+
+    // Closest matches first, then the most popular
+    return scored
+      .sort((a, b) =>
+        a.distance - b.distance ||
+        b.entry.popularity - a.entry.popularity ||
+        a.entry.text.length - b.entry.text.length
+      )
+      .slice(0, limit)
+      .map(({ entry, match }) => ({ text: entry.text, kind: entry.kind, match }));
+  }
+}
+
+export class SuggestionService {
+  private index: Promise<SuggestionIndex> | null = null;
+  private builtAt = 0;
+
+  constructor() {
+    // Issue changes can add, rename or hide suggestions, and issues going
+    // live add them
+    const invalidate = () => {
+      this.index = null;
+    };
+    storageEvents.on('issue', invalidate);
+    storageEvents.on('issueDeleted', invalidate);
+    storageEvents.on('issueLive', invalidate);
+  }
+
+  async getSuggestions(query: string, limit = 10): Promise<Suggestion[]> {
+    try {
+      if (query.trim().length < 2) {
+        return [];
+      }
+      if (!this.index || Date.now() - this.builtAt > MAX_AGE) {
+        this.builtAt = Date.now();
+        this.index = buildIndex();
+        this.index.catch(() => {
+          this.index = null;
+        });
+      }
+      return (await this.index).search(query, limit);
+    } catch (error) {
+      console.error('Suggestions error:', error);
+      return [];
+    }
+  }
+}
+
+async function buildIndex(): Promise<SuggestionIndex> {
+  const issues = await storage.getPublishedIssues();
+  const bookmarkCounts = await db
+    .select({
+      issueSlug: bookmarks.issueSlug,
+      sectionId: bookmarks.sectionId,
+      patternName: bookmarks.patternName,
+      bookmarkType: bookmarks.bookmarkType,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(bookmarks)
+    .groupBy(bookmarks.issueSlug, bookmarks.sectionId, bookmarks.patternName, bookmarks.bookmarkType);
+
+  const bookmarked = (type: string, issueSlug: string, sectionId?: string, patternName?: string) =>
+    bookmarkCounts
+      .filter(row => row.bookmarkType === type && row.issueSlug === issueSlug
+        && (!sectionId || row.sectionId === sectionId)
+        && (!patternName || row.patternName === patternName))
+      .reduce((total, row) => total + row.count, 0);
+
+  // The same text in several issues is one suggestion with their popularity
+  const entries = new Map<string, SuggestionEntry>();
+  const add = (kind: SuggestionKind, text: string, popularity: number) => {
+    const key = `${kind}:${text.toLowerCase()}`;
+    const existing = entries.get(key);
+    if (existing) {
+      existing.popularity += popularity;
+    } else {
+      entries.set(key, { text, kind, words: tokenize(text), popularity });
+    }
+  };
+
+  for (const issue of issues) {
+    add('issue', issue.title, bookmarked('issue', issue.slug));
+    for (const section of (issue.sections as IssueSection[]) || []) {
+      add('section', section.title, bookmarked('section', issue.slug, section.id));
+      for (const entry of section.entries) {
+        add('pattern', entry.pattern, bookmarked('pattern', issue.slug, section.id, entry.pattern));
+        entry.signals
+          .filter(signal => tokenize(signal).length <= MAX_SIGNAL_WORDS)
+          .forEach(signal => add('signal', signal, 1));
+      }
+    }
+  }
+
+  return new SuggestionIndex(Array.from(entries.values()).filter(entry => entry.words.length > 0));
+}
+
+export const suggestionService = new SuggestionService();
@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { draftOperationSchema, sectionFieldSchema, type DraftOperation } from "./ot";
+import type { Activity, Message, Suggestion } from "./schema";
+
+// Messages exchanged over the workspace WebSocket at /ws/workspaces/:id.
+// Every socket receives the workspace's live events; a socket that joins a
+// branch also takes part in editing that branch's draft.
+
+export const collaborationClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('join'),
+    branch: z.string(),
+    // Last session and version this client saw, so a reconnect can catch up
+    // instead of starting over from a snapshot
+    session: z.string().optional(),
+    version: z.number().int().nonnegative().optional()
+  }),
+  z.object({ type: z.literal('leave') }),
+  z.object({
+    type: z.literal('operation'),
+    // Client-generated id, so an operation resent after a reconnect is only applied once
+    id: z.string(),
+    // Draft session and version the operation was made against
+    session: z.string(),
+    version: z.number().int().nonnegative(),
+    operation: draftOperationSchema
+  }),
+  z.object({
+    type: z.literal('presence'),
+    sectionId: z.string().nullable(),
+    field: sectionFieldSchema.nullable(),
+    // Caret offset within the field
+    cursor: z.number().int().nonnegative().nullable()
+  })
+]);
+
+export type CollaborationClientMessage = z.infer<typeof collaborationClientMessageSchema>;
+
+export interface CollaboratorPresence {
+  clientId: string;
+  userId: string;
+  username: string;
+  color: string;
+  sectionId: string | null;
+  field: 'title' | 'content' | null;
+  cursor: number | null;
+}
+
+export type WorkspaceLiveEvent =
+  | { kind: 'message'; data: Message }
+  | { kind: 'suggestion'; data: Suggestion }
+  | { kind: 'activity'; data: Activity };
+
+export type CollaborationServerMessage =
+  | { type: 'welcome'; clientId: string }
+  // Replaces the client's copy of the draft; any unacknowledged edits are lost
+  | { type: 'snapshot'; branch: string; session: string; version: number; outline: any; checksum: string }
+  // `checksum` is the outline after this version, sent when it is the latest,
+  // so editors with nothing pending can confirm they match the server
+  | { type: 'ack'; id: string; version: number; checksum?: string }
+  | { type: 'operation'; id: string; version: number; operation: DraftOperation; clientId: string; checksum?: string }
+  | { type: 'presence'; collaborators: CollaboratorPresence[] }
+  | { type: 'event'; event: WorkspaceLiveEvent }
+  | { type: 'error'; error: string };
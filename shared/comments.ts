@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+// Comments annotate a published issue or a workspace draft. The anchor
+// narrows a comment from the whole document to a section, a pattern within
+// it and one field of that pattern, e.g. its third signal with
+// { field: 'signals[2]' }. Draft sections have no patterns; their comments
+// target the section's title or content.
+
+const COMMENT_FIELD_PATTERN = /^(title|content|pattern|description|protocol|signals(\[\d+\])?)$/;
+
+export const commentAnchorSchema = z.object({
+  issueSlug: z.string().min(1).optional(),
+  workspaceId: z.string().min(1).optional(),
+  sectionId: z.string().min(1).optional(),
+  pattern: z.string().min(1).optional(),
+  field: z.string().regex(COMMENT_FIELD_PATTERN, 'Unknown field').optional(),
+}).refine(anchor => !!anchor.issueSlug !== !!anchor.workspaceId, {
+  message: 'Anchor a comment to either an issue or a workspace',
+}).refine(anchor => (!anchor.pattern && !anchor.field) || !!anchor.sectionId, {
+  message: 'Patterns and fields are anchored within a section',
+});
+
+export type CommentAnchor = z.infer<typeof commentAnchorSchema>;
+
+// The part of an anchor below the document it belongs to
+export type CommentTarget = Pick<CommentAnchor, 'sectionId' | 'pattern' | 'field'>;
+
+export function sameCommentTarget(
+  a: { sectionId?: string | null; pattern?: string | null; field?: string | null },
+  b: { sectionId?: string | null; pattern?: string | null; field?: string | null }
+): boolean {
+  return (a.sectionId ?? null) === (b.sectionId ?? null)
+    && (a.pattern ?? null) === (b.pattern ?? null)
+    && (a.field ?? null) === (b.field ?? null);
+}
+
+// 'signals[2]' reads as 'signal 3'
+export function describeCommentField(field: string): string {
+  const signal = field.match(/^signals\[(\d+)\]$/);
+  return signal ? `signal ${Number(signal[1]) + 1}` : field;
+}
+
+export function describeCommentTarget(target: {
+  sectionTitle?: string | null;
+  pattern?: string | null;
+  field?: string | null;
+}): string {
+  const parts = [
+    target.sectionTitle,
+    target.pattern && `"${target.pattern}"`,
+    target.field && describeCommentField(target.field)
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' › ') : 'the whole document';
+}
+
+// Usernames mentioned as @name, in order of first mention
+export function extractMentions(body: string): string[] {
+  const names = Array.from(body.matchAll(/(?:^|[^\w@])@([A-Za-z0-9_.-]+)/g), match => match[1].replace(/[.-]+$/, ''));
+  return Array.from(new Set(names.filter(Boolean)));
+}
@@ -0,0 +1,136 @@
+import { deepEqual } from "./jsonPatch";
+import type { IssueEntry, IssueSection } from "./publish";
+
+// What changed between two published versions of an issue. Sections are
+// matched by id and patterns by name within their section.
+
+export type ChangeStatus = 'added' | 'removed' | 'modified';
+
+export interface PatternChange {
+  pattern: string;
+  status: ChangeStatus;
+  // Which parts of a modified entry changed
+  changedFields: (keyof IssueEntry)[];
+}
+
+export interface SectionChange {
+  id: string;
+  title: string;
+  // 'modified' covers renamed sections and sections whose patterns changed
+  status: ChangeStatus;
+  renamedFrom?: string;
+  patterns: PatternChange[];
+}
+
+export interface IssueChangelog {
+  sections: SectionChange[];
+  summary: {
+    sectionsAdded: number;
+    sectionsRemoved: number;
+    sectionsModified: number;
+    patternsAdded: number;
+    patternsRemoved: number;
+    patternsModified: number;
+  };
+}
+
+// Issue-level fields compared by diffIssueFields
+export const ISSUE_FIELDS = ['title', 'subtitle', 'version', 'tagline', 'intro'] as const;
+export type IssueField = typeof ISSUE_FIELDS[number];
+
+const ENTRY_FIELDS: (keyof IssueEntry)[] = ['pattern', 'description', 'signals', 'protocol'];
+
+function patternKey(entry: IssueEntry): string {
+  return entry.pattern.trim().toLowerCase();
+}
+
+function diffEntries(before: IssueEntry[], after: IssueEntry[]): PatternChange[] {
+  const previous = new Map(before.map(entry => [patternKey(entry), entry]));
+  const changes: PatternChange[] = [];
+
+  after.forEach(entry => {
+    const old = previous.get(patternKey(entry));
+    previous.delete(patternKey(entry));
+    if (!old) {
+      changes.push({ pattern: entry.pattern, status: 'added', changedFields: [] });
+      return;
+    }
+    const changedFields = ENTRY_FIELDS.filter(field => !deepEqual(old[field], entry[field]));
+    if (changedFields.length > 0) {
+      changes.push({ pattern: entry.pattern, status: 'modified', changedFields });
+    }
+  });
+
+  previous.forEach(entry => {
+    changes.push({ pattern: entry.pattern, status: 'removed', changedFields: [] });
+  });
+
+  return changes;
+}
+
+export function diffIssueSections(before: IssueSection[], after: IssueSection[]): IssueChangelog {
+  const previous = new Map(before.map(section => [section.id, section]));
+  const sections: SectionChange[] = [];
+
+  after.forEach(section => {
+    const old = previous.get(section.id);
+    previous.delete(section.id);
+    if (!old) {
+      sections.push({
+        id: section.id,
+        title: section.title,
+        status: 'added',
+        patterns: diffEntries([], section.entries)
+      });
+      return;
+    }
+
+    const patterns = diffEntries(old.entries, section.entries);
+    const renamed = old.title !== section.title;
+    if (patterns.length > 0 || renamed) {
+      sections.push({
+        id: section.id,
+        title: section.title,
+        status: 'modified',
+        ...(renamed && { renamedFrom: old.title }),
+        patterns
+      });
+    }
+  });
+
+  previous.forEach(section => {
+    sections.push({
+      id: section.id,
+      title: section.title,
+      status: 'removed',
+      patterns: diffEntries(section.entries, [])
+    });
+  });
+
+  const count = (status: ChangeStatus) => ({
+    sections: sections.filter(section => section.status === status).length,
+    patterns: sections.flatMap(section => section.patterns).filter(pattern => pattern.status === status).length
+  });
+  const added = count('added');
+  const removed = count('removed');
+  const modified = count('modified');
+
+  return {
+    sections,
+    summary: {
+      sectionsAdded: added.sections,
+      sectionsRemoved: removed.sections,
+      sectionsModified: modified.sections,
+      patternsAdded: added.patterns,
+      patternsRemoved: removed.patterns,
+      patternsModified: modified.patterns
+    }
+  };
+}
+
+export function diffIssueFields(
+  before: Partial<Record<IssueField, string | null>>,
+  after: Partial<Record<IssueField, string | null>>
+): IssueField[] {
+  return ISSUE_FIELDS.filter(field => (before[field] || '') !== (after[field] || ''));
+}
@@ -0,0 +1,33 @@
+// Editorial workflow for issues. An issue moves draft → in review → approved
+// → published, and published issues can be archived. Only published issues
+// are listed for readers; archived ones drop out of listings and search but
+// their URLs keep working.
+
+export const ISSUE_STATUSES = ['draft', 'in_review', 'approved', 'published', 'archived'] as const;
+export type IssueStatus = typeof ISSUE_STATUSES[number];
+
+export const ISSUE_STATUS_LABELS: Record<IssueStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  approved: 'Approved',
+  published: 'Published',
+  archived: 'Archived'
+};
+
+// Statuses each status can move to. Sending an issue back to draft is how a
+// reviewer requests changes; archived issues can be published again.
+export const ISSUE_TRANSITIONS: Record<IssueStatus, IssueStatus[]> = {
+  draft: ['in_review'],
+  in_review: ['draft', 'approved'],
+  approved: ['draft', 'published'],
+  published: ['archived'],
+  archived: ['published']
+};
+
+export function isIssueStatus(value: unknown): value is IssueStatus {
+  return typeof value === 'string' && (ISSUE_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransitionIssue(from: string, to: IssueStatus): boolean {
+  return isIssueStatus(from) && ISSUE_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,235 @@
+import { z } from "zod";
+
+// JSON Patch (RFC 6902) with JSON Pointer (RFC 6901) paths. Shared by the
+// server, which applies suggestions to drafts, and the client, which previews them.
+
+export const jsonPatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('add'), path: z.string(), value: z.unknown() }),
+  z.object({ op: z.literal('remove'), path: z.string() }),
+  z.object({ op: z.literal('replace'), path: z.string(), value: z.unknown() }),
+  z.object({ op: z.literal('move'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('copy'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('test'), path: z.string(), value: z.unknown() }),
+]);
+
+export const jsonPatchSchema = z.array(jsonPatchOperationSchema);
+
+export type JsonPatchOperation = z.infer<typeof jsonPatchOperationSchema>;
+export type JsonPatch = z.infer<typeof jsonPatchSchema>;
+
+export type JsonPatchErrorCode =
+  | 'INVALID_POINTER'
+  | 'PATH_NOT_FOUND'
+  | 'INVALID_INDEX'
+  | 'INVALID_TARGET'
+  | 'TEST_FAILED';
+
+export class JsonPatchError extends Error {
+  constructor(
+    message: string,
+    public readonly code: JsonPatchErrorCode,
+    public readonly operationIndex: number,
+    public readonly operation: JsonPatchOperation,
+  ) {
+    super(`Operation ${operationIndex} (${operation.op} ${operation.path}): ${message}`);
+    this.name = 'JsonPatchError';
+  }
+}
+
+// Thrown by the pointer helpers; applyJsonPatch rethrows it as a JsonPatchError
+class PointerError extends Error {
+  constructor(message: string, public readonly code: JsonPatchErrorCode) {
+    super(message);
+  }
+}
+
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new PointerError(`"${pointer}" is not a JSON Pointer (must start with "/")`, 'INVALID_POINTER');
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+export function formatJsonPointer(tokens: (string | number)[]): string {
+  return tokens
+    .map(token => '/' + String(token).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('');
+}
+
+function parseArrayIndex(token: string, length: number, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new PointerError(`"${token}" is not a valid array index`, 'INVALID_INDEX');
+  }
+
+  const index = Number(token);
+  const max = allowEnd ? length : length - 1;
+  if (index > max) {
+    throw new PointerError(`index ${index} is out of bounds (length ${length})`, 'INVALID_INDEX');
+  }
+  return index;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null;
+}
+
+function resolveParent(document: unknown, tokens: string[]): unknown {
+  let current = document;
+  for (let i = 0; i < tokens.length - 1; i++) {
+    current = getChild(current, tokens[i], formatJsonPointer(tokens.slice(0, i + 1)));
+  }
+  return current;
+}
+
+function getChild(container: unknown, token: string, pointer: string): unknown {
+  if (Array.isArray(container)) {
+    return container[parseArrayIndex(token, container.length, false)];
+  }
+  if (isContainer(container) && Object.prototype.hasOwnProperty.call(container, token)) {
+    return (container as Record<string, unknown>)[token];
+  }
+  throw new PointerError(`"${pointer}" does not exist`, 'PATH_NOT_FOUND');
+}
+
+export function getValueAtPointer(document: unknown, pointer: string): unknown {
+  const tokens = parseJsonPointer(pointer);
+  if (tokens.length === 0) return document;
+  return getChild(resolveParent(document, tokens), tokens[tokens.length - 1], pointer);
+}
+
+export function hasPointer(document: unknown, pointer: string): boolean {
+  try {
+    getValueAtPointer(document, pointer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isContainer(a) && isContainer(b)) {
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    return aKeys.length === bKeys.length &&
+      aKeys.every(key => Object.prototype.hasOwnProperty.call(b, key) &&
+        deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+  }
+  return false;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Each helper returns the new document so that operations on the root work
+function addValue(document: unknown, tokens: string[], value: unknown, pointer: string): unknown {
+  if (tokens.length === 0) return value;
+
+  const parent = resolveParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(parseArrayIndex(key, parent.length, true), 0, value);
+  } else if (isContainer(parent)) {
+    (parent as Record<string, unknown>)[key] = value;
+  } else {
+    throw new PointerError(`parent of "${pointer}" is not an object or array`, 'INVALID_TARGET');
+  }
+  return document;
+}
+
+function removeValue(document: unknown, tokens: string[], pointer: string): unknown {
+  if (tokens.length === 0) {
+    throw new PointerError('cannot remove the document root', 'INVALID_TARGET');
+  }
+
+  const parent = resolveParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(parseArrayIndex(key, parent.length, false), 1);
+  } else if (isContainer(parent) && Object.prototype.hasOwnProperty.call(parent, key)) {
+    delete (parent as Record<string, unknown>)[key];
+  } else {
+    throw new PointerError(`"${pointer}" does not exist`, 'PATH_NOT_FOUND');
+  }
+  return document;
+}
+
+function replaceValue(document: unknown, tokens: string[], value: unknown, pointer: string): unknown {
+  if (tokens.length === 0) return value;
+
+  // replace requires the target to exist
+  getValueAtPointer(document, pointer);
+  const parent = resolveParent(document, tokens) as Record<string, unknown> | unknown[];
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent[parseArrayIndex(key, parent.length, false)] = value;
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  const tokens = parseJsonPointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, tokens, clone(operation.value), operation.path);
+    case 'remove':
+      return removeValue(document, tokens, operation.path);
+    case 'replace':
+      return replaceValue(document, tokens, clone(operation.value), operation.path);
+    case 'move': {
+      const fromTokens = parseJsonPointer(operation.from);
+      if (tokens.length > fromTokens.length &&
+          fromTokens.every((token, index) => tokens[index] === token)) {
+        throw new PointerError(`cannot move "${operation.from}" into its own child`, 'INVALID_TARGET');
+      }
+      const value = getValueAtPointer(document, operation.from);
+      return addValue(removeValue(document, fromTokens, operation.from), tokens, value, operation.path);
+    }
+    case 'copy':
+      return addValue(document, tokens, clone(getValueAtPointer(document, operation.from)), operation.path);
+    case 'test': {
+      const actual = getValueAtPointer(document, operation.path);
+      if (!deepEqual(actual, operation.value)) {
+        throw new PointerError(
+          `expected ${JSON.stringify(operation.value)} but found ${JSON.stringify(actual)}`,
+          'TEST_FAILED'
+        );
+      }
+      return document;
+    }
+  }
+}
+
+// Applies a patch atomically: the input is never mutated, and the first
+// failing operation aborts the whole patch with a JsonPatchError.
+export function applyJsonPatch<T>(document: T, patch: JsonPatch): T {
+  let result: unknown = clone(document);
+
+  patch.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation);
+    } catch (error) {
+      if (error instanceof PointerError) {
+        throw new JsonPatchError(error.message, error.code, index, operation);
+      }
+      throw error;
+    }
+  });
+
+  return result as T;
+}
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { deepEqual, formatJsonPointer } from "./jsonPatch";
+
+// Three-way merge of JSON documents. Used to apply suggestions generated
+// against an older revision of a draft on top of the editor's newer changes.
+
+export interface MergeConflict {
+  // JSON Pointer to the conflicting value, using element ids instead of
+  // indexes for arrays of identified items (e.g. /sections/section-1/content)
+  // so it stays stable when sections are reordered
+  path: string;
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+}
+
+export const conflictResolutionSchema = z.discriminatedUnion('choice', [
+  z.object({ choice: z.literal('ours') }),
+  z.object({ choice: z.literal('theirs') }),
+  z.object({ choice: z.literal('custom'), value: z.unknown() }),
+]);
+
+export const conflictResolutionsSchema = z.record(z.string(), conflictResolutionSchema);
+
+export type ConflictResolution = z.infer<typeof conflictResolutionSchema>;
+export type ConflictResolutions = z.infer<typeof conflictResolutionsSchema>;
+
+export interface MergeResult<T> {
+  merged: T;
+  // Unresolved conflicts; their values in `merged` are left as ours
+  conflicts: MergeConflict[];
+}
+
+type Identified = { id: string };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isIdentifiedArray(value: unknown): value is Identified[] {
+  return Array.isArray(value) && value.every(item => isPlainObject(item) && typeof item.id === 'string');
+}
+
+class Merger {
+  conflicts: MergeConflict[] = [];
+
+  constructor(private resolutions: ConflictResolutions) {}
+
+  mergeValue(base: unknown, ours: unknown, theirs: unknown, tokens: string[]): unknown {
+    if (deepEqual(ours, theirs)) return ours;
+    if (deepEqual(base, ours)) return theirs;
+    if (deepEqual(base, theirs)) return ours;
+
+    if (isPlainObject(ours) && isPlainObject(theirs) && (base === undefined || isPlainObject(base))) {
+      return this.mergeObjects(base || {}, ours, theirs, tokens);
+    }
+
+    if (isIdentifiedArray(ours) && isIdentifiedArray(theirs) && (base === undefined || isIdentifiedArray(base))) {
+      return this.mergeArrays(base || [], ours, theirs, tokens);
+    }
+
+    return this.conflict(base, ours, theirs, tokens);
+  }
+
+  private conflict(base: unknown, ours: unknown, theirs: unknown, tokens: string[]): unknown {
+    const path = formatJsonPointer(tokens);
+    const resolution = this.resolutions[path];
+
+    switch (resolution?.choice) {
+      case 'ours':
+        return ours;
+      case 'theirs':
+        return theirs;
+      case 'custom':
+        return resolution.value;
+      default:
+        this.conflicts.push({ path, base, ours, theirs });
+        return ours;
+    }
+  }
+
+  private mergeObjects(
+    base: Record<string, unknown>,
+    ours: Record<string, unknown>,
+    theirs: Record<string, unknown>,
+    tokens: string[]
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(ours), ...Object.keys(theirs), ...Object.keys(base)]);
+
+    keys.forEach(key => {
+      const value = this.mergeValue(base[key], ours[key], theirs[key], [...tokens, key]);
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    });
+
+    return result;
+  }
+
+  private mergeArrays(base: Identified[], ours: Identified[], theirs: Identified[], tokens: string[]): Identified[] {
+    const byId = (items: Identified[]) => new Map(items.map(item => [item.id, item]));
+    const baseItems = byId(base);
+    const ourItems = byId(ours);
+    const theirItems = byId(theirs);
+
+    // Keep our ordering unless only they reordered, then slot in items
+    // that only exist on the other side after their previous sibling
+    const commonOrder = (items: Identified[]) =>
+      items.map(item => item.id).filter(id => baseItems.has(id) && ourItems.has(id) && theirItems.has(id));
+    const weReordered = !deepEqual(commonOrder(ours), commonOrder(base));
+    const [primary, secondary] = weReordered ? [ours, theirs] : [theirs, ours];
+
+    const order = primary.map(item => item.id);
+    secondary.forEach((item, index) => {
+      if (order.includes(item.id)) return;
+      const previous = secondary.slice(0, index).reverse().find(other => order.includes(other.id));
+      order.splice(previous ? order.indexOf(previous.id) + 1 : 0, 0, item.id);
+    });
+
+    const result: Identified[] = [];
+    order.forEach(id => {
+      const value = this.mergeValue(baseItems.get(id), ourItems.get(id), theirItems.get(id), [...tokens, id]);
+      if (value !== undefined) {
+        result.push(value as Identified);
+      }
+    });
+
+    return result;
+  }
+}
+
+// Merges `theirs` into `ours` relative to their common ancestor `base`.
+// Conflicts listed in `resolutions` (keyed by conflict path) are settled
+// with the chosen side; the rest are returned for the caller to resolve.
+export function threeWayMerge<T>(
+  base: T,
+  ours: T,
+  theirs: T,
+  resolutions: ConflictResolutions = {}
+): MergeResult<T> {
+  const merger = new Merger(resolutions);
+  const merged = merger.mergeValue(base, ours, theirs, []) as T;
+  return { merged, conflicts: merger.conflicts };
+}
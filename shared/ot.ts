@@ -0,0 +1,371 @@
+import { z } from "zod";
+
+// Operational transformation for live draft editing. The server orders every
+// operation; clients transform the server's operations against their own
+// unacknowledged edits so all editors converge on the same outline.
+//
+// Text fields use ot.js-style operations: components that together span the
+// whole string, where a positive number retains that many characters, a
+// negative number deletes them and a string is inserted.
+
+export type TextComponent = number | string;
+export type TextOperation = TextComponent[];
+
+export const textOperationSchema = z.array(
+  z.union([z.number().int().refine(n => n !== 0), z.string().min(1)])
+);
+
+export class OperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OperationError';
+  }
+}
+
+const isRetain = (component: TextComponent): component is number =>
+  typeof component === 'number' && component > 0;
+const isDelete = (component: TextComponent): component is number =>
+  typeof component === 'number' && component < 0;
+const isInsert = (component: TextComponent): component is string =>
+  typeof component === 'string';
+
+// Builds operations in canonical form: adjacent components of the same kind
+// are merged and inserts always come before deletes at the same position
+class OperationBuilder {
+  readonly ops: TextOperation = [];
+
+  retain(count: number) {
+    if (count <= 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (last !== undefined && isRetain(last)) {
+      this.ops[this.ops.length - 1] = last + count;
+    } else {
+      this.ops.push(count);
+    }
+    return this;
+  }
+
+  insert(text: string) {
+    if (text === '') return this;
+    const ops = this.ops;
+    const last = ops[ops.length - 1];
+    if (last !== undefined && isInsert(last)) {
+      ops[ops.length - 1] = last + text;
+    } else if (last !== undefined && isDelete(last)) {
+      const beforeLast = ops[ops.length - 2];
+      if (beforeLast !== undefined && isInsert(beforeLast)) {
+        ops[ops.length - 2] = beforeLast + text;
+      } else {
+        ops.splice(ops.length - 1, 0, text);
+      }
+    } else {
+      ops.push(text);
+    }
+    return this;
+  }
+
+  delete(count: number) {
+    if (count <= 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (last !== undefined && isDelete(last)) {
+      this.ops[this.ops.length - 1] = last - count;
+    } else {
+      this.ops.push(-count);
+    }
+    return this;
+  }
+}
+
+// Length of the string an operation applies to
+export function baseLength(op: TextOperation): number {
+  return op.reduce<number>((length, component) =>
+    isInsert(component) ? length : length + Math.abs(component), 0);
+}
+
+// Length of the string an operation produces
+export function targetLength(op: TextOperation): number {
+  return op.reduce<number>((length, component) =>
+    isInsert(component) ? length + component.length : isRetain(component) ? length + component : length, 0);
+}
+
+export function isNoopTextOperation(op: TextOperation): boolean {
+  return op.every(isRetain);
+}
+
+export function applyTextOperation(text: string, op: TextOperation): string {
+  if (baseLength(op) !== text.length) {
+    throw new OperationError(`Operation spans ${baseLength(op)} characters but the text has ${text.length}`);
+  }
+
+  let result = '';
+  let index = 0;
+  for (const component of op) {
+    if (isRetain(component)) {
+      result += text.slice(index, index + component);
+      index += component;
+    } else if (isInsert(component)) {
+      result += component;
+    } else {
+      index -= component;
+    }
+  }
+  return result;
+}
+
+// Smallest single-edit operation that turns `before` into `after`
+export function diffText(before: string, after: string): TextOperation {
+  let prefix = 0;
+  const maxPrefix = Math.min(before.length, after.length);
+  while (prefix < maxPrefix && before[prefix] === after[prefix]) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  return new OperationBuilder()
+    .retain(prefix)
+    .insert(after.slice(prefix, after.length - suffix))
+    .delete(before.length - prefix - suffix)
+    .retain(suffix)
+    .ops;
+}
+
+// Combines two consecutive operations into one with the same effect
+export function composeTextOperations(a: TextOperation, b: TextOperation): TextOperation {
+  if (targetLength(a) !== baseLength(b)) {
+    throw new OperationError('Operations cannot be composed: lengths do not line up');
+  }
+
+  const builder = new OperationBuilder();
+  let i = 0;
+  let j = 0;
+  let opA = a[i++];
+  let opB = b[j++];
+
+  while (opA !== undefined || opB !== undefined) {
+    if (opA !== undefined && isDelete(opA)) {
+      builder.delete(-opA);
+      opA = a[i++];
+      continue;
+    }
+    if (opB !== undefined && isInsert(opB)) {
+      builder.insert(opB);
+      opB = b[j++];
+      continue;
+    }
+    if (opA === undefined || opB === undefined) {
+      throw new OperationError('Operations cannot be composed: one is too short');
+    }
+
+    if (isRetain(opA) && isRetain(opB)) {
+      const count = Math.min(opA, opB);
+      builder.retain(count);
+      [opA, opB] = [opA - count || a[i++], opB - count || b[j++]];
+    } else if (isInsert(opA) && isDelete(opB)) {
+      const count = Math.min(opA.length, -opB);
+      [opA, opB] = [opA.slice(count) || a[i++], opB + count || b[j++]];
+    } else if (isInsert(opA) && isRetain(opB)) {
+      const count = Math.min(opA.length, opB);
+      builder.insert(opA.slice(0, count));
+      [opA, opB] = [opA.slice(count) || a[i++], opB - count || b[j++]];
+    } else if (isRetain(opA) && isDelete(opB)) {
+      const count = Math.min(opA, -opB);
+      builder.delete(count);
+      [opA, opB] = [opA - count || a[i++], opB + count || b[j++]];
+    }
+  }
+
+  return builder.ops;
+}
+
+// Transforms two concurrent operations on the same text so that
+// apply(apply(text, a), bPrime) === apply(apply(text, b), aPrime).
+// When both insert at the same position, a's text comes first.
+export function transformTextOperations(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+  if (baseLength(a) !== baseLength(b)) {
+    throw new OperationError('Concurrent operations must apply to the same text');
+  }
+
+  const aPrime = new OperationBuilder();
+  const bPrime = new OperationBuilder();
+  let i = 0;
+  let j = 0;
+  let opA = a[i++];
+  let opB = b[j++];
+
+  while (opA !== undefined || opB !== undefined) {
+    if (opA !== undefined && isInsert(opA)) {
+      aPrime.insert(opA);
+      bPrime.retain(opA.length);
+      opA = a[i++];
+      continue;
+    }
+    if (opB !== undefined && isInsert(opB)) {
+      aPrime.retain(opB.length);
+      bPrime.insert(opB);
+      opB = b[j++];
+      continue;
+    }
+    if (opA === undefined || opB === undefined) {
+      throw new OperationError('Operations cannot be transformed: one is too short');
+    }
+
+    if (isRetain(opA) && isRetain(opB)) {
+      const count = Math.min(opA, opB);
+      aPrime.retain(count);
+      bPrime.retain(count);
+      [opA, opB] = [opA - count || a[i++], opB - count || b[j++]];
+    } else if (isDelete(opA) && isDelete(opB)) {
+      // Both deleted the same characters
+      const count = Math.min(-opA, -opB);
+      [opA, opB] = [opA + count || a[i++], opB + count || b[j++]];
+    } else if (isDelete(opA) && isRetain(opB)) {
+      const count = Math.min(-opA, opB);
+      aPrime.delete(count);
+      [opA, opB] = [opA + count || a[i++], opB - count || b[j++]];
+    } else if (isRetain(opA) && isDelete(opB)) {
+      const count = Math.min(opA, -opB);
+      bPrime.delete(count);
+      [opA, opB] = [opA - count || a[i++], opB + count || b[j++]];
+    }
+  }
+
+  return [aPrime.ops, bPrime.ops];
+}
+
+// Where a caret at `position` ends up after the operation is applied.
+// Text inserted exactly at the caret pushes it along unless `ownEdit`
+// is false, so a collaborator typing at your caret doesn't move it.
+export function transformTextPosition(position: number, op: TextOperation, ownEdit = false): number {
+  let index = 0;
+  let result = position;
+  for (const component of op) {
+    if (index > position) break;
+    if (isRetain(component)) {
+      index += component;
+    } else if (isInsert(component)) {
+      if (index < position || ownEdit) result += component.length;
+    } else {
+      result -= Math.min(-component, position - index);
+      index -= component;
+    }
+  }
+  return Math.max(0, result);
+}
+
+// Draft operations address sections by id, so they stay meaningful while
+// other editors add sections around them.
+
+export const sectionFieldSchema = z.enum(['title', 'content']);
+export type SectionField = z.infer<typeof sectionFieldSchema>;
+
+export const draftOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    sectionId: z.string(),
+    field: sectionFieldSchema,
+    op: textOperationSchema
+  }),
+  z.object({
+    type: z.literal('insert-section'),
+    // Null inserts at the top level
+    parentId: z.string().nullable(),
+    // Sibling to insert after; null inserts first
+    afterId: z.string().nullable(),
+    section: z.object({
+      id: z.string(),
+      title: z.string(),
+      content: z.string()
+    }).passthrough()
+  })
+]);
+
+export type DraftOperation = z.infer<typeof draftOperationSchema>;
+
+function findSection(sections: any[], id: string): any | undefined {
+  for (const section of sections) {
+    if (section?.id === id) return section;
+    const found = Array.isArray(section?.children) ? findSection(section.children, id) : undefined;
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Returns a new outline with the operation applied. Operations that target
+// a section that no longer exists are dropped rather than rejected, so every
+// editor skips them the same way.
+export function applyDraftOperation<T extends { sections: any[] }>(outline: T, operation: DraftOperation): T {
+  const next: T = JSON.parse(JSON.stringify(outline));
+  if (!Array.isArray(next.sections)) next.sections = [];
+
+  if (operation.type === 'text') {
+    const section = findSection(next.sections, operation.sectionId);
+    if (!section) return next;
+    section[operation.field] = applyTextOperation(String(section[operation.field] ?? ''), operation.op);
+    return next;
+  }
+
+  if (findSection(next.sections, operation.section.id)) return next;
+
+  let siblings = next.sections;
+  if (operation.parentId !== null) {
+    const parent = findSection(next.sections, operation.parentId);
+    if (!parent) return next;
+    if (!Array.isArray(parent.children)) parent.children = [];
+    siblings = parent.children;
+  }
+
+  const anchorIndex = operation.afterId === null
+    ? -1
+    : siblings.findIndex(section => section?.id === operation.afterId);
+  const index = operation.afterId === null ? 0 : anchorIndex === -1 ? siblings.length : anchorIndex + 1;
+  siblings.splice(index, 0, JSON.parse(JSON.stringify(operation.section)));
+  return next;
+}
+
+// Transforms two concurrent draft operations, with `a` ordered first. The
+// result satisfies apply(apply(outline, a), bPrime) === apply(apply(outline, b), aPrime).
+export function transformDraftOperations(a: DraftOperation, b: DraftOperation): [DraftOperation, DraftOperation] {
+  if (a.type === 'text' && b.type === 'text') {
+    if (a.sectionId !== b.sectionId || a.field !== b.field) return [a, b];
+    const [aPrime, bPrime] = transformTextOperations(a.op, b.op);
+    return [{ ...a, op: aPrime }, { ...b, op: bPrime }];
+  }
+
+  if (a.type === 'insert-section' && b.type === 'insert-section') {
+    // Two sections inserted at the same spot: the one ordered first ends up
+    // nearer the anchor, so the other goes after it
+    if (a.parentId === b.parentId && a.afterId === b.afterId && a.section.id !== b.section.id) {
+      return [a, { ...b, afterId: a.section.id }];
+    }
+  }
+
+  return [a, b];
+}
+
+// Canonical fingerprint of an outline, used to confirm that every editor
+// ended up with the same document after applying the same operations
+export function outlineChecksum(outline: unknown): string {
+  const canonical = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort()
+        .filter(key => (value as any)[key] !== undefined)
+        .map(key => `${JSON.stringify(key)}:${canonical((value as any)[key])}`)
+        .join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+  };
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  const text = canonical(outline);
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
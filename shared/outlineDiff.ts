@@ -0,0 +1,136 @@
+// Section-by-section structural diff between two draft outlines. Sections are
+// matched by id, so renames and moves show up as changes to the same section.
+
+export type SectionChangeStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface SectionSnapshot {
+  title: string;
+  content: string;
+  // Titles of the ancestors, outermost first
+  parents: string[];
+  index: number;
+  depth: number;
+}
+
+export interface SectionDiff {
+  id: string;
+  status: SectionChangeStatus;
+  // True when the section changed parent or position among its siblings
+  moved: boolean;
+  changedFields: ('title' | 'content')[];
+  before?: SectionSnapshot;
+  after?: SectionSnapshot;
+}
+
+export interface OutlineDiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  moved: number;
+}
+
+interface FlatSection extends SectionSnapshot {
+  id: string;
+  parentId: string | null;
+}
+
+function flattenOutline(outline: any): FlatSection[] {
+  const result: FlatSection[] = [];
+  const visit = (sections: any[], parentId: string | null, parents: string[], depth: number) => {
+    sections.forEach((section, index) => {
+      if (!section || typeof section.id !== 'string') return;
+      result.push({
+        id: section.id,
+        parentId,
+        title: section.title || '',
+        content: section.content || '',
+        parents,
+        index,
+        depth
+      });
+      if (Array.isArray(section.children)) {
+        visit(section.children, section.id, [...parents, section.title || ''], depth + 1);
+      }
+    });
+  };
+  visit(Array.isArray(outline?.sections) ? outline.sections : [], null, [], 0);
+  return result;
+}
+
+function toSnapshot({ title, content, parents, index, depth }: FlatSection): SectionSnapshot {
+  return { title, content, parents, index, depth };
+}
+
+// Lists every section of either outline in reading order of `to`, with
+// removed sections placed after the section that preceded them in `from`
+export function diffOutlines(from: any, to: any): SectionDiff[] {
+  const before = flattenOutline(from);
+  const after = flattenOutline(to);
+  const beforeById = new Map(before.map(section => [section.id, section]));
+  const afterIds = new Set(after.map(section => section.id));
+
+  // Position among siblings present in both outlines, so inserting or
+  // removing a section does not mark everything after it as moved
+  const siblingOrder = (sections: FlatSection[], other: Set<string>) => {
+    const order = new Map<string, number>();
+    const counts = new Map<string | null, number>();
+    sections.forEach(section => {
+      if (!other.has(section.id)) return;
+      const count = counts.get(section.parentId) || 0;
+      order.set(section.id, count);
+      counts.set(section.parentId, count + 1);
+    });
+    return order;
+  };
+  const beforeIds = new Set(before.map(section => section.id));
+  const beforeOrder = siblingOrder(before, afterIds);
+  const afterOrder = siblingOrder(after, beforeIds);
+
+  const removedAfter = new Map<string | null, FlatSection[]>();
+  before.forEach((section, position) => {
+    if (afterIds.has(section.id)) return;
+    const anchor = before.slice(0, position).reverse().find(other => afterIds.has(other.id));
+    const key = anchor ? anchor.id : null;
+    removedAfter.set(key, [...(removedAfter.get(key) || []), section]);
+  });
+
+  const removedDiffs = (key: string | null): SectionDiff[] =>
+    (removedAfter.get(key) || []).map(section => ({
+      id: section.id,
+      status: 'removed',
+      moved: false,
+      changedFields: [],
+      before: toSnapshot(section)
+    }));
+
+  const result: SectionDiff[] = removedDiffs(null);
+  after.forEach(section => {
+    const previous = beforeById.get(section.id);
+    if (!previous) {
+      result.push({ id: section.id, status: 'added', moved: false, changedFields: [], after: toSnapshot(section) });
+    } else {
+      const changedFields = (['title', 'content'] as const).filter(field => previous[field] !== section[field]);
+      result.push({
+        id: section.id,
+        status: changedFields.length > 0 ? 'modified' : 'unchanged',
+        moved: previous.parentId !== section.parentId || 
+          beforeOrder.get(section.id) !== afterOrder.get(section.id),
+        changedFields: [...changedFields],
+        before: toSnapshot(previous),
+        after: toSnapshot(section)
+      });
+    }
+    result.push(...removedDiffs(section.id));
+  });
+
+  return result;
+}
+
+export function summarizeOutlineDiff(diff: SectionDiff[]): OutlineDiffSummary {
+  return {
+    added: diff.filter(section => section.status === 'added').length,
+    removed: diff.filter(section => section.status === 'removed').length,
+    modified: diff.filter(section => section.status === 'modified').length,
+    moved: diff.filter(section => section.moved).length
+  };
+}
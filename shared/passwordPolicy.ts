@@ -0,0 +1,45 @@
+// Rules for new passwords, shared so forms can explain them before the
+// server rejects one. Length matters most; the rest rules out the guesses
+// tried first.
+
+export const PASSWORD_MIN_LENGTH = 10;
+export const PASSWORD_MAX_LENGTH = 200;
+
+const COMMON_PASSWORDS = new Set([
+  'password', 'password1', 'password123', '1234567890', '0123456789', 'qwertyuiop',
+  'iloveyou12', 'letmein123', 'welcome123', 'admin12345', 'administrator', 'changeme123',
+  'fieldguide', 'field-guide', 'zine123456',
+]);
+
+// Built with the constructor because the `u` flag needs a newer target
+const LETTER = new RegExp('\\p{L}', 'u');
+const NOT_LETTER = new RegExp('[^\\p{L}]', 'u');
+
+export const PASSWORD_REQUIREMENTS = [
+  `At least ${PASSWORD_MIN_LENGTH} characters`,
+  'Letters and at least one number or symbol',
+  "Not your username or a common password",
+];
+
+// Why a password can't be used; empty when it meets the policy
+export function passwordProblems(password: string, username?: string): string[] {
+  const problems: string[] = [];
+  const lower = password.toLowerCase();
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    problems.push(`Use at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    problems.push(`Use at most ${PASSWORD_MAX_LENGTH} characters`);
+  }
+  if (!LETTER.test(password) || !NOT_LETTER.test(password)) {
+    problems.push('Mix letters with at least one number or symbol');
+  }
+  if (username?.trim() && lower.includes(username.trim().toLowerCase())) {
+    problems.push("Don't include your username");
+  }
+  if (COMMON_PASSWORDS.has(lower) || /^(.)\1+$/.test(password)) {
+    problems.push('This password is too easy to guess');
+  }
+  return problems;
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+
+// Published issues organise content as sections of field guide entries. A
+// draft is turned into this shape at publish time, normally by the model
+// (see the publish preview route) and reviewed by the editor before commit.
+
+export const issueEntrySchema = z.object({
+  pattern: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  signals: z.array(z.string().trim().min(1)).min(1),
+  protocol: z.string().trim().min(1)
+});
+
+export const issueSectionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  icon: z.string(),
+  color: z.string(),
+  entries: z.array(issueEntrySchema)
+});
+
+export type IssueEntry = z.infer<typeof issueEntrySchema>;
+export type IssueSection = z.infer<typeof issueSectionSchema>;
+
+// Where the entries in a publish preview came from
+export type PublishPreviewSource = 'ai' | 'heuristic';
+
+export interface DraftSection {
+  id: string;
+  title: string;
+  content: string;
+  level: number;
+  children?: DraftSection[];
+}
+
+const ICON_OPTIONS = ['circle', 'square', 'triangle', 'shield', 'zap', 'battery', 'trending-up'];
+const COLOR_OPTIONS = ['cyan', 'purple', 'green', 'yellow'];
+
+// Top-level draft sections become issue sections; icons and colors rotate
+export function issueSectionShells(draftSections: DraftSection[]): IssueSection[] {
+  return draftSections
+    .filter(section => section.level === 1)
+    .map((section, index) => ({
+      id: section.id,
+      title: section.title,
+      icon: ICON_OPTIONS[index % ICON_OPTIONS.length],
+      color: COLOR_OPTIONS[index % COLOR_OPTIONS.length],
+      entries: []
+    }));
+}
+
+// Offline fallback for when the model is unavailable: the section's own
+// content and each child become entries, with signals and protocol guessed
+// from keywords
+export function heuristicSectionEntries(section: DraftSection): IssueEntry[] {
+  const entries: IssueEntry[] = [];
+
+  if (section.content.trim()) {
+    entries.push({
+      pattern: section.title,
+      description: section.content,
+      signals: extractSignals(section.content),
+      protocol: extractProtocol(section.content)
+    });
+  }
+
+  section.children?.forEach(child => {
+    entries.push({
+      pattern: child.title,
+      description: child.content || 'No description provided',
+      signals: extractSignals(child.content || ''),
+      protocol: extractProtocol(child.content || '')
+    });
+  });
+
+  return entries;
+}
+
+export function convertDraftToIssueFormat(draftSections: DraftSection[]): IssueSection[] {
+  const byId = new Map(draftSections.map(section => [section.id, section]));
+  return issueSectionShells(draftSections).map(shell => ({
+    ...shell,
+    entries: heuristicSectionEntries(byId.get(shell.id)!)
+  }));
+}
+
+function extractSignals(content: string): string[] {
+  const signalKeywords = ['when', 'if', 'warning', 'alert', 'issue', 'problem', 'symptom'];
+  const sentences = content.split('.').map(s => s.trim()).filter(s => s.length > 0);
+
+  const signals = sentences.filter(sentence =>
+    signalKeywords.some(keyword =>
+      sentence.toLowerCase().includes(keyword)
+    )
+  ).slice(0, 3); // Limit to 3 signals
+
+  return signals.length > 0 ? signals : ['Implementation needed', 'System complexity', 'Performance considerations'];
+}
+
+function extractProtocol(content: string): string {
+  const protocolKeywords = ['step', 'first', 'then', 'finally', 'process', 'method', 'approach'];
+  const sentences = content.split('.').map(s => s.trim()).filter(s => s.length > 0);
+
+  const protocolSentences = sentences.filter(sentence =>
+    protocolKeywords.some(keyword =>
+      sentence.toLowerCase().includes(keyword)
+    )
+  );
+
+  if (protocolSentences.length > 0) {
+    return protocolSentences.join(' → ');
+  }
+
+  return '1. Analyze requirements 2. Design solution 3. Implement changes 4. Test and validate';
+}
@@ -1,13 +1,23 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, index, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, jsonb, index, uniqueIndex, boolean, integer, customType, vector, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { jsonPatchSchema } from "./jsonPatch";
+import { conflictResolutionsSchema } from "./merge";
+import { ISSUE_STATUSES } from "./issueWorkflow";
+import { commentAnchorSchema } from "./comments";
+import { passwordProblems } from "./passwordPolicy";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
+  // scrypt hash (see server/passwords.ts); older rows hold the plaintext
+  // until the user's next sign-in
   password: text("password").notNull(),
   isAdmin: boolean("is_admin").notNull().default(false),
+  // Wrong passwords since the last sign-in; enough of them lock the account
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -20,7 +30,17 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
-// Search index for patterns and content
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Size of the sentence embeddings stored with patterns (see server/embeddings.ts)
+export const EMBEDDING_DIMENSIONS = 384;
+
+// Search index for patterns and content. The embedding column needs the
+// pgvector extension (`CREATE EXTENSION IF NOT EXISTS vector`) before db:push.
 export const searchIndex = pgTable("search_index", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   issueSlug: text("issue_slug").notNull(),
@@ -28,13 +48,24 @@ export const searchIndex = pgTable("search_index", {
   patternName: text("pattern_name").notNull(),
   content: text("content").notNull(),
   contentType: text("content_type").notNull(), // 'pattern', 'description', 'signal', 'protocol'
-  searchVector: text("search_vector"),
+  // Weighted by what matched: pattern name A, signals B, descriptions and
+  // protocols C, issue metadata D
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`
+    setweight(to_tsvector('english', coalesce(pattern_name, '')), 'A') ||
+    setweight(to_tsvector('english', CASE WHEN content_type = 'signal' THEN content ELSE '' END), 'B') ||
+    setweight(to_tsvector('english', CASE WHEN content_type IN ('description', 'protocol') THEN content ELSE '' END), 'C') ||
+    setweight(to_tsvector('english', CASE WHEN content_type = 'issue' THEN content ELSE '' END), 'D')
+  `),
+  // What the whole pattern is about, set on its description entry only
+  embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }),
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   issueSlugIdx: index("search_index_issue_slug_idx").on(table.issueSlug),
   contentTypeIdx: index("search_index_content_type_idx").on(table.contentType),
   patternNameIdx: index("search_index_pattern_name_idx").on(table.patternName),
+  searchVectorIdx: index("search_index_search_vector_idx").using("gin", table.searchVector),
+  embeddingIdx: index("search_index_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
 }));
 
 // User bookmarks
@@ -52,6 +83,63 @@ export const bookmarks = pgTable("bookmarks", {
   issueSlugIdx: index("bookmarks_issue_slug_idx").on(table.issueSlug),
 }));
 
+// Sections a reader has read in each issue
+export const readingProgress = pgTable("reading_progress", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  issueSlug: text("issue_slug").notNull(),
+  sectionIds: jsonb("section_ids").notNull(), // JSON array of section ids
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIssueIdx: uniqueIndex("reading_progress_user_issue_idx").on(table.userId, table.issueSlug),
+}));
+
+// A reader's conversation with the assistant about an issue
+export const readerChats = pgTable("reader_chats", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  issueSlug: text("issue_slug").notNull(),
+  messages: jsonb("messages").notNull(), // JSON array of { role, content, references }
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIssueIdx: uniqueIndex("reader_chats_user_issue_idx").on(table.userId, table.issueSlug),
+}));
+
+// Searches readers ran, for editors' search analytics. Anonymous: no user,
+// session or address is kept, and the query is normalized (see
+// server/searchAnalytics.ts). Only first pages are logged.
+export const searchLogs = pgTable("search_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  query: text("query").notNull(),
+  mode: text("mode").notNull(), // 'keyword', 'hybrid'
+  filters: jsonb("filters"), // { issueSlug, sectionId, contentType } when set
+  resultCount: integer("result_count").notNull(),
+  // Patterns on the first page: [{ issueSlug, sectionId, patternName }]
+  results: jsonb("results").notNull(),
+  // When the reader settled on this search by opening a result, pressing
+  // Enter or closing search. Searches typed past are never settled.
+  settledAt: timestamp("settled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  queryIdx: index("search_logs_query_idx").on(table.query),
+  createdAtIdx: index("search_logs_created_at_idx").on(table.createdAt),
+}));
+
+// Results readers opened from a search
+export const searchClicks = pgTable("search_clicks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  searchId: varchar("search_id").notNull().references(() => searchLogs.id, { onDelete: "cascade" }),
+  issueSlug: text("issue_slug").notNull(),
+  sectionId: text("section_id").notNull(),
+  patternName: text("pattern_name").notNull(),
+  // Zero-based rank of the result in the search's results
+  position: integer("position").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  searchIdIdx: index("search_clicks_search_id_idx").on(table.searchId),
+  patternIdx: index("search_clicks_pattern_idx").on(table.issueSlug, table.sectionId, table.patternName),
+}));
+
 export const insertSearchIndexSchema = createInsertSchema(searchIndex).omit({
   id: true,
   createdAt: true,
@@ -74,6 +162,16 @@ export const adminSessions = pgTable("admin_sessions", {
   tokenIdx: index("admin_sessions_token_idx").on(table.token),
 }));
 
+// Cookie sessions of signed-in readers, in the layout connect-pg-simple
+// expects (see server/readerAuth.ts)
+export const readerSessions = pgTable("reader_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("reader_sessions_expire_idx").on(table.expire),
+}));
+
 // Issues table for storing zine content
 export const issues = pgTable("issues", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -85,14 +183,58 @@ export const issues = pgTable("issues", {
   intro: text("intro"),
   sections: jsonb("sections").notNull(), // JSON array of sections
   metadata: jsonb("metadata"),
+  // Editorial workflow state (see shared/issueWorkflow.ts). Issues from before
+  // the workflow were all public, so existing rows default to published.
+  status: text("status").notNull().default('published'), // 'draft', 'in_review', 'approved', 'published', 'archived'
+  reviewerId: varchar("reviewer_id").references(() => users.id, { onDelete: "set null" }),
   publishedAt: timestamp("published_at"),
+  // What readers see while changes to a published issue go back through
+  // review: its approved content, status and release date. Cleared when the
+  // issue is published again.
+  liveContent: jsonb("live_content"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
   slugIdx: index("issues_slug_idx").on(table.slug),
+  statusIdx: index("issues_status_idx").on(table.status),
   publishedAtIdx: index("issues_published_at_idx").on(table.publishedAt),
 }));
 
+// Superseded content of an issue. Republishing a workspace onto an existing
+// slug moves the issue's previous content here before replacing it.
+export const issueVersions = pgTable("issue_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  issueId: varchar("issue_id").notNull().references(() => issues.id, { onDelete: "cascade" }),
+  version: text("version").notNull(),
+  title: text("title").notNull(),
+  subtitle: text("subtitle"),
+  tagline: text("tagline"),
+  intro: text("intro"),
+  sections: jsonb("sections").notNull(),
+  metadata: jsonb("metadata"),
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(), // when it was superseded
+}, (table) => ({
+  issueIdIdx: index("issue_versions_issue_id_idx").on(table.issueId),
+  issueVersionIdx: uniqueIndex("issue_versions_issue_version_idx").on(table.issueId, table.version),
+}));
+
+// Audit trail of an issue: a snapshot of its content after every write.
+// Numbers are sequential per issue; rollbacks add a new revision.
+export const issueRevisions = pgTable("issue_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  issueId: varchar("issue_id").notNull().references(() => issues.id, { onDelete: "cascade" }),
+  number: integer("number").notNull(),
+  changeType: text("change_type").notNull(), // 'baseline', 'create', 'edit', 'publish', 'rollback', 'status'
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  restoredFrom: integer("restored_from"), // revision a rollback restored
+  content: jsonb("content").notNull(), // title, subtitle, version, tagline, intro, sections, status
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  issueIdIdx: index("issue_revisions_issue_id_idx").on(table.issueId),
+  issueNumberIdx: uniqueIndex("issue_revisions_issue_number_idx").on(table.issueId, table.number),
+}));
+
 // Content import history
 export const contentImports = pgTable("content_imports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -126,20 +268,26 @@ export const workspaces = pgTable("workspaces", {
   statusIdx: index("workspaces_status_idx").on(table.status),
 }));
 
-// Drafts table for evolving content within workspaces
+// Drafts table for evolving content within workspaces. Each draft is a named
+// branch; every workspace has a "main" branch and may fork others from it.
 export const drafts = pgTable("drafts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  branchName: text("branch_name").notNull().default('main'),
+  parentBranch: text("parent_branch"), // branch this one was forked from
+  baseRevision: integer("base_revision"), // parent revision it was forked from or last merged into
   content: jsonb("content").notNull(),
   outline: jsonb("outline").notNull(),
-  currentRevision: integer("current_revision").notNull().default(1),
+  currentRevision: integer("current_revision").notNull().default(1), // head revision of the branch
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
   workspaceIdIdx: index("drafts_workspace_id_idx").on(table.workspaceId),
+  workspaceBranchIdx: uniqueIndex("drafts_workspace_branch_idx").on(table.workspaceId, table.branchName),
 }));
 
-// Revisions table for tracking content changes
+// Revisions table for tracking content changes. Numbers are unique per
+// workspace across branches; draftId records the branch a revision is on.
 export const revisions = pgTable("revisions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
@@ -151,6 +299,7 @@ export const revisions = pgTable("revisions", {
 }, (table) => ({
   workspaceIdIdx: index("revisions_workspace_id_idx").on(table.workspaceId),
   draftIdIdx: index("revisions_draft_id_idx").on(table.draftId),
+  workspaceNumberIdx: uniqueIndex("revisions_workspace_number_idx").on(table.workspaceId, table.number),
 }));
 
 // Messages table for workspace conversations
@@ -172,6 +321,7 @@ export const suggestions = pgTable("suggestions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   draftId: varchar("draft_id").notNull().references(() => drafts.id, { onDelete: "cascade" }),
+  baseRevision: integer("base_revision"), // draft revision the diff was generated against
   sectionPath: text("section_path"),
   diff: jsonb("diff").notNull(),
   rationale: text("rationale").notNull(),
@@ -184,17 +334,60 @@ export const suggestions = pgTable("suggestions", {
 }));
 
 // Activities table for workspace event tracking
+// Activities belong to a workspace, an issue or both. Comments on issues that
+// weren't published from a workspace log issue-only activities.
 export const activities = pgTable("activities", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
+  issueSlug: text("issue_slug"),
   type: text("type").notNull(), // 'message_sent', 'suggestion_applied', 'revision_created', etc.
   payload: jsonb("payload").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   workspaceIdIdx: index("activities_workspace_id_idx").on(table.workspaceId),
+  issueSlugIdx: index("activities_issue_slug_idx").on(table.issueSlug),
   typeIdx: index("activities_type_idx").on(table.type),
 }));
 
+// Comments on an issue or a workspace draft, anchored as described in
+// shared/comments.ts. Entries have no ids, so a pattern is addressed by its
+// section id and name. Replies belong to a top-level comment, which carries
+// the thread's anchor and resolved state.
+export const comments = pgTable("comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  issueSlug: text("issue_slug"),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
+  sectionId: text("section_id"),
+  pattern: text("pattern"),
+  field: text("field"), // 'title', 'content', 'description', 'signals[2]', ...
+  parentId: varchar("parent_id").references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  body: text("body").notNull(),
+  mentions: jsonb("mentions").notNull(), // ids of users mentioned with @username
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  issueSlugIdx: index("comments_issue_slug_idx").on(table.issueSlug),
+  workspaceIdIdx: index("comments_workspace_id_idx").on(table.workspaceId),
+  parentIdIdx: index("comments_parent_id_idx").on(table.parentId),
+}));
+
+// Pattern comments from the first review workflow, before `comments`.
+// Declared so db:push keeps the table until server/commentMigration.ts has
+// copied its rows into `comments`; nothing else reads or writes it.
+export const issueReviewComments = pgTable("issue_review_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  issueId: varchar("issue_id").notNull().references(() => issues.id, { onDelete: "cascade" }),
+  sectionId: text("section_id").notNull(),
+  pattern: text("pattern").notNull(),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  issueIdIdx: index("issue_review_comments_issue_id_idx").on(table.issueId),
+}));
+
 // Workspace resources table for file uploads and text resources
 export const workspaceResources = pgTable("workspace_resources", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -222,6 +415,16 @@ export const insertIssueSchema = createInsertSchema(issues).omit({
   updatedAt: true,
 });
 
+export const insertIssueVersionSchema = createInsertSchema(issueVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertIssueRevisionSchema = createInsertSchema(issueRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertContentImportSchema = createInsertSchema(contentImports).omit({
   id: true,
   createdAt: true,
@@ -254,6 +457,172 @@ export const insertSuggestionSchema = createInsertSchema(suggestions).omit({
   createdAt: true,
 });
 
+// Diff stored on a suggestion: a JSON Patch against the draft outline, e.g.
+// [{ op: "replace", path: "/sections/0/content", value: "..." }], plus a
+// human-readable summary for review.
+export const suggestionDiffSchema = z.object({
+  patch: jsonPatchSchema.min(1),
+  section: z.string().optional(),
+  removed: z.string().optional(),
+  added: z.string().optional(),
+});
+
+// Batch review of suggestions: `apply` is applied in order into a single
+// revision, `resolutions` holds merge conflict resolutions per suggestion id
+export const suggestionBatchSchema = z.object({
+  apply: z.array(z.string()).default([]),
+  reject: z.array(z.string()).default([]),
+  resolutions: z.record(z.string(), conflictResolutionsSchema).default({}),
+}).refine(batch => batch.apply.length + batch.reject.length > 0, {
+  message: 'Select at least one suggestion',
+}).refine(batch => new Set([...batch.apply, ...batch.reject]).size === batch.apply.length + batch.reject.length, {
+  message: 'A suggestion can only appear once in a batch',
+});
+
+export const branchNameSchema = z.string()
+  .trim()
+  .min(1)
+  .max(50)
+  .regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Use letters, numbers, "-" and "_"');
+
+export const forkBranchSchema = z.object({
+  name: branchNameSchema,
+  fromBranch: branchNameSchema.default('main'),
+  // Fork from this revision instead of the source branch's current state
+  fromRevision: z.number().int().positive().optional(),
+});
+
+export const mergeBranchSchema = z.object({
+  into: branchNameSchema.optional(),
+  resolutions: conflictResolutionsSchema.default({}),
+});
+
+export const issueStatusChangeSchema = z.object({
+  status: z.enum(ISSUE_STATUSES),
+  // Required when submitting for review
+  reviewerId: z.string().optional(),
+  // Release time when publishing; defaults to now, or a date already scheduled
+  publishedAt: z.coerce.date().optional(),
+  updatedAt: z.string().optional(),
+});
+
+// Reader usernames are shown to editors, so keep them plain
+export const readerSignupSchema = z.object({
+  username: z.string().trim().min(3).max(50).regex(/^[A-Za-z0-9_.-]+$/, 'Use letters, numbers, dots, dashes and underscores'),
+  password: z.string(),
+}).superRefine(({ username, password }, ctx) => {
+  passwordProblems(password, username).forEach(message => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['password'], message });
+  });
+});
+
+export const readerLoginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(1),
+});
+
+export const adminUsernameSchema = z.string().trim().min(3).max(50).regex(/^[A-Za-z0-9_.-]+$/, 'Use letters, numbers, dots, dashes and underscores');
+
+// Creating the first admin with the setup token printed at startup
+export const adminBootstrapSchema = z.object({
+  username: adminUsernameSchema,
+  password: z.string().min(1),
+  token: z.string().min(1),
+});
+
+export const readerChatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.string().max(20000),
+  references: z.array(z.string()).optional(),
+});
+
+export const readerChatSchema = z.object({
+  messages: z.array(readerChatMessageSchema).max(500),
+});
+
+export const readingProgressSchema = z.object({
+  sectionIds: z.array(z.string().min(1)).max(200),
+});
+
+// Most bookmarks a visitor keeps in the browser before signing in
+export const MAX_VISITOR_BOOKMARKS = 200;
+
+export const readerBookmarkSchema = z.object({
+  issueSlug: z.string().min(1),
+  sectionId: z.string().min(1).nullish(),
+  patternName: z.string().min(1).nullish(),
+  bookmarkType: z.enum(['issue', 'section', 'pattern']),
+  notes: z.string().max(5000).nullish(),
+  // When a visitor saved it, for bookmarks moved in from the browser
+  createdAt: z.coerce.date().optional(),
+});
+
+// Bookmarks a visitor kept in localStorage, to look up their titles
+export const bookmarkDescribeSchema = z.object({
+  bookmarks: z.array(readerBookmarkSchema).max(MAX_VISITOR_BOOKMARKS),
+});
+
+// What an anonymous visitor kept in localStorage, moved into their account
+// on first sign-in. Keyed by issue slug.
+export const readerImportSchema = z.object({
+  bookmarks: z.array(readerBookmarkSchema).max(MAX_VISITOR_BOOKMARKS).default([]),
+  chats: z.record(z.array(readerChatMessageSchema).max(500)).default({}),
+  progress: z.record(z.array(z.string().min(1)).max(200)).default({}),
+});
+
+export const searchRequestSchema = z.object({
+  // Query syntax is in shared/searchQuery.ts
+  query: z.string().trim().min(1, 'Query is required'),
+  issueSlug: z.string().optional(),
+  sectionId: z.string().optional(),
+  contentType: z.string().optional(),
+  mode: z.enum(['keyword', 'hybrid']).default('keyword'),
+  limit: z.number().int().min(1).max(100).default(20),
+  // From the previous page's nextCursor
+  cursor: z.string().optional(),
+});
+
+export const searchSettleSchema = z.object({
+  searchId: z.string().min(1),
+});
+
+// Query string of /api/search/related
+export const relatedPatternsRequestSchema = z.object({
+  issueSlug: z.string().min(1),
+  sectionId: z.string().min(1),
+  pattern: z.string().min(1),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+export const searchClickSchema = z.object({
+  searchId: z.string().min(1),
+  issueSlug: z.string().min(1),
+  sectionId: z.string().min(1),
+  patternName: z.string().min(1),
+  position: z.number().int().min(0),
+});
+
+const commentBodySchema = z.string().trim().min(1).max(5000);
+
+export const newCommentSchema = z.object({
+  anchor: commentAnchorSchema,
+  body: commentBodySchema,
+});
+
+export const commentReplySchema = z.object({
+  body: commentBodySchema,
+});
+
+export const insertCommentSchema = createInsertSchema(comments).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertActivitySchema = createInsertSchema(activities).omit({
   id: true,
   createdAt: true,
@@ -266,12 +635,19 @@ export const insertWorkspaceResourceSchema = createInsertSchema(workspaceResourc
 
 export type InsertSearchIndex = z.infer<typeof insertSearchIndexSchema>;
 export type SearchIndex = typeof searchIndex.$inferSelect;
+export type SearchLog = typeof searchLogs.$inferSelect;
 export type InsertBookmark = z.infer<typeof insertBookmarkSchema>;
 export type Bookmark = typeof bookmarks.$inferSelect;
+export type ReadingProgress = typeof readingProgress.$inferSelect;
+export type ReaderChat = typeof readerChats.$inferSelect;
 export type InsertAdminSession = z.infer<typeof insertAdminSessionSchema>;
 export type AdminSession = typeof adminSessions.$inferSelect;
 export type InsertIssue = z.infer<typeof insertIssueSchema>;
 export type Issue = typeof issues.$inferSelect;
+export type InsertIssueVersion = z.infer<typeof insertIssueVersionSchema>;
+export type IssueVersion = typeof issueVersions.$inferSelect;
+export type InsertIssueRevision = z.infer<typeof insertIssueRevisionSchema>;
+export type IssueRevision = typeof issueRevisions.$inferSelect;
 export type InsertContentImport = z.infer<typeof insertContentImportSchema>;
 export type ContentImport = typeof contentImports.$inferSelect;
 export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
@@ -284,6 +660,23 @@ export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertSuggestion = z.infer<typeof insertSuggestionSchema>;
 export type Suggestion = typeof suggestions.$inferSelect;
+export type SuggestionDiff = z.infer<typeof suggestionDiffSchema>;
+export type SuggestionBatch = z.infer<typeof suggestionBatchSchema>;
+export type ForkBranch = z.infer<typeof forkBranchSchema>;
+export type MergeBranch = z.infer<typeof mergeBranchSchema>;
+export type IssueStatusChange = z.infer<typeof issueStatusChangeSchema>;
+export type SearchRequest = z.infer<typeof searchRequestSchema>;
+export type SearchClick = z.infer<typeof searchClickSchema>;
+export type RelatedPatternsRequest = z.infer<typeof relatedPatternsRequestSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+export type AdminBootstrap = z.infer<typeof adminBootstrapSchema>;
+export type ReaderChatMessage = z.infer<typeof readerChatMessageSchema>;
+export type ReaderBookmark = z.infer<typeof readerBookmarkSchema>;
+export type ReaderImport = z.infer<typeof readerImportSchema>;
+export type NewComment = z.infer<typeof newCommentSchema>;
+export type CommentReply = z.infer<typeof commentReplySchema>;
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type Comment = typeof comments.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 export type Activity = typeof activities.$inferSelect;
 export type InsertWorkspaceResource = z.infer<typeof insertWorkspaceResourceSchema>;
@@ -0,0 +1,78 @@
+// Query language for pattern search. Words and "quoted phrases" must all
+// match; `a OR b` matches either; a leading `-` excludes matches; and
+// `field:` scopes a term to one part of an issue:
+//
+//   burnout "energy budget" signal:fatigue -protocol:rest issue:foundation
+//   (calendar OR schedule) section:"time"
+//
+// OR binds tighter than the implicit AND between terms. Parentheses are
+// accepted for readability but don't nest.
+
+export const SEARCH_FIELDS = ['signal', 'protocol', 'section', 'issue'] as const;
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+export interface SearchClause {
+  text: string;
+  phrase: boolean;
+  negated: boolean;
+  field?: SearchField;
+}
+
+export interface ParsedSearchQuery {
+  // Every group must match; a group matches when any of its clauses does
+  groups: SearchClause[][];
+}
+
+const TOKEN_PATTERN = /\(*(-?)\(*(?:([A-Za-z]+):)?(?:"([^"]*)"?|([^\s"]+))/g;
+
+function isSearchField(value: string): value is SearchField {
+  return (SEARCH_FIELDS as readonly string[]).includes(value);
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const groups: SearchClause[][] = [];
+  let joinNext = false;
+
+  for (const match of Array.from(input.matchAll(TOKEN_PATTERN))) {
+    const [, minus, prefix, quoted, bare] = match;
+    const phrase = quoted !== undefined;
+
+    if (!phrase && !minus && !prefix && bare === 'OR') {
+      joinNext = groups.length > 0;
+      continue;
+    }
+
+    // Unknown prefixes, such as the scheme of a URL, are part of the text
+    const field = prefix && isSearchField(prefix.toLowerCase()) ? prefix.toLowerCase() as SearchField : undefined;
+    let text = phrase ? quoted : bare.replace(/\)+$/, '');
+    if (prefix && !field) text = `${prefix}:${text}`;
+    text = text.trim();
+    if (!text) continue;
+
+    const clause: SearchClause = { text, phrase, negated: !!minus, ...(field && { field }) };
+    if (joinNext) {
+      groups[groups.length - 1].push(clause);
+    } else {
+      groups.push([clause]);
+    }
+    joinNext = false;
+  }
+
+  return { groups };
+}
+
+export function formatSearchClause(clause: SearchClause): string {
+  const text = clause.phrase || /\s/.test(clause.text) ? `"${clause.text}"` : clause.text;
+  return `${clause.negated ? '-' : ''}${clause.field ? `${clause.field}:` : ''}${text}`;
+}
+
+export function formatSearchQuery(query: ParsedSearchQuery): string {
+  return query.groups
+    .map(group => group.map(formatSearchClause).join(' OR '))
+    .join(' ');
+}
+
+// A query needs something to match, not only things to exclude
+export function hasSearchTerms(query: ParsedSearchQuery): boolean {
+  return query.groups.some(group => group.some(clause => !clause.negated));
+}